@@ -3,15 +3,38 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts/AuthContext';
 import { ProtectedRoute } from './components/ui/ProtectedRoute';
+import { STUDENT_VIEW_PERMISSIONS } from './lib/permissions';
 import { Login } from './components/auth/Login';
 import { Register } from './components/auth/Register';
+import { ForgotPassword } from './components/auth/ForgotPassword';
+import { ResetPassword } from './components/auth/ResetPassword';
+import { AccountSettings } from './components/settings/AccountSettings';
 import { StudentDashboard } from './components/student/Dashboard';
 import { SubjectView } from './components/student/SubjectView';
 import { SectionView } from './components/student/SectionView';
+import { AttemptReview } from './components/student/AttemptReview';
+import { RevisionSession } from './components/student/RevisionSession';
+import { PracticeTestBuilder } from './components/student/PracticeTestBuilder';
+import { PracticeTestView } from './components/student/PracticeTestView';
+import { MockTestList } from './components/student/MockTestList';
+import { MockTestView } from './components/student/MockTestView';
+import { PyqBrowser } from './components/student/PyqBrowser';
+import { SyllabusCoverage } from './components/student/SyllabusCoverage';
 import { AdminDashboard } from './components/admin/AdminDashboard';
 import { SubjectManagement } from './components/admin/SubjectManagement';
 import { ModuleManagement } from './components/admin/ModuleManagement';
 import { QuestionManagement } from './components/admin/QuestionManagement';
+import { EvaluationQueue } from './components/admin/EvaluationQueue';
+import { AnswerEvaluation } from './components/admin/AnswerEvaluation';
+import { StudentList } from './components/admin/StudentList';
+import { StudentDetail } from './components/admin/StudentDetail';
+import { BatchManagement } from './components/admin/BatchManagement';
+import { BatchDetail } from './components/admin/BatchDetail';
+import { AdminInvites } from './components/admin/AdminInvites';
+import { StaffManagement } from './components/admin/StaffManagement';
+import { MockTestManagement } from './components/admin/MockTestManagement';
+import { MockTestDetail } from './components/admin/MockTestDetail';
+import { SyllabusManagement } from './components/admin/SyllabusManagement';
 
 function App() {
   return (
@@ -21,6 +44,8 @@ function App() {
           <Routes>
             <Route path="/login" element={<Login />} />
             <Route path="/register" element={<Register />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
             
             {/* Student Routes */}
             <Route 
@@ -47,12 +72,76 @@ function App() {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/subjects/:subjectId/modules/:moduleId/sections/:sectionId/attempts/:attemptId" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <AttemptReview />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/revise" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <RevisionSession />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/practice" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <PracticeTestBuilder />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/practice/:practiceTestId" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <PracticeTestView />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/mock-tests" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <MockTestList />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/mock-tests/:mockTestId" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <MockTestView />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/pyqs" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <PyqBrowser />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/syllabus" 
+              element={
+                <ProtectedRoute requireStudent>
+                  <SyllabusCoverage />
+                </ProtectedRoute>
+              } 
+            />
             
             {/* Admin Routes */}
             <Route 
               path="/admin" 
               element={
-                <ProtectedRoute requireAdmin>
+                <ProtectedRoute requireStaff>
                   <AdminDashboard />
                 </ProtectedRoute>
               } 
@@ -60,7 +149,7 @@ function App() {
             <Route 
               path="/admin/subjects" 
               element={
-                <ProtectedRoute requireAdmin>
+                <ProtectedRoute requirePermission="manage_content">
                   <SubjectManagement />
                 </ProtectedRoute>
               } 
@@ -68,7 +157,7 @@ function App() {
             <Route 
               path="/admin/subjects/:subjectId" 
               element={
-                <ProtectedRoute requireAdmin>
+                <ProtectedRoute requirePermission="manage_content">
                   <ModuleManagement />
                 </ProtectedRoute>
               } 
@@ -76,11 +165,107 @@ function App() {
             <Route 
               path="/admin/subjects/:subjectId/modules/:moduleId/sections/:sectionId/questions" 
               element={
-                <ProtectedRoute requireAdmin>
+                <ProtectedRoute requirePermission="manage_content">
                   <QuestionManagement />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/evaluations" 
+              element={
+                <ProtectedRoute requirePermission="evaluate_answers">
+                  <EvaluationQueue />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/evaluations/:submissionId" 
+              element={
+                <ProtectedRoute requirePermission="evaluate_answers">
+                  <AnswerEvaluation />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/syllabus" 
+              element={
+                <ProtectedRoute requirePermission="manage_content">
+                  <SyllabusManagement />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/mock-tests" 
+              element={
+                <ProtectedRoute requirePermission="manage_content">
+                  <MockTestManagement />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/mock-tests/:mockTestId" 
+              element={
+                <ProtectedRoute requirePermission="manage_content">
+                  <MockTestDetail />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/students" 
+              element={
+                <ProtectedRoute requirePermission={STUDENT_VIEW_PERMISSIONS}>
+                  <StudentList />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/students/:studentId" 
+              element={
+                <ProtectedRoute requirePermission={STUDENT_VIEW_PERMISSIONS}>
+                  <StudentDetail />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/batches" 
+              element={
+                <ProtectedRoute requirePermission="manage_batches">
+                  <BatchManagement />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/batches/:batchId" 
+              element={
+                <ProtectedRoute requirePermission="manage_batches">
+                  <BatchDetail />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/invites" 
+              element={
+                <ProtectedRoute requirePermission="manage_staff">
+                  <AdminInvites />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/staff" 
+              element={
+                <ProtectedRoute requirePermission="manage_staff">
+                  <StaffManagement />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/settings" 
+              element={
+                <ProtectedRoute>
+                  <AccountSettings />
+                </ProtectedRoute>
+              } 
+            />
             
             {/* Default redirect */}
             <Route path="/" element={<Navigate to="/login" replace />} />
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
 import { Layout } from '../ui/Layout';
+import { STUDENT_VIEW_PERMISSIONS } from '../../lib/permissions';
 import { BookOpen, Users, FileText, BarChart3 } from 'lucide-react';
 
 interface DashboardStats {
@@ -12,7 +14,7 @@ interface DashboardStats {
 }
 
 export function AdminDashboard() {
-  const { profile } = useAuth();
+  const { profile, can } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({
     totalSubjects: 0,
     totalModules: 0,
@@ -154,11 +156,16 @@ export function AdminDashboard() {
                 <p className="text-xs text-gray-500">Create modules and sections</p>
               </button>
               
-              <button className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left">
-                <BarChart3 className="h-8 w-8 text-purple-600 mb-2" />
-                <h3 className="text-sm font-medium text-gray-900">View Analytics</h3>
-                <p className="text-xs text-gray-500">Track student progress</p>
-              </button>
+              {can(STUDENT_VIEW_PERMISSIONS) && (
+                <Link
+                  to="/admin/students"
+                  className="block p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left"
+                >
+                  <BarChart3 className="h-8 w-8 text-purple-600 mb-2" />
+                  <h3 className="text-sm font-medium text-gray-900">View Analytics</h3>
+                  <p className="text-xs text-gray-500">Track student progress</p>
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { formatDateTime } from '../../lib/format';
+import { StaffRole, STAFF_ROLES, ROLE_LABELS } from '../../lib/permissions';
+import { Copy, ShieldPlus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AdminInvite {
+  id: string;
+  email: string;
+  role: StaffRole;
+  token: string;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+  inviter: { full_name: string | null; email: string } | null;
+}
+
+function inviteLink(token: string) {
+  return `${window.location.origin}/register?invite=${token}`;
+}
+
+function getInviteStatus(invite: AdminInvite) {
+  if (invite.accepted_at) return { label: 'Accepted', className: 'bg-green-100 text-green-800' };
+  if (new Date(invite.expires_at) <= new Date()) return { label: 'Expired', className: 'bg-gray-100 text-gray-700' };
+  return { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' };
+}
+
+export function AdminInvites() {
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<StaffRole>('content_editor');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  const fetchInvites = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('admin_invites')
+        .select('id, email, role, token, expires_at, accepted_at, created_at, inviter:profiles!admin_invites_invited_by_fkey(full_name, email)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvites((data || []) as unknown as AdminInvite[]);
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+      toast.error('Failed to load invites');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(token));
+      toast.success('Invite link copied');
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      toast.error('Failed to copy invite link');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) {
+      toast.error('Email is required');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { data, error } = await supabase
+        .from('admin_invites')
+        .insert({ email: email.trim().toLowerCase(), role })
+        .select('token')
+        .single();
+
+      if (error) throw error;
+      setEmail('');
+      await copyLink(data.token);
+      fetchInvites();
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast.error('Failed to create invite');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: AdminInvite) => {
+    if (!confirm(`Revoke the invite for ${invite.email}? The link will stop working.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('admin_invites')
+        .delete()
+        .eq('id', invite.id);
+
+      if (error) throw error;
+      toast.success('Invite revoked');
+      fetchInvites();
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast.error('Failed to revoke invite');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Staff Invites</h1>
+          <p className="text-gray-600">New staff join through a single-use link sent to their email address</p>
+        </div>
+
+        {/* Create invite */}
+        <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-2">
+            Invite Staff
+          </label>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="email"
+              id="invite-email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="flex-1 border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="name@example.com"
+              required
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as StaffRole)}
+              className="border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {STAFF_ROLES.map((staffRole) => (
+                <option key={staffRole.value} value={staffRole.value}>{staffRole.label}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={creating}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50"
+            >
+              <ShieldPlus className="h-4 w-4 mr-2" />
+              Create Invite Link
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {STAFF_ROLES.find(staffRole => staffRole.value === role)?.description}. The link is copied to your clipboard and expires after 7 days. It only works for this email address.
+          </p>
+        </form>
+
+        {/* Invites */}
+        {invites.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Email</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Role</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Status</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Invited By</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Expires</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {invites.map((invite) => {
+                  const status = getInviteStatus(invite);
+
+                  return (
+                    <tr key={invite.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-medium text-gray-900">{invite.email}</td>
+                      <td className="px-4 py-3 text-gray-600">{ROLE_LABELS[invite.role]}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {invite.inviter ? invite.inviter.full_name || invite.inviter.email : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {invite.accepted_at ? `Accepted ${formatDateTime(invite.accepted_at)}` : formatDateTime(invite.expires_at)}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {status.label === 'Pending' && (
+                          <button
+                            onClick={() => copyLink(invite.token)}
+                            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full"
+                            title="Copy invite link"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </button>
+                        )}
+                        {!invite.accepted_at && (
+                          <button
+                            onClick={() => handleRevoke(invite)}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+                            title="Revoke invite"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <ShieldPlus className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">No invites yet</h3>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
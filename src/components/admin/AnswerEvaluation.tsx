@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { MarkdownContent } from '../ui/MarkdownContent';
+import { AnswerFileLink } from '../ui/AnswerFileLink';
+import { AnswerEvaluationSummary } from '../ui/AnswerEvaluationSummary';
+import {
+  ReviewSubmission,
+  RubricCriterion,
+  ANSWER_STATUS_LABELS,
+  ANSWER_STATUS_COLORS,
+  getRubricTotal
+} from '../../lib/answerSubmissions';
+import { formatDateTime } from '../../lib/format';
+import { formatMarks } from '../../lib/scoring';
+import { ArrowLeft } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface MainsSection {
+  id: string;
+  content: string | null;
+  word_limit: number | null;
+  rubric: RubricCriterion[];
+}
+
+export function AnswerEvaluation() {
+  const { submissionId } = useParams<{ submissionId: string }>();
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [submission, setSubmission] = useState<ReviewSubmission | null>(null);
+  const [section, setSection] = useState<MainsSection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [scores, setScores] = useState<string[]>([]);
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (submissionId) {
+      fetchSubmission();
+    }
+  }, [submissionId]);
+
+  const fetchSubmission = async () => {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_answer_submissions', { p_submission_id: submissionId })
+        .maybeSingle();
+
+      if (error) throw error;
+      const submissionData = data as ReviewSubmission | null;
+      setSubmission(submissionData);
+      if (!submissionData) return;
+
+      const { data: sectionData, error: sectionError } = await supabase
+        .from('sections')
+        .select('id, content, word_limit, rubric')
+        .eq('id', submissionData.section_id)
+        .single();
+
+      if (sectionError) throw sectionError;
+      setSection(sectionData);
+      setScores((sectionData.rubric as RubricCriterion[]).map(() => ''));
+    } catch (error) {
+      console.error('Error fetching submission:', error);
+      toast.error('Failed to load this answer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startReview = async () => {
+    if (!submission) return;
+
+    try {
+      // Only claim answers nobody else has picked up
+      const { error } = await supabase
+        .from('answer_submissions')
+        .update({ status: 'in_review', evaluated_by: profile?.id })
+        .eq('id', submission.id)
+        .eq('status', 'submitted');
+
+      if (error) throw error;
+      await fetchSubmission();
+    } catch (error) {
+      console.error('Error starting review:', error);
+      toast.error('Failed to start the review');
+    }
+  };
+
+  const handleReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!submission || !section) return;
+
+    const rubricScores = section.rubric.map((item, index) => ({
+      criterion: item.criterion,
+      score: Number(scores[index])
+    }));
+    const invalid = section.rubric.some((item, index) =>
+      scores[index] === '' || rubricScores[index].score < 0 || rubricScores[index].score > Number(item.max_marks)
+    );
+    if (invalid) {
+      toast.error('Give each criterion a mark between 0 and its maximum');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('evaluate_answer', {
+        p_submission_id: submission.id,
+        p_rubric_scores: rubricScores,
+        p_feedback: feedback
+      });
+
+      if (error) throw error;
+      toast.success('Evaluation returned to the student');
+      navigate('/admin/evaluations');
+    } catch (error) {
+      console.error('Error returning evaluation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to return the evaluation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!submission || !section) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Submission not found</h3>
+        </div>
+      </Layout>
+    );
+  }
+
+  const total = scores.reduce((sum, score) => sum + (Number(score) || 0), 0);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link
+            to="/admin/evaluations"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div className="flex-1">
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-gray-900">{submission.section_name}</h1>
+              <span className={`px-3 py-1 text-xs font-medium rounded-full ${ANSWER_STATUS_COLORS[submission.status]}`}>
+                {ANSWER_STATUS_LABELS[submission.status]}
+              </span>
+            </div>
+            <p className="text-gray-600">
+              {submission.student_name || submission.student_email} · {submission.subject_name} · {submission.module_name}
+            </p>
+          </div>
+        </div>
+
+        {/* Question */}
+        {section.content && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h2 className="text-sm font-medium text-gray-500 mb-3">Question</h2>
+            <MarkdownContent content={section.content} />
+          </div>
+        )}
+
+        {/* Answer */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-medium text-gray-500">Student's Answer</h2>
+            <span className="text-xs text-gray-500">
+              Submitted {formatDateTime(submission.submitted_at)}
+              {submission.answer_text && ` · ${submission.word_count}${section.word_limit !== null ? ` / ${section.word_limit}` : ''} words`}
+            </span>
+          </div>
+          {submission.answer_text && (
+            <div className="p-4 rounded-lg bg-gray-50 border border-gray-200 text-gray-800 whitespace-pre-wrap">
+              {submission.answer_text}
+            </div>
+          )}
+          {submission.file_path && <AnswerFileLink path={submission.file_path} name={submission.file_name} />}
+        </div>
+
+        {/* Evaluation */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Evaluation</h2>
+
+          {submission.status === 'returned' ? (
+            <>
+              <AnswerEvaluationSummary evaluation={submission} />
+              <p className="text-xs text-gray-500 mt-4">
+                Returned {submission.evaluated_at && formatDateTime(submission.evaluated_at)}
+                {submission.evaluator_name && ` by ${submission.evaluator_name}`}
+              </p>
+            </>
+          ) : submission.status === 'submitted' ? (
+            <div className="text-center py-4">
+              <p className="text-gray-600 mb-4">
+                Start the review so other mentors know this answer is being evaluated.
+              </p>
+              <button
+                onClick={startReview}
+                className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium"
+              >
+                Start Review
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleReturn} className="space-y-4">
+              {submission.evaluator_name && (
+                <p className="text-sm text-gray-500">Being evaluated by {submission.evaluator_name}</p>
+              )}
+
+              <div className="space-y-3">
+                {section.rubric.map((item, index) => (
+                  <div key={index} className="flex items-center justify-between space-x-4">
+                    <label htmlFor={`rubric-score-${index}`} className="text-sm text-gray-900">
+                      {item.criterion}
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="number"
+                        id={`rubric-score-${index}`}
+                        min={0}
+                        max={item.max_marks}
+                        step={0.25}
+                        value={scores[index] ?? ''}
+                        onChange={(e) => setScores(scores.map((score, i) => i === index ? e.target.value : score))}
+                        className="w-24 border border-gray-300 rounded-md shadow-sm px-3 py-2 text-right focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        required
+                      />
+                      <span className="text-sm text-gray-500 w-12">/ {formatMarks(item.max_marks)}</span>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between border-t border-gray-200 pt-3">
+                  <span className="text-sm font-medium text-gray-900">Total</span>
+                  <span className="text-sm font-medium text-gray-900">
+                    {formatMarks(total)} / {formatMarks(getRubricTotal(section.rubric))}
+                  </span>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="evaluation-feedback" className="block text-sm font-medium text-gray-700">
+                  Comments for the student
+                </label>
+                <textarea
+                  id="evaluation-feedback"
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                  rows={6}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="What worked, what was missing, and how to improve the next answer"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving || section.rubric.length === 0}
+                  className="px-6 py-3 bg-gradient-to-r from-green-600 to-green-700 text-white rounded-lg hover:from-green-700 hover:to-green-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Returning...' : 'Return to Student'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
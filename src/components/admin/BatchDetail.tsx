@@ -0,0 +1,405 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { formatDateTime } from '../../lib/format';
+import { ArrowLeft, UserPlus, Users, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Batch {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  batch_subjects: { subjects: { name: string } | null }[];
+}
+
+interface Student {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface Member {
+  joined_at: string;
+  profiles: Student;
+}
+
+export function BatchDetail() {
+  const { batchId } = useParams<{ batchId: string }>();
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [otherBatches, setOtherBatches] = useState<{ id: string; name: string }[]>([]);
+  const [selectedStudentId, setSelectedStudentId] = useState('');
+  const [mentors, setMentors] = useState<Student[]>([]);
+  const [assignedMentorIds, setAssignedMentorIds] = useState<string[]>([]);
+  const [selectedMentorId, setSelectedMentorId] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (batchId) {
+      fetchData();
+    }
+  }, [batchId]);
+
+  const fetchData = async () => {
+    try {
+      const { data: batchData, error: batchError } = await supabase
+        .from('batches')
+        .select('id, name, description, is_active, batch_subjects(subjects(name))')
+        .eq('id', batchId)
+        .single();
+
+      if (batchError) throw batchError;
+      setBatch(batchData as unknown as Batch);
+
+      const { data: membersData, error: membersError } = await supabase
+        .from('batch_members')
+        .select('joined_at, profiles(id, email, full_name)')
+        .eq('batch_id', batchId)
+        .order('joined_at');
+
+      if (membersError) throw membersError;
+      setMembers((membersData || []) as unknown as Member[]);
+
+      const { data: studentsData, error: studentsError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .eq('role', 'student')
+        .order('full_name');
+
+      if (studentsError) throw studentsError;
+      setStudents(studentsData || []);
+
+      const { data: mentorsData, error: mentorsError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .eq('role', 'mentor')
+        .order('full_name');
+
+      if (mentorsError) throw mentorsError;
+      setMentors(mentorsData || []);
+
+      const { data: assignmentsData, error: assignmentsError } = await supabase
+        .from('batch_mentors')
+        .select('mentor_id')
+        .eq('batch_id', batchId);
+
+      if (assignmentsError) throw assignmentsError;
+      setAssignedMentorIds((assignmentsData || []).map(row => row.mentor_id));
+
+      const { data: batchesData, error: batchesError } = await supabase
+        .from('batches')
+        .select('id, name')
+        .neq('id', batchId)
+        .order('created_at');
+
+      if (batchesError) throw batchesError;
+      setOtherBatches(batchesData || []);
+    } catch (error) {
+      console.error('Error fetching batch:', error);
+      toast.error('Failed to load batch');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddStudent = async () => {
+    if (!selectedStudentId) return;
+
+    try {
+      const { error } = await supabase
+        .from('batch_members')
+        .insert({ batch_id: batchId, user_id: selectedStudentId });
+
+      if (error) throw error;
+      toast.success('Student added to batch');
+      setSelectedStudentId('');
+      fetchData();
+    } catch (error) {
+      console.error('Error adding student:', error);
+      toast.error('Failed to add student');
+    }
+  };
+
+  const handleRemove = async (student: Student) => {
+    if (!confirm(`Remove ${student.full_name || student.email} from this batch?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('batch_members')
+        .delete()
+        .eq('batch_id', batchId)
+        .eq('user_id', student.id);
+
+      if (error) throw error;
+      toast.success('Student removed from batch');
+      fetchData();
+    } catch (error) {
+      console.error('Error removing student:', error);
+      toast.error('Failed to remove student');
+    }
+  };
+
+  const handleAddMentor = async () => {
+    if (!selectedMentorId) return;
+
+    try {
+      const { error } = await supabase
+        .from('batch_mentors')
+        .insert({ batch_id: batchId, mentor_id: selectedMentorId });
+
+      if (error) throw error;
+      toast.success('Mentor assigned');
+      setSelectedMentorId('');
+      fetchData();
+    } catch (error) {
+      console.error('Error assigning mentor:', error);
+      toast.error('Failed to assign mentor');
+    }
+  };
+
+  const handleRemoveMentor = async (mentorId: string) => {
+    try {
+      const { error } = await supabase
+        .from('batch_mentors')
+        .delete()
+        .eq('batch_id', batchId)
+        .eq('mentor_id', mentorId);
+
+      if (error) throw error;
+      toast.success('Mentor removed');
+      fetchData();
+    } catch (error) {
+      console.error('Error removing mentor:', error);
+      toast.error('Failed to remove mentor');
+    }
+  };
+
+  const handleMove = async (student: Student, targetBatchId: string) => {
+    try {
+      // Upsert so moving into a batch the student is already in just drops this membership
+      const { error: insertError } = await supabase
+        .from('batch_members')
+        .upsert({ batch_id: targetBatchId, user_id: student.id }, { onConflict: 'batch_id,user_id', ignoreDuplicates: true });
+
+      if (insertError) throw insertError;
+
+      const { error: deleteError } = await supabase
+        .from('batch_members')
+        .delete()
+        .eq('batch_id', batchId)
+        .eq('user_id', student.id);
+
+      if (deleteError) throw deleteError;
+      toast.success(`Moved to ${otherBatches.find(b => b.id === targetBatchId)?.name}`);
+      fetchData();
+    } catch (error) {
+      console.error('Error moving student:', error);
+      toast.error('Failed to move student');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Batch not found</h3>
+        </div>
+      </Layout>
+    );
+  }
+
+  const memberIds = new Set(members.map(member => member.profiles.id));
+  const availableStudents = students.filter(student => !memberIds.has(student.id));
+  const assignedMentors = mentors.filter(mentor => assignedMentorIds.includes(mentor.id));
+  const availableMentors = mentors.filter(mentor => !assignedMentorIds.includes(mentor.id));
+  const subjectNames = batch.batch_subjects
+    .map(assignment => assignment.subjects?.name)
+    .filter((name): name is string => !!name);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link
+            to="/admin/batches"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <div className="flex items-center space-x-2">
+              <h1 className="text-2xl font-bold text-gray-900">{batch.name}</h1>
+              {!batch.is_active && (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                  Inactive
+                </span>
+              )}
+            </div>
+            <p className="text-gray-600">
+              {subjectNames.length > 0 ? subjectNames.join(', ') : 'No subjects assigned'}
+            </p>
+          </div>
+        </div>
+
+        {/* Mentors */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <label htmlFor="add-mentor" className="block text-sm font-medium text-gray-700 mb-2">
+            Mentors
+          </label>
+          {assignedMentors.length > 0 ? (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {assignedMentors.map((mentor) => (
+                <span key={mentor.id} className="inline-flex items-center px-3 py-1 text-sm rounded-full bg-blue-50 text-blue-800">
+                  {mentor.full_name || mentor.email}
+                  <button
+                    onClick={() => handleRemoveMentor(mentor.id)}
+                    className="ml-2 text-blue-400 hover:text-red-600"
+                    title="Remove mentor"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 mb-3">No mentors assigned. Mentors only see students in batches they are assigned to.</p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              id="add-mentor"
+              value={selectedMentorId}
+              onChange={(e) => setSelectedMentorId(e.target.value)}
+              className="flex-1 border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">
+                {availableMentors.length > 0 ? 'Select a mentor' : 'No other mentors available'}
+              </option>
+              {availableMentors.map((mentor) => (
+                <option key={mentor.id} value={mentor.id}>
+                  {mentor.full_name ? `${mentor.full_name} (${mentor.email})` : mentor.email}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddMentor}
+              disabled={!selectedMentorId}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Assign
+            </button>
+          </div>
+        </div>
+
+        {/* Add student */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <label htmlFor="add-student" className="block text-sm font-medium text-gray-700 mb-2">
+            Add Student
+          </label>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              id="add-student"
+              value={selectedStudentId}
+              onChange={(e) => setSelectedStudentId(e.target.value)}
+              className="flex-1 border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">
+                {availableStudents.length > 0 ? 'Select a student' : 'All students are already in this batch'}
+              </option>
+              {availableStudents.map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.full_name ? `${student.full_name} (${student.email})` : student.email}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddStudent}
+              disabled={!selectedStudentId}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* Members */}
+        {members.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Student</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Joined</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Move To</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {members.map(({ profiles: student, joined_at }) => (
+                  <tr key={student.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <Link
+                        to={`/admin/students/${student.id}`}
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {student.full_name || student.email}
+                      </Link>
+                      {student.full_name && (
+                        <p className="text-xs text-gray-500">{student.email}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{formatDateTime(joined_at)}</td>
+                    <td className="px-4 py-3">
+                      <select
+                        value=""
+                        onChange={(e) => handleMove(student, e.target.value)}
+                        disabled={otherBatches.length === 0}
+                        className="border border-gray-300 rounded-md shadow-sm px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Select batch</option>
+                        {otherBatches.map((other) => (
+                          <option key={other.id} value={other.id}>{other.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleRemove(student)}
+                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+                        title="Remove from batch"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <Users className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">No students in this batch yet</h3>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,389 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { Plus, Edit2, Trash2, Layers, Users, BookOpen } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Batch {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+  batch_members: { user_id: string }[];
+  batch_subjects: { subject_id: string }[];
+}
+
+interface Subject {
+  id: string;
+  name: string;
+}
+
+const emptyBatchForm = {
+  name: '',
+  description: '',
+  subject_ids: [] as string[]
+};
+
+export function BatchManagement() {
+  const { profile } = useAuth();
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingBatch, setEditingBatch] = useState<Batch | null>(null);
+  const [formData, setFormData] = useState(emptyBatchForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const { data: batchesData, error: batchesError } = await supabase
+        .from('batches')
+        .select('*, batch_members(user_id), batch_subjects(subject_id)')
+        .order('created_at');
+
+      if (batchesError) throw batchesError;
+      setBatches(batchesData || []);
+
+      const { data: subjectsData, error: subjectsError } = await supabase
+        .from('subjects')
+        .select('id, name')
+        .order('order_index');
+
+      if (subjectsError) throw subjectsError;
+      setSubjects(subjectsData || []);
+    } catch (error) {
+      console.error('Error fetching batches:', error);
+      toast.error('Failed to load batches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast.error('Batch name is required');
+      return;
+    }
+
+    try {
+      let batchId = editingBatch?.id;
+
+      if (editingBatch) {
+        // Update existing batch
+        const { error } = await supabase
+          .from('batches')
+          .update({
+            name: formData.name,
+            description: formData.description || null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', editingBatch.id);
+
+        if (error) throw error;
+      } else {
+        // Create new batch
+        const { data, error } = await supabase
+          .from('batches')
+          .insert({
+            name: formData.name,
+            description: formData.description || null,
+            created_by: profile?.id
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        batchId = data.id;
+      }
+
+      // Sync subject assignments with the checked subjects
+      const currentIds = editingBatch?.batch_subjects.map(s => s.subject_id) || [];
+      const removedIds = currentIds.filter(id => !formData.subject_ids.includes(id));
+      const addedIds = formData.subject_ids.filter(id => !currentIds.includes(id));
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('batch_subjects')
+          .delete()
+          .eq('batch_id', batchId)
+          .in('subject_id', removedIds);
+
+        if (error) throw error;
+      }
+
+      if (addedIds.length > 0) {
+        const { error } = await supabase
+          .from('batch_subjects')
+          .insert(addedIds.map(subjectId => ({ batch_id: batchId, subject_id: subjectId })));
+
+        if (error) throw error;
+      }
+
+      toast.success(`Batch ${editingBatch ? 'updated' : 'created'} successfully`);
+      closeModal();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving batch:', error);
+      toast.error('Failed to save batch');
+    }
+  };
+
+  const handleEdit = (batch: Batch) => {
+    setEditingBatch(batch);
+    setFormData({
+      name: batch.name,
+      description: batch.description || '',
+      subject_ids: batch.batch_subjects.map(s => s.subject_id)
+    });
+    setShowModal(true);
+  };
+
+  const handleDelete = async (batch: Batch) => {
+    if (!confirm(`Are you sure you want to delete ${batch.name}? Its students will lose access to the batch's subjects.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('batches')
+        .delete()
+        .eq('id', batch.id);
+
+      if (error) throw error;
+      toast.success('Batch deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting batch:', error);
+      toast.error('Failed to delete batch');
+    }
+  };
+
+  const toggleActive = async (batch: Batch) => {
+    try {
+      const { error } = await supabase
+        .from('batches')
+        .update({ is_active: !batch.is_active })
+        .eq('id', batch.id);
+
+      if (error) throw error;
+      toast.success(`Batch ${batch.is_active ? 'deactivated' : 'activated'}`);
+      fetchData();
+    } catch (error) {
+      console.error('Error updating batch:', error);
+      toast.error('Failed to update batch');
+    }
+  };
+
+  const toggleSubject = (subjectId: string) => {
+    setFormData({
+      ...formData,
+      subject_ids: formData.subject_ids.includes(subjectId)
+        ? formData.subject_ids.filter(id => id !== subjectId)
+        : [...formData.subject_ids, subjectId]
+    });
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingBatch(null);
+    setFormData(emptyBatchForm);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Manage Batches</h1>
+            <p className="text-gray-600">Group students into batches and choose the subjects each batch studies</p>
+          </div>
+          <button
+            onClick={() => setShowModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Batch
+          </button>
+        </div>
+
+        {/* Batches List */}
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+          {batches.length === 0 ? (
+            <div className="text-center py-12">
+              <Layers className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-4 text-sm font-medium text-gray-900">No batches yet</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                Students only see subjects assigned to one of their batches.
+              </p>
+              <button
+                onClick={() => setShowModal(true)}
+                className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Batch
+              </button>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {batches.map((batch) => (
+                <div key={batch.id} className="p-6 hover:bg-gray-50 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2">
+                        <Link
+                          to={`/admin/batches/${batch.id}`}
+                          className="text-lg font-medium text-gray-900 hover:text-blue-600"
+                        >
+                          {batch.name}
+                        </Link>
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          batch.is_active
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-red-100 text-red-800'
+                        }`}>
+                          {batch.is_active ? 'Active' : 'Inactive'}
+                        </span>
+                      </div>
+                      {batch.description && (
+                        <p className="text-sm text-gray-600 mt-1">{batch.description}</p>
+                      )}
+                      <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
+                        <span className="inline-flex items-center">
+                          <Users className="h-4 w-4 mr-1" />
+                          {batch.batch_members.length} {batch.batch_members.length === 1 ? 'student' : 'students'}
+                        </span>
+                        <span className="inline-flex items-center">
+                          <BookOpen className="h-4 w-4 mr-1" />
+                          {batch.batch_subjects.length} {batch.batch_subjects.length === 1 ? 'subject' : 'subjects'}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => toggleActive(batch)}
+                        className={`px-3 py-1 text-xs font-medium rounded-full ${
+                          batch.is_active
+                            ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                            : 'bg-green-100 text-green-700 hover:bg-green-200'
+                        }`}
+                      >
+                        {batch.is_active ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => handleEdit(batch)}
+                        className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(batch)}
+                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Add/Edit Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingBatch ? 'Edit Batch' : 'Add New Batch'}
+                </h3>
+              </div>
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                    Batch Name *
+                  </label>
+                  <input
+                    type="text"
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g., Prelims 2027"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                    Description
+                  </label>
+                  <textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={2}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Enter batch description"
+                  />
+                </div>
+                <div>
+                  <span className="block text-sm font-medium text-gray-700">Subjects</span>
+                  {subjects.length > 0 ? (
+                    <div className="mt-2 space-y-2 max-h-48 overflow-y-auto">
+                      {subjects.map((subject) => (
+                        <label key={subject.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.subject_ids.includes(subject.id)}
+                            onChange={() => toggleSubject(subject.id)}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                          />
+                          {subject.name}
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-500">No subjects yet</p>
+                  )}
+                </div>
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                  >
+                    {editingBatch ? 'Update' : 'Create'} Batch
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
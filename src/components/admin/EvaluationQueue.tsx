@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { ReviewSubmission, ANSWER_STATUS_LABELS, ANSWER_STATUS_COLORS } from '../../lib/answerSubmissions';
+import { formatDateTime } from '../../lib/format';
+import { formatMarks } from '../../lib/scoring';
+import { ClipboardCheck, Paperclip } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type QueueTab = 'pending' | 'returned';
+
+export function EvaluationQueue() {
+  const [submissions, setSubmissions] = useState<ReviewSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<QueueTab>('pending');
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, []);
+
+  const fetchSubmissions = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_answer_submissions');
+
+      if (error) throw error;
+      setSubmissions(data || []);
+    } catch (error) {
+      console.error('Error fetching answer submissions:', error);
+      toast.error('Failed to load the evaluation queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pending = submissions.filter(s => s.status !== 'returned');
+  // Most recently returned first; pending answers stay oldest first
+  const returned = submissions
+    .filter(s => s.status === 'returned')
+    .sort((a, b) => (b.evaluated_at || '').localeCompare(a.evaluated_at || ''));
+  const visible = tab === 'pending' ? pending : returned;
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Answer Evaluations</h1>
+          <p className="text-gray-600">Score mains answers against the section rubric and return them to students</p>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-gray-200">
+          <nav className="-mb-px flex space-x-6">
+            {([
+              { id: 'pending', label: 'Pending', count: pending.length },
+              { id: 'returned', label: 'Returned', count: returned.length }
+            ] as { id: QueueTab; label: string; count: number }[]).map((item) => (
+              <button
+                key={item.id}
+                onClick={() => setTab(item.id)}
+                className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                  tab === item.id
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {item.label}
+                <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">{item.count}</span>
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {visible.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Student</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Section</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Submitted</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map((submission) => (
+                  <tr key={submission.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{submission.student_name || submission.student_email}</p>
+                      {submission.student_name && (
+                        <p className="text-xs text-gray-500">{submission.student_email}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900">{submission.section_name}</p>
+                      <p className="text-xs text-gray-500">{submission.subject_name} · {submission.module_name}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {formatDateTime(submission.submitted_at)}
+                      <p className="text-xs text-gray-500 flex items-center">
+                        {submission.answer_text && `${submission.word_count} words`}
+                        {submission.answer_text && submission.file_path && ' · '}
+                        {submission.file_path && (
+                          <>
+                            <Paperclip className="h-3 w-3 mr-1" />
+                            File
+                          </>
+                        )}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${ANSWER_STATUS_COLORS[submission.status]}`}>
+                        {submission.status === 'returned'
+                          ? `${formatMarks(submission.score ?? 0)} / ${formatMarks(submission.max_score ?? 0)}`
+                          : ANSWER_STATUS_LABELS[submission.status]}
+                      </span>
+                      {submission.evaluator_name && (
+                        <p className="text-xs text-gray-500 mt-1">{submission.evaluator_name}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Link
+                        to={`/admin/evaluations/${submission.id}`}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        {submission.status === 'returned' ? 'View' : 'Evaluate'}
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">
+              {tab === 'pending' ? 'No answers waiting' : 'No answers returned yet'}
+            </h3>
+            <p className="mt-2 text-sm text-gray-500">
+              {tab === 'pending'
+                ? 'New submissions from mains answer sections will appear here.'
+                : 'Evaluated answers will be listed here.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { MockLeaderboard } from '../ui/MockLeaderboard';
+import { formatDateTime } from '../../lib/format';
+import { QuestionType, getQuestionTypeLabel } from '../../lib/questionTypes';
+import {
+  MockTest,
+  MockLeaderboardEntry,
+  MOCK_TEST_DEFAULTS,
+  getMockTestStatus,
+  fetchMockLeaderboard
+} from '../../lib/mockTests';
+import { ArrowLeft, Plus, Trash2, HelpCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface PaperQuestion {
+  question_id: string;
+  order_index: number;
+  questions: {
+    question_text: string;
+    question_type: QuestionType;
+    sections: { name: string; modules: { subjects: { name: string } | null } | null } | null;
+  } | null;
+}
+
+interface TestSection {
+  id: string;
+  name: string;
+  modules: { name: string; subjects: { name: string } | null } | null;
+}
+
+export function MockTestDetail() {
+  const { mockTestId } = useParams();
+  const [mockTest, setMockTest] = useState<MockTest | null>(null);
+  const [paper, setPaper] = useState<PaperQuestion[]>([]);
+  const [sections, setSections] = useState<TestSection[]>([]);
+  const [leaderboard, setLeaderboard] = useState<MockLeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sourceSectionId, setSourceSectionId] = useState('');
+  const [addCount, setAddCount] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    if (mockTestId) {
+      fetchData();
+    }
+  }, [mockTestId]);
+
+  const fetchData = async () => {
+    try {
+      const { data: mockTestData, error: mockTestError } = await supabase
+        .from('mock_tests')
+        .select('*')
+        .eq('id', mockTestId)
+        .single();
+
+      if (mockTestError) throw mockTestError;
+      setMockTest(mockTestData);
+
+      await fetchPaper();
+
+      const { data: sectionsData, error: sectionsError } = await supabase
+        .from('sections')
+        .select('id, name, modules(name, subjects(name))')
+        .eq('type', 'test')
+        .order('name');
+
+      if (sectionsError) throw sectionsError;
+      setSections((sectionsData || []) as unknown as TestSection[]);
+
+      setLeaderboard(await fetchMockLeaderboard(mockTestId!));
+    } catch (error) {
+      console.error('Error fetching mock test:', error);
+      toast.error('Failed to load mock test');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPaper = async () => {
+    const { data, error } = await supabase
+      .from('mock_test_questions')
+      .select('question_id, order_index, questions(question_text, question_type, sections(name, modules(subjects(name))))')
+      .eq('mock_test_id', mockTestId)
+      .order('order_index');
+
+    if (error) throw error;
+    setPaper((data || []) as unknown as PaperQuestion[]);
+  };
+
+  // Appends questions from a test section in random order, skipping ones already in the paper
+  const handleAddFromSection = async () => {
+    if (!sourceSectionId) return;
+
+    setAdding(true);
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('id')
+        .eq('section_id', sourceSectionId)
+        .neq('question_type', 'descriptive');
+
+      if (error) throw error;
+
+      const existingIds = new Set(paper.map(q => q.question_id));
+      const candidates = (data || [])
+        .map(q => q.id)
+        .filter(id => !existingIds.has(id))
+        .sort(() => Math.random() - 0.5);
+      const picked = addCount ? candidates.slice(0, Number(addCount)) : candidates;
+
+      if (picked.length === 0) {
+        toast.error('No new objective questions in that section');
+        return;
+      }
+
+      const nextIndex = paper.length > 0 ? Math.max(...paper.map(q => q.order_index)) + 1 : 0;
+      const { error: insertError } = await supabase
+        .from('mock_test_questions')
+        .insert(picked.map((questionId, index) => ({
+          mock_test_id: mockTestId,
+          question_id: questionId,
+          order_index: nextIndex + index
+        })));
+
+      if (insertError) throw insertError;
+      toast.success(`Added ${picked.length} ${picked.length === 1 ? 'question' : 'questions'}`);
+      setAddCount('');
+      await fetchPaper();
+    } catch (error) {
+      console.error('Error adding mock test questions:', error);
+      toast.error('Failed to add questions');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (questionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('mock_test_questions')
+        .delete()
+        .eq('mock_test_id', mockTestId)
+        .eq('question_id', questionId);
+
+      if (error) throw error;
+      setPaper(prev => prev.filter(q => q.question_id !== questionId));
+    } catch (error) {
+      console.error('Error removing mock test question:', error);
+      toast.error('Failed to remove question');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!mockTest) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Mock test not found</h3>
+        </div>
+      </Layout>
+    );
+  }
+
+  // Changing the paper after students have started would make their results incomparable
+  const paperLocked = getMockTestStatus(mockTest) !== 'upcoming';
+
+  const subjectCounts = paper.reduce<Record<string, number>>((counts, q) => {
+    const subject = q.questions?.sections?.modules?.subjects?.name || 'Unknown';
+    counts[subject] = (counts[subject] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link
+            to="/admin/mock-tests"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{mockTest.title}</h1>
+            <p className="text-gray-600">
+              {formatDateTime(mockTest.opens_at)} – {formatDateTime(mockTest.closes_at)} · {mockTest.duration_minutes} minutes
+            </p>
+          </div>
+        </div>
+
+        {/* Paper */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Paper <span className="text-sm font-normal text-gray-500">({paper.length} of {MOCK_TEST_DEFAULTS.questionCount} questions)</span>
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(subjectCounts).map(([subject, count]) => (
+                <span key={subject} className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                  {subject}: {count}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {paperLocked ? (
+            <p className="text-sm text-gray-500">The paper can't be changed once the window has opened.</p>
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div className="flex-1">
+                <label htmlFor="sourceSection" className="block text-sm font-medium text-gray-700">
+                  Add questions from a test section
+                </label>
+                <select
+                  id="sourceSection"
+                  value={sourceSectionId}
+                  onChange={(e) => setSourceSectionId(e.target.value)}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Choose a section</option>
+                  {sections.map((section) => (
+                    <option key={section.id} value={section.id}>
+                      {section.modules?.subjects?.name} › {section.modules?.name} › {section.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:w-32">
+                <label htmlFor="addCount" className="block text-sm font-medium text-gray-700">
+                  How many
+                </label>
+                <input
+                  id="addCount"
+                  type="number"
+                  min={1}
+                  value={addCount}
+                  onChange={(e) => setAddCount(e.target.value)}
+                  placeholder="All"
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                onClick={handleAddFromSection}
+                disabled={!sourceSectionId || adding}
+                className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {adding ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+          )}
+
+          {paper.length === 0 ? (
+            <div className="text-center py-8">
+              <HelpCircle className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-4 text-sm font-medium text-gray-900">No questions yet</h3>
+              <p className="mt-1 text-sm text-gray-500">Add questions from the test sections of your question bank.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100 border-t border-gray-100">
+              {paper.map((question, index) => (
+                <div key={question.question_id} className="flex items-start justify-between py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 line-clamp-2">
+                      <span className="font-medium text-gray-500 mr-2">Q{index + 1}.</span>
+                      {question.questions?.question_text}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {question.questions?.sections?.modules?.subjects?.name} · {question.questions?.sections?.name}
+                      {question.questions && <> · {getQuestionTypeLabel(question.questions.question_type)}</>}
+                    </p>
+                  </div>
+                  {!paperLocked && (
+                    <button
+                      onClick={() => handleRemove(question.question_id)}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+                      title="Remove from paper"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Results */}
+        <MockLeaderboard entries={leaderboard} cutoffMarks={mockTest.cutoff_marks} />
+      </div>
+    </Layout>
+  );
+}
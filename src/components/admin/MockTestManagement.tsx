@@ -0,0 +1,500 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { formatDateTime, toDateTimeInputValue } from '../../lib/format';
+import { SCORING_PRESETS, describeScoringScheme, findScoringPreset, formatMarks } from '../../lib/scoring';
+import { MockTest, MOCK_TEST_DEFAULTS, getMockTestStatus } from '../../lib/mockTests';
+import { Plus, Edit2, Trash2, Trophy, Clock, Layers, HelpCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface MockTestWithCounts extends MockTest {
+  mock_test_batches: { batch_id: string }[];
+  mock_test_questions: { question_id: string }[];
+}
+
+interface Batch {
+  id: string;
+  name: string;
+}
+
+const emptyMockTestForm = {
+  title: '',
+  description: '',
+  opens_at: '',
+  closes_at: '',
+  duration_minutes: MOCK_TEST_DEFAULTS.durationMinutes,
+  scoring_preset_id: MOCK_TEST_DEFAULTS.scoringPresetId,
+  cutoff_marks: '',
+  batch_ids: [] as string[]
+};
+
+const STATUS_BADGES = {
+  upcoming: { label: 'Upcoming', className: 'bg-blue-100 text-blue-800' },
+  open: { label: 'Open', className: 'bg-green-100 text-green-800' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-700' }
+};
+
+export function MockTestManagement() {
+  const { profile } = useAuth();
+  const [mockTests, setMockTests] = useState<MockTestWithCounts[]>([]);
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingMockTest, setEditingMockTest] = useState<MockTestWithCounts | null>(null);
+  const [formData, setFormData] = useState(emptyMockTestForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const { data: mockTestsData, error: mockTestsError } = await supabase
+        .from('mock_tests')
+        .select('*, mock_test_batches(batch_id), mock_test_questions(question_id)')
+        .order('opens_at', { ascending: false });
+
+      if (mockTestsError) throw mockTestsError;
+      setMockTests(mockTestsData || []);
+
+      const { data: batchesData, error: batchesError } = await supabase
+        .from('batches')
+        .select('id, name')
+        .order('created_at');
+
+      if (batchesError) throw batchesError;
+      setBatches(batchesData || []);
+    } catch (error) {
+      console.error('Error fetching mock tests:', error);
+      toast.error('Failed to load mock tests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim()) {
+      toast.error('Title is required');
+      return;
+    }
+    if (!formData.opens_at || !formData.closes_at || new Date(formData.closes_at) <= new Date(formData.opens_at)) {
+      toast.error('The window must close after it opens');
+      return;
+    }
+
+    const preset = SCORING_PRESETS.find(p => p.id === formData.scoring_preset_id) || SCORING_PRESETS[0];
+    const mockTestData = {
+      title: formData.title,
+      description: formData.description || null,
+      opens_at: new Date(formData.opens_at).toISOString(),
+      closes_at: new Date(formData.closes_at).toISOString(),
+      duration_minutes: formData.duration_minutes,
+      marks_per_correct: preset.marks_per_correct,
+      negative_marks: preset.negative_marks,
+      cutoff_marks: formData.cutoff_marks === '' ? null : Number(formData.cutoff_marks)
+    };
+
+    try {
+      let mockTestId = editingMockTest?.id;
+
+      if (editingMockTest) {
+        const { error } = await supabase
+          .from('mock_tests')
+          .update({ ...mockTestData, updated_at: new Date().toISOString() })
+          .eq('id', editingMockTest.id);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('mock_tests')
+          .insert({ ...mockTestData, created_by: profile?.id })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        mockTestId = data.id;
+      }
+
+      // Sync the scheduled batches with the checked batches
+      const currentIds = editingMockTest?.mock_test_batches.map(b => b.batch_id) || [];
+      const removedIds = currentIds.filter(id => !formData.batch_ids.includes(id));
+      const addedIds = formData.batch_ids.filter(id => !currentIds.includes(id));
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('mock_test_batches')
+          .delete()
+          .eq('mock_test_id', mockTestId)
+          .in('batch_id', removedIds);
+
+        if (error) throw error;
+      }
+
+      if (addedIds.length > 0) {
+        const { error } = await supabase
+          .from('mock_test_batches')
+          .insert(addedIds.map(batchId => ({ mock_test_id: mockTestId, batch_id: batchId })));
+
+        if (error) throw error;
+      }
+
+      toast.success(`Mock test ${editingMockTest ? 'updated' : 'created'} successfully`);
+      closeModal();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving mock test:', error);
+      toast.error('Failed to save mock test');
+    }
+  };
+
+  const handleEdit = (mockTest: MockTestWithCounts) => {
+    setEditingMockTest(mockTest);
+    setFormData({
+      title: mockTest.title,
+      description: mockTest.description || '',
+      opens_at: toDateTimeInputValue(mockTest.opens_at),
+      closes_at: toDateTimeInputValue(mockTest.closes_at),
+      duration_minutes: mockTest.duration_minutes,
+      scoring_preset_id: findScoringPreset({ ...mockTest, unanswered_marks: 0 })?.id || SCORING_PRESETS[0].id,
+      cutoff_marks: mockTest.cutoff_marks === null ? '' : String(Number(mockTest.cutoff_marks)),
+      batch_ids: mockTest.mock_test_batches.map(b => b.batch_id)
+    });
+    setShowModal(true);
+  };
+
+  const handleDelete = async (mockTest: MockTestWithCounts) => {
+    if (!confirm(`Are you sure you want to delete ${mockTest.title}? All attempts and results will be lost.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('mock_tests')
+        .delete()
+        .eq('id', mockTest.id);
+
+      if (error) throw error;
+      toast.success('Mock test deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting mock test:', error);
+      toast.error('Failed to delete mock test');
+    }
+  };
+
+  const togglePublished = async (mockTest: MockTestWithCounts) => {
+    if (!mockTest.is_published && mockTest.mock_test_questions.length === 0) {
+      toast.error('Add questions before publishing');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('mock_tests')
+        .update({ is_published: !mockTest.is_published })
+        .eq('id', mockTest.id);
+
+      if (error) throw error;
+      toast.success(`Mock test ${mockTest.is_published ? 'unpublished' : 'published'}`);
+      fetchData();
+    } catch (error) {
+      console.error('Error updating mock test:', error);
+      toast.error('Failed to update mock test');
+    }
+  };
+
+  const toggleBatch = (batchId: string) => {
+    setFormData({
+      ...formData,
+      batch_ids: formData.batch_ids.includes(batchId)
+        ? formData.batch_ids.filter(id => id !== batchId)
+        : [...formData.batch_ids, batchId]
+    });
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingMockTest(null);
+    setFormData(emptyMockTestForm);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Mock Tests</h1>
+            <p className="text-gray-600">Schedule full-length exams for batches and compare their results</p>
+          </div>
+          <button
+            onClick={() => setShowModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Mock Test
+          </button>
+        </div>
+
+        {/* Mock Tests List */}
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+          {mockTests.length === 0 ? (
+            <div className="text-center py-12">
+              <Trophy className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-4 text-sm font-medium text-gray-900">No mock tests yet</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                Students in the chosen batches can sit a mock test once while its window is open.
+              </p>
+              <button
+                onClick={() => setShowModal(true)}
+                className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Mock Test
+              </button>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {mockTests.map((mockTest) => {
+                const status = STATUS_BADGES[getMockTestStatus(mockTest)];
+
+                return (
+                  <div key={mockTest.id} className="p-6 hover:bg-gray-50 transition-colors">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2">
+                          <Link
+                            to={`/admin/mock-tests/${mockTest.id}`}
+                            className="text-lg font-medium text-gray-900 hover:text-blue-600"
+                          >
+                            {mockTest.title}
+                          </Link>
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                            {status.label}
+                          </span>
+                          {!mockTest.is_published && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              Draft
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {formatDateTime(mockTest.opens_at)} – {formatDateTime(mockTest.closes_at)}
+                        </p>
+                        <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
+                          <span className="inline-flex items-center">
+                            <HelpCircle className="h-4 w-4 mr-1" />
+                            {mockTest.mock_test_questions.length} questions
+                          </span>
+                          <span className="inline-flex items-center">
+                            <Clock className="h-4 w-4 mr-1" />
+                            {mockTest.duration_minutes} minutes
+                          </span>
+                          <span className="inline-flex items-center">
+                            <Layers className="h-4 w-4 mr-1" />
+                            {mockTest.mock_test_batches.length} {mockTest.mock_test_batches.length === 1 ? 'batch' : 'batches'}
+                          </span>
+                          <span>Marking: {describeScoringScheme({ ...mockTest, unanswered_marks: 0 })}</span>
+                          {mockTest.cutoff_marks !== null && (
+                            <span>Cut-off: {formatMarks(mockTest.cutoff_marks)}</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => togglePublished(mockTest)}
+                          className={`px-3 py-1 text-xs font-medium rounded-full ${
+                            mockTest.is_published
+                              ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                              : 'bg-green-100 text-green-700 hover:bg-green-200'
+                          }`}
+                        >
+                          {mockTest.is_published ? 'Unpublish' : 'Publish'}
+                        </button>
+                        <button
+                          onClick={() => handleEdit(mockTest)}
+                          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(mockTest)}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Add/Edit Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingMockTest ? 'Edit Mock Test' : 'Add New Mock Test'}
+                </h3>
+              </div>
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+                    Title *
+                  </label>
+                  <input
+                    type="text"
+                    id="title"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g., Prelims Mock 3 – GS Paper I"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                    Instructions
+                  </label>
+                  <textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={2}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Shown to students before they start"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="opens_at" className="block text-sm font-medium text-gray-700">
+                      Opens *
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="opens_at"
+                      value={formData.opens_at}
+                      onChange={(e) => setFormData({ ...formData, opens_at: e.target.value })}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="closes_at" className="block text-sm font-medium text-gray-700">
+                      Closes *
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="closes_at"
+                      value={formData.closes_at}
+                      onChange={(e) => setFormData({ ...formData, closes_at: e.target.value })}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="duration_minutes" className="block text-sm font-medium text-gray-700">
+                      Duration (minutes) *
+                    </label>
+                    <input
+                      type="number"
+                      id="duration_minutes"
+                      min={1}
+                      value={formData.duration_minutes}
+                      onChange={(e) => setFormData({ ...formData, duration_minutes: Number(e.target.value) })}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="cutoff_marks" className="block text-sm font-medium text-gray-700">
+                      Cut-off marks
+                    </label>
+                    <input
+                      type="number"
+                      id="cutoff_marks"
+                      step="0.01"
+                      value={formData.cutoff_marks}
+                      onChange={(e) => setFormData({ ...formData, cutoff_marks: e.target.value })}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="e.g., 87.5"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="scoring_preset" className="block text-sm font-medium text-gray-700">
+                    Marking scheme
+                  </label>
+                  <select
+                    id="scoring_preset"
+                    value={formData.scoring_preset_id}
+                    onChange={(e) => setFormData({ ...formData, scoring_preset_id: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {SCORING_PRESETS.map((preset) => (
+                      <option key={preset.id} value={preset.id}>{preset.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <span className="block text-sm font-medium text-gray-700">Batches</span>
+                  {batches.length > 0 ? (
+                    <div className="mt-2 space-y-2 max-h-48 overflow-y-auto">
+                      {batches.map((batch) => (
+                        <label key={batch.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.batch_ids.includes(batch.id)}
+                            onChange={() => toggleBatch(batch.id)}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                          />
+                          {batch.name}
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-500">No batches yet</p>
+                  )}
+                </div>
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                  >
+                    {editingMockTest ? 'Update' : 'Create'} Mock Test
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
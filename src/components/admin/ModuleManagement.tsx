@@ -3,8 +3,24 @@ import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { Layout } from '../ui/Layout';
-import { Plus, Edit2, Trash2, BookOpen, GripVertical, ArrowLeft, FileText, Play, Link as LinkIcon } from 'lucide-react';
+import { MarkdownEditor } from '../ui/MarkdownEditor';
+import { RubricEditor } from './RubricEditor';
+import { SyllabusMappingFields } from './SyllabusMappingFields';
+import { Plus, Edit2, Trash2, BookOpen, GripVertical, ArrowLeft, FileText, Play, Link as LinkIcon, HelpCircle, PenLine } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { QuestionExportMenu } from './QuestionExportMenu';
+import { SCORING_PRESETS, findScoringPreset, describeScoringScheme, formatMarks } from '../../lib/scoring';
+import { RubricCriterion, DEFAULT_MAINS_RUBRIC, getRubricTotal } from '../../lib/answerSubmissions';
+import {
+  SyllabusNode,
+  MappedContent,
+  SECTION_MAPPING_SELECT,
+  syllabusPathLabels,
+  parseTagInput,
+  toContentMapping,
+  fetchSyllabusNodes,
+  saveSectionMapping
+} from '../../lib/syllabus';
 import {
   DndContext,
   closestCenter,
@@ -32,14 +48,23 @@ interface Module {
   sections: Section[];
 }
 
-interface Section {
+interface Section extends MappedContent {
   id: string;
   name: string;
-  type: 'source' | 'test' | 'resource' | 'pyq';
+  type: 'source' | 'test' | 'resource' | 'pyq' | 'mains';
   content: string | null;
   link_url: string | null;
   order_index: number;
   is_required: boolean;
+  pass_percentage: number;
+  max_attempts: number | null;
+  cooldown_minutes: number | null;
+  time_limit_minutes: number | null;
+  marks_per_correct: number;
+  negative_marks: number;
+  unanswered_marks: number;
+  word_limit: number | null;
+  rubric: RubricCriterion[];
 }
 
 interface Subject {
@@ -48,8 +73,29 @@ interface Subject {
   description: string | null;
 }
 
-function SortableSection({ section, onEdit, onDelete }: { 
+const emptySectionForm = {
+  name: '',
+  type: 'source' as 'source' | 'test' | 'resource' | 'pyq' | 'mains',
+  content: '',
+  link_url: '',
+  is_required: true,
+  pass_percentage: 100,
+  max_attempts: '',
+  cooldown_minutes: '',
+  time_limit_minutes: '',
+  marks_per_correct: 1,
+  negative_marks: 0,
+  unanswered_marks: 0,
+  word_limit: '',
+  rubric: DEFAULT_MAINS_RUBRIC,
+  syllabus_node_ids: [] as string[],
+  tags: ''
+};
+
+function SortableSection({ section, questionsPath, syllabusLabels, onEdit, onDelete }: { 
   section: Section; 
+  questionsPath: string;
+  syllabusLabels: Record<string, string>;
   onEdit: (section: Section) => void; 
   onDelete: (id: string) => void; 
 }) {
@@ -72,6 +118,7 @@ function SortableSection({ section, onEdit, onDelete }: {
       case 'test': return 'bg-red-100 text-red-800';
       case 'resource': return 'bg-green-100 text-green-800';
       case 'pyq': return 'bg-purple-100 text-purple-800';
+      case 'mains': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -82,6 +129,7 @@ function SortableSection({ section, onEdit, onDelete }: {
       case 'test': return <Play className="h-4 w-4" />;
       case 'resource': return <FileText className="h-4 w-4" />;
       case 'pyq': return <Play className="h-4 w-4" />;
+      case 'mains': return <PenLine className="h-4 w-4" />;
       default: return <BookOpen className="h-4 w-4" />;
     }
   };
@@ -113,6 +161,20 @@ function SortableSection({ section, onEdit, onDelete }: {
               <span className={`px-2 py-1 text-xs font-medium rounded-full ${getTypeColor(section.type)}`}>
                 {section.type.toUpperCase()}
               </span>
+              {section.type === 'test' && (
+                <span className="text-xs text-gray-500">
+                  Pass {section.pass_percentage}%
+                  {section.max_attempts !== null && ` · ${section.max_attempts} attempts`}
+                  {section.time_limit_minutes !== null && ` · ${section.time_limit_minutes} min`}
+                  {` · ${describeScoringScheme(section)}`}
+                </span>
+              )}
+              {section.type === 'mains' && (
+                <span className="text-xs text-gray-500">
+                  {formatMarks(getRubricTotal(section.rubric))} marks
+                  {section.word_limit !== null && ` · ${section.word_limit} words`}
+                </span>
+              )}
             </div>
             {section.content && (
               <p className="text-sm text-gray-600 mt-1 line-clamp-2">
@@ -125,9 +187,32 @@ function SortableSection({ section, onEdit, onDelete }: {
                 <span className="text-xs text-blue-600">Has external link</span>
               </div>
             )}
+            {(section.syllabus.length > 0 || section.tags.length > 0) && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {section.syllabus.map(({ node_id }) => (
+                  <span key={node_id} className="px-2 py-0.5 text-xs rounded-full bg-indigo-100 text-indigo-800">
+                    {syllabusLabels[node_id]}
+                  </span>
+                ))}
+                {toContentMapping(section).tags.map((tag) => (
+                  <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-700">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {(section.type === 'test' || section.type === 'pyq') && (
+            <Link
+              to={questionsPath}
+              className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full"
+              title="Manage questions"
+            >
+              <HelpCircle className="h-4 w-4" />
+            </Link>
+          )}
           <button
             onClick={() => onEdit(section)}
             className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full"
@@ -161,13 +246,8 @@ export function ModuleManagement() {
     name: '',
     description: ''
   });
-  const [sectionFormData, setSectionFormData] = useState({
-    name: '',
-    type: 'source' as 'source' | 'test' | 'resource' | 'pyq',
-    content: '',
-    link_url: '',
-    is_required: true
-  });
+  const [sectionFormData, setSectionFormData] = useState(emptySectionForm);
+  const [syllabusNodes, setSyllabusNodes] = useState<SyllabusNode[]>([]);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -199,7 +279,7 @@ export function ModuleManagement() {
         .from('modules')
         .select(`
           *,
-          sections(*)
+          sections(*, ${SECTION_MAPPING_SELECT})
         `)
         .eq('subject_id', subjectId)
         .order('order_index');
@@ -213,6 +293,7 @@ export function ModuleManagement() {
       })) || [];
 
       setModules(sortedModules);
+      setSyllabusNodes(await fetchSyllabusNodes());
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('Failed to load data');
@@ -275,10 +356,42 @@ export function ModuleManagement() {
       return;
     }
 
+    const isMains = sectionFormData.type === 'mains';
+    if (isMains && (
+      sectionFormData.rubric.length === 0 ||
+      sectionFormData.rubric.some(item => !item.criterion.trim() || !(Number(item.max_marks) > 0))
+    )) {
+      toast.error('Every rubric criterion needs a name and marks');
+      return;
+    }
+
     try {
       const selectedModule = modules.find(m => m.id === selectedModuleId);
       if (!selectedModule) throw new Error('Module not found');
 
+      // Pass rules only apply to tests; other types keep the defaults
+      const isTest = sectionFormData.type === 'test';
+      const testRules = {
+        pass_percentage: isTest ? sectionFormData.pass_percentage : 100,
+        max_attempts: isTest && sectionFormData.max_attempts ? Number(sectionFormData.max_attempts) : null,
+        cooldown_minutes: isTest && sectionFormData.cooldown_minutes ? Number(sectionFormData.cooldown_minutes) : null,
+        time_limit_minutes: isTest && sectionFormData.time_limit_minutes ? Number(sectionFormData.time_limit_minutes) : null,
+        marks_per_correct: isTest ? sectionFormData.marks_per_correct : 1,
+        negative_marks: isTest ? sectionFormData.negative_marks : 0,
+        unanswered_marks: isTest ? sectionFormData.unanswered_marks : 0
+      };
+      const mainsRules = {
+        word_limit: isMains && sectionFormData.word_limit ? Number(sectionFormData.word_limit) : null,
+        rubric: isMains
+          ? sectionFormData.rubric.map(item => ({ criterion: item.criterion.trim(), max_marks: Number(item.max_marks) }))
+          : []
+      };
+
+      const mapping = {
+        nodeIds: sectionFormData.syllabus_node_ids,
+        tags: parseTagInput(sectionFormData.tags)
+      };
+
       if (editingSection) {
         // Update existing section
         const { error } = await supabase
@@ -289,16 +402,19 @@ export function ModuleManagement() {
             content: sectionFormData.content || null,
             link_url: sectionFormData.link_url || null,
             is_required: sectionFormData.is_required,
+            ...testRules,
+            ...mainsRules,
             updated_at: new Date().toISOString()
           })
           .eq('id', editingSection.id);
 
         if (error) throw error;
+        await saveSectionMapping(editingSection.id, mapping);
         toast.success('Section updated successfully');
       } else {
         // Create new section
         const maxOrder = Math.max(...selectedModule.sections.map(s => s.order_index), -1);
-        const { error } = await supabase
+        const { data: newSection, error } = await supabase
           .from('sections')
           .insert({
             module_id: selectedModuleId,
@@ -307,23 +423,22 @@ export function ModuleManagement() {
             content: sectionFormData.content || null,
             link_url: sectionFormData.link_url || null,
             order_index: maxOrder + 1,
-            is_required: sectionFormData.is_required
-          });
+            is_required: sectionFormData.is_required,
+            ...testRules,
+            ...mainsRules
+          })
+          .select('id')
+          .single();
 
         if (error) throw error;
+        await saveSectionMapping(newSection.id, mapping);
         toast.success('Section created successfully');
       }
 
       setShowSectionModal(false);
       setEditingSection(null);
       setSelectedModuleId('');
-      setSectionFormData({
-        name: '',
-        type: 'source',
-        content: '',
-        link_url: '',
-        is_required: true
-      });
+      setSectionFormData(emptySectionForm);
       fetchData();
     } catch (error) {
       console.error('Error saving section:', error);
@@ -347,7 +462,18 @@ export function ModuleManagement() {
       type: section.type,
       content: section.content || '',
       link_url: section.link_url || '',
-      is_required: section.is_required
+      is_required: section.is_required,
+      pass_percentage: section.pass_percentage,
+      max_attempts: section.max_attempts?.toString() || '',
+      cooldown_minutes: section.cooldown_minutes?.toString() || '',
+      time_limit_minutes: section.time_limit_minutes?.toString() || '',
+      marks_per_correct: Number(section.marks_per_correct),
+      negative_marks: Number(section.negative_marks),
+      unanswered_marks: Number(section.unanswered_marks),
+      word_limit: section.word_limit?.toString() || '',
+      rubric: section.rubric.length > 0 ? section.rubric : DEFAULT_MAINS_RUBRIC,
+      syllabus_node_ids: toContentMapping(section).nodeIds,
+      tags: toContentMapping(section).tags.join(', ')
     });
     // Find the module that contains this section
     const module = modules.find(m => m.sections.some(s => s.id === section.id));
@@ -447,13 +573,7 @@ export function ModuleManagement() {
     setShowSectionModal(false);
     setEditingSection(null);
     setSelectedModuleId('');
-    setSectionFormData({
-      name: '',
-      type: 'source',
-      content: '',
-      link_url: '',
-      is_required: true
-    });
+    setSectionFormData(emptySectionForm);
   };
 
   if (loading) {
@@ -476,6 +596,8 @@ export function ModuleManagement() {
     );
   }
 
+  const syllabusLabels = syllabusPathLabels(syllabusNodes);
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -494,6 +616,7 @@ export function ModuleManagement() {
             </div>
           </div>
           <div className="flex space-x-3">
+            <QuestionExportMenu scope={{ type: 'subject', id: subject.id, name: subject.name }} />
             <button
               onClick={() => setShowSectionModal(true)}
               className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
@@ -524,6 +647,7 @@ export function ModuleManagement() {
                     )}
                   </div>
                   <div className="flex items-center space-x-2">
+                    <QuestionExportMenu scope={{ type: 'module', id: module.id, name: module.name }} compact />
                     <button
                       onClick={() => handleEditModule(module)}
                       className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full"
@@ -571,6 +695,8 @@ export function ModuleManagement() {
                           <SortableSection
                             key={section.id}
                             section={section}
+                            questionsPath={`/admin/subjects/${subjectId}/modules/${module.id}/sections/${section.id}/questions`}
+                            syllabusLabels={syllabusLabels}
                             onEdit={handleEditSection}
                             onDelete={handleDeleteSection}
                           />
@@ -661,7 +787,7 @@ export function ModuleManagement() {
         {/* Section Modal */}
         {showSectionModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
               <div className="px-6 py-4 border-b border-gray-200">
                 <h3 className="text-lg font-medium text-gray-900">
                   {editingSection ? 'Edit Section' : 'Add New Section'}
@@ -718,19 +844,18 @@ export function ModuleManagement() {
                     <option value="test">Test</option>
                     <option value="resource">Resource</option>
                     <option value="pyq">PYQ</option>
+                    <option value="mains">Mains Answer Writing</option>
                   </select>
                 </div>
 
                 <div>
                   <label htmlFor="section-content" className="block text-sm font-medium text-gray-700">
-                    Content
+                    Content <span className="font-normal text-gray-500">(Markdown supported)</span>
                   </label>
-                  <textarea
+                  <MarkdownEditor
                     id="section-content"
                     value={sectionFormData.content}
-                    onChange={(e) => setSectionFormData({ ...sectionFormData, content: e.target.value })}
-                    rows={6}
-                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    onChange={(content) => setSectionFormData({ ...sectionFormData, content })}
                     placeholder="Enter section content, study material, instructions, etc."
                   />
                 </div>
@@ -749,6 +874,171 @@ export function ModuleManagement() {
                   />
                 </div>
 
+                {sectionFormData.type === 'test' && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="section-pass-percentage" className="block text-sm font-medium text-gray-700">
+                        Pass Percentage *
+                      </label>
+                      <input
+                        type="number"
+                        id="section-pass-percentage"
+                        min={1}
+                        max={100}
+                        value={sectionFormData.pass_percentage}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, pass_percentage: Number(e.target.value) })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="section-max-attempts" className="block text-sm font-medium text-gray-700">
+                        Max Attempts
+                      </label>
+                      <input
+                        type="number"
+                        id="section-max-attempts"
+                        min={1}
+                        value={sectionFormData.max_attempts}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, max_attempts: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Unlimited"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="section-cooldown" className="block text-sm font-medium text-gray-700">
+                        Cooldown (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        id="section-cooldown"
+                        min={0}
+                        value={sectionFormData.cooldown_minutes}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, cooldown_minutes: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="None"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="section-time-limit" className="block text-sm font-medium text-gray-700">
+                        Time Limit (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        id="section-time-limit"
+                        min={1}
+                        value={sectionFormData.time_limit_minutes}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, time_limit_minutes: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Untimed"
+                      />
+                    </div>
+                    <div className="md:col-span-2">
+                      <label htmlFor="section-scoring-preset" className="block text-sm font-medium text-gray-700">
+                        Marking Scheme
+                      </label>
+                      <select
+                        id="section-scoring-preset"
+                        value={findScoringPreset(sectionFormData)?.id || 'custom'}
+                        onChange={(e) => {
+                          const preset = SCORING_PRESETS.find(p => p.id === e.target.value);
+                          if (!preset) return;
+                          setSectionFormData({
+                            ...sectionFormData,
+                            marks_per_correct: preset.marks_per_correct,
+                            negative_marks: preset.negative_marks,
+                            unanswered_marks: preset.unanswered_marks
+                          });
+                        }}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {SCORING_PRESETS.map((preset) => (
+                          <option key={preset.id} value={preset.id}>{preset.label}</option>
+                        ))}
+                        <option value="custom">Custom</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="section-marks-per-correct" className="block text-sm font-medium text-gray-700">
+                        Marks per Correct *
+                      </label>
+                      <input
+                        type="number"
+                        id="section-marks-per-correct"
+                        min={0.01}
+                        step={0.01}
+                        value={sectionFormData.marks_per_correct}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, marks_per_correct: Number(e.target.value) })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="section-negative-marks" className="block text-sm font-medium text-gray-700">
+                        Marks Deducted per Wrong
+                      </label>
+                      <input
+                        type="number"
+                        id="section-negative-marks"
+                        min={0}
+                        step={0.01}
+                        value={sectionFormData.negative_marks}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, negative_marks: Number(e.target.value) })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="section-unanswered-marks" className="block text-sm font-medium text-gray-700">
+                        Marks per Unanswered
+                      </label>
+                      <input
+                        type="number"
+                        id="section-unanswered-marks"
+                        max={0}
+                        step={0.01}
+                        value={sectionFormData.unanswered_marks}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, unanswered_marks: Number(e.target.value) })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {sectionFormData.type === 'mains' && (
+                  <div className="space-y-4">
+                    <div>
+                      <label htmlFor="section-word-limit" className="block text-sm font-medium text-gray-700">
+                        Word Limit
+                      </label>
+                      <input
+                        type="number"
+                        id="section-word-limit"
+                        min={1}
+                        value={sectionFormData.word_limit}
+                        onChange={(e) => setSectionFormData({ ...sectionFormData, word_limit: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="No limit"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Put the question in the content above; typed answers over the limit cannot be submitted.
+                      </p>
+                    </div>
+                    <RubricEditor
+                      rubric={sectionFormData.rubric}
+                      onChange={(rubric) => setSectionFormData({ ...sectionFormData, rubric })}
+                    />
+                  </div>
+                )}
+
+                <SyllabusMappingFields
+                  idPrefix="section"
+                  nodes={syllabusNodes}
+                  nodeIds={sectionFormData.syllabus_node_ids}
+                  tags={sectionFormData.tags}
+                  onNodeIdsChange={(syllabus_node_ids) => setSectionFormData({ ...sectionFormData, syllabus_node_ids })}
+                  onTagsChange={(tags) => setSectionFormData({ ...sectionFormData, tags })}
+                />
+
                 <div className="flex items-center">
                   <input
                     type="checkbox"
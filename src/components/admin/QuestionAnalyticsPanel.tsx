@@ -0,0 +1,95 @@
+import { QuestionStats, getQuestionFlags, optionCount, percentCorrect } from '../../lib/questionAnalytics';
+import { OptionLetter, answerIncludes } from '../../lib/questionTypes';
+import { formatDuration } from '../../lib/format';
+import { AlertTriangle } from 'lucide-react';
+
+interface QuestionAnalyticsPanelProps {
+  stats: QuestionStats | undefined;
+  correctAnswer: string | null;
+  options: OptionLetter[];
+}
+
+export function QuestionAnalyticsPanel({ stats, correctAnswer, options }: QuestionAnalyticsPanelProps) {
+  if (!stats || stats.responses === 0) {
+    return (
+      <div className="mt-4 p-3 bg-gray-50 rounded-lg text-sm text-gray-500">
+        No attempts yet
+      </div>
+    );
+  }
+
+  const flags = getQuestionFlags(stats, correctAnswer, options);
+  const answered = stats.responses - stats.skipped_count;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Correct</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {correctAnswer ? `${Math.round(percentCorrect(stats))}%` : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Responses</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {stats.responses}
+            <span className="text-xs font-normal text-gray-500"> ({stats.skipped_count} skipped)</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Avg. Time</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {stats.avg_time_seconds !== null ? formatDuration(Math.round(Number(stats.avg_time_seconds))) : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Discrimination</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {stats.discrimination_index !== null ? Number(stats.discrimination_index).toFixed(2) : '—'}
+          </p>
+        </div>
+      </div>
+
+      {options.length > 0 && (
+        <div className="space-y-2">
+          {options.map((option) => {
+            const count = optionCount(stats, option);
+            const share = answered > 0 ? (count / answered) * 100 : 0;
+            const isKey = answerIncludes(correctAnswer, option);
+
+            return (
+              <div key={option} className="flex items-center space-x-3 text-sm">
+                <span className={`w-4 font-medium ${isKey ? 'text-green-700' : 'text-gray-700'}`}>{option}</span>
+                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${isKey ? 'bg-green-500' : 'bg-gray-400'}`}
+                    style={{ width: `${share}%` }}
+                  ></div>
+                </div>
+                <span className="w-20 text-right text-gray-600">
+                  {count} ({Math.round(share)}%)
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {flags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {flags.map((flag) => (
+            <span
+              key={flag.label}
+              title={flag.description}
+              className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800"
+            >
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {flag.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import {
+  ExportScope,
+  fetchQuestionsForExport,
+  questionsToCsv,
+  questionsToJson,
+  questionsToPrintableHtml,
+  exportFileName,
+  downloadFile
+} from '../../lib/questionExport';
+import { Download, FileSpreadsheet, FileJson, Printer } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type ExportFormat = 'csv' | 'json' | 'print';
+
+interface QuestionExportMenuProps {
+  scope: ExportScope;
+  compact?: boolean;
+}
+
+export function QuestionExportMenu({ scope, compact = false }: QuestionExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    // Open the print window straight from the click so pop-up blockers allow it
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    if (format === 'print' && !printWindow) {
+      toast.error('Allow pop-ups to open the printable view');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const questions = await fetchQuestionsForExport(scope);
+      if (questions.length === 0) {
+        printWindow?.close();
+        toast.error('No questions to export');
+        return;
+      }
+
+      if (format === 'csv') {
+        downloadFile(exportFileName(scope.name, 'csv'), questionsToCsv(questions), 'text/csv;charset=utf-8');
+      } else if (format === 'json') {
+        downloadFile(exportFileName(scope.name, 'json'), questionsToJson(questions), 'application/json');
+      } else if (printWindow) {
+        printWindow.document.write(questionsToPrintableHtml(scope.name, questions));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      }
+    } catch (error) {
+      console.error('Error exporting questions:', error);
+      printWindow?.close();
+      toast.error('Failed to export questions');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={exporting}
+        className={compact
+          ? 'p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full disabled:opacity-50'
+          : 'inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50'
+        }
+        title="Export questions"
+      >
+        <Download className={compact ? 'h-4 w-4' : 'h-4 w-4 mr-2'} />
+        {!compact && (exporting ? 'Exporting...' : 'Export')}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-20">
+          <button
+            onClick={() => handleExport('csv')}
+            className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <FileJson className="h-4 w-4 mr-2" />
+            JSON
+          </button>
+          <button
+            onClick={() => handleExport('print')}
+            className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Printable test sheet
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { uploadQuestionImage } from '../../lib/questionImages';
+import { ImagePlus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface QuestionImageInputProps {
+  id: string;
+  label: string;
+  value: string | null;
+  onChange: (url: string | null) => void;
+}
+
+export function QuestionImageInput({ id, label, value, onChange }: QuestionImageInputProps) {
+  const [uploading, setUploading] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      onChange(await uploadQuestionImage(file));
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (value) {
+    return (
+      <div className="relative inline-block mt-2">
+        <img src={value} alt={label} className="max-h-32 rounded-md border border-gray-200 object-contain" />
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="absolute -top-2 -right-2 p-1 bg-white border border-gray-300 rounded-full text-gray-500 hover:text-red-600 shadow-sm"
+          title="Remove image"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <label
+      htmlFor={id}
+      className={`mt-2 inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-700 cursor-pointer ${
+        uploading ? 'opacity-50 pointer-events-none' : ''
+      }`}
+    >
+      <ImagePlus className="h-4 w-4 mr-1" />
+      {uploading ? 'Uploading...' : label}
+      <input
+        type="file"
+        id={id}
+        accept="image/*"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </label>
+  );
+}
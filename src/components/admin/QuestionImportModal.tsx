@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { detectImportFormat, parseQuestionImport, ImportRow } from '../../lib/questionImport';
+import { Upload, CheckCircle, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface QuestionImportModalProps {
+  sectionId: string;
+  nextOrderIndex: number;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export function QuestionImportModal({ sectionId, nextOrderIndex, onClose, onImported }: QuestionImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const validRows = rows.filter(row => row.question);
+  const invalidRows = rows.filter(row => !row.question);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setRows([]);
+    setParseError(null);
+
+    try {
+      const text = await file.text();
+      const parsed = parseQuestionImport(text, detectImportFormat(file.name, text));
+      if (parsed.length === 0) {
+        setParseError('No questions found in this file');
+      }
+      setRows(parsed);
+    } catch (error) {
+      console.error('Error parsing import file:', error);
+      setParseError(error instanceof Error ? error.message : 'Could not read this file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      // Single insert so a failure leaves the section untouched
+      const { error } = await supabase
+        .from('questions')
+        .insert(validRows.map((row, index) => ({
+          ...row.question,
+          section_id: sectionId,
+          order_index: nextOrderIndex + index
+        })));
+
+      if (error) throw error;
+      toast.success(`Imported ${validRows.length} question${validRows.length === 1 ? '' : 's'}`);
+      onImported();
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast.error('Failed to import questions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Import Questions</h3>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="text-sm text-gray-600 space-y-1">
+            <p>
+              Upload a CSV with a header row, or a JSON array of objects, using the columns{' '}
+              <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">question_text, option_a, option_b, option_c, option_d, correct_answer, explanation</code>.
+            </p>
+            <p>
+              Correct answer must be A, B, C or D. Options C and D and the explanation are optional.
+            </p>
+            <p>
+              Optional <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">question_type</code> is one of
+              mcq, multi_select (answers like "A, C"), statement, match, assertion_reason or descriptive. Put one
+              statement per line in <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">statements</code> (assertion
+              then reason for assertion_reason) and one "List I = List II" row per line
+              in <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">match_pairs</code>.
+            </p>
+          </div>
+
+          <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50">
+            <Upload className="h-8 w-8 text-gray-400" />
+            <span className="mt-2 text-sm font-medium text-gray-700">
+              {fileName || 'Choose a .csv or .json file'}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          {parseError && (
+            <div className="flex items-center p-3 rounded-lg bg-red-50 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {parseError}
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex items-center space-x-4 text-sm">
+                <span className="inline-flex items-center text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  {validRows.length} ready to import
+                </span>
+                {invalidRows.length > 0 && (
+                  <span className="inline-flex items-center text-red-700">
+                    <AlertCircle className="h-4 w-4 mr-1" />
+                    {invalidRows.length} with errors (will be skipped)
+                  </span>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="max-h-80 overflow-y-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Row</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Question</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Answer</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {rows.map((row) => (
+                        <tr key={row.row} className={row.question ? '' : 'bg-red-50'}>
+                          <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                          <td className="px-3 py-2 text-gray-900">
+                            {row.question ? (
+                              <span className="line-clamp-2">{row.question.question_text}</span>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-gray-900">{row.question?.correct_answer || '—'}</td>
+                          <td className="px-3 py-2">
+                            {row.question ? (
+                              <span className="text-green-700">OK</span>
+                            ) : (
+                              <span className="text-red-700">{row.errors.join('; ')}</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || validRows.length === 0}
+              className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? 'Importing...' : `Import ${validRows.length} Question${validRows.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
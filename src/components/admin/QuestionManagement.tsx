@@ -2,18 +2,62 @@ import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { Layout } from '../ui/Layout';
-import { Plus, Edit2, Trash2, ArrowLeft, HelpCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { QuestionImportModal } from './QuestionImportModal';
+import { QuestionExportMenu } from './QuestionExportMenu';
+import { QuestionImageInput } from './QuestionImageInput';
+import { MathText } from '../ui/MathText';
+import { QuestionImage } from '../ui/QuestionImage';
+import { QuestionStem } from '../ui/QuestionStem';
+import { QuestionAnalyticsPanel } from './QuestionAnalyticsPanel';
+import { SyllabusMappingFields } from './SyllabusMappingFields';
+import { StatementListEditor, AssertionReasonEditor, MatchPairsEditor } from './QuestionTypeFields';
+import { optionImageField } from '../../lib/questionImages';
+import { QuestionStats, fetchQuestionAnalytics } from '../../lib/questionAnalytics';
+import {
+  QuestionType,
+  TypedQuestion,
+  MatchPair,
+  OptionLetter,
+  OPTION_LETTERS,
+  QUESTION_TYPES,
+  ASSERTION_REASON_OPTIONS,
+  getQuestionTypeLabel,
+  getAvailableOptions,
+  optionTextField,
+  toggleAnswerLetter,
+  answerIncludes,
+  formatAnswerLetters
+} from '../../lib/questionTypes';
+import { PyqPaper, PYQ_PAPERS, formatPyqReference, pyqYearOptions } from '../../lib/pyq';
+import {
+  SyllabusNode,
+  MappedContent,
+  QUESTION_MAPPING_SELECT,
+  syllabusPathLabels,
+  parseTagInput,
+  toContentMapping,
+  fetchSyllabusNodes,
+  saveQuestionMapping
+} from '../../lib/syllabus';
+import { Plus, Edit2, Trash2, ArrowLeft, HelpCircle, Upload, BarChart3 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
-interface Question {
+interface Question extends TypedQuestion, MappedContent {
   id: string;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_answer: 'A' | 'B' | 'C' | 'D';
+  correct_answer: string | null;
   explanation: string | null;
+  is_pyq: boolean;
+  pyq_year: number | null;
+  pyq_paper: PyqPaper | null;
+  pyq_question_number: number | null;
+  pyq_source: string | null;
+  image_url: string | null;
+  option_a_image_url: string | null;
+  option_b_image_url: string | null;
+  option_c_image_url: string | null;
+  option_d_image_url: string | null;
   order_index: number;
 }
 
@@ -23,22 +67,46 @@ interface Section {
   type: string;
 }
 
+const emptyQuestionForm = {
+  question_type: 'mcq' as QuestionType,
+  question_text: '',
+  statements: [] as string[],
+  match_pairs: [] as MatchPair[],
+  option_a: '',
+  option_b: '',
+  option_c: '',
+  option_d: '',
+  // One letter, or sorted letters such as 'AC' for multi-select
+  correct_answer: 'A',
+  explanation: '',
+  is_pyq: false,
+  pyq_year: '',
+  pyq_paper: '' as PyqPaper | '',
+  pyq_question_number: '',
+  pyq_source: '',
+  image_url: null as string | null,
+  option_a_image_url: null as string | null,
+  option_b_image_url: null as string | null,
+  option_c_image_url: null as string | null,
+  option_d_image_url: null as string | null,
+  syllabus_node_ids: [] as string[],
+  tags: ''
+};
+
 export function QuestionManagement() {
   const { subjectId, moduleId, sectionId } = useParams();
+  const { can } = useAuth();
   const [section, setSection] = useState<Section | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
-  const [formData, setFormData] = useState({
-    question_text: '',
-    option_a: '',
-    option_b: '',
-    option_c: '',
-    option_d: '',
-    correct_answer: 'A' as 'A' | 'B' | 'C' | 'D',
-    explanation: ''
-  });
+  const [formData, setFormData] = useState(emptyQuestionForm);
+  const [syllabusNodes, setSyllabusNodes] = useState<SyllabusNode[]>([]);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [analytics, setAnalytics] = useState<Record<string, QuestionStats> | null>(null);
+  const [loadingAnalytics, setLoadingAnalytics] = useState(false);
 
   useEffect(() => {
     if (sectionId) {
@@ -46,6 +114,14 @@ export function QuestionManagement() {
     }
   }, [sectionId]);
 
+  // Questions added to a PYQ section are previous year questions by default
+  const newQuestionForm = () => ({ ...emptyQuestionForm, is_pyq: section?.type === 'pyq' });
+
+  const openCreateModal = () => {
+    setFormData(newQuestionForm());
+    setShowModal(true);
+  };
+
   const fetchData = async () => {
     try {
       // Fetch section details
@@ -61,12 +137,13 @@ export function QuestionManagement() {
       // Fetch questions
       const { data: questionsData, error: questionsError } = await supabase
         .from('questions')
-        .select('*')
+        .select(`*, ${QUESTION_MAPPING_SELECT}`)
         .eq('section_id', sectionId)
         .order('order_index');
 
       if (questionsError) throw questionsError;
       setQuestions(questionsData || []);
+      setSyllabusNodes(await fetchSyllabusNodes());
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('Failed to load data');
@@ -75,64 +152,116 @@ export function QuestionManagement() {
     }
   };
 
+  const toggleAnalytics = async () => {
+    if (showAnalytics) {
+      setShowAnalytics(false);
+      return;
+    }
+
+    setShowAnalytics(true);
+    setLoadingAnalytics(true);
+    try {
+      setAnalytics(await fetchQuestionAnalytics(sectionId!));
+    } catch (error) {
+      console.error('Error fetching question analytics:', error);
+      toast.error('Failed to load question analytics');
+      setShowAnalytics(false);
+    } finally {
+      setLoadingAnalytics(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.question_text.trim() || !formData.option_a.trim() || 
-        !formData.option_b.trim() || !formData.option_c.trim() || !formData.option_d.trim()) {
-      toast.error('All question fields are required');
+    const isDescriptive = formData.question_type === 'descriptive';
+    // An option can be text, an image, or both; C and D may be left out
+    const hasOption = (option: OptionLetter) =>
+      !!formData[optionTextField(option)].trim() || !!formData[optionImageField(option)];
+    const statements = formData.statements.map(statement => statement.trim());
+    const matchPairs = formData.match_pairs.map(pair => ({ left: pair.left.trim(), right: pair.right.trim() }));
+
+    let validationError = '';
+    if (!formData.question_text.trim()) {
+      validationError = 'Question text is required';
+    } else if (formData.question_type === 'statement' && (statements.length < 2 || statements.some(s => !s))) {
+      validationError = 'Add at least two statements and fill them all in';
+    } else if (formData.question_type === 'assertion_reason' && (!statements[0] || !statements[1])) {
+      validationError = 'Both the assertion and the reason are required';
+    } else if (formData.question_type === 'match' && (matchPairs.length < 2 || matchPairs.some(pair => !pair.left || !pair.right))) {
+      validationError = 'Add at least two rows and fill in both lists';
+    } else if (!isDescriptive && (!hasOption('A') || !hasOption('B'))) {
+      validationError = 'Options A and B are required';
+    } else if (!isDescriptive && !formData.correct_answer) {
+      validationError = 'Select the correct answer';
+    } else if (!isDescriptive && formData.correct_answer.split('').some(letter => !hasOption(letter as OptionLetter))) {
+      validationError = 'The correct answer must be one of the filled-in options';
+    }
+
+    if (validationError) {
+      toast.error(validationError);
       return;
     }
 
+    const questionData = {
+      question_type: formData.question_type,
+      question_text: formData.question_text,
+      statements: formData.question_type === 'statement' || formData.question_type === 'assertion_reason' ? statements : null,
+      match_pairs: formData.question_type === 'match' ? matchPairs : null,
+      option_a: !isDescriptive && hasOption('A') ? formData.option_a : null,
+      option_b: !isDescriptive && hasOption('B') ? formData.option_b : null,
+      option_c: !isDescriptive && hasOption('C') ? formData.option_c : null,
+      option_d: !isDescriptive && hasOption('D') ? formData.option_d : null,
+      correct_answer: isDescriptive ? null : formData.correct_answer,
+      explanation: formData.explanation || null,
+      is_pyq: formData.is_pyq,
+      pyq_year: formData.is_pyq && formData.pyq_year ? Number(formData.pyq_year) : null,
+      pyq_paper: formData.is_pyq && formData.pyq_paper ? formData.pyq_paper : null,
+      pyq_question_number: formData.is_pyq && formData.pyq_question_number ? Number(formData.pyq_question_number) : null,
+      pyq_source: formData.is_pyq ? formData.pyq_source.trim() || null : null,
+      image_url: formData.image_url,
+      option_a_image_url: isDescriptive ? null : formData.option_a_image_url,
+      option_b_image_url: isDescriptive ? null : formData.option_b_image_url,
+      option_c_image_url: isDescriptive ? null : formData.option_c_image_url,
+      option_d_image_url: isDescriptive ? null : formData.option_d_image_url
+    };
+
+    const mapping = {
+      nodeIds: formData.syllabus_node_ids,
+      tags: parseTagInput(formData.tags)
+    };
+
     try {
       if (editingQuestion) {
         // Update existing question
         const { error } = await supabase
           .from('questions')
-          .update({
-            question_text: formData.question_text,
-            option_a: formData.option_a,
-            option_b: formData.option_b,
-            option_c: formData.option_c,
-            option_d: formData.option_d,
-            correct_answer: formData.correct_answer,
-            explanation: formData.explanation || null
-          })
+          .update(questionData)
           .eq('id', editingQuestion.id);
 
         if (error) throw error;
+        await saveQuestionMapping(editingQuestion.id, mapping);
         toast.success('Question updated successfully');
       } else {
         // Create new question
         const maxOrder = Math.max(...questions.map(q => q.order_index), -1);
-        const { error } = await supabase
+        const { data: newQuestion, error } = await supabase
           .from('questions')
           .insert({
             section_id: sectionId,
-            question_text: formData.question_text,
-            option_a: formData.option_a,
-            option_b: formData.option_b,
-            option_c: formData.option_c,
-            option_d: formData.option_d,
-            correct_answer: formData.correct_answer,
-            explanation: formData.explanation || null,
+            ...questionData,
             order_index: maxOrder + 1
-          });
+          })
+          .select('id')
+          .single();
 
         if (error) throw error;
+        await saveQuestionMapping(newQuestion.id, mapping);
         toast.success('Question created successfully');
       }
 
       setShowModal(false);
       setEditingQuestion(null);
-      setFormData({
-        question_text: '',
-        option_a: '',
-        option_b: '',
-        option_c: '',
-        option_d: '',
-        correct_answer: 'A',
-        explanation: ''
-      });
+      setFormData(newQuestionForm());
       fetchData();
     } catch (error) {
       console.error('Error saving question:', error);
@@ -143,17 +272,57 @@ export function QuestionManagement() {
   const handleEdit = (question: Question) => {
     setEditingQuestion(question);
     setFormData({
+      question_type: question.question_type,
       question_text: question.question_text,
-      option_a: question.option_a,
-      option_b: question.option_b,
-      option_c: question.option_c,
-      option_d: question.option_d,
-      correct_answer: question.correct_answer,
-      explanation: question.explanation || ''
+      statements: question.statements || [],
+      match_pairs: question.match_pairs || [],
+      option_a: question.option_a || '',
+      option_b: question.option_b || '',
+      option_c: question.option_c || '',
+      option_d: question.option_d || '',
+      correct_answer: question.correct_answer || 'A',
+      explanation: question.explanation || '',
+      is_pyq: question.is_pyq,
+      pyq_year: question.pyq_year?.toString() || '',
+      pyq_paper: question.pyq_paper || '',
+      pyq_question_number: question.pyq_question_number?.toString() || '',
+      pyq_source: question.pyq_source || '',
+      image_url: question.image_url,
+      option_a_image_url: question.option_a_image_url,
+      option_b_image_url: question.option_b_image_url,
+      option_c_image_url: question.option_c_image_url,
+      option_d_image_url: question.option_d_image_url,
+      syllabus_node_ids: toContentMapping(question).nodeIds,
+      tags: toContentMapping(question).tags.join(', ')
     });
     setShowModal(true);
   };
 
+  const handleTypeChange = (questionType: QuestionType) => {
+    const next = { ...formData, question_type: questionType };
+
+    if (questionType !== 'multi_select') {
+      next.correct_answer = formData.correct_answer.charAt(0) || 'A';
+    }
+    if (questionType === 'statement' && next.statements.length < 2) {
+      next.statements = ['', ''];
+    }
+    if (questionType === 'assertion_reason') {
+      next.statements = next.statements.slice(0, 2);
+      // Pre-fill the standard options without overwriting anything already typed
+      OPTION_LETTERS.forEach(option => {
+        if (!next[optionTextField(option)].trim()) {
+          next[optionTextField(option)] = ASSERTION_REASON_OPTIONS[option];
+        }
+      });
+    }
+    if (questionType === 'match' && next.match_pairs.length < 2) {
+      next.match_pairs = [{ left: '', right: '' }, { left: '', right: '' }];
+    }
+
+    setFormData(next);
+  };
+
   const handleDelete = async (questionId: string) => {
     if (!confirm('Are you sure you want to delete this question?')) {
       return;
@@ -177,15 +346,7 @@ export function QuestionManagement() {
   const closeModal = () => {
     setShowModal(false);
     setEditingQuestion(null);
-    setFormData({
-      question_text: '',
-      option_a: '',
-      option_b: '',
-      option_c: '',
-      option_d: '',
-      correct_answer: 'A',
-      explanation: ''
-    });
+    setFormData(newQuestionForm());
   };
 
   if (loading) {
@@ -208,6 +369,8 @@ export function QuestionManagement() {
     );
   }
 
+  const syllabusLabels = syllabusPathLabels(syllabusNodes);
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -225,13 +388,38 @@ export function QuestionManagement() {
               <p className="text-gray-600">Section: {section.name}</p>
             </div>
           </div>
-          <button
-            onClick={() => setShowModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Question
-          </button>
+          <div className="flex items-center space-x-3">
+            {/* Analytics summarise student answers, so content editors without student access don't get them */}
+            {section.type === 'test' && questions.length > 0 && can('view_all_students') && (
+              <button
+                onClick={toggleAnalytics}
+                disabled={loadingAnalytics}
+                className={`inline-flex items-center px-4 py-2 border text-sm font-medium rounded-md disabled:opacity-50 ${
+                  showAnalytics
+                    ? 'border-blue-300 text-blue-700 bg-blue-50 hover:bg-blue-100'
+                    : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+                }`}
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                {showAnalytics ? 'Hide Analytics' : 'Analytics'}
+              </button>
+            )}
+            <QuestionExportMenu scope={{ type: 'section', id: section.id, name: section.name }} />
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </button>
+            <button
+              onClick={openCreateModal}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Question
+            </button>
+          </div>
         </div>
 
         {/* Questions List */}
@@ -241,10 +429,10 @@ export function QuestionManagement() {
               <HelpCircle className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-4 text-sm font-medium text-gray-900">No questions yet</h3>
               <p className="mt-2 text-sm text-gray-500">
-                Get started by creating your first question.
+                Get started by creating your first question or importing a question bank.
               </p>
               <button
-                onClick={() => setShowModal(true)}
+                onClick={openCreateModal}
                 className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
               >
                 <Plus className="h-4 w-4 mr-2" />
@@ -258,45 +446,68 @@ export function QuestionManagement() {
                   <div className="flex-1">
                     <div className="flex items-center space-x-2 mb-3">
                       <span className="text-sm font-medium text-gray-500">Q{index + 1}.</span>
-                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                        question.correct_answer === 'A' ? 'bg-blue-100 text-blue-800' :
-                        question.correct_answer === 'B' ? 'bg-green-100 text-green-800' :
-                        question.correct_answer === 'C' ? 'bg-yellow-100 text-yellow-800' :
-                        'bg-purple-100 text-purple-800'
-                      }`}>
-                        Correct: {question.correct_answer}
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                        {getQuestionTypeLabel(question.question_type)}
                       </span>
+                      {question.correct_answer && (
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                          question.correct_answer === 'A' ? 'bg-blue-100 text-blue-800' :
+                          question.correct_answer === 'B' ? 'bg-green-100 text-green-800' :
+                          question.correct_answer === 'C' ? 'bg-yellow-100 text-yellow-800' :
+                          'bg-purple-100 text-purple-800'
+                        }`}>
+                          Correct: {formatAnswerLetters(question.correct_answer)}
+                        </span>
+                      )}
+                      {question.is_pyq && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800">
+                          {formatPyqReference(question)}
+                        </span>
+                      )}
+                      {question.syllabus.map(({ node_id }) => (
+                        <span key={node_id} className="px-2 py-1 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800">
+                          {syllabusLabels[node_id]}
+                        </span>
+                      ))}
+                      {toContentMapping(question).tags.map((tag) => (
+                        <span key={tag} className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                          #{tag}
+                        </span>
+                      ))}
                     </div>
                     
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">
-                      {question.question_text}
-                    </h3>
+                    <div className="text-lg font-medium text-gray-900 mb-4">
+                      <QuestionStem question={question} imageAlt="Question" />
+                    </div>
                     
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
-                      <div className="p-3 bg-gray-50 rounded-lg">
-                        <span className="font-medium text-gray-700">A. </span>
-                        <span className="text-gray-900">{question.option_a}</span>
-                      </div>
-                      <div className="p-3 bg-gray-50 rounded-lg">
-                        <span className="font-medium text-gray-700">B. </span>
-                        <span className="text-gray-900">{question.option_b}</span>
-                      </div>
-                      <div className="p-3 bg-gray-50 rounded-lg">
-                        <span className="font-medium text-gray-700">C. </span>
-                        <span className="text-gray-900">{question.option_c}</span>
+                    {getAvailableOptions(question).length > 0 && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                        {getAvailableOptions(question).map((option) => (
+                          <div key={option} className="p-3 bg-gray-50 rounded-lg">
+                            <span className="font-medium text-gray-700">{option}. </span>
+                            <span className="text-gray-900"><MathText text={question[optionTextField(option)] || ''} /></span>
+                            <QuestionImage src={question[optionImageField(option)]} alt={`Option ${option}`} className="mt-2 max-h-40" />
+                          </div>
+                        ))}
                       </div>
-                      <div className="p-3 bg-gray-50 rounded-lg">
-                        <span className="font-medium text-gray-700">D. </span>
-                        <span className="text-gray-900">{question.option_d}</span>
-                      </div>
-                    </div>
+                    )}
                     
                     {question.explanation && (
                       <div className="p-3 bg-blue-50 rounded-lg">
-                        <span className="font-medium text-blue-900">Explanation: </span>
+                        <span className="font-medium text-blue-900">
+                          {question.question_type === 'descriptive' ? 'Model answer: ' : 'Explanation: '}
+                        </span>
                         <span className="text-blue-800">{question.explanation}</span>
                       </div>
                     )}
+
+                    {showAnalytics && analytics && (
+                      <QuestionAnalyticsPanel
+                        stats={analytics[question.id]}
+                        correctAnswer={question.correct_answer}
+                        options={getAvailableOptions(question)}
+                      />
+                    )}
                   </div>
                   
                   <div className="flex items-center space-x-2 ml-4">
@@ -319,6 +530,19 @@ export function QuestionManagement() {
           )}
         </div>
 
+        {/* Import Modal */}
+        {showImportModal && (
+          <QuestionImportModal
+            sectionId={section.id}
+            nextOrderIndex={Math.max(...questions.map(q => q.order_index), -1) + 1}
+            onClose={() => setShowImportModal(false)}
+            onImported={() => {
+              setShowImportModal(false);
+              fetchData();
+            }}
+          />
+        )}
+
         {/* Question Modal */}
         {showModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -329,9 +553,32 @@ export function QuestionManagement() {
                 </h3>
               </div>
               <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="question-type" className="block text-sm font-medium text-gray-700">
+                    Question Type *
+                  </label>
+                  <select
+                    id="question-type"
+                    value={formData.question_type}
+                    onChange={(e) => handleTypeChange(e.target.value as QuestionType)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {QUESTION_TYPES.map((type) => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {formData.question_type === 'assertion_reason' && (
+                  <AssertionReasonEditor
+                    statements={formData.statements}
+                    onChange={(statements) => setFormData({ ...formData, statements })}
+                  />
+                )}
+
                 <div>
                   <label htmlFor="question-text" className="block text-sm font-medium text-gray-700">
-                    Question Text *
+                    {formData.question_type === 'assertion_reason' ? 'Instruction *' : 'Question Text *'}
                   </label>
                   <textarea
                     id="question-text"
@@ -339,102 +586,206 @@ export function QuestionManagement() {
                     onChange={(e) => setFormData({ ...formData, question_text: e.target.value })}
                     rows={3}
                     className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Enter the question"
+                    placeholder={
+                      formData.question_type === 'statement' ? 'Consider the following statements:' :
+                      formData.question_type === 'match' ? 'Match List I with List II and select the correct answer:' :
+                      formData.question_type === 'assertion_reason' ? 'Select the correct answer using the code given below:' :
+                      'Enter the question'
+                    }
                     required
                   />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Use $...$ for inline math and $$...$$ on its own lines for display math.
+                  </p>
+                  <QuestionImageInput
+                    id="question-image"
+                    label="Attach image"
+                    value={formData.image_url}
+                    onChange={(url) => setFormData({ ...formData, image_url: url })}
+                  />
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label htmlFor="option-a" className="block text-sm font-medium text-gray-700">
-                      Option A *
-                    </label>
-                    <input
-                      type="text"
-                      id="option-a"
-                      value={formData.option_a}
-                      onChange={(e) => setFormData({ ...formData, option_a: e.target.value })}
-                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Option A"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label htmlFor="option-b" className="block text-sm font-medium text-gray-700">
-                      Option B *
-                    </label>
-                    <input
-                      type="text"
-                      id="option-b"
-                      value={formData.option_b}
-                      onChange={(e) => setFormData({ ...formData, option_b: e.target.value })}
-                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Option B"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label htmlFor="option-c" className="block text-sm font-medium text-gray-700">
-                      Option C *
-                    </label>
-                    <input
-                      type="text"
-                      id="option-c"
-                      value={formData.option_c}
-                      onChange={(e) => setFormData({ ...formData, option_c: e.target.value })}
-                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Option C"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label htmlFor="option-d" className="block text-sm font-medium text-gray-700">
-                      Option D *
-                    </label>
-                    <input
-                      type="text"
-                      id="option-d"
-                      value={formData.option_d}
-                      onChange={(e) => setFormData({ ...formData, option_d: e.target.value })}
-                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Option D"
-                      required
-                    />
-                  </div>
-                </div>
+                {formData.question_type === 'statement' && (
+                  <StatementListEditor
+                    statements={formData.statements}
+                    onChange={(statements) => setFormData({ ...formData, statements })}
+                  />
+                )}
 
-                <div>
-                  <label htmlFor="correct-answer" className="block text-sm font-medium text-gray-700">
-                    Correct Answer *
-                  </label>
-                  <select
-                    id="correct-answer"
-                    value={formData.correct_answer}
-                    onChange={(e) => setFormData({ ...formData, correct_answer: e.target.value as any })}
-                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    required
-                  >
-                    <option value="A">A</option>
-                    <option value="B">B</option>
-                    <option value="C">C</option>
-                    <option value="D">D</option>
-                  </select>
-                </div>
+                {formData.question_type === 'match' && (
+                  <MatchPairsEditor
+                    pairs={formData.match_pairs}
+                    onChange={(match_pairs) => setFormData({ ...formData, match_pairs })}
+                  />
+                )}
+
+                {formData.question_type !== 'descriptive' && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {OPTION_LETTERS.map((option) => (
+                        <div key={option}>
+                          <label htmlFor={`option-${option.toLowerCase()}`} className="block text-sm font-medium text-gray-700">
+                            Option {option} {option === 'A' || option === 'B' ? '*' : '(Optional)'}
+                          </label>
+                          <input
+                            type="text"
+                            id={`option-${option.toLowerCase()}`}
+                            value={formData[optionTextField(option)]}
+                            onChange={(e) => setFormData({ ...formData, [optionTextField(option)]: e.target.value })}
+                            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                            placeholder={`Option ${option}`}
+                          />
+                          <QuestionImageInput
+                            id={`option-${option.toLowerCase()}-image`}
+                            label="Attach image"
+                            value={formData[optionImageField(option)]}
+                            onChange={(url) => setFormData({ ...formData, [optionImageField(option)]: url })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    {formData.question_type === 'multi_select' ? (
+                      <div>
+                        <span className="block text-sm font-medium text-gray-700">Correct Answers *</span>
+                        <div className="mt-2 flex items-center space-x-6">
+                          {OPTION_LETTERS.map((option) => (
+                            <label key={option} className="inline-flex items-center text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={answerIncludes(formData.correct_answer, option)}
+                                onChange={() => setFormData({ ...formData, correct_answer: toggleAnswerLetter(formData.correct_answer, option) })}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                              />
+                              {option}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      <div>
+                        <label htmlFor="correct-answer" className="block text-sm font-medium text-gray-700">
+                          Correct Answer *
+                        </label>
+                        <select
+                          id="correct-answer"
+                          value={formData.correct_answer}
+                          onChange={(e) => setFormData({ ...formData, correct_answer: e.target.value })}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                          required
+                        >
+                          {OPTION_LETTERS.map((option) => (
+                            <option key={option} value={option}>{option}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </>
+                )}
 
                 <div>
                   <label htmlFor="explanation" className="block text-sm font-medium text-gray-700">
-                    Explanation (Optional)
+                    {formData.question_type === 'descriptive' ? 'Model Answer (Optional)' : 'Explanation (Optional)'}
                   </label>
                   <textarea
                     id="explanation"
                     value={formData.explanation}
                     onChange={(e) => setFormData({ ...formData, explanation: e.target.value })}
-                    rows={3}
+                    rows={formData.question_type === 'descriptive' ? 6 : 3}
                     className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Explain why this is the correct answer"
+                    placeholder={
+                      formData.question_type === 'descriptive'
+                        ? 'Key points a good answer should cover'
+                        : 'Explain why this is the correct answer'
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="is-pyq"
+                    checked={formData.is_pyq}
+                    onChange={(e) => setFormData({ ...formData, is_pyq: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                   />
+                  <label htmlFor="is-pyq" className="ml-2 block text-sm text-gray-900">
+                    Previous year question (PYQ)
+                  </label>
                 </div>
 
+                {formData.is_pyq && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label htmlFor="pyq_year" className="block text-sm font-medium text-gray-700">
+                        Year
+                      </label>
+                      <select
+                        id="pyq_year"
+                        value={formData.pyq_year}
+                        onChange={(e) => setFormData({ ...formData, pyq_year: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Unknown</option>
+                        {pyqYearOptions().map((year) => (
+                          <option key={year} value={year}>{year}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="pyq_paper" className="block text-sm font-medium text-gray-700">
+                        Paper
+                      </label>
+                      <select
+                        id="pyq_paper"
+                        value={formData.pyq_paper}
+                        onChange={(e) => setFormData({ ...formData, pyq_paper: e.target.value as PyqPaper | '' })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Unknown</option>
+                        {PYQ_PAPERS.map((paper) => (
+                          <option key={paper.value} value={paper.value}>{paper.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="pyq_question_number" className="block text-sm font-medium text-gray-700">
+                        Question number
+                      </label>
+                      <input
+                        type="number"
+                        id="pyq_question_number"
+                        min={1}
+                        value={formData.pyq_question_number}
+                        onChange={(e) => setFormData({ ...formData, pyq_question_number: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div className="md:col-span-3">
+                      <label htmlFor="pyq_source" className="block text-sm font-medium text-gray-700">
+                        Official source
+                      </label>
+                      <input
+                        type="text"
+                        id="pyq_source"
+                        value={formData.pyq_source}
+                        onChange={(e) => setFormData({ ...formData, pyq_source: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="e.g., https://upsc.gov.in/... question paper link"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <SyllabusMappingFields
+                  idPrefix="question"
+                  nodes={syllabusNodes}
+                  nodeIds={formData.syllabus_node_ids}
+                  tags={formData.tags}
+                  onNodeIdsChange={(syllabus_node_ids) => setFormData({ ...formData, syllabus_node_ids })}
+                  onTagsChange={(tags) => setFormData({ ...formData, tags })}
+                />
+
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
                     type="button"
@@ -0,0 +1,152 @@
+import { MatchPair } from '../../lib/questionTypes';
+import { Plus, X } from 'lucide-react';
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+interface StatementListEditorProps {
+  statements: string[];
+  onChange: (statements: string[]) => void;
+}
+
+export function StatementListEditor({ statements, onChange }: StatementListEditorProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Statements *</label>
+      <div className="mt-1 space-y-2">
+        {statements.map((statement, index) => (
+          <div key={index} className="flex items-start space-x-2">
+            <span className="mt-2 text-sm font-medium text-gray-500 w-5">{index + 1}.</span>
+            <textarea
+              value={statement}
+              onChange={(e) => onChange(statements.map((s, i) => i === index ? e.target.value : s))}
+              rows={2}
+              className={inputClassName}
+              placeholder={`Statement ${index + 1}`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(statements.filter((_, i) => i !== index))}
+              disabled={statements.length <= 2}
+              className="mt-1 p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full disabled:opacity-30 disabled:pointer-events-none"
+              title="Remove statement"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...statements, ''])}
+        className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add statement
+      </button>
+    </div>
+  );
+}
+
+interface AssertionReasonEditorProps {
+  statements: string[];
+  onChange: (statements: string[]) => void;
+}
+
+export function AssertionReasonEditor({ statements, onChange }: AssertionReasonEditorProps) {
+  const [assertion = '', reason = ''] = statements;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="question-assertion" className="block text-sm font-medium text-gray-700">
+          Assertion (A) *
+        </label>
+        <textarea
+          id="question-assertion"
+          value={assertion}
+          onChange={(e) => onChange([e.target.value, reason])}
+          rows={2}
+          className={`mt-1 ${inputClassName}`}
+        />
+      </div>
+      <div>
+        <label htmlFor="question-reason" className="block text-sm font-medium text-gray-700">
+          Reason (R) *
+        </label>
+        <textarea
+          id="question-reason"
+          value={reason}
+          onChange={(e) => onChange([assertion, e.target.value])}
+          rows={2}
+          className={`mt-1 ${inputClassName}`}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface MatchPairsEditorProps {
+  pairs: MatchPair[];
+  onChange: (pairs: MatchPair[]) => void;
+}
+
+export function MatchPairsEditor({ pairs, onChange }: MatchPairsEditorProps) {
+  const updatePair = (index: number, side: keyof MatchPair, value: string) => {
+    onChange(pairs.map((pair, i) => i === index ? { ...pair, [side]: value } : pair));
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2 pr-10">
+        <label className="block text-sm font-medium text-gray-700">List I *</label>
+        <label className="block text-sm font-medium text-gray-700">List II *</label>
+      </div>
+      <div className="mt-1 space-y-2">
+        {pairs.map((pair, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <div className="flex-1 grid grid-cols-2 gap-2">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium text-gray-500 w-4">{String.fromCharCode(65 + index)}.</span>
+                <input
+                  type="text"
+                  value={pair.left}
+                  onChange={(e) => updatePair(index, 'left', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium text-gray-500 w-4">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={pair.right}
+                  onChange={(e) => updatePair(index, 'right', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(pairs.filter((_, i) => i !== index))}
+              disabled={pairs.length <= 2}
+              className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full disabled:opacity-30 disabled:pointer-events-none"
+              title="Remove row"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...pairs, { left: '', right: '' }])}
+        className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add row
+      </button>
+      <p className="mt-1 text-xs text-gray-500">
+        Enter List II in the order it should be printed; put the answer codes (e.g. A-2, B-1…) in the options.
+      </p>
+    </div>
+  );
+}
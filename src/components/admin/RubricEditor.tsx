@@ -0,0 +1,64 @@
+import { RubricCriterion, getRubricTotal } from '../../lib/answerSubmissions';
+import { formatMarks } from '../../lib/scoring';
+import { Plus, X } from 'lucide-react';
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  onChange: (rubric: RubricCriterion[]) => void;
+}
+
+export function RubricEditor({ rubric, onChange }: RubricEditorProps) {
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    onChange(rubric.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Evaluation Rubric *</label>
+        <span className="text-xs text-gray-500">Total {formatMarks(getRubricTotal(rubric))} marks</span>
+      </div>
+      <div className="mt-1 space-y-2">
+        {rubric.map((item, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={item.criterion}
+              onChange={(e) => updateCriterion(index, { criterion: e.target.value })}
+              className={inputClassName}
+              placeholder="Criterion"
+            />
+            <input
+              type="number"
+              value={item.max_marks}
+              min={0.5}
+              step={0.5}
+              onChange={(e) => updateCriterion(index, { max_marks: Number(e.target.value) })}
+              className={`${inputClassName} w-24`}
+              title="Maximum marks"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(rubric.filter((_, i) => i !== index))}
+              disabled={rubric.length <= 1}
+              className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full disabled:opacity-30 disabled:pointer-events-none"
+              title="Remove criterion"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...rubric, { criterion: '', max_marks: 1 }])}
+        className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add criterion
+      </button>
+    </div>
+  );
+}
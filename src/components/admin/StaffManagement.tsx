@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { Role, STAFF_ROLES, ROLE_LABELS } from '../../lib/permissions';
+import { ShieldPlus, UserCog } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface StaffMember {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: Role;
+  created_at: string;
+}
+
+export function StaffManagement() {
+  const { profile } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name, role, created_at')
+        .neq('role', 'student')
+        .order('full_name');
+
+      if (error) throw error;
+      setStaff(data || []);
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+      toast.error('Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, role: Role) => {
+    const message = role === 'student'
+      ? `Remove staff access for ${member.full_name || member.email}? They will become a student.`
+      : `Change ${member.full_name || member.email} to ${ROLE_LABELS[role]}?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('set_staff_role', { p_user_id: member.id, p_role: role });
+
+      if (error) throw error;
+      toast.success('Role updated');
+      fetchStaff();
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error('Failed to update role');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Staff</h1>
+            <p className="text-gray-600">Choose what each staff member can do</p>
+          </div>
+          <Link
+            to="/admin/invites"
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            <ShieldPlus className="h-4 w-4 mr-2" />
+            Invite Staff
+          </Link>
+        </div>
+
+        {/* Role reference */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {STAFF_ROLES.map((staffRole) => (
+            <div key={staffRole.value} className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+              <h3 className="text-sm font-medium text-gray-900">{staffRole.label}</h3>
+              <p className="mt-1 text-xs text-gray-500">{staffRole.description}</p>
+            </div>
+          ))}
+        </div>
+
+        {staff.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Name</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Role</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {staff.map((member) => (
+                  <tr key={member.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{member.full_name || member.email}</p>
+                      {member.full_name && (
+                        <p className="text-xs text-gray-500">{member.email}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {member.id === profile?.id ? (
+                        <span className="text-gray-600">{ROLE_LABELS[member.role]} (you)</span>
+                      ) : (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                          className="border border-gray-300 rounded-md shadow-sm px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          {STAFF_ROLES.map((staffRole) => (
+                            <option key={staffRole.value} value={staffRole.value}>{staffRole.label}</option>
+                          ))}
+                          <option value="student">Student (remove staff access)</option>
+                        </select>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <UserCog className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">No staff yet</h3>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { fetchStudyStreak, StudyStreak } from '../../lib/activity';
+import { formatDateTime } from '../../lib/format';
+import { ArrowLeft, CheckCircle, Clock, Circle, Flame, Target } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Student {
+  id: string;
+  email: string;
+  full_name: string | null;
+  created_at: string;
+}
+
+interface Section {
+  id: string;
+  name: string;
+  type: 'source' | 'test' | 'resource' | 'pyq' | 'mains';
+  order_index: number;
+  pass_percentage: number;
+}
+
+interface Module {
+  id: string;
+  name: string;
+  order_index: number;
+  sections: Section[];
+}
+
+interface Subject {
+  id: string;
+  name: string;
+  modules: Module[];
+}
+
+interface SectionProgress {
+  section_id: string;
+  is_completed: boolean;
+  score: number;
+  attempts: number;
+  completed_at: string | null;
+  review_status: 'submitted' | 'in_review' | 'returned' | null;
+}
+
+function getSectionStatus(progress: SectionProgress | undefined) {
+  if (progress?.is_completed) {
+    return { label: 'Completed', className: 'text-green-700', icon: CheckCircle };
+  }
+  if (progress?.review_status === 'submitted' || progress?.review_status === 'in_review') {
+    return { label: 'Awaiting evaluation', className: 'text-yellow-700', icon: Clock };
+  }
+  if (progress && progress.attempts > 0) {
+    return { label: 'In progress', className: 'text-yellow-700', icon: Clock };
+  }
+  return { label: 'Not started', className: 'text-gray-500', icon: Circle };
+}
+
+export function StudentDetail() {
+  const { studentId } = useParams<{ studentId: string }>();
+  const [student, setStudent] = useState<Student | null>(null);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [progress, setProgress] = useState<Record<string, SectionProgress>>({});
+  const [streak, setStreak] = useState<StudyStreak | null>(null);
+  const [batchNames, setBatchNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (studentId) {
+      fetchStudentData();
+    }
+  }, [studentId]);
+
+  const fetchStudentData = async () => {
+    try {
+      const { data: studentData, error: studentError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name, created_at')
+        .eq('id', studentId)
+        .single();
+
+      if (studentError) throw studentError;
+      setStudent(studentData);
+
+      const { data: subjectsData, error: subjectsError } = await supabase
+        .from('subjects')
+        .select(`
+          id,
+          name,
+          modules(
+            id,
+            name,
+            order_index,
+            sections(id, name, type, order_index, pass_percentage)
+          )
+        `)
+        .eq('is_active', true)
+        .order('order_index');
+
+      if (subjectsError) throw subjectsError;
+
+      // Sort nested modules and sections
+      setSubjects((subjectsData || []).map(subject => ({
+        ...subject,
+        modules: (subject.modules || [])
+          .sort((a: Module, b: Module) => a.order_index - b.order_index)
+          .map((module: Module) => ({
+            ...module,
+            sections: (module.sections || []).sort((a, b) => a.order_index - b.order_index)
+          }))
+      })));
+
+      const { data: progressData, error: progressError } = await supabase
+        .from('user_section_progress')
+        .select('section_id, is_completed, score, attempts, completed_at, review_status')
+        .eq('user_id', studentId);
+
+      if (progressError) throw progressError;
+
+      const progressMap: Record<string, SectionProgress> = {};
+      (progressData || []).forEach(row => {
+        progressMap[row.section_id] = row;
+      });
+      setProgress(progressMap);
+
+      const { data: batchesData, error: batchesError } = await supabase
+        .from('batch_members')
+        .select('batches(name)')
+        .eq('user_id', studentId);
+
+      if (batchesError) throw batchesError;
+      const memberships = (batchesData || []) as unknown as { batches: { name: string } | null }[];
+      setBatchNames(memberships.map(row => row.batches?.name).filter((name): name is string => !!name));
+
+      setStreak(await fetchStudyStreak(studentId!));
+    } catch (error) {
+      console.error('Error fetching student progress:', error);
+      toast.error('Failed to load student progress');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!student) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Student not found</h3>
+        </div>
+      </Layout>
+    );
+  }
+
+  const allSections = subjects.flatMap(subject => subject.modules.flatMap(module => module.sections));
+  const completedCount = allSections.filter(section => progress[section.id]?.is_completed).length;
+  const overallPercentage = allSections.length > 0 ? Math.round((completedCount / allSections.length) * 100) : 0;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link
+            to="/admin/students"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{student.full_name || student.email}</h1>
+            <p className="text-gray-600">
+              {student.email} · Joined {formatDateTime(student.created_at)} · {batchNames.length > 0 ? batchNames.join(', ') : 'No batch'}
+            </p>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+            <div className="flex items-center">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Target className="h-6 w-6 text-blue-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Overall Completion</p>
+                <p className="text-2xl font-bold text-gray-900">{overallPercentage}%</p>
+                <p className="text-xs text-gray-500">{completedCount}/{allSections.length} sections</p>
+              </div>
+            </div>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+            <div className="flex items-center">
+              <div className="p-2 bg-orange-100 rounded-lg">
+                <Flame className="h-6 w-6 text-orange-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Study Streak</p>
+                <p className="text-2xl font-bold text-gray-900">{streak?.current_streak || 0} days</p>
+                <p className="text-xs text-gray-500">Longest {streak?.longest_streak || 0} days</p>
+              </div>
+            </div>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+            <div className="flex items-center">
+              <div className="p-2 bg-green-100 rounded-lg">
+                <Clock className="h-6 w-6 text-green-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Last Study Day</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {streak?.last_active_date
+                    ? new Date(streak.last_active_date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+                    : 'Never'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Per-subject breakdown */}
+        {subjects.map((subject) => {
+          const subjectSections = subject.modules.flatMap(module => module.sections);
+          const subjectCompleted = subjectSections.filter(section => progress[section.id]?.is_completed).length;
+
+          return (
+            <div key={subject.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">{subject.name}</h2>
+                <span className="text-sm text-gray-500">
+                  {subjectCompleted}/{subjectSections.length} completed
+                </span>
+              </div>
+
+              <div className="divide-y divide-gray-100">
+                {subject.modules.map((module) => {
+                  const moduleCompleted = module.sections.filter(section => progress[section.id]?.is_completed).length;
+
+                  return (
+                    <div key={module.id} className="px-6 py-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="text-sm font-semibold text-gray-900">{module.name}</h3>
+                        <span className="text-xs text-gray-500">
+                          {moduleCompleted}/{module.sections.length}
+                        </span>
+                      </div>
+
+                      {module.sections.length > 0 ? (
+                        <table className="min-w-full text-sm">
+                          <tbody className="divide-y divide-gray-50">
+                            {module.sections.map((section) => {
+                              const sectionProgress = progress[section.id];
+                              const status = getSectionStatus(sectionProgress);
+                              const isScored = section.type === 'test' || section.type === 'mains';
+
+                              return (
+                                <tr key={section.id}>
+                                  <td className="py-2 pr-4 text-gray-900">
+                                    {section.name}
+                                    <span className="ml-2 text-xs text-gray-500 uppercase">{section.type}</span>
+                                  </td>
+                                  <td className={`py-2 pr-4 ${status.className}`}>
+                                    <span className="inline-flex items-center">
+                                      <status.icon className="h-4 w-4 mr-1" />
+                                      {status.label}
+                                    </span>
+                                  </td>
+                                  <td className="py-2 pr-4 text-gray-600">
+                                    {isScored && sectionProgress && sectionProgress.attempts > 0
+                                      ? `Best ${sectionProgress.score}%${section.type === 'test' ? ` (pass ${section.pass_percentage}%)` : ''}`
+                                      : '—'}
+                                  </td>
+                                  <td className="py-2 pr-4 text-gray-600">
+                                    {isScored && sectionProgress
+                                      ? `${sectionProgress.attempts} attempt${sectionProgress.attempts === 1 ? '' : 's'}`
+                                      : '—'}
+                                  </td>
+                                  <td className="py-2 text-right text-xs text-gray-500">
+                                    {sectionProgress?.completed_at ? formatDateTime(sectionProgress.completed_at) : ''}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <p className="text-sm text-gray-500">No sections</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { formatDateTime } from '../../lib/format';
+import { AlertTriangle, Search, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface StudentSummary {
+  id: string;
+  email: string;
+  full_name: string | null;
+  completed_sections: number;
+  total_sections: number;
+  progress_percentage: number;
+  last_accessed: string | null;
+}
+
+type SortOrder = 'progress' | 'last_active' | 'name';
+
+// Students with no progress for this long are flagged as falling behind
+const INACTIVE_DAYS = 7;
+
+function isInactive(lastAccessed: string | null) {
+  if (!lastAccessed) return true;
+  return Date.now() - new Date(lastAccessed).getTime() > INACTIVE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+export function StudentList() {
+  const [students, setStudents] = useState<StudentSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('progress');
+
+  useEffect(() => {
+    fetchStudents();
+  }, []);
+
+  const fetchStudents = async () => {
+    try {
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .eq('role', 'student')
+        .order('full_name');
+
+      if (profilesError) throw profilesError;
+
+      // Count sections the same way the student dashboard does
+      const { data: subjects, error: subjectsError } = await supabase
+        .from('subjects')
+        .select('id, modules(id, sections(id))')
+        .eq('is_active', true);
+
+      if (subjectsError) throw subjectsError;
+
+      const { data: progress, error: progressError } = await supabase
+        .from('user_progress')
+        .select('user_id, subject_id, completed_sections, last_accessed');
+
+      if (progressError) throw progressError;
+
+      const activeSubjectIds = new Set((subjects || []).map(subject => subject.id));
+      const totalSections = (subjects || []).reduce((total, subject) =>
+        total + (subject.modules || []).reduce((sum, module) => sum + (module.sections?.length || 0), 0), 0);
+
+      setStudents((profiles || []).map(student => {
+        const rows = (progress || []).filter(p => p.user_id === student.id);
+        const completedSections = rows
+          .filter(p => activeSubjectIds.has(p.subject_id))
+          .reduce((sum, p) => sum + p.completed_sections, 0);
+        const lastAccessed = rows.reduce<string | null>((latest, p) =>
+          !latest || p.last_accessed > latest ? p.last_accessed : latest, null);
+
+        return {
+          ...student,
+          completed_sections: completedSections,
+          total_sections: totalSections,
+          progress_percentage: totalSections > 0 ? (completedSections / totalSections) * 100 : 0,
+          last_accessed: lastAccessed
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching students:', error);
+      toast.error('Failed to load students');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visible = students
+    .filter(student =>
+      !query ||
+      student.email.toLowerCase().includes(query) ||
+      (student.full_name || '').toLowerCase().includes(query)
+    )
+    .sort((a, b) => {
+      if (sortOrder === 'progress') return a.progress_percentage - b.progress_percentage;
+      // Never-active students sort as the least recently active
+      if (sortOrder === 'last_active') return (a.last_accessed || '').localeCompare(b.last_accessed || '');
+      return (a.full_name || a.email).localeCompare(b.full_name || b.email);
+    });
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Students</h1>
+          <p className="text-gray-600">Track completion and spot students who are falling behind</p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="block w-full border border-gray-300 rounded-md shadow-sm pl-9 pr-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Search by name or email"
+            />
+          </div>
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            className="border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="progress">Least progress first</option>
+            <option value="last_active">Least recently active first</option>
+            <option value="name">Name</option>
+          </select>
+        </div>
+
+        {visible.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Student</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Completion</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Last Active</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map((student) => (
+                  <tr key={student.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{student.full_name || student.email}</p>
+                      {student.full_name && (
+                        <p className="text-xs text-gray-500">{student.email}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-32 bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full"
+                            style={{ width: `${student.progress_percentage}%` }}
+                          ></div>
+                        </div>
+                        <span className="text-gray-700">
+                          {Math.round(student.progress_percentage)}%
+                          <span className="text-xs text-gray-500"> ({student.completed_sections}/{student.total_sections})</span>
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex items-center ${isInactive(student.last_accessed) ? 'text-red-600' : 'text-gray-600'}`}>
+                        {isInactive(student.last_accessed) && <AlertTriangle className="h-4 w-4 mr-1" />}
+                        {student.last_accessed ? formatDateTime(student.last_accessed) : 'Never'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Link
+                        to={`/admin/students/${student.id}`}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        View Progress
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <Users className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">
+              {students.length === 0 ? 'No students yet' : 'No students match your search'}
+            </h3>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import {
+  SyllabusNode,
+  SyllabusTreeNode,
+  Tag,
+  buildSyllabusTree,
+  fetchSyllabusNodes
+} from '../../lib/syllabus';
+import { Plus, Edit2, Trash2, ListTree, Tag as TagIcon } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const emptyNodeForm = {
+  name: '',
+  description: ''
+};
+
+export function SyllabusManagement() {
+  const [nodes, setNodes] = useState<SyllabusNode[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingNode, setEditingNode] = useState<SyllabusNode | null>(null);
+  // The node a new topic is added under; null adds a paper at the top level
+  const [parentNode, setParentNode] = useState<SyllabusNode | null>(null);
+  const [formData, setFormData] = useState(emptyNodeForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setNodes(await fetchSyllabusNodes());
+
+      const { data: tagsData, error: tagsError } = await supabase
+        .from('tags')
+        .select('id, name')
+        .order('name');
+
+      if (tagsError) throw tagsError;
+      setTags(tagsData || []);
+    } catch (error) {
+      console.error('Error fetching syllabus:', error);
+      toast.error('Failed to load syllabus');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateModal = (parent: SyllabusNode | null) => {
+    setEditingNode(null);
+    setParentNode(parent);
+    setFormData(emptyNodeForm);
+    setShowModal(true);
+  };
+
+  const handleEdit = (node: SyllabusNode) => {
+    setEditingNode(node);
+    setParentNode(null);
+    setFormData({
+      name: node.name,
+      description: node.description || ''
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingNode(null);
+    setParentNode(null);
+    setFormData(emptyNodeForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast.error('Topic name is required');
+      return;
+    }
+
+    try {
+      if (editingNode) {
+        const { error } = await supabase
+          .from('syllabus_nodes')
+          .update({
+            name: formData.name.trim(),
+            description: formData.description.trim() || null
+          })
+          .eq('id', editingNode.id);
+
+        if (error) throw error;
+      } else {
+        const siblings = nodes.filter(node => node.parent_id === (parentNode?.id ?? null));
+        const { error } = await supabase
+          .from('syllabus_nodes')
+          .insert({
+            parent_id: parentNode?.id ?? null,
+            name: formData.name.trim(),
+            description: formData.description.trim() || null,
+            order_index: Math.max(...siblings.map(node => node.order_index), -1) + 1
+          });
+
+        if (error) throw error;
+      }
+
+      toast.success(`Topic ${editingNode ? 'updated' : 'created'} successfully`);
+      closeModal();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving syllabus topic:', error);
+      toast.error('Failed to save topic');
+    }
+  };
+
+  const handleDelete = async (node: SyllabusNode) => {
+    if (!confirm(`Delete "${node.name}"? Its subtopics and their section and question mappings will be removed too.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('syllabus_nodes')
+        .delete()
+        .eq('id', node.id);
+
+      if (error) throw error;
+      toast.success('Topic deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting syllabus topic:', error);
+      toast.error('Failed to delete topic');
+    }
+  };
+
+  const handleDeleteTag = async (tag: Tag) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from every section and question.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('id', tag.id);
+
+      if (error) throw error;
+      setTags(prev => prev.filter(t => t.id !== tag.id));
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      toast.error('Failed to delete tag');
+    }
+  };
+
+  const renderNode = (node: SyllabusTreeNode, depth: number): React.ReactNode => (
+    <div key={node.id}>
+      <div
+        className="flex items-center justify-between py-2 pr-2 hover:bg-gray-50 rounded-lg"
+        style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}
+      >
+        <div className="min-w-0">
+          <p className={depth === 0 ? 'font-semibold text-gray-900' : 'text-sm text-gray-900'}>{node.name}</p>
+          {node.description && (
+            <p className="text-xs text-gray-500">{node.description}</p>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => openCreateModal(node)}
+            className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full"
+            title="Add subtopic"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleEdit(node)}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full"
+            title="Edit"
+          >
+            <Edit2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleDelete(node)}
+            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full"
+            title="Delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      {node.children.map(child => renderNode(child, depth + 1))}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const tree = buildSyllabusTree(nodes);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Syllabus</h1>
+            <p className="text-gray-600">
+              The official UPSC syllabus that sections and questions are mapped to for coverage.
+            </p>
+          </div>
+          <button
+            onClick={() => openCreateModal(null)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Paper
+          </button>
+        </div>
+
+        {/* Tree */}
+        {tree.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <ListTree className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">No syllabus yet</h3>
+            <p className="mt-1 text-sm text-gray-500">Add a paper to start building the syllabus.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 space-y-2">
+            {tree.map(node => renderNode(node, 0))}
+          </div>
+        )}
+
+        {/* Tags */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold text-gray-900">Tags</h2>
+          <p className="text-sm text-gray-500 mb-4">Tags are created when you add them to a section or question.</p>
+          {tags.length === 0 ? (
+            <p className="text-sm text-gray-500">No tags yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <span key={tag.id} className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                  <TagIcon className="h-3 w-3 mr-1" />
+                  {tag.name}
+                  <button
+                    onClick={() => handleDeleteTag(tag)}
+                    className="ml-1 text-gray-400 hover:text-red-600"
+                    title="Delete tag"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Topic Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingNode ? 'Edit Topic' : parentNode ? `Add Topic under ${parentNode.name}` : 'Add Paper'}
+                </h3>
+              </div>
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                    Name *
+                  </label>
+                  <input
+                    type="text"
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g., Fundamental Rights"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                    Description
+                  </label>
+                  <textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={2}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Wording from the official syllabus"
+                  />
+                </div>
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                  >
+                    {editingNode ? 'Update' : 'Create'} Topic
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,71 @@
+import { SyllabusNode, syllabusPathLabels } from '../../lib/syllabus';
+import { X } from 'lucide-react';
+
+interface SyllabusMappingFieldsProps {
+  idPrefix: string;
+  nodes: SyllabusNode[];
+  nodeIds: string[];
+  tags: string;
+  onNodeIdsChange: (nodeIds: string[]) => void;
+  onTagsChange: (tags: string) => void;
+}
+
+// Syllabus topics are picked from the official tree; tags are free text and created on save
+export function SyllabusMappingFields({ idPrefix, nodes, nodeIds, tags, onNodeIdsChange, onTagsChange }: SyllabusMappingFieldsProps) {
+  const labels = syllabusPathLabels(nodes);
+  const available = nodes
+    .filter(node => !nodeIds.includes(node.id))
+    .sort((a, b) => labels[a.id].localeCompare(labels[b.id]));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor={`${idPrefix}-syllabus`} className="block text-sm font-medium text-gray-700">
+          Syllabus topics
+        </label>
+        {nodeIds.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-1">
+            {nodeIds.map((nodeId) => (
+              <span key={nodeId} className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800">
+                {labels[nodeId] || 'Removed topic'}
+                <button
+                  type="button"
+                  onClick={() => onNodeIdsChange(nodeIds.filter(id => id !== nodeId))}
+                  className="ml-1 text-indigo-500 hover:text-indigo-700"
+                  title="Remove topic"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <select
+          id={`${idPrefix}-syllabus`}
+          value=""
+          onChange={(e) => e.target.value && onNodeIdsChange([...nodeIds, e.target.value])}
+          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Add a syllabus topic...</option>
+          {available.map((node) => (
+            <option key={node.id} value={node.id}>{labels[node.id]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}-tags`} className="block text-sm font-medium text-gray-700">
+          Tags
+        </label>
+        <input
+          type="text"
+          id={`${idPrefix}-tags`}
+          value={tags}
+          onChange={(e) => onTagsChange(e.target.value)}
+          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder="Comma separated, e.g. current affairs, static"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Mail } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface CheckEmailProps {
+  email: string;
+  message: string;
+  onResend?: () => Promise<{ error: Error | null }>;
+}
+
+export function CheckEmail({ email, message, onResend }: CheckEmailProps) {
+  const [resending, setResending] = useState(false);
+
+  const handleResend = async () => {
+    if (!onResend) return;
+
+    setResending(true);
+    const { error } = await onResend();
+    if (error) {
+      toast.error(error.message || 'Failed to resend email');
+    } else {
+      toast.success('Email sent again');
+    }
+    setResending(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-purple-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 text-center">
+        <div className="flex justify-center">
+          <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-3 rounded-full">
+            <Mail className="h-8 w-8 text-white" />
+          </div>
+        </div>
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Check your email</h2>
+          <p className="mt-4 text-sm text-gray-600">
+            We sent an email to <span className="font-medium text-gray-900">{email}</span>. {message}
+          </p>
+          <p className="mt-2 text-xs text-gray-500">
+            The link expires after an hour. Check your spam folder if it doesn't arrive within a few minutes.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {onResend && (
+            <button
+              onClick={handleResend}
+              disabled={resending}
+              className="w-full flex justify-center py-3 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {resending ? 'Sending...' : 'Resend email'}
+            </button>
+          )}
+          <Link
+            to="/login"
+            className="block text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+          >
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Link, Navigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { Eye, EyeOff, BookOpen, AlertCircle, RefreshCw, Wifi } from 'lucide-react';
+import { CheckEmail } from './CheckEmail';
+import { Eye, EyeOff, BookOpen, AlertCircle, RefreshCw, Wifi, Mail } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 export function Login() {
@@ -9,11 +10,21 @@ export function Login() {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
-  const { signIn, user, profile, error, retry } = useAuth();
+  const [useMagicLink, setUseMagicLink] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+  const [unconfirmed, setUnconfirmed] = useState(false);
+  const {
+    signIn, signInWithMagicLink, resendConfirmation, user, profile, error, retry, isStaff, isPasswordRecovery
+  } = useAuth();
+
+  // Recovery links fall back to the site URL when /reset-password isn't an allowed redirect
+  if (user && isPasswordRecovery) {
+    return <Navigate to="/reset-password" replace />;
+  }
 
   // Redirect if already logged in
   if (user && profile) {
-    return <Navigate to={profile.role === 'admin' ? '/admin' : '/dashboard'} replace />;
+    return <Navigate to={isStaff ? '/admin' : '/dashboard'} replace />;
   }
 
   // Show error state if there's a configuration or network error
@@ -70,8 +81,52 @@ export function Login() {
     );
   }
 
+  if (magicLinkSent) {
+    return (
+      <CheckEmail
+        email={email.trim()}
+        message="Open the link in it on this device to sign in."
+        onResend={() => signInWithMagicLink(email)}
+      />
+    );
+  }
+
+  const handleMagicLink = async () => {
+    if (!email.trim()) {
+      toast.error('Please enter your email');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await signInWithMagicLink(email);
+
+    if (error) {
+      console.error('Magic link error:', error);
+      toast.error(error.message.includes('Signups not allowed')
+        ? 'No account found for this email'
+        : error.message || 'Failed to send sign-in link');
+    } else {
+      setMagicLinkSent(true);
+    }
+    setLoading(false);
+  };
+
+  const handleResendConfirmation = async () => {
+    const { error } = await resendConfirmation(email);
+    if (error) {
+      toast.error(error.message || 'Failed to resend confirmation email');
+    } else {
+      toast.success('Confirmation email sent');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (useMagicLink) {
+      await handleMagicLink();
+      return;
+    }
     
     if (!email.trim() || !password) {
       toast.error('Please fill in all fields');
@@ -79,13 +134,16 @@ export function Login() {
     }
 
     setLoading(true);
+    setUnconfirmed(false);
 
     try {
       const { error } = await signIn(email.trim(), password);
       
       if (error) {
         console.error('Login error:', error);
-        if (error.message.includes('Invalid login credentials')) {
+        if (error.message.includes('Email not confirmed')) {
+          setUnconfirmed(true);
+        } else if (error.message.includes('Invalid login credentials')) {
           toast.error('Invalid email or password');
         } else if (error.message.includes('Failed to fetch') || error.message.includes('network')) {
           toast.error('Network error: Please check your connection and try again');
@@ -121,6 +179,22 @@ export function Login() {
           </p>
         </div>
 
+        {unconfirmed && (
+          <div className="flex items-start p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            <Mail className="h-5 w-5 mr-2 flex-shrink-0" />
+            <div>
+              <p>Please confirm your email address before signing in. Check your inbox for the confirmation link.</p>
+              <button
+                type="button"
+                onClick={handleResendConfirmation}
+                className="mt-2 font-medium text-yellow-900 underline hover:no-underline"
+              >
+                Resend confirmation email
+              </button>
+            </div>
+          </div>
+        )}
+
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div className="space-y-4">
             <div>
@@ -141,37 +215,47 @@ export function Login() {
               />
             </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="password"
-                  name="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="current-password"
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 pr-10"
-                  placeholder="Enter your password"
-                  disabled={loading}
-                />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                  onClick={() => setShowPassword(!showPassword)}
-                  disabled={loading}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-4 w-4 text-gray-400" />
-                  ) : (
-                    <Eye className="h-4 w-4 text-gray-400" />
-                  )}
-                </button>
+            {!useMagicLink && (
+              <div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  <Link
+                    to="/forgot-password"
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
+                <div className="mt-1 relative">
+                  <input
+                    id="password"
+                    name="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 pr-10"
+                    placeholder="Enter your password"
+                    disabled={loading}
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                    disabled={loading}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-4 w-4 text-gray-400" />
+                    ) : (
+                      <Eye className="h-4 w-4 text-gray-400" />
+                    )}
+                  </button>
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
           <div>
@@ -183,9 +267,17 @@ export function Login() {
               {loading ? (
                 <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
               ) : (
-                'Sign in'
+                useMagicLink ? 'Email me a sign-in link' : 'Sign in'
               )}
             </button>
+            <button
+              type="button"
+              onClick={() => setUseMagicLink(!useMagicLink)}
+              disabled={loading}
+              className="mt-3 w-full text-center text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {useMagicLink ? 'Sign in with a password instead' : 'Sign in without a password'}
+            </button>
           </div>
 
           <div className="text-center">
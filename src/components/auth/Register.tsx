@@ -1,23 +1,71 @@
-import React, { useState } from 'react';
-import { Link, Navigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { Eye, EyeOff, BookOpen, User, Shield } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { StaffRole, ROLE_LABELS } from '../../lib/permissions';
+import { CheckEmail } from './CheckEmail';
+import { Eye, EyeOff, BookOpen, Shield, AlertCircle } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+interface AdminInvite {
+  email: string;
+  role: StaffRole;
+  expires_at: string;
+  is_valid: boolean;
+}
+
 export function Register() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'admin' | 'student'>('student');
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
-  const { signUp, user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const [invite, setInvite] = useState<AdminInvite | null>(null);
+  const [inviteLoading, setInviteLoading] = useState(!!inviteToken);
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState(false);
+  const { signUp, resendConfirmation, user } = useAuth();
+
+  useEffect(() => {
+    if (inviteToken) {
+      fetchInvite(inviteToken);
+    }
+  }, [inviteToken]);
+
+  const fetchInvite = async (token: string) => {
+    try {
+      const { data, error } = await supabase.rpc('get_admin_invite', { p_token: token });
+
+      if (error) throw error;
+      const found = data?.[0] || null;
+      setInvite(found);
+      if (found?.is_valid) {
+        setEmail(found.email);
+      }
+    } catch (error) {
+      console.error('Error fetching invite:', error);
+      setInvite(null);
+    } finally {
+      setInviteLoading(false);
+    }
+  };
 
   // Redirect if already logged in
   if (user) {
     return <Navigate to="/dashboard" replace />;
   }
 
+  if (awaitingConfirmation) {
+    return (
+      <CheckEmail
+        email={email.trim()}
+        message="Click the confirmation link in it to activate your account, then sign in."
+        onResend={() => resendConfirmation(email)}
+      />
+    );
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password || !fullName) {
@@ -31,12 +79,14 @@ export function Register() {
     }
 
     setLoading(true);
-    const { error } = await signUp(email, password, fullName, role);
+    const { error, needsConfirmation } = await signUp(email, password, fullName, invite?.is_valid ? inviteToken! : undefined);
     
     if (error) {
       toast.error(error.message);
+    } else if (needsConfirmation) {
+      setAwaitingConfirmation(true);
     } else {
-      toast.success('Account created successfully! Please check your email for verification.');
+      toast.success('Account created successfully!');
     }
     setLoading(false);
   };
@@ -58,6 +108,20 @@ export function Register() {
           </p>
         </div>
 
+        {inviteToken && !inviteLoading && (
+          invite?.is_valid ? (
+            <div className="flex items-start p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+              <Shield className="h-5 w-5 mr-2 flex-shrink-0" />
+              <p>You have been invited to join with the {ROLE_LABELS[invite.role]} role. Register with {invite.email} to accept.</p>
+            </div>
+          ) : (
+            <div className="flex items-start p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              <p>This invite link is invalid, expired or already used. You can still register as a student.</p>
+            </div>
+          )
+        )}
+
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div className="space-y-4">
             <div>
@@ -88,7 +152,8 @@ export function Register() {
                 required
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
-                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                readOnly={invite?.is_valid}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-50"
                 placeholder="Enter your email"
               />
             </div>
@@ -122,42 +187,6 @@ export function Register() {
                 </button>
               </div>
             </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Account Type
-              </label>
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  type="button"
-                  onClick={() => setRole('student')}
-                  className={`
-                    flex items-center justify-center px-4 py-3 border rounded-md text-sm font-medium transition-all
-                    ${role === 'student'
-                      ? 'border-blue-500 bg-blue-50 text-blue-700'
-                      : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
-                    }
-                  `}
-                >
-                  <User className="w-4 h-4 mr-2" />
-                  Student
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setRole('admin')}
-                  className={`
-                    flex items-center justify-center px-4 py-3 border rounded-md text-sm font-medium transition-all
-                    ${role === 'admin'
-                      ? 'border-blue-500 bg-blue-50 text-blue-700'
-                      : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
-                    }
-                  `}
-                >
-                  <Shield className="w-4 h-4 mr-2" />
-                  Admin
-                </button>
-              </div>
-            </div>
           </div>
 
           <div>
@@ -0,0 +1,423 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import {
+  PreferredLanguage,
+  PREFERRED_LANGUAGES,
+  OPTIONAL_SUBJECTS,
+  MAX_AVATAR_BYTES,
+  targetExamYears,
+  uploadAvatar,
+  removeAvatar,
+  exportAccountData,
+  downloadJson,
+  deleteOwnAccount
+} from '../../lib/account';
+import { Camera, Download, KeyRound, Save, Trash2, User } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export function AccountSettings() {
+  const { profile, isStudent, refreshProfile, updatePassword, signOut } = useAuth();
+  const [fullName, setFullName] = useState('');
+  const [targetExamYear, setTargetExamYear] = useState('');
+  const [optionalSubject, setOptionalSubject] = useState('');
+  const [preferredLanguage, setPreferredLanguage] = useState<PreferredLanguage>('en');
+  const [saving, setSaving] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (profile) {
+      setFullName(profile.full_name || '');
+      setTargetExamYear(profile.target_exam_year?.toString() || '');
+      setOptionalSubject(profile.optional_subject || '');
+      setPreferredLanguage(profile.preferred_language || 'en');
+    }
+  }, [profile]);
+
+  if (!profile) {
+    return null;
+  }
+
+  // Keep a year that has already passed selectable so saving doesn't silently clear it
+  const yearOptions = targetExamYears();
+  if (profile.target_exam_year && !yearOptions.includes(profile.target_exam_year)) {
+    yearOptions.unshift(profile.target_exam_year);
+  }
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fullName.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          full_name: fullName.trim(),
+          target_exam_year: targetExamYear ? parseInt(targetExamYear) : null,
+          optional_subject: optionalSubject.trim() || null,
+          preferred_language: preferredLanguage,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+      await refreshProfile();
+      toast.success('Profile saved');
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      toast.error('Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploadingAvatar(true);
+    try {
+      const url = await uploadAvatar(profile.id, file);
+      const { error } = await supabase
+        .from('profiles')
+        .update({ avatar_url: url, updated_at: new Date().toISOString() })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+      if (profile.avatar_url) {
+        await removeAvatar(profile.avatar_url).catch(error => console.error('Error removing old avatar:', error));
+      }
+      await refreshProfile();
+      toast.success('Profile picture updated');
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload picture');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    if (!profile.avatar_url) return;
+
+    setUploadingAvatar(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ avatar_url: null, updated_at: new Date().toISOString() })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+      await removeAvatar(profile.avatar_url).catch(error => console.error('Error removing avatar:', error));
+      await refreshProfile();
+      toast.success('Profile picture removed');
+    } catch (error) {
+      console.error('Error removing avatar:', error);
+      toast.error('Failed to remove picture');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setChangingPassword(true);
+    const { error } = await updatePassword(newPassword);
+    if (error) {
+      toast.error(error.message || 'Failed to change password');
+    } else {
+      setNewPassword('');
+      setConfirmPassword('');
+      toast.success('Password changed');
+    }
+    setChangingPassword(false);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const data = await exportAccountData(profile.id);
+      downloadJson(data, `upsc-tracker-export-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Failed to export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    if (!confirm('Delete your account? All your progress, test attempts and answers will be permanently removed. This cannot be undone.')) {
+      return;
+    }
+
+    setDeleting(true);
+    try {
+      await deleteOwnAccount(profile.id);
+      toast.success('Your account has been deleted');
+      await signOut();
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast.error('Failed to delete account');
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-3xl space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          <p className="text-gray-600">Manage your profile and account</p>
+        </div>
+
+        {/* Profile */}
+        <form onSubmit={handleSaveProfile} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-6">
+          <h2 className="text-lg font-semibold text-gray-900">Profile</h2>
+
+          <div className="flex items-center space-x-4">
+            {profile.avatar_url ? (
+              <img src={profile.avatar_url} alt="" className="w-16 h-16 rounded-full object-cover" />
+            ) : (
+              <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center">
+                <User className="w-8 h-8 text-blue-600" />
+              </div>
+            )}
+            <div className="space-y-1">
+              <div className="flex items-center space-x-3">
+                <button
+                  type="button"
+                  onClick={() => avatarInputRef.current?.click()}
+                  disabled={uploadingAvatar}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Camera className="h-4 w-4 mr-2" />
+                  {uploadingAvatar ? 'Uploading...' : 'Change picture'}
+                </button>
+                {profile.avatar_url && (
+                  <button
+                    type="button"
+                    onClick={handleRemoveAvatar}
+                    disabled={uploadingAvatar}
+                    className="text-sm font-medium text-gray-500 hover:text-red-600 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">JPG, PNG or GIF, up to {MAX_AVATAR_BYTES / (1024 * 1024)} MB</p>
+            </div>
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleAvatarChange}
+              className="hidden"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="fullName" className="block text-sm font-medium text-gray-700">
+                Full Name
+              </label>
+              <input
+                id="fullName"
+                type="text"
+                required
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={profile.email}
+                readOnly
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 bg-gray-50 text-gray-500"
+              />
+            </div>
+
+            {isStudent && (
+              <>
+                <div>
+                  <label htmlFor="targetExamYear" className="block text-sm font-medium text-gray-700">
+                    Target Exam Year
+                  </label>
+                  <select
+                    id="targetExamYear"
+                    value={targetExamYear}
+                    onChange={(e) => setTargetExamYear(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Not decided yet</option>
+                    {yearOptions.map((year) => (
+                      <option key={year} value={year}>UPSC CSE {year}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="optionalSubject" className="block text-sm font-medium text-gray-700">
+                    Optional Subject
+                  </label>
+                  <input
+                    id="optionalSubject"
+                    type="text"
+                    list="optional-subjects"
+                    value={optionalSubject}
+                    onChange={(e) => setOptionalSubject(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g. Sociology"
+                  />
+                  <datalist id="optional-subjects">
+                    {OPTIONAL_SUBJECTS.map((subject) => (
+                      <option key={subject} value={subject} />
+                    ))}
+                  </datalist>
+                </div>
+              </>
+            )}
+
+            <div>
+              <label htmlFor="preferredLanguage" className="block text-sm font-medium text-gray-700">
+                Preferred Language
+              </label>
+              <select
+                id="preferredLanguage"
+                value={preferredLanguage}
+                onChange={(e) => setPreferredLanguage(e.target.value as PreferredLanguage)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                {PREFERRED_LANGUAGES.map((language) => (
+                  <option key={language.value} value={language.value}>{language.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Profile'}
+            </button>
+          </div>
+        </form>
+
+        {/* Password */}
+        <form onSubmit={handleChangePassword} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Change Password</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">
+                New Password
+              </label>
+              <input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="At least 6 characters"
+              />
+            </div>
+            <div>
+              <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700">
+                Confirm New Password
+              </label>
+              <input
+                id="confirmNewPassword"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={changingPassword || !newPassword}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              {changingPassword ? 'Changing...' : 'Change Password'}
+            </button>
+          </div>
+        </form>
+
+        {/* Data */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold text-gray-900">Your Data</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Download your profile, progress, test, practice and mock attempts, revision cards and answers as a JSON file.
+          </p>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="mt-4 inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Preparing...' : 'Download My Data'}
+          </button>
+        </div>
+
+        {/* Danger zone */}
+        <div className="bg-white rounded-xl shadow-sm border border-red-200 p-6">
+          <h2 className="text-lg font-semibold text-red-700">Delete Account</h2>
+          {isStudent ? (
+            <>
+              <p className="mt-1 text-sm text-gray-600">
+                Permanently delete your account with all progress, test attempts and answers. Download your data first if you want to keep it.
+              </p>
+              <button
+                onClick={handleDeleteAccount}
+                disabled={deleting}
+                className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {deleting ? 'Deleting...' : 'Delete My Account'}
+              </button>
+            </>
+          ) : (
+            <p className="mt-1 text-sm text-gray-600">
+              Staff accounts can't be deleted. Ask a super admin to remove your staff role first.
+            </p>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
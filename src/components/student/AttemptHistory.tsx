@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatDateTime, formatDuration } from '../../lib/format';
+import { formatMarks } from '../../lib/scoring';
+import { History, Eye } from 'lucide-react';
+
+interface Attempt {
+  id: string;
+  score: number;
+  correct_count: number;
+  wrong_count: number;
+  skipped_count: number;
+  total_questions: number;
+  net_marks: number;
+  max_marks: number;
+  duration_seconds: number;
+  submitted_at: string;
+}
+
+interface AttemptHistoryProps {
+  sectionId: string;
+  passPercentage: number;
+  reviewPath: string;
+}
+
+export function AttemptHistory({ sectionId, passPercentage, reviewPath }: AttemptHistoryProps) {
+  const { profile } = useAuth();
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAttempts();
+  }, [sectionId]);
+
+  const fetchAttempts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('test_attempts')
+        .select('id, score, correct_count, wrong_count, skipped_count, total_questions, net_marks, max_marks, duration_seconds, submitted_at')
+        .eq('user_id', profile?.id)
+        .eq('section_id', sectionId)
+        .order('submitted_at', { ascending: false });
+
+      if (error) throw error;
+      setAttempts(data || []);
+    } catch (error) {
+      console.error('Error fetching attempts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center space-x-2">
+        <History className="h-5 w-5 text-gray-500" />
+        <h2 className="text-lg font-semibold text-gray-900">My Attempts</h2>
+      </div>
+      {attempts.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          You haven't attempted this test yet.
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {attempts.map((attempt, index) => (
+            <div key={attempt.id} className="px-6 py-4 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  Attempt {attempts.length - index}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatDateTime(attempt.submitted_at)} · {formatDuration(attempt.duration_seconds)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-4">
+                <div className="text-right">
+                  <p className={`text-sm font-bold ${attempt.score >= passPercentage ? 'text-green-600' : 'text-gray-900'}`}>
+                    {Number(attempt.score).toFixed(0)}%
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatMarks(attempt.net_marks)}/{formatMarks(attempt.max_marks)} marks ·{' '}
+                    {attempt.correct_count}✓ {attempt.wrong_count}✗ {attempt.skipped_count} skipped
+                  </p>
+                </div>
+                <Link
+                  to={`${reviewPath}/${attempt.id}`}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Eye className="h-4 w-4 mr-1" />
+                  Review
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
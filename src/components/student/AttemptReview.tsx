@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { formatDateTime, formatDuration } from '../../lib/format';
+import { TestResultSummary, ScoreBreakdown } from './TestResultSummary';
+import { ReviewedQuestionCard, ReviewedAnswer } from './ReviewedQuestionCard';
+import { ArrowLeft } from 'lucide-react';
+
+interface Attempt extends ScoreBreakdown {
+  id: string;
+  duration_seconds: number;
+  submitted_at: string;
+  sections: { name: string } | null;
+}
+
+export function AttemptReview() {
+  const { subjectId, moduleId, sectionId, attemptId } = useParams();
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [answers, setAnswers] = useState<ReviewedAnswer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (attemptId) {
+      fetchAttempt();
+    }
+  }, [attemptId]);
+
+  const fetchAttempt = async () => {
+    try {
+      const { data: attemptData, error: attemptError } = await supabase
+        .from('test_attempts')
+        .select('id, score, correct_count, wrong_count, skipped_count, total_questions, net_marks, max_marks, duration_seconds, submitted_at, sections(name)')
+        .eq('id', attemptId)
+        .single();
+
+      if (attemptError) throw attemptError;
+      setAttempt(attemptData as unknown as Attempt);
+
+      // Answer key and explanations are only released for the student's own attempts,
+      // once they have passed the test or used all of its attempts
+      const { data: answersData, error: answersError } = await supabase
+        .rpc('get_attempt_review', { p_attempt_id: attemptId });
+
+      if (answersError) throw answersError;
+      setAnswers(answersData || []);
+    } catch (error) {
+      console.error('Error fetching attempt:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!attempt) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Attempt not found</h3>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link
+            to={`/subjects/${subjectId}/modules/${moduleId}/sections/${sectionId}`}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{attempt.sections?.name}</h1>
+            <p className="text-gray-600">
+              Attempt review · {formatDateTime(attempt.submitted_at)}
+            </p>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              Score: <span className="font-bold text-gray-900">{Number(attempt.score).toFixed(0)}%</span>
+            </span>
+            <span>
+              Time taken: <span className="font-bold text-gray-900">{formatDuration(attempt.duration_seconds)}</span>
+            </span>
+          </div>
+          <TestResultSummary result={attempt} />
+        </div>
+
+        {/* Questions */}
+        {answers.map((answer, index) => (
+          <ReviewedQuestionCard key={answer.question_id} answer={answer} index={index} />
+        ))}
+      </div>
+    </Layout>
+  );
+}
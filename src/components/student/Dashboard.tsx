@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
 import { Layout } from '../ui/Layout';
-import { BookOpen, Clock, Target, TrendingUp, Calendar, Flame } from 'lucide-react';
+import { fetchStudyStreak, StudyStreak } from '../../lib/activity';
+import { fetchDueCount } from '../../lib/revision';
+import { BookOpen, Clock, Target, TrendingUp, Calendar, Flame, RotateCcw } from 'lucide-react';
 
 interface SubjectProgress {
   id: string;
@@ -17,12 +20,39 @@ export function StudentDashboard() {
   const [subjectProgress, setSubjectProgress] = useState<SubjectProgress[]>([]);
   const [loading, setLoading] = useState(true);
   const [motivationalMessage, setMotivationalMessage] = useState('');
-  const [studyStreak, setStudyStreak] = useState(12);
+  const [studyStreak, setStudyStreak] = useState<StudyStreak>({
+    current_streak: 0,
+    longest_streak: 0,
+    last_active_date: null
+  });
+  const [revisionDue, setRevisionDue] = useState(0);
 
   useEffect(() => {
     fetchProgress();
+    fetchStreak();
+    fetchRevisionDue();
   }, []);
 
+  const fetchRevisionDue = async () => {
+    if (!profile) return;
+
+    try {
+      setRevisionDue(await fetchDueCount(profile.id));
+    } catch (error) {
+      console.error('Error fetching revision count:', error);
+    }
+  };
+
+  const fetchStreak = async () => {
+    if (!profile) return;
+
+    try {
+      setStudyStreak(await fetchStudyStreak(profile.id));
+    } catch (error) {
+      console.error('Error fetching study streak:', error);
+    }
+  };
+
   const fetchProgress = async () => {
     try {
       // Fetch subjects with progress
@@ -118,6 +148,7 @@ export function StudentDashboard() {
     );
   }
 
+  const firstName = profile?.full_name?.trim().split(/\s+/)[0];
   const totalSections = subjectProgress.reduce((sum, subject) => sum + subject.total_sections, 0);
   const totalCompleted = subjectProgress.reduce((sum, subject) => sum + subject.completed_sections, 0);
   const overallProgress = totalSections > 0 ? (totalCompleted / totalSections) * 100 : 0;
@@ -134,7 +165,7 @@ export function StudentDashboard() {
             <div className="flex items-center justify-between mb-4">
               <div>
                 <h1 className="text-3xl font-bold mb-2 flex items-center">
-                  Welcome back, Aspirant! 🎯
+                  Welcome back, {firstName || 'Aspirant'}! 🎯
                 </h1>
                 <p className="text-blue-100 text-sm">{getCurrentDate()}</p>
               </div>
@@ -143,7 +174,12 @@ export function StudentDashboard() {
                   <Flame className="h-5 w-5 text-orange-300" />
                   <span className="text-sm font-medium">Study Streak</span>
                 </div>
-                <div className="text-2xl font-bold">{studyStreak} days</div>
+                <div className="text-2xl font-bold">
+                  {studyStreak.current_streak} {studyStreak.current_streak === 1 ? 'day' : 'days'}
+                </div>
+                <p className="text-xs text-blue-100">
+                  Best: {studyStreak.longest_streak} {studyStreak.longest_streak === 1 ? 'day' : 'days'}
+                </p>
               </div>
             </div>
             
@@ -158,11 +194,48 @@ export function StudentDashboard() {
                   <BookOpen className="h-4 w-4" />
                   <span>Completed: {totalCompleted}/{totalSections}</span>
                 </div>
+                {profile?.target_exam_year ? (
+                  <div className="flex items-center space-x-1">
+                    <Calendar className="h-4 w-4" />
+                    <span>
+                      Target: UPSC CSE {profile.target_exam_year}
+                      {profile.optional_subject && ` · Optional: ${profile.optional_subject}`}
+                    </span>
+                  </div>
+                ) : (
+                  <Link to="/settings" className="flex items-center space-x-1 underline hover:no-underline">
+                    <Calendar className="h-4 w-4" />
+                    <span>Set your target year</span>
+                  </Link>
+                )}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Revision */}
+        {revisionDue > 0 && (
+          <div className="flex items-center justify-between bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+            <div className="flex items-center">
+              <div className="p-3 bg-orange-100 rounded-xl">
+                <RotateCcw className="h-6 w-6 text-orange-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-900">
+                  {revisionDue} {revisionDue === 1 ? 'question' : 'questions'} to revise today
+                </p>
+                <p className="text-sm text-gray-600">Questions you got wrong or flagged, scheduled before you forget them</p>
+              </div>
+            </div>
+            <Link
+              to="/revise"
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white text-sm font-medium rounded-lg hover:from-blue-700 hover:to-purple-700"
+            >
+              Start Revision
+            </Link>
+          </div>
+        )}
+
         {/* Stats Overview */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 hover:shadow-md transition-shadow">
@@ -225,7 +298,7 @@ export function StudentDashboard() {
                 <BookOpen className="mx-auto h-12 w-12 text-gray-400" />
                 <h3 className="mt-4 text-sm font-medium text-gray-900">No subjects available</h3>
                 <p className="mt-2 text-sm text-gray-500">
-                  Contact your admin to add subjects and modules.
+                  Subjects appear here once your admin adds you to a batch.
                 </p>
               </div>
             ) : (
@@ -0,0 +1,292 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  AnswerStatus,
+  RubricCriterion,
+  RubricScore,
+  ANSWER_STATUS_LABELS,
+  ANSWER_STATUS_COLORS,
+  MAX_ANSWER_FILE_BYTES,
+  countWords,
+  getRubricTotal,
+  uploadAnswerFile
+} from '../../lib/answerSubmissions';
+import { formatDateTime } from '../../lib/format';
+import { formatMarks } from '../../lib/scoring';
+import { AnswerFileLink } from '../ui/AnswerFileLink';
+import { AnswerEvaluationSummary } from '../ui/AnswerEvaluationSummary';
+import { Clock, Paperclip, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface MainsSection {
+  id: string;
+  word_limit: number | null;
+  rubric: RubricCriterion[];
+}
+
+interface Submission {
+  id: string;
+  answer_text: string | null;
+  word_count: number;
+  file_path: string | null;
+  file_name: string | null;
+  status: AnswerStatus;
+  rubric_scores: RubricScore[] | null;
+  score: number | null;
+  max_score: number | null;
+  feedback: string | null;
+  submitted_at: string;
+  evaluated_at: string | null;
+}
+
+interface MainsAnswerPanelProps {
+  section: MainsSection;
+}
+
+export function MainsAnswerPanel({ section }: MainsAnswerPanelProps) {
+  const { profile } = useAuth();
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [writingAgain, setWritingAgain] = useState(false);
+  const [answerText, setAnswerText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [section.id]);
+
+  const fetchSubmissions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('answer_submissions')
+        .select('*')
+        .eq('user_id', profile?.id)
+        .eq('section_id', section.id)
+        .order('submitted_at', { ascending: false });
+
+      if (error) throw error;
+      setSubmissions(data || []);
+    } catch (error) {
+      console.error('Error fetching answer submissions:', error);
+      toast.error('Failed to load your answers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const wordCount = countWords(answerText);
+  const overLimit = section.word_limit !== null && wordCount > section.word_limit;
+  const latest = submissions[0];
+  const awaitingEvaluation = latest !== undefined && latest.status !== 'returned';
+  const showForm = !latest || (latest.status === 'returned' && writingAgain);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    if (!selected.type.startsWith('image/') && selected.type !== 'application/pdf') {
+      toast.error('Upload a photo or a PDF of your answer');
+      return;
+    }
+    if (selected.size > MAX_ANSWER_FILE_BYTES) {
+      toast.error('Answer files must be 10 MB or smaller');
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!answerText.trim() && !file) {
+      toast.error('Type your answer or upload a photo/PDF of it');
+      return;
+    }
+    if (overLimit) {
+      toast.error(`Your answer is over the ${section.word_limit}-word limit`);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const filePath = file ? await uploadAnswerFile(profile!.id, file) : null;
+
+      const { error } = await supabase.rpc('submit_answer', {
+        p_section_id: section.id,
+        p_answer_text: answerText,
+        p_file_path: filePath,
+        p_file_name: file?.name || null
+      });
+
+      if (error) throw error;
+
+      toast.success('Answer submitted for evaluation');
+      setAnswerText('');
+      setFile(null);
+      setWritingAgain(false);
+      await fetchSubmissions();
+    } catch (error) {
+      console.error('Error submitting answer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit your answer');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {section.rubric.length > 0 && (
+        <div className="text-sm text-gray-600">
+          <span className="font-medium text-gray-900">Marked out of {formatMarks(getRubricTotal(section.rubric))}:</span>{' '}
+          {section.rubric.map(item => `${item.criterion} (${formatMarks(item.max_marks)})`).join(' · ')}
+        </div>
+      )}
+
+      {latest && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900">Your latest answer</h4>
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${ANSWER_STATUS_COLORS[latest.status]}`}>
+              {ANSWER_STATUS_LABELS[latest.status]}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            Submitted {formatDateTime(latest.submitted_at)}
+            {latest.answer_text && ` · ${latest.word_count} words`}
+            {latest.evaluated_at && ` · Evaluated ${formatDateTime(latest.evaluated_at)}`}
+          </p>
+
+          {latest.answer_text && (
+            <div className="p-4 rounded-lg bg-gray-50 border border-gray-200 text-sm text-gray-800 whitespace-pre-wrap">
+              {latest.answer_text}
+            </div>
+          )}
+          {latest.file_path && <AnswerFileLink path={latest.file_path} name={latest.file_name} />}
+
+          {awaitingEvaluation ? (
+            <div className="flex items-center p-3 rounded-lg bg-yellow-50 text-sm text-yellow-800">
+              <Clock className="h-4 w-4 mr-2 flex-shrink-0" />
+              A mentor will evaluate your answer and return it with marks and comments.
+            </div>
+          ) : (
+            <>
+              <AnswerEvaluationSummary evaluation={latest} />
+              {!writingAgain && (
+                <button
+                  onClick={() => setWritingAgain(true)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  Submit a Revised Answer
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between">
+              <label htmlFor="mains-answer" className="block text-sm font-medium text-gray-700">
+                Your Answer
+              </label>
+              <span className={`text-xs ${overLimit ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                {wordCount}{section.word_limit !== null && ` / ${section.word_limit}`} words
+              </span>
+            </div>
+            <textarea
+              id="mains-answer"
+              value={answerText}
+              onChange={(e) => setAnswerText(e.target.value)}
+              rows={12}
+              className={`mt-1 block w-full border rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                overLimit ? 'border-red-300' : 'border-gray-300'
+              }`}
+              placeholder="Type your answer here, or upload a photo/PDF of your handwritten answer below"
+            />
+          </div>
+
+          <div>
+            {file ? (
+              <div className="inline-flex items-center space-x-2 px-3 py-2 rounded-md bg-gray-50 border border-gray-200 text-sm text-gray-700">
+                <Paperclip className="h-4 w-4 text-gray-500" />
+                <span>{file.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setFile(null)}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded-full"
+                  title="Remove file"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ) : (
+              <label
+                htmlFor="mains-answer-file"
+                className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700 cursor-pointer"
+              >
+                <Paperclip className="h-4 w-4 mr-1" />
+                Attach a photo or PDF (up to 10 MB)
+                <input
+                  type="file"
+                  id="mains-answer-file"
+                  accept="image/*,application/pdf"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={submitting || overLimit || (!answerText.trim() && !file)}
+              className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Submitting...' : 'Submit for Evaluation'}
+            </button>
+            {writingAgain && (
+              <button
+                type="button"
+                onClick={() => setWritingAgain(false)}
+                className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {submissions.length > 1 && (
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Earlier answers</h4>
+          <ul className="divide-y divide-gray-100">
+            {submissions.slice(1).map((submission) => (
+              <li key={submission.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-600">{formatDateTime(submission.submitted_at)}</span>
+                <span className="text-gray-900">
+                  {submission.status === 'returned'
+                    ? `${formatMarks(submission.score ?? 0)} / ${formatMarks(submission.max_score ?? 0)}`
+                    : ANSWER_STATUS_LABELS[submission.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
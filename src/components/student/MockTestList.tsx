@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { formatDateTime } from '../../lib/format';
+import { formatMarks } from '../../lib/scoring';
+import { MockTest, MockAttempt, getMockTestStatus } from '../../lib/mockTests';
+import { Trophy, ChevronRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export function MockTestList() {
+  const { profile } = useAuth();
+  const [mockTests, setMockTests] = useState<MockTest[]>([]);
+  const [attempts, setAttempts] = useState<Record<string, MockAttempt>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchMockTests();
+  }, []);
+
+  const fetchMockTests = async () => {
+    try {
+      // RLS only returns published mock tests scheduled for the student's batches
+      const { data: mockTestsData, error: mockTestsError } = await supabase
+        .from('mock_tests')
+        .select('*')
+        .order('opens_at', { ascending: false });
+
+      if (mockTestsError) throw mockTestsError;
+      setMockTests(mockTestsData || []);
+
+      const { data: attemptsData, error: attemptsError } = await supabase
+        .from('mock_attempts')
+        .select('*')
+        .eq('user_id', profile?.id);
+
+      if (attemptsError) throw attemptsError;
+      const attemptMap: Record<string, MockAttempt> = {};
+      (attemptsData || []).forEach((attempt: MockAttempt) => {
+        attemptMap[attempt.mock_test_id] = attempt;
+      });
+      setAttempts(attemptMap);
+    } catch (error) {
+      console.error('Error fetching mock tests:', error);
+      toast.error('Failed to load mock tests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const describeStatus = (mockTest: MockTest) => {
+    const status = getMockTestStatus(mockTest);
+    const attempt = attempts[mockTest.id];
+
+    if (status === 'upcoming') {
+      return { label: `Opens ${formatDateTime(mockTest.opens_at)}`, className: 'bg-blue-100 text-blue-800' };
+    }
+    if (attempt?.submitted_at) {
+      return status === 'closed'
+        ? { label: `${formatMarks(attempt.net_marks ?? 0)} marks`, className: 'bg-purple-100 text-purple-800' }
+        : { label: 'Submitted · results after it closes', className: 'bg-green-100 text-green-800' };
+    }
+    if (status === 'open') {
+      return attempt
+        ? { label: 'In progress', className: 'bg-yellow-100 text-yellow-800' }
+        : { label: `Open until ${formatDateTime(mockTest.closes_at)}`, className: 'bg-green-100 text-green-800' };
+    }
+    return { label: 'Missed', className: 'bg-gray-100 text-gray-700' };
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Mock Tests</h1>
+          <p className="text-gray-600">
+            Full-length exams for your batch. Each can be taken once while its window is open.
+          </p>
+        </div>
+
+        {mockTests.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <Trophy className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">No mock tests scheduled</h3>
+            <p className="mt-1 text-sm text-gray-500">Mock tests scheduled for your batch will appear here.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+            {mockTests.map((mockTest) => {
+              const status = describeStatus(mockTest);
+
+              return (
+                <Link
+                  key={mockTest.id}
+                  to={`/mock-tests/${mockTest.id}`}
+                  className="flex items-center justify-between p-4 hover:bg-gray-50"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{mockTest.title}</p>
+                    <p className="text-sm text-gray-500">
+                      {mockTest.duration_minutes} minutes · {formatDateTime(mockTest.opens_at)} – {formatDateTime(mockTest.closes_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>
+                      {status.label}
+                    </span>
+                    <ChevronRight className="h-5 w-5 text-gray-400" />
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,403 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { MockLeaderboard } from '../ui/MockLeaderboard';
+import { formatDateTime, formatDuration } from '../../lib/format';
+import { describeScoringScheme, formatMarks } from '../../lib/scoring';
+import { loadTestSession, clearTestSession } from '../../lib/testSession';
+import {
+  MockTest,
+  MockAttempt,
+  MockLeaderboardEntry,
+  MockSubjectScore,
+  MOCK_SUBMIT_GRACE_MS,
+  getMockTestStatus,
+  isMockAttemptExpired,
+  mockSessionKey,
+  startMockTest,
+  fetchMockLeaderboard,
+  fetchMockSubjectScores
+} from '../../lib/mockTests';
+import { TestPlayer, PlayerQuestion } from './TestPlayer';
+import { TestResultSummary, ScoreBreakdown } from './TestResultSummary';
+import { ReviewedQuestionCard, ReviewedAnswer } from './ReviewedQuestionCard';
+import { ArrowLeft, Play, Clock, Trophy, Target, TrendingUp } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+function scoreBreakdown(attempt: MockAttempt): ScoreBreakdown {
+  return {
+    score: attempt.score ?? 0,
+    correct_count: attempt.correct_count ?? 0,
+    wrong_count: attempt.wrong_count ?? 0,
+    skipped_count: attempt.skipped_count ?? 0,
+    total_questions: attempt.total_questions ?? 0,
+    net_marks: attempt.net_marks ?? 0,
+    max_marks: attempt.max_marks ?? 0
+  };
+}
+
+export function MockTestView() {
+  const { mockTestId } = useParams();
+  const { profile } = useAuth();
+  const [mockTest, setMockTest] = useState<MockTest | null>(null);
+  const [attempt, setAttempt] = useState<MockAttempt | null>(null);
+  const [questions, setQuestions] = useState<PlayerQuestion[]>([]);
+  const [deadline, setDeadline] = useState<string | null>(null);
+  const [leaderboard, setLeaderboard] = useState<MockLeaderboardEntry[]>([]);
+  const [subjectScores, setSubjectScores] = useState<MockSubjectScore[]>([]);
+  const [answers, setAnswers] = useState<ReviewedAnswer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (mockTestId) {
+      fetchMockTest();
+    }
+  }, [mockTestId]);
+
+  const fetchAttempt = async (): Promise<MockAttempt | null> => {
+    const { data, error } = await supabase
+      .from('mock_attempts')
+      .select('*')
+      .eq('mock_test_id', mockTestId)
+      .eq('user_id', profile?.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const fetchMockTest = async () => {
+    try {
+      const { data: mockTestData, error: mockTestError } = await supabase
+        .from('mock_tests')
+        .select('*')
+        .eq('id', mockTestId)
+        .single();
+
+      if (mockTestError) throw mockTestError;
+      setMockTest(mockTestData);
+
+      let attemptData = await fetchAttempt();
+
+      // An attempt that ran out without being submitted is closed with no answers, so it still gets a result
+      if (attemptData && isMockAttemptExpired(mockTestData, attemptData)) {
+        const { error: closeError } = await supabase
+          .rpc('submit_mock_test', { p_mock_test_id: mockTestId, p_answers: {} })
+          .single();
+
+        if (closeError) throw closeError;
+        clearTestSession(mockSessionKey(profile!.id, mockTestData.id));
+        attemptData = await fetchAttempt();
+      }
+      setAttempt(attemptData);
+
+      // Results and the answer key are released once the window closes
+      if (attemptData?.submitted_at && getMockTestStatus(mockTestData) === 'closed') {
+        setLeaderboard(await fetchMockLeaderboard(mockTestId!));
+        setSubjectScores(await fetchMockSubjectScores(mockTestId!));
+
+        const { data: reviewData, error: reviewError } = await supabase
+          .rpc('get_mock_review', { p_mock_test_id: mockTestId });
+
+        if (reviewError) throw reviewError;
+        setAnswers(reviewData || []);
+      }
+    } catch (error) {
+      console.error('Error fetching mock test:', error);
+      toast.error('Failed to load the mock test');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!mockTest) return;
+    if (!attempt && !confirm('You can only take this mock test once, and the timer starts as soon as you begin. Start now?')) {
+      return;
+    }
+
+    setStarting(true);
+    try {
+      const started = await startMockTest(mockTest.id);
+
+      const { data, error } = await supabase
+        .rpc('get_mock_test_questions', { p_mock_test_id: mockTest.id });
+
+      if (error) throw error;
+      setQuestions(data || []);
+      setDeadline(started.deadline);
+    } catch (error) {
+      console.error('Error starting mock test:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start the mock test');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const submitTest = async (
+    answers: Record<string, string>,
+    _startedAt: Date,
+    questionTimes: Record<string, number>
+  ) => {
+    if (!mockTest) return false;
+
+    // Answers that arrive after the grace period are dropped by the server
+    const late = !!deadline && Date.now() > new Date(deadline).getTime() + MOCK_SUBMIT_GRACE_MS;
+
+    setSubmitting(true);
+    try {
+      // The server times the attempt from when it was started, not from the browser
+      const { error } = await supabase
+        .rpc('submit_mock_test', {
+          p_mock_test_id: mockTest.id,
+          p_answers: answers,
+          p_question_times: questionTimes
+        })
+        .single();
+
+      if (error) throw error;
+
+      if (late) {
+        toast.error('Your answers arrived after time ran out, so the attempt was closed without them.');
+      } else {
+        toast.success('Mock test submitted!');
+      }
+      setDeadline(null);
+      setLoading(true);
+      await fetchMockTest();
+      return true;
+    } catch (error) {
+      console.error('Error submitting mock test:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit your test');
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!mockTest) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Mock test not found</h3>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (deadline && !attempt?.submitted_at) {
+    // The player counts down from its own start time, so give it whatever is left until the server deadline
+    const sessionKey = mockSessionKey(profile!.id, mockTest.id);
+    const session = loadTestSession(sessionKey);
+    const localStart = session ? new Date(session.startedAt).getTime() : Date.now();
+    const timeLimitMinutes = Math.max((new Date(deadline).getTime() - localStart) / 60000, 0.01);
+
+    return (
+      <Layout>
+        <div className="max-w-4xl mx-auto space-y-6">
+          <TestPlayer
+            title={mockTest.title}
+            questions={questions}
+            sessionKey={sessionKey}
+            timeLimitMinutes={timeLimitMinutes}
+            submitting={submitting}
+            onSubmit={submitTest}
+          />
+        </div>
+      </Layout>
+    );
+  }
+
+  const status = getMockTestStatus(mockTest);
+  const scheme = describeScoringScheme({ ...mockTest, unanswered_marks: 0 });
+  const ownEntry = leaderboard.find(entry => entry.is_self);
+  const attemptExpired = !!attempt && isMockAttemptExpired(mockTest, attempt);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link
+            to="/mock-tests"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{mockTest.title}</h1>
+            <p className="text-gray-600">
+              {formatDateTime(mockTest.opens_at)} – {formatDateTime(mockTest.closes_at)}
+            </p>
+          </div>
+        </div>
+
+        {attempt?.submitted_at && status === 'closed' ? (
+          <>
+            {/* Standing */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <div className="flex items-center space-x-2 text-gray-600">
+                  <Trophy className="h-5 w-5 text-yellow-500" />
+                  <span className="text-sm font-medium">Rank</span>
+                </div>
+                <p className="text-2xl font-bold text-gray-900 mt-2">
+                  {ownEntry ? ownEntry.rank : '–'}
+                  <span className="text-sm font-normal text-gray-500"> of {leaderboard.length}</span>
+                </p>
+              </div>
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <div className="flex items-center space-x-2 text-gray-600">
+                  <TrendingUp className="h-5 w-5 text-blue-500" />
+                  <span className="text-sm font-medium">Percentile</span>
+                </div>
+                <p className="text-2xl font-bold text-gray-900 mt-2">
+                  {ownEntry ? Number(ownEntry.percentile).toFixed(2) : '–'}
+                </p>
+              </div>
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <div className="flex items-center space-x-2 text-gray-600">
+                  <Target className="h-5 w-5 text-purple-500" />
+                  <span className="text-sm font-medium">Cut-off</span>
+                </div>
+                {mockTest.cutoff_marks !== null ? (
+                  <>
+                    <p className="text-2xl font-bold text-gray-900 mt-2">{formatMarks(mockTest.cutoff_marks)}</p>
+                    <p className={`text-sm mt-1 ${
+                      Number(attempt.net_marks) >= Number(mockTest.cutoff_marks) ? 'text-green-700' : 'text-red-700'
+                    }`}>
+                      {Number(attempt.net_marks) >= Number(mockTest.cutoff_marks)
+                        ? `Cleared by ${formatMarks(Number(attempt.net_marks) - Number(mockTest.cutoff_marks))} marks`
+                        : `Short by ${formatMarks(Number(mockTest.cutoff_marks) - Number(attempt.net_marks))} marks`}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500 mt-2">No cut-off set for this test</p>
+                )}
+              </div>
+            </div>
+
+            {/* Summary */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  Score: <span className="font-bold text-gray-900">{Number(attempt.score).toFixed(0)}%</span>
+                </span>
+                <span>
+                  Time taken: <span className="font-bold text-gray-900">{formatDuration(attempt.duration_seconds || 0)}</span>
+                </span>
+              </div>
+              <TestResultSummary result={scoreBreakdown(attempt)} />
+              <p className="text-xs text-gray-500 text-center">Marking scheme: {scheme}</p>
+            </div>
+
+            {/* Subject-wise */}
+            {subjectScores.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100">
+                  <h2 className="text-lg font-semibold text-gray-900">Subject-wise scores</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium text-gray-600">Subject</th>
+                        <th className="px-4 py-3 text-right font-medium text-gray-600">Questions</th>
+                        <th className="px-4 py-3 text-right font-medium text-gray-600">Correct / Wrong</th>
+                        <th className="px-4 py-3 text-right font-medium text-gray-600">Your marks</th>
+                        <th className="px-4 py-3 text-right font-medium text-gray-600">Average</th>
+                        <th className="px-4 py-3 text-right font-medium text-gray-600">Top</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {subjectScores.map((subject) => (
+                        <tr key={subject.subject_id}>
+                          <td className="px-4 py-3 font-medium text-gray-900">{subject.subject_name}</td>
+                          <td className="px-4 py-3 text-right text-gray-600">{subject.total_questions}</td>
+                          <td className="px-4 py-3 text-right text-gray-600">
+                            {subject.correct_count ?? 0} / {subject.wrong_count ?? 0}
+                          </td>
+                          <td className="px-4 py-3 text-right font-medium text-gray-900">
+                            {formatMarks(subject.net_marks ?? 0)}
+                            <span className="text-xs font-normal text-gray-500"> / {formatMarks(subject.max_marks)}</span>
+                          </td>
+                          <td className="px-4 py-3 text-right text-gray-600">{formatMarks(subject.average_net_marks)}</td>
+                          <td className="px-4 py-3 text-right text-gray-600">{formatMarks(subject.top_net_marks)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            <MockLeaderboard entries={leaderboard} cutoffMarks={mockTest.cutoff_marks} />
+
+            {/* Questions */}
+            {answers.map((answer, index) => (
+              <ReviewedQuestionCard key={answer.question_id} answer={answer} index={index} />
+            ))}
+          </>
+        ) : attempt?.submitted_at ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+            <div className="text-center">
+              <Clock className="mx-auto h-12 w-12 text-blue-500 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Submitted</h3>
+              <p className="text-gray-600">
+                Your rank, percentile and the answer key are released when the window closes on {formatDateTime(mockTest.closes_at)}.
+              </p>
+            </div>
+            <TestResultSummary result={scoreBreakdown(attempt)} />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="text-center py-8">
+              <Play className="mx-auto h-12 w-12 text-blue-500 mb-4" />
+              {mockTest.description && (
+                <p className="text-gray-700 mb-4 whitespace-pre-wrap">{mockTest.description}</p>
+              )}
+              <p className="text-sm text-gray-500 mb-6">
+                Duration: {mockTest.duration_minutes} minutes · Marking: {scheme}
+                {mockTest.cutoff_marks !== null && <> · Cut-off: {formatMarks(mockTest.cutoff_marks)}</>}
+              </p>
+              {attemptExpired ? (
+                <p className="text-sm text-red-600">Your time ran out before the test was submitted.</p>
+              ) : status === 'upcoming' ? (
+                <p className="text-sm text-gray-600">This mock test opens on {formatDateTime(mockTest.opens_at)}.</p>
+              ) : status === 'closed' ? (
+                <p className="text-sm text-gray-600">This mock test closed on {formatDateTime(mockTest.closes_at)}.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 mb-6">
+                    You get one attempt. The timer keeps running if you leave, and the test ends when the window closes.
+                  </p>
+                  <button
+                    onClick={handleStart}
+                    disabled={starting}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {starting ? 'Starting...' : attempt ? 'Resume Test' : 'Start Test'}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
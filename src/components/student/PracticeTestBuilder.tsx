@@ -0,0 +1,328 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { formatDateTime } from '../../lib/format';
+import { SCORING_PRESETS, describeScoringScheme } from '../../lib/scoring';
+import {
+  PracticeTest,
+  PracticeHistoryFilter,
+  PRACTICE_HISTORY_FILTERS,
+  MAX_PRACTICE_QUESTIONS,
+  createPracticeTest,
+  fetchPracticeTests
+} from '../../lib/practiceTests';
+import { Shuffle, ClipboardList, ChevronRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface SubjectModules {
+  id: string;
+  name: string;
+  modules: { id: string; name: string; order_index: number; is_active: boolean }[];
+}
+
+export function PracticeTestBuilder() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [subjects, setSubjects] = useState<SubjectModules[]>([]);
+  const [pastTests, setPastTests] = useState<PracticeTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [moduleIds, setModuleIds] = useState<string[]>([]);
+  const [history, setHistory] = useState<PracticeHistoryFilter>('all');
+  const [onlyPyq, setOnlyPyq] = useState(false);
+  const [questionCount, setQuestionCount] = useState(25);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState('30');
+  const [scoringPresetId, setScoringPresetId] = useState(SCORING_PRESETS[0].id);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    if (!profile) return;
+
+    try {
+      const { data: subjectData, error: subjectError } = await supabase
+        .from('subjects')
+        .select('id, name, modules(id, name, order_index, is_active)')
+        .eq('is_active', true)
+        .order('order_index');
+
+      if (subjectError) throw subjectError;
+      setSubjects(((subjectData || []) as SubjectModules[])
+        .map(subject => ({
+          ...subject,
+          modules: subject.modules
+            .filter(module => module.is_active)
+            .sort((a, b) => a.order_index - b.order_index)
+        }))
+        .filter(subject => subject.modules.length > 0));
+
+      setPastTests(await fetchPracticeTests(profile.id));
+    } catch (error) {
+      console.error('Error fetching practice test options:', error);
+      toast.error('Failed to load practice tests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleModule = (moduleId: string) => {
+    setModuleIds(prev => prev.includes(moduleId)
+      ? prev.filter(id => id !== moduleId)
+      : [...prev, moduleId]
+    );
+  };
+
+  const toggleSubject = (subject: SubjectModules) => {
+    const ids = subject.modules.map(module => module.id);
+    const allSelected = ids.every(id => moduleIds.includes(id));
+    setModuleIds(prev => allSelected
+      ? prev.filter(id => !ids.includes(id))
+      : [...new Set([...prev, ...ids])]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (moduleIds.length === 0) {
+      toast.error('Choose at least one module');
+      return;
+    }
+
+    const preset = SCORING_PRESETS.find(p => p.id === scoringPresetId) || SCORING_PRESETS[0];
+
+    setCreating(true);
+    try {
+      const practiceTestId = await createPracticeTest({
+        title: title.trim() || `Practice Test · ${new Date().toLocaleDateString()}`,
+        moduleIds,
+        questionCount,
+        timeLimitMinutes: timeLimitMinutes ? Number(timeLimitMinutes) : null,
+        marksPerCorrect: preset.marks_per_correct,
+        negativeMarks: preset.negative_marks,
+        onlyPyq,
+        history
+      });
+      navigate(`/practice/${practiceTestId}`);
+    } catch (error) {
+      console.error('Error creating practice test:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to build your test');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Practice Tests</h1>
+          <p className="text-gray-600">
+            Build a random test from any modules. Results don't affect your course progress. Answers to questions
+            from tests you haven't finished yet are shown once you finish those tests.
+          </p>
+        </div>
+
+        {/* Builder */}
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-6">
+          <h2 className="text-lg font-semibold text-gray-900">Build a test</h2>
+
+          <div>
+            <label htmlFor="practiceTitle" className="block text-sm font-medium text-gray-700">
+              Title (optional)
+            </label>
+            <input
+              id="practiceTitle"
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Polity revision set"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">
+              Modules <span className="text-gray-500 font-normal">({moduleIds.length} selected)</span>
+            </p>
+            {subjects.length === 0 ? (
+              <p className="text-sm text-gray-500">No subjects are available to you yet.</p>
+            ) : (
+              <div className="space-y-4 max-h-80 overflow-y-auto border border-gray-200 rounded-lg p-4">
+                {subjects.map((subject) => (
+                  <div key={subject.id}>
+                    <label className="flex items-center text-sm font-medium text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={subject.modules.every(module => moduleIds.includes(module.id))}
+                        onChange={() => toggleSubject(subject)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                      />
+                      {subject.name}
+                    </label>
+                    <div className="mt-2 ml-6 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {subject.modules.map((module) => (
+                        <label key={module.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={moduleIds.includes(module.id)}
+                            onChange={() => toggleModule(module.id)}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                          />
+                          {module.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Questions</p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {PRACTICE_HISTORY_FILTERS.map((filter) => (
+                <button
+                  key={filter.value}
+                  type="button"
+                  onClick={() => setHistory(filter.value)}
+                  className={`p-3 text-left rounded-lg border text-sm ${
+                    history === filter.value
+                      ? 'border-blue-500 bg-blue-50 text-blue-900'
+                      : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block font-medium">{filter.label}</span>
+                  <span className="block text-xs text-gray-500 mt-1">{filter.description}</span>
+                </button>
+              ))}
+            </div>
+            <label className="mt-3 flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={onlyPyq}
+                onChange={(e) => setOnlyPyq(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+              />
+              Only previous year questions (PYQs)
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="questionCount" className="block text-sm font-medium text-gray-700">
+                Number of questions
+              </label>
+              <input
+                id="questionCount"
+                type="number"
+                min={1}
+                max={MAX_PRACTICE_QUESTIONS}
+                required
+                value={questionCount}
+                onChange={(e) => setQuestionCount(Number(e.target.value))}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="timeLimit" className="block text-sm font-medium text-gray-700">
+                Time limit (minutes)
+              </label>
+              <input
+                id="timeLimit"
+                type="number"
+                min={1}
+                value={timeLimitMinutes}
+                onChange={(e) => setTimeLimitMinutes(e.target.value)}
+                placeholder="No limit"
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="scoringPreset" className="block text-sm font-medium text-gray-700">
+                Marking scheme
+              </label>
+              <select
+                id="scoringPreset"
+                value={scoringPresetId}
+                onChange={(e) => setScoringPresetId(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                {SCORING_PRESETS.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={creating || moduleIds.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Shuffle className="h-4 w-4 mr-2" />
+            {creating ? 'Building...' : 'Build Test'}
+          </button>
+        </form>
+
+        {/* Past tests */}
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Your practice tests</h2>
+          {pastTests.length === 0 ? (
+            <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+              <ClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-4 text-sm font-medium text-gray-900">No practice tests yet</h3>
+              <p className="mt-1 text-sm text-gray-500">Tests you build appear here with their scores.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+              {pastTests.map((test) => (
+                <Link
+                  key={test.id}
+                  to={`/practice/${test.id}`}
+                  className="flex items-center justify-between p-4 hover:bg-gray-50"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{test.title}</p>
+                    <p className="text-sm text-gray-500">
+                      {test.total_questions} questions
+                      {' · '}{describeScoringScheme({ ...test, unanswered_marks: 0 })}
+                      {' · '}{formatDateTime(test.submitted_at || test.created_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {test.submitted_at ? (
+                      <span className="text-sm font-bold text-gray-900">{Number(test.score).toFixed(0)}%</span>
+                    ) : (
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                        Not submitted
+                      </span>
+                    )}
+                    <ChevronRight className="h-5 w-5 text-gray-400" />
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { formatDateTime, formatDuration } from '../../lib/format';
+import { describeScoringScheme } from '../../lib/scoring';
+import { loadTestSession, clearTestSession } from '../../lib/testSession';
+import { PracticeTest, practiceSessionKey, startPracticeTest } from '../../lib/practiceTests';
+import { TestPlayer, PlayerQuestion } from './TestPlayer';
+import { TestResultSummary } from './TestResultSummary';
+import { ReviewedQuestionCard, ReviewedAnswer } from './ReviewedQuestionCard';
+import { ArrowLeft, Play } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export function PracticeTestView() {
+  const { practiceTestId } = useParams();
+  const { profile } = useAuth();
+  const [practiceTest, setPracticeTest] = useState<PracticeTest | null>(null);
+  const [questions, setQuestions] = useState<PlayerQuestion[]>([]);
+  const [answers, setAnswers] = useState<ReviewedAnswer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showTest, setShowTest] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [deadline, setDeadline] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [hasSavedSession, setHasSavedSession] = useState(false);
+
+  useEffect(() => {
+    if (practiceTestId) {
+      fetchPracticeTest();
+    }
+  }, [practiceTestId]);
+
+  const fetchPracticeTest = async () => {
+    try {
+      const { data: testData, error: testError } = await supabase
+        .from('practice_tests')
+        .select('*')
+        .eq('id', practiceTestId)
+        .single();
+
+      if (testError) throw testError;
+      const test = testData as PracticeTest;
+      setPracticeTest(test);
+
+      if (test.submitted_at) {
+        await fetchReview(test.id);
+        return;
+      }
+
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('student_questions')
+        .select('*')
+        .in('id', test.question_ids);
+
+      if (questionsError) throw questionsError;
+
+      // Keep the random order the test was built with
+      const position = new Map(test.question_ids.map((id, index) => [id, index]));
+      setQuestions(((questionsData || []) as PlayerQuestion[])
+        .sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0)));
+      setHasSavedSession(loadTestSession(practiceSessionKey(profile!.id, test.id)) !== null);
+    } catch (error) {
+      console.error('Error fetching practice test:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchReview = async (id: string) => {
+    const { data, error } = await supabase
+      .rpc('get_practice_test_review', { p_practice_test_id: id });
+
+    if (error) throw error;
+    setAnswers(data || []);
+  };
+
+  const startTest = async (resume = false) => {
+    if (!practiceTest) return;
+
+    setStarting(true);
+    try {
+      const started = await startPracticeTest(practiceTest.id, resume);
+
+      // Answers saved against a start that has since expired can't be submitted
+      if (!resume || !started.resumed) {
+        clearTestSession(practiceSessionKey(profile!.id, practiceTest.id));
+        setHasSavedSession(false);
+      }
+      if (resume && !started.resumed) {
+        toast('Your previous attempt ran out of time, so the test has started again.');
+      } else if (!resume && started.resumed && started.deadline) {
+        toast('The timer for your earlier attempt is still running.');
+      }
+
+      setDeadline(started.deadline);
+      setShowTest(true);
+    } catch (error) {
+      console.error('Error starting practice test:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start the test');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const submitTest = async (
+    answers: Record<string, string>,
+    _startedAt: Date,
+    questionTimes: Record<string, number>,
+    markedForReview: string[]
+  ) => {
+    if (!practiceTest) return false;
+
+    setSubmitting(true);
+    try {
+      // Timing happens server-side, from the start recorded by start_practice_test
+      const { error } = await supabase
+        .rpc('submit_practice_test', {
+          p_practice_test_id: practiceTest.id,
+          p_answers: answers,
+          p_question_times: questionTimes,
+          p_flagged_question_ids: markedForReview
+        })
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Practice test submitted!');
+      setShowTest(false);
+      setLoading(true);
+      await fetchPracticeTest();
+      return true;
+    } catch (error) {
+      console.error('Error submitting practice test:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit your test');
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!practiceTest) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Practice test not found</h3>
+        </div>
+      </Layout>
+    );
+  }
+
+  const scoringScheme = { ...practiceTest, unanswered_marks: 0 };
+
+  if (showTest && !practiceTest.submitted_at) {
+    // The player counts down from its own start time, so give it whatever is left until the server deadline
+    const sessionKey = practiceSessionKey(profile!.id, practiceTest.id);
+    const session = loadTestSession(sessionKey);
+    const localStart = session ? new Date(session.startedAt).getTime() : Date.now();
+    const timeLimitMinutes = deadline
+      ? Math.max((new Date(deadline).getTime() - localStart) / 60000, 0.01)
+      : null;
+
+    return (
+      <Layout>
+        <div className="max-w-4xl mx-auto space-y-6">
+          <TestPlayer
+            title={practiceTest.title}
+            questions={questions}
+            sessionKey={sessionKey}
+            timeLimitMinutes={timeLimitMinutes}
+            submitting={submitting}
+            onSubmit={submitTest}
+          />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link
+            to="/practice"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{practiceTest.title}</h1>
+            <p className="text-gray-600">
+              {practiceTest.submitted_at
+                ? `Practice test review · ${formatDateTime(practiceTest.submitted_at)}`
+                : `Practice test · built ${formatDateTime(practiceTest.created_at)}`}
+            </p>
+          </div>
+        </div>
+
+        {practiceTest.submitted_at ? (
+          <>
+            {/* Summary */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  Score: <span className="font-bold text-gray-900">{Number(practiceTest.score).toFixed(0)}%</span>
+                </span>
+                <span>
+                  Time taken: <span className="font-bold text-gray-900">{formatDuration(practiceTest.duration_seconds || 0)}</span>
+                </span>
+              </div>
+              <TestResultSummary
+                result={{
+                  score: practiceTest.score ?? 0,
+                  correct_count: practiceTest.correct_count ?? 0,
+                  wrong_count: practiceTest.wrong_count ?? 0,
+                  skipped_count: practiceTest.skipped_count ?? 0,
+                  total_questions: practiceTest.total_questions,
+                  net_marks: practiceTest.net_marks ?? 0,
+                  max_marks: practiceTest.max_marks ?? 0
+                }}
+              />
+              <p className="text-xs text-gray-500 text-center">
+                Marking scheme: {describeScoringScheme(scoringScheme)}
+              </p>
+            </div>
+
+            {/* Questions */}
+            {answers.map((answer, index) => (
+              <ReviewedQuestionCard key={answer.question_id} answer={answer} index={index} />
+            ))}
+          </>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="text-center py-8">
+              <Play className="mx-auto h-12 w-12 text-blue-500 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Ready to practise?</h3>
+              <p className="text-gray-600 mb-6">
+                This test is for practice only and won't change your course progress.
+              </p>
+              <p className="text-sm text-gray-500 mb-6">
+                Questions: {questions.length}
+                {practiceTest.time_limit_minutes !== null && (
+                  <> · Time limit: {practiceTest.time_limit_minutes} minutes</>
+                )}
+                {' · '}Marking: {describeScoringScheme(scoringScheme)}
+              </p>
+              {questions.length === 0 ? (
+                <p className="text-sm text-red-600">
+                  The questions in this test are no longer available. Build a new test instead.
+                </p>
+              ) : hasSavedSession ? (
+                <div className="flex justify-center space-x-3">
+                  <button
+                    onClick={() => startTest(true)}
+                    disabled={starting}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Resume Test
+                  </button>
+                  <button
+                    onClick={() => startTest()}
+                    disabled={starting}
+                    className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Start Over
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => startTest()}
+                  disabled={starting}
+                  className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Start Test
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,376 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { Layout } from '../ui/Layout';
+import { QuestionStem } from '../ui/QuestionStem';
+import { QuestionOptions } from '../ui/QuestionOptions';
+import { PlayerQuestion } from './TestPlayer';
+import {
+  PyqMetadata,
+  PyqAnswer,
+  PYQ_PAPERS,
+  formatPyqReference,
+  buildPyqTrends,
+  fetchPyqAnswer
+} from '../../lib/pyq';
+import { History, ExternalLink, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface PyqQuestion extends PlayerQuestion, PyqMetadata {
+  section_id: string;
+  order_index: number;
+}
+
+interface SectionContext {
+  id: string;
+  name: string;
+  modules: { id: string; name: string; subjects: { id: string; name: string } | null } | null;
+}
+
+const PAGE_SIZE = 20;
+
+export function PyqBrowser() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [questions, setQuestions] = useState<PyqQuestion[]>([]);
+  const [sections, setSections] = useState<Record<string, SectionContext>>({});
+  const [loading, setLoading] = useState(true);
+  const [year, setYear] = useState('');
+  const [paper, setPaper] = useState('');
+  const [subjectId, setSubjectId] = useState('');
+  const [moduleId, setModuleId] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [revealed, setRevealed] = useState<Record<string, PyqAnswer>>({});
+  const [revealingId, setRevealingId] = useState<string | null>(null);
+
+  // Section view links here to practise the questions of one PYQ section
+  const sectionFilter = searchParams.get('section');
+
+  useEffect(() => {
+    fetchQuestions();
+  }, []);
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [year, paper, subjectId, moduleId, sectionFilter]);
+
+  const fetchQuestions = async () => {
+    try {
+      const { data: questionData, error: questionError } = await supabase
+        .from('student_questions')
+        .select('*')
+        .eq('is_pyq', true)
+        .order('pyq_year', { ascending: false, nullsFirst: false })
+        .order('pyq_question_number')
+        .order('order_index');
+
+      if (questionError) throw questionError;
+
+      const sectionIds = [...new Set((questionData || []).map((question: PyqQuestion) => question.section_id))];
+      const sectionMap: Record<string, SectionContext> = {};
+      if (sectionIds.length > 0) {
+        const { data: sectionData, error: sectionError } = await supabase
+          .from('sections')
+          .select('id, name, modules(id, name, subjects(id, name))')
+          .in('id', sectionIds);
+
+        if (sectionError) throw sectionError;
+        ((sectionData || []) as unknown as SectionContext[]).forEach(section => {
+          sectionMap[section.id] = section;
+        });
+      }
+
+      setQuestions(questionData || []);
+      setSections(sectionMap);
+    } catch (error) {
+      console.error('Error fetching PYQs:', error);
+      toast.error('Failed to load previous year questions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReveal = async (question: PyqQuestion) => {
+    setRevealingId(question.id);
+    try {
+      const answer = await fetchPyqAnswer(question.id);
+      if (!answer) {
+        toast.error("This question is part of a test. Its answer is shown once you've passed the test or used all your attempts.");
+        return;
+      }
+      setRevealed(prev => ({ ...prev, [question.id]: answer }));
+    } catch (error) {
+      console.error('Error fetching PYQ answer:', error);
+      toast.error('Failed to load the answer');
+    } finally {
+      setRevealingId(null);
+    }
+  };
+
+  const clearSectionFilter = () => {
+    searchParams.delete('section');
+    setSearchParams(searchParams);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const subjectOf = (question: PyqQuestion) => sections[question.section_id]?.modules?.subjects;
+  const moduleOf = (question: PyqQuestion) => sections[question.section_id]?.modules;
+
+  const subjects = new Map<string, string>();
+  const modules = new Map<string, string>();
+  questions.forEach(question => {
+    const subject = subjectOf(question);
+    const module = moduleOf(question);
+    if (subject) subjects.set(subject.id, subject.name);
+    if (module && (!subjectId || subject?.id === subjectId)) modules.set(module.id, module.name);
+  });
+  const years = [...new Set(questions.map(q => q.pyq_year).filter((y): y is number => y !== null))].sort((a, b) => b - a);
+
+  // The trend ignores the year filter so the whole history stays visible
+  const scoped = questions.filter(question =>
+    (!sectionFilter || question.section_id === sectionFilter) &&
+    (!paper || question.pyq_paper === paper) &&
+    (!subjectId || subjectOf(question)?.id === subjectId) &&
+    (!moduleId || moduleOf(question)?.id === moduleId)
+  );
+  const filtered = scoped.filter(question => !year || question.pyq_year === Number(year));
+  const trends = buildPyqTrends(scoped, question => {
+    const subject = subjectOf(question)?.name;
+    const module = moduleOf(question)?.name || 'Other';
+    return subject ? `${subject} › ${module}` : module;
+  });
+  const maxCount = Math.max(1, ...trends.rows.flatMap(row => Object.values(row.counts)));
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Previous Year Questions</h1>
+          <p className="text-gray-600">
+            Browse UPSC questions by year, paper and topic, and see which topics keep coming back.
+          </p>
+        </div>
+
+        {questions.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <History className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">No previous year questions yet</h3>
+            <p className="mt-1 text-sm text-gray-500">PYQs added to your subjects will appear here.</p>
+          </div>
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <label htmlFor="year" className="block text-sm font-medium text-gray-700">Year</label>
+                  <select
+                    id="year"
+                    value={year}
+                    onChange={(e) => setYear(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">All years</option>
+                    {years.map((y) => (
+                      <option key={y} value={y}>{y}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="paper" className="block text-sm font-medium text-gray-700">Paper</label>
+                  <select
+                    id="paper"
+                    value={paper}
+                    onChange={(e) => setPaper(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">All papers</option>
+                    {PYQ_PAPERS.map((p) => (
+                      <option key={p.value} value={p.value}>{p.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="subject" className="block text-sm font-medium text-gray-700">Subject</label>
+                  <select
+                    id="subject"
+                    value={subjectId}
+                    onChange={(e) => {
+                      setSubjectId(e.target.value);
+                      setModuleId('');
+                    }}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">All subjects</option>
+                    {[...subjects].map(([id, name]) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="topic" className="block text-sm font-medium text-gray-700">Topic</label>
+                  <select
+                    id="topic"
+                    value={moduleId}
+                    onChange={(e) => setModuleId(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">All topics</option>
+                    {[...modules].map(([id, name]) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {sectionFilter && (
+                <div className="flex items-center text-sm text-gray-600">
+                  <span>Showing questions from {sections[sectionFilter]?.name || 'one section'}</span>
+                  <button
+                    onClick={clearSectionFilter}
+                    className="ml-2 inline-flex items-center text-blue-600 hover:text-blue-700"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Show all
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Trends */}
+            {trends.rows.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <h2 className="text-lg font-semibold text-gray-900">Questions per topic per year</h2>
+                <p className="text-sm text-gray-500 mb-4">Questions without a recorded year are left out.</p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th className="px-2 py-2 text-left font-medium text-gray-600">Topic</th>
+                        {trends.years.map((y) => (
+                          <th key={y} className="px-1 py-2 text-center font-medium text-gray-600">{y}</th>
+                        ))}
+                        <th className="px-2 py-2 text-right font-medium text-gray-600">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {trends.rows.map((row) => (
+                        <tr key={row.topic}>
+                          <td className="px-2 py-2 text-gray-900 whitespace-nowrap">{row.topic}</td>
+                          {trends.years.map((y) => {
+                            const count = row.counts[y] || 0;
+                            return (
+                              <td key={y} className="px-1 py-2" title={`${row.topic} · ${y}: ${count}`}>
+                                <div className="h-10 w-6 mx-auto flex items-end bg-gray-50 rounded">
+                                  {count > 0 && (
+                                    <div
+                                      className="w-full bg-gradient-to-t from-blue-500 to-purple-500 rounded"
+                                      style={{ height: `${(count / maxCount) * 100}%` }}
+                                    ></div>
+                                  )}
+                                </div>
+                              </td>
+                            );
+                          })}
+                          <td className="px-2 py-2 text-right font-medium text-gray-900">{row.total}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Questions */}
+            <p className="text-sm text-gray-500">
+              {filtered.length} {filtered.length === 1 ? 'question' : 'questions'}
+            </p>
+
+            {filtered.slice(0, visibleCount).map((question) => {
+              const section = sections[question.section_id];
+              const answer = revealed[question.id];
+
+              return (
+                <div key={question.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800">
+                      {formatPyqReference(question)}
+                    </span>
+                    <p className="text-xs text-gray-500">
+                      {section?.modules?.subjects?.name && `${section.modules.subjects.name} · `}{section?.modules?.name}
+                    </p>
+                  </div>
+
+                  <div className="text-lg font-medium text-gray-900 mb-6">
+                    <QuestionStem question={question} imageAlt="Question" />
+                  </div>
+
+                  <QuestionOptions
+                    question={question}
+                    answer={answers[question.id]}
+                    onChange={(value) => setAnswers(prev => ({ ...prev, [question.id]: value }))}
+                    correctAnswer={answer ? answer.correct_answer : undefined}
+                  />
+
+                  {answer?.explanation && (
+                    <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+                      <span className="font-medium text-blue-900">Explanation: </span>
+                      <span className="text-blue-800">{answer.explanation}</span>
+                    </div>
+                  )}
+
+                  <div className="mt-4 flex items-center justify-between">
+                    {question.pyq_source ? (
+                      /^https?:\/\//.test(question.pyq_source) ? (
+                        <a
+                          href={question.pyq_source}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                          <span>Official source</span>
+                        </a>
+                      ) : (
+                        <span className="text-sm text-gray-500">Source: {question.pyq_source}</span>
+                      )
+                    ) : <span />}
+                    {!answer && (
+                      <button
+                        onClick={() => handleReveal(question)}
+                        disabled={revealingId === question.id}
+                        className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white text-sm rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {revealingId === question.id ? 'Loading...' : 'Show Answer'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {filtered.length > visibleCount && (
+              <div className="text-center">
+                <button
+                  onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  Show more
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
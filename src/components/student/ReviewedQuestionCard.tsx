@@ -0,0 +1,110 @@
+import { QuestionImages, optionImageField } from '../../lib/questionImages';
+import { TypedQuestion, getAvailableOptions, optionTextField, answerIncludes } from '../../lib/questionTypes';
+import { MathText } from '../ui/MathText';
+import { QuestionImage } from '../ui/QuestionImage';
+import { QuestionStem } from '../ui/QuestionStem';
+import { CheckCircle, XCircle, MinusCircle, PenLine } from 'lucide-react';
+
+export interface ReviewedAnswer extends QuestionImages, TypedQuestion {
+  question_id: string;
+  question_text: string;
+  correct_answer: string | null;
+  explanation: string | null;
+  order_index: number;
+  selected_answer: string | null;
+  answer_text: string | null;
+  // Null while the answer key is withheld
+  is_correct: boolean | null;
+  // False while the answer key is withheld; correct_answer and explanation are then empty
+  key_released?: boolean;
+}
+
+interface ReviewedQuestionCardProps {
+  answer: ReviewedAnswer;
+  index: number;
+}
+
+// One graded question with the answer key, shared by section attempt and practice test reviews
+export function ReviewedQuestionCard({ answer, index }: ReviewedQuestionCardProps) {
+  const keyWithheld = answer.key_released === false;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-start space-x-3 mb-4">
+        {answer.question_type === 'descriptive' ? (
+          <PenLine className="h-5 w-5 text-blue-500 flex-shrink-0 mt-1" />
+        ) : keyWithheld ? (
+          <MinusCircle className="h-5 w-5 text-gray-400 flex-shrink-0 mt-1" />
+        ) : answer.is_correct ? (
+          <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0 mt-1" />
+        ) : answer.selected_answer ? (
+          <XCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-1" />
+        ) : (
+          <MinusCircle className="h-5 w-5 text-gray-400 flex-shrink-0 mt-1" />
+        )}
+        <span className="text-lg font-medium text-gray-500">Q{index + 1}.</span>
+        <div className="flex-1 text-lg font-medium text-gray-900">
+          <QuestionStem question={answer} imageAlt={`Question ${index + 1}`} />
+        </div>
+      </div>
+
+      {answer.question_type === 'descriptive' && (
+        <div className="p-3 rounded-lg border border-gray-200">
+          <p className="text-sm font-medium text-gray-700 mb-1">Your answer</p>
+          {answer.answer_text ? (
+            <p className="text-gray-900 whitespace-pre-wrap">{answer.answer_text}</p>
+          ) : (
+            <p className="text-sm text-gray-500">You did not answer this question.</p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {getAvailableOptions(answer).map((option) => {
+          const isSelected = answerIncludes(answer.selected_answer, option);
+          // Without the key, the student's own choice is only highlighted, not marked
+          const isCorrectOption = !keyWithheld && answerIncludes(answer.correct_answer, option);
+
+          return (
+            <div
+              key={option}
+              className={`p-3 rounded-lg border ${
+                isCorrectOption
+                  ? 'border-green-300 bg-green-50 text-green-900'
+                  : isSelected && keyWithheld
+                    ? 'border-blue-300 bg-blue-50 text-blue-900'
+                    : isSelected
+                      ? 'border-red-300 bg-red-50 text-red-900'
+                      : 'border-gray-200 text-gray-700'
+              }`}
+            >
+              <span className="font-medium mr-3">{option}.</span>
+              <MathText text={answer[optionTextField(option)] || ''} />
+              {isSelected && (
+                <span className="ml-2 text-xs font-medium">(Your answer)</span>
+              )}
+              <QuestionImage src={answer[optionImageField(option)]} alt={`Option ${option}`} className="mt-2 max-h-48" />
+            </div>
+          );
+        })}
+      </div>
+
+      {answer.question_type !== 'descriptive' && !answer.selected_answer && (
+        <p className="mt-3 text-sm text-gray-500">You did not answer this question.</p>
+      )}
+
+      {keyWithheld && (
+        <p className="mt-3 text-sm text-gray-500">The answer key for this question hasn't been released yet.</p>
+      )}
+
+      {answer.explanation && (
+        <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+          <span className="font-medium text-blue-900">
+            {answer.question_type === 'descriptive' ? 'Model answer: ' : 'Explanation: '}
+          </span>
+          <span className="text-blue-800">{answer.explanation}</span>
+        </div>
+      )}
+    </div>
+  );
+}
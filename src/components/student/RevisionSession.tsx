@@ -0,0 +1,331 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Layout } from '../ui/Layout';
+import { QuestionStem } from '../ui/QuestionStem';
+import { QuestionOptions } from '../ui/QuestionOptions';
+import { PlayerQuestion } from './TestPlayer';
+import {
+  RevisionCard,
+  RevisionCheck,
+  REVISION_RATINGS,
+  FORGOTTEN_QUALITY,
+  fetchDueCards,
+  checkRevisionAnswer,
+  recordRevisionReview,
+  formatInterval
+} from '../../lib/revision';
+import { CheckCircle, XCircle, RotateCcw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface RevisionQuestion extends PlayerQuestion {
+  section_id: string;
+}
+
+interface SectionContext {
+  id: string;
+  name: string;
+  modules: { subjects: { name: string } | null } | null;
+}
+
+export function RevisionSession() {
+  const { profile } = useAuth();
+  const [cards, setCards] = useState<RevisionCard[]>([]);
+  const [questions, setQuestions] = useState<Record<string, RevisionQuestion>>({});
+  const [sections, setSections] = useState<Record<string, SectionContext>>({});
+  const [loading, setLoading] = useState(true);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answer, setAnswer] = useState<string | undefined>();
+  const [check, setCheck] = useState<RevisionCheck | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  useEffect(() => {
+    fetchSession();
+  }, []);
+
+  const fetchSession = async () => {
+    if (!profile) return;
+
+    try {
+      const dueCards = await fetchDueCards(profile.id);
+      if (dueCards.length === 0) {
+        setCards([]);
+        return;
+      }
+
+      const { data: questionData, error: questionError } = await supabase
+        .from('student_questions')
+        .select('*')
+        .in('id', dueCards.map(card => card.question_id));
+
+      if (questionError) throw questionError;
+
+      const questionMap: Record<string, RevisionQuestion> = {};
+      (questionData || []).forEach((question: RevisionQuestion) => {
+        questionMap[question.id] = question;
+      });
+
+      const sectionIds = [...new Set(Object.values(questionMap).map(question => question.section_id))];
+      const { data: sectionData, error: sectionError } = await supabase
+        .from('sections')
+        .select('id, name, modules(subjects(name))')
+        .in('id', sectionIds);
+
+      if (sectionError) throw sectionError;
+
+      const sectionMap: Record<string, SectionContext> = {};
+      ((sectionData || []) as unknown as SectionContext[]).forEach(section => {
+        sectionMap[section.id] = section;
+      });
+
+      // Questions from subjects no longer in the student's batch can't be shown
+      setCards(dueCards.filter(card => questionMap[card.question_id]));
+      setQuestions(questionMap);
+      setSections(sectionMap);
+    } catch (error) {
+      console.error('Error fetching revision cards:', error);
+      toast.error('Failed to load your revision deck');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const nextCard = () => {
+    setAnswer(undefined);
+    setCheck(null);
+    setCurrentIndex(prev => prev + 1);
+  };
+
+  const handleCheck = async (card: RevisionCard) => {
+    if (!answer) return;
+
+    setBusy(true);
+    try {
+      const result = await checkRevisionAnswer(card.id, answer);
+      setCheck(result);
+      if (result.is_correct) {
+        setCorrectCount(prev => prev + 1);
+      }
+    } catch (error) {
+      console.error('Error checking answer:', error);
+      toast.error('Failed to check your answer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRate = async (card: RevisionCard, quality: number) => {
+    setBusy(true);
+    try {
+      const scheduled = await recordRevisionReview(card.id, quality);
+      toast.success(`Next review ${formatInterval(scheduled.interval_days)}`);
+      setReviewedCount(prev => prev + 1);
+      nextCard();
+    } catch (error) {
+      console.error('Error recording review:', error);
+      toast.error('Failed to save your review');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (card: RevisionCard) => {
+    if (!confirm('Remove this question from your revision deck?')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('revision_cards')
+        .delete()
+        .eq('id', card.id);
+
+      if (error) throw error;
+      setCards(prev => prev.filter(c => c.id !== card.id));
+      setAnswer(undefined);
+      setCheck(null);
+      toast.success('Removed from your deck');
+    } catch (error) {
+      console.error('Error removing revision card:', error);
+      toast.error('Failed to remove the question');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const card = cards[currentIndex];
+  const question = card ? questions[card.question_id] : null;
+  const section = question ? sections[question.section_id] : null;
+
+  return (
+    <Layout>
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Revision</h1>
+          <p className="text-gray-600">
+            Questions you got wrong or marked for review, brought back just before you'd forget them
+          </p>
+        </div>
+
+        {cards.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <RotateCcw className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">Nothing to revise today</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Questions you answer wrong or mark for review in tests are added to your deck automatically.
+            </p>
+          </div>
+        ) : !card || !question ? (
+          /* Session complete */
+          <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-100">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <h3 className="mt-4 text-lg font-medium text-gray-900">Revision done for today</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              You reviewed {reviewedCount} {reviewedCount === 1 ? 'question' : 'questions'} and answered {correctCount} correctly.
+            </p>
+            <Link
+              to="/dashboard"
+              className="mt-6 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        ) : (
+          <>
+            {/* Progress */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>Card {currentIndex + 1} of {cards.length}</span>
+                <span>{reviewedCount} reviewed · {correctCount} correct</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
+                <div
+                  className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${(currentIndex / cards.length) * 100}%` }}
+                ></div>
+              </div>
+            </div>
+
+            {/* Card */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-xs text-gray-500">
+                  {section?.modules?.subjects?.name && `${section.modules.subjects.name} · `}{section?.name}
+                </p>
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                    card.source === 'incorrect' ? 'bg-red-100 text-red-800' : 'bg-purple-100 text-purple-800'
+                  }`}>
+                    {card.source === 'incorrect' ? 'Answered wrong' : 'Marked for review'}
+                  </span>
+                  <button
+                    onClick={() => handleRemove(card)}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded"
+                    title="Remove from deck"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="text-lg font-medium text-gray-900 mb-6">
+                <QuestionStem question={question} imageAlt="Question" />
+              </div>
+
+              <QuestionOptions
+                question={question}
+                answer={answer}
+                onChange={setAnswer}
+                disabled={busy}
+                correctAnswer={check?.correct_answer ?? undefined}
+              />
+
+              {check && check.is_correct === null && (
+                <p className="mt-6 p-3 rounded-lg bg-gray-50 text-sm text-gray-600">
+                  This question can't be checked until its answer key is released. It stays in your deck for later.
+                </p>
+              )}
+
+              {check && check.is_correct !== null && (
+                <div className="mt-6 space-y-4">
+                  <div className={`flex items-center p-3 rounded-lg text-sm font-medium ${
+                    check.is_correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                  }`}>
+                    {check.is_correct ? (
+                      <CheckCircle className="h-5 w-5 mr-2" />
+                    ) : (
+                      <XCircle className="h-5 w-5 mr-2" />
+                    )}
+                    {check.is_correct ? 'Correct!' : 'Not quite. This question will come back tomorrow.'}
+                  </div>
+                  {check.explanation && (
+                    <div className="p-3 bg-blue-50 rounded-lg">
+                      <span className="font-medium text-blue-900">Explanation: </span>
+                      <span className="text-blue-800">{check.explanation}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="mt-6">
+                {!check ? (
+                  <button
+                    onClick={() => handleCheck(card)}
+                    disabled={!answer || busy}
+                    className="w-full px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Check Answer
+                  </button>
+                ) : check.is_correct === null ? (
+                  <button
+                    onClick={nextCard}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                  >
+                    Skip for Now
+                  </button>
+                ) : check.is_correct ? (
+                  <div>
+                    <p className="text-sm text-gray-600 mb-2">How well did you know it?</p>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {REVISION_RATINGS.map((rating) => (
+                        <button
+                          key={rating.quality}
+                          onClick={() => handleRate(card, rating.quality)}
+                          disabled={busy}
+                          className={`px-3 py-2 border rounded-lg text-sm font-medium disabled:opacity-50 ${rating.className}`}
+                        >
+                          {rating.label}
+                          <span className="block text-xs font-normal text-gray-500">{rating.description}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => handleRate(card, FORGOTTEN_QUALITY)}
+                    disabled={busy}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Next Question
+                  </button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
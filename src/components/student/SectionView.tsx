@@ -3,31 +3,50 @@ import { useParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { Layout } from '../ui/Layout';
-import { ArrowLeft, CheckCircle, ExternalLink, FileText, Play } from 'lucide-react';
+import { MarkdownContent } from '../ui/MarkdownContent';
+import { AttemptHistory } from './AttemptHistory';
+import { MainsAnswerPanel } from './MainsAnswerPanel';
+import { TestPlayer } from './TestPlayer';
+import { TestResultSummary, ScoreBreakdown } from './TestResultSummary';
+import { getAttemptAvailability, startTestAttempt } from '../../lib/testRules';
+import { describeScoringScheme } from '../../lib/scoring';
+import { QuestionImages } from '../../lib/questionImages';
+import { TypedQuestion } from '../../lib/questionTypes';
+import { RubricCriterion } from '../../lib/answerSubmissions';
+import { testSessionKey, loadTestSession, clearTestSession } from '../../lib/testSession';
+import { ArrowLeft, CheckCircle, ExternalLink, FileText, History, Play } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface Section {
   id: string;
   name: string;
-  type: 'source' | 'test' | 'resource' | 'pyq';
+  type: 'source' | 'test' | 'resource' | 'pyq' | 'mains';
   content: string | null;
   link_url: string | null;
   order_index: number;
   is_required: boolean;
+  pass_percentage: number;
+  max_attempts: number | null;
+  cooldown_minutes: number | null;
+  time_limit_minutes: number | null;
+  marks_per_correct: number;
+  negative_marks: number;
+  unanswered_marks: number;
+  word_limit: number | null;
+  rubric: RubricCriterion[];
 }
 
-interface Question {
+interface Question extends QuestionImages, TypedQuestion {
   id: string;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_answer: 'A' | 'B' | 'C' | 'D';
-  explanation: string | null;
   order_index: number;
 }
 
+interface TestResult extends ScoreBreakdown {
+  attempt_id: string;
+  passed: boolean;
+}
+
 export function SectionView() {
   const { subjectId, moduleId, sectionId } = useParams();
   const { profile } = useAuth();
@@ -37,10 +56,14 @@ export function SectionView() {
   const [loading, setLoading] = useState(true);
   const [isCompleted, setIsCompleted] = useState(false);
   const [showTest, setShowTest] = useState(false);
-  const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, string>>({});
   const [showResults, setShowResults] = useState(false);
-  const [score, setScore] = useState(0);
+  const [result, setResult] = useState<TestResult | null>(null);
+  const [hasSavedSession, setHasSavedSession] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [deadline, setDeadline] = useState<string | null>(null);
+  const [attemptCount, setAttemptCount] = useState(0);
+  const [lastSubmittedAt, setLastSubmittedAt] = useState<string | null>(null);
 
   useEffect(() => {
     if (sectionId) {
@@ -63,7 +86,30 @@ export function SectionView() {
       // Fetch questions if it's a test section
       if (sectionData.type === 'test') {
         const { data: questionsData, error: questionsError } = await supabase
-          .from('questions')
+          .from('student_questions')
+          .select('*')
+          .eq('section_id', sectionId)
+          .order('order_index');
+
+        if (questionsError) throw questionsError;
+        setQuestions(questionsData || []);
+
+        // Past attempts drive the attempt cap and cooldown
+        const { data: attemptsData, error: attemptsError } = await supabase
+          .from('test_attempts')
+          .select('submitted_at')
+          .eq('user_id', profile?.id)
+          .eq('section_id', sectionId)
+          .order('submitted_at', { ascending: false });
+
+        if (attemptsError) throw attemptsError;
+        setAttemptCount(attemptsData?.length || 0);
+        setLastSubmittedAt(attemptsData?.[0]?.submitted_at || null);
+        setHasSavedSession(loadTestSession(testSessionKey(profile!.id, sectionData.id)) !== null);
+      } else if (sectionData.type === 'pyq') {
+        // PYQ sections are read like sources; their questions are practised in the PYQ browser
+        const { data: questionsData, error: questionsError } = await supabase
+          .from('student_questions')
           .select('*')
           .eq('section_id', sectionId)
           .order('order_index');
@@ -95,14 +141,7 @@ export function SectionView() {
 
   const markAsCompleted = async () => {
     try {
-      const { error } = await supabase
-        .from('user_section_progress')
-        .upsert({
-          user_id: profile?.id,
-          section_id: sectionId,
-          is_completed: true,
-          completed_at: new Date().toISOString()
-        });
+      const { error } = await supabase.rpc('complete_section', { p_section_id: sectionId });
 
       if (error) throw error;
 
@@ -114,51 +153,83 @@ export function SectionView() {
     }
   };
 
-  const startTest = () => {
-    setShowTest(true);
-    setCurrentQuestion(0);
-    setAnswers({});
-    setShowResults(false);
-  };
+  const startTest = async (resume = false) => {
+    if (!section) return;
 
-  const handleAnswerSelect = (questionIndex: number, answer: string) => {
-    setAnswers(prev => ({
-      ...prev,
-      [questionIndex]: answer
-    }));
+    const availability = getAttemptAvailability(section, attemptCount, lastSubmittedAt);
+    if (!availability.allowed) {
+      toast.error(availability.reason);
+      return;
+    }
+
+    setStarting(true);
+    try {
+      const started = await startTestAttempt(section.id, resume);
+
+      // Answers saved against a start that has since expired can't be submitted
+      if (!resume || !started.resumed) {
+        clearTestSession(testSessionKey(profile!.id, section.id));
+        setHasSavedSession(false);
+      }
+      if (resume && !started.resumed) {
+        toast('Your previous attempt ran out of time, so a new one has started.');
+      } else if (!resume && started.resumed && started.deadline) {
+        toast('The timer for your earlier attempt is still running.');
+      }
+
+      setDeadline(started.deadline);
+      setShowTest(true);
+      setShowResults(false);
+    } catch (error) {
+      console.error('Error starting test:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start the test');
+    } finally {
+      setStarting(false);
+    }
   };
 
-  const submitTest = async () => {
-    const correctAnswers = questions.filter((question, index) => 
-      answers[index] === question.correct_answer
-    ).length;
-    
-    const finalScore = (correctAnswers / questions.length) * 100;
-    setScore(finalScore);
-    setShowResults(true);
-
-    // Only mark as completed if score is 100%
-    if (finalScore === 100) {
-      try {
-        const { error } = await supabase
-          .from('user_section_progress')
-          .upsert({
-            user_id: profile?.id,
-            section_id: sectionId,
-            is_completed: true,
-            score: finalScore,
-            attempts: 1,
-            completed_at: new Date().toISOString()
-          });
-
-        if (error) throw error;
+  const submitTest = async (
+    answers: Record<string, string>,
+    _startedAt: Date,
+    questionTimes: Record<string, number>,
+    markedForReview: string[]
+  ) => {
+    if (!section) return false;
+
+    setSubmitting(true);
+    try {
+      // Grading and timing happen server-side; the browser never sees the answer key
+      const { data, error } = await supabase
+        .rpc('submit_test', {
+          p_section_id: sectionId,
+          p_answers: answers,
+          p_question_times: questionTimes,
+          p_flagged_question_ids: markedForReview
+        })
+        .single();
+
+      if (error) throw error;
+
+      const testResult = data as TestResult;
+      setResult(testResult);
+      setShowResults(true);
+      setAttemptCount(prev => prev + 1);
+      setLastSubmittedAt(new Date().toISOString());
+      setHasSavedSession(false);
+
+      if (testResult.passed) {
         setIsCompleted(true);
         toast.success('Test completed successfully! Section unlocked.');
-      } catch (error) {
-        console.error('Error updating progress:', error);
+      } else {
+        toast.error(`You need ${section.pass_percentage}% to complete this section. Try again!`);
       }
-    } else {
-      toast.error('You need 100% to complete this section. Try again!');
+      return true;
+    } catch (error) {
+      console.error('Error submitting test:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit your test');
+      return false;
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -182,107 +253,55 @@ export function SectionView() {
     );
   }
 
+  const passedTest = result?.passed || false;
+  const availability = getAttemptAvailability(section, attemptCount, lastSubmittedAt);
+
   if (showTest && section.type === 'test') {
+    // The player counts down from its own start time, so give it whatever is left until the server deadline
+    const sessionKey = testSessionKey(profile!.id, section.id);
+    const session = loadTestSession(sessionKey);
+    const localStart = session ? new Date(session.startedAt).getTime() : Date.now();
+    const timeLimitMinutes = deadline
+      ? Math.max((new Date(deadline).getTime() - localStart) / 60000, 0.01)
+      : null;
+
     return (
       <Layout>
         <div className="max-w-4xl mx-auto space-y-6">
           {!showResults ? (
-            <>
-              {/* Test Header */}
-              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-                <div className="flex items-center justify-between">
-                  <h1 className="text-xl font-bold text-gray-900">{section.name}</h1>
-                  <span className="text-sm text-gray-500">
-                    Question {currentQuestion + 1} of {questions.length}
-                  </span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2 mt-4">
-                  <div
-                    className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
-                    style={{ width: `${((currentQuestion + 1) / questions.length) * 100}%` }}
-                  ></div>
-                </div>
-              </div>
-
-              {/* Current Question */}
-              {questions[currentQuestion] && (
-                <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-                  <h2 className="text-lg font-medium text-gray-900 mb-6">
-                    {questions[currentQuestion].question_text}
-                  </h2>
-                  
-                  <div className="space-y-3">
-                    {['A', 'B', 'C', 'D'].map((option) => (
-                      <button
-                        key={option}
-                        onClick={() => handleAnswerSelect(currentQuestion, option)}
-                        className={`
-                          w-full text-left p-4 rounded-lg border transition-all duration-200
-                          ${answers[currentQuestion] === option
-                            ? 'border-blue-500 bg-blue-50 text-blue-900'
-                            : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                          }
-                        `}
-                      >
-                        <span className="font-medium mr-3">{option}.</span>
-                        {questions[currentQuestion][`option_${option.toLowerCase()}` as keyof Question]}
-                      </button>
-                    ))}
-                  </div>
-
-                  <div className="flex justify-between mt-6">
-                    <button
-                      onClick={() => setCurrentQuestion(Math.max(0, currentQuestion - 1))}
-                      disabled={currentQuestion === 0}
-                      className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      Previous
-                    </button>
-                    
-                    {currentQuestion === questions.length - 1 ? (
-                      <button
-                        onClick={submitTest}
-                        className="px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700"
-                      >
-                        Submit Test
-                      </button>
-                    ) : (
-                      <button
-                        onClick={() => setCurrentQuestion(currentQuestion + 1)}
-                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                      >
-                        Next
-                      </button>
-                    )}
-                  </div>
-                </div>
-              )}
-            </>
-          ) : (
+            <TestPlayer
+              title={section.name}
+              questions={questions}
+              sessionKey={sessionKey}
+              timeLimitMinutes={timeLimitMinutes}
+              submitting={submitting}
+              onSubmit={submitTest}
+            />
+          ) : result && (
             /* Test Results */
             <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
               <div className="text-center">
-                <div className={`w-20 h-20 mx-auto rounded-full flex items-center justify-center mb-4 ${
-                  score === 100 ? 'bg-green-100' : 'bg-red-100'
-                }`}>
-                  <span className={`text-2xl font-bold ${
-                    score === 100 ? 'text-green-600' : 'text-red-600'
-                  }`}>
-                    {score.toFixed(0)}%
-                  </span>
-                </div>
-                
                 <h2 className="text-xl font-bold text-gray-900 mb-2">
-                  {score === 100 ? 'Congratulations!' : 'Keep Trying!'}
+                  {passedTest ? 'Congratulations!' : 'Keep Trying!'}
                 </h2>
                 
                 <p className="text-gray-600 mb-6">
-                  {score === 100 
-                    ? 'You scored 100% and completed this section!'
-                    : 'You need 100% to complete this section. Review and try again.'
+                  {passedTest 
+                    ? `You scored ${Number(result.score).toFixed(0)}% and completed this section!`
+                    : `You scored ${Number(result.score).toFixed(0)}%. You need ${section.pass_percentage}% to complete this section. Review and try again.`
                   }
                 </p>
 
+                <div className="mb-6 text-left">
+                  <TestResultSummary result={result} />
+                  <p className="text-xs text-gray-500 mt-2 text-center">
+                    Marking scheme: {describeScoringScheme(section)}
+                  </p>
+                </div>
+                {!passedTest && !availability.allowed && (
+                  <p className="text-sm text-gray-500 mb-6">{availability.reason}</p>
+                )}
+
                 <div className="flex justify-center space-x-4">
                   <button
                     onClick={() => setShowTest(false)}
@@ -290,10 +309,17 @@ export function SectionView() {
                   >
                     Back to Section
                   </button>
-                  {score < 100 && (
+                  <Link
+                    to={`/subjects/${subjectId}/modules/${moduleId}/sections/${section.id}/attempts/${result.attempt_id}`}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                  >
+                    Review Answers
+                  </Link>
+                  {!passedTest && availability.allowed && (
                     <button
-                      onClick={startTest}
-                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      onClick={() => startTest()}
+                      disabled={starting}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
                     >
                       Try Again
                     </button>
@@ -325,6 +351,7 @@ export function SectionView() {
                 section.type === 'source' ? 'bg-blue-100 text-blue-800' :
                 section.type === 'test' ? 'bg-red-100 text-red-800' :
                 section.type === 'resource' ? 'bg-green-100 text-green-800' :
+                section.type === 'mains' ? 'bg-orange-100 text-orange-800' :
                 'bg-purple-100 text-purple-800'
               }`}>
                 {section.type.toUpperCase()}
@@ -343,25 +370,77 @@ export function SectionView() {
               <Play className="mx-auto h-12 w-12 text-blue-500 mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">Ready to take the test?</h3>
               <p className="text-gray-600 mb-6">
-                You need to score 100% to complete this section and unlock the next one.
+                You need to score {section.pass_percentage}% to complete this section and unlock the next one.
               </p>
               <p className="text-sm text-gray-500 mb-6">
                 Questions: {questions.length}
+                {section.time_limit_minutes !== null && (
+                  <> · Time limit: {section.time_limit_minutes} minutes</>
+                )}
+                {' · '}Marking: {describeScoringScheme(section)}
+                {section.max_attempts !== null && (
+                  <> · Attempts used: {attemptCount}/{section.max_attempts}</>
+                )}
               </p>
-              <button
-                onClick={startTest}
-                className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium"
-              >
-                Start Test
-              </button>
+              {!availability.allowed && (
+                <p className="text-sm text-red-600 mb-4">{availability.reason}</p>
+              )}
+              {hasSavedSession ? (
+                <div className="flex justify-center space-x-3">
+                  <button
+                    onClick={() => startTest(true)}
+                    disabled={!availability.allowed || starting}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Resume Test
+                  </button>
+                  <button
+                    onClick={() => startTest()}
+                    disabled={!availability.allowed || starting}
+                    className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Start Over
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => startTest()}
+                  disabled={!availability.allowed || starting}
+                  className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Start Test
+                </button>
+              )}
             </div>
+          ) : section.type === 'mains' ? (
+            <>
+              {section.content && (
+                <MarkdownContent content={section.content} className="mb-6" />
+              )}
+
+              <div className="border-t border-gray-200 pt-6">
+                <MainsAnswerPanel section={section} />
+              </div>
+            </>
           ) : (
             <>
               {section.content && (
-                <div className="prose max-w-none mb-6">
-                  <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">
-                    {section.content}
-                  </div>
+                <MarkdownContent content={section.content} className="mb-6" />
+              )}
+
+              {section.type === 'pyq' && questions.length > 0 && (
+                <div className="border-t border-gray-200 pt-6 mb-6">
+                  <h4 className="text-sm font-medium text-gray-900 mb-1">Previous Year Questions</h4>
+                  <p className="text-sm text-gray-600 mb-3">
+                    {questions.length} {questions.length === 1 ? 'question' : 'questions'} with answers you can reveal one at a time.
+                  </p>
+                  <Link
+                    to={`/pyqs?section=${section.id}`}
+                    className="inline-flex items-center space-x-2 text-blue-600 hover:text-blue-700"
+                  >
+                    <History className="h-4 w-4" />
+                    <span>Practise these questions</span>
+                  </Link>
                 </div>
               )}
 
@@ -393,6 +472,15 @@ export function SectionView() {
             </>
           )}
         </div>
+
+        {/* Past attempts */}
+        {section.type === 'test' && (
+          <AttemptHistory
+            sectionId={section.id}
+            passPercentage={section.pass_percentage}
+            reviewPath={`/subjects/${subjectId}/modules/${moduleId}/sections/${section.id}/attempts`}
+          />
+        )}
       </div>
     </Layout>
   );
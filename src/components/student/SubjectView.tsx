@@ -3,7 +3,7 @@ import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { Layout } from '../ui/Layout';
-import { BookOpen, Play, CheckCircle, Lock, ArrowLeft } from 'lucide-react';
+import { BookOpen, Play, CheckCircle, Lock, ArrowLeft, PenLine } from 'lucide-react';
 
 interface Module {
   id: string;
@@ -16,7 +16,7 @@ interface Module {
 interface Section {
   id: string;
   name: string;
-  type: 'source' | 'test' | 'resource' | 'pyq';
+  type: 'source' | 'test' | 'resource' | 'pyq' | 'mains';
   content: string | null;
   link_url: string | null;
   order_index: number;
@@ -104,6 +104,7 @@ export function SubjectView() {
       case 'test': return 'bg-red-100 text-red-800';
       case 'resource': return 'bg-green-100 text-green-800';
       case 'pyq': return 'bg-purple-100 text-purple-800';
+      case 'mains': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -114,6 +115,7 @@ export function SubjectView() {
       case 'test': return <Play className="h-4 w-4" />;
       case 'resource': return <BookOpen className="h-4 w-4" />;
       case 'pyq': return <Play className="h-4 w-4" />;
+      case 'mains': return <PenLine className="h-4 w-4" />;
       default: return <BookOpen className="h-4 w-4" />;
     }
   };
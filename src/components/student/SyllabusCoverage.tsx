@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { Layout } from '../ui/Layout';
+import {
+  SyllabusNode,
+  SyllabusTreeNode,
+  SyllabusNodeCoverage,
+  STRONG_ACCURACY,
+  buildSyllabusTree,
+  getCoverageAccuracy,
+  fetchSyllabusNodes,
+  fetchSyllabusCoverage
+} from '../../lib/syllabus';
+import { CheckCircle, ListTree } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export function SyllabusCoverage() {
+  const [nodes, setNodes] = useState<SyllabusNode[]>([]);
+  const [coverage, setCoverage] = useState<Record<string, SyllabusNodeCoverage>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCoverage();
+  }, []);
+
+  const fetchCoverage = async () => {
+    try {
+      setNodes(await fetchSyllabusNodes());
+      setCoverage(await fetchSyllabusCoverage());
+    } catch (error) {
+      console.error('Error fetching syllabus coverage:', error);
+      toast.error('Failed to load syllabus coverage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const renderStats = (node: SyllabusTreeNode) => {
+    const stats = coverage[node.id];
+    const accuracy = getCoverageAccuracy(stats);
+
+    if (!stats || (stats.section_count === 0 && stats.answered_count === 0)) {
+      return <span className="text-xs text-gray-400">No material yet</span>;
+    }
+
+    const isCompleted = stats.section_count > 0 && stats.completed_count === stats.section_count;
+
+    return (
+      <div className="flex items-center space-x-3">
+        {stats.section_count > 0 && (
+          <div className="flex items-center space-x-2">
+            <div className="w-24 bg-gray-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${isCompleted ? 'bg-green-500' : 'bg-gradient-to-r from-blue-500 to-purple-500'}`}
+                style={{ width: `${(stats.completed_count / stats.section_count) * 100}%` }}
+              ></div>
+            </div>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {stats.completed_count}/{stats.section_count}
+            </span>
+          </div>
+        )}
+        {accuracy !== null ? (
+          <span
+            className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${
+              accuracy >= STRONG_ACCURACY ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+            }`}
+            title={`${stats.correct_count} of ${stats.answered_count} answers correct`}
+          >
+            {accuracy}% correct
+          </span>
+        ) : (
+          <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600 whitespace-nowrap">
+            Not tested
+          </span>
+        )}
+        {isCompleted && <CheckCircle className="h-4 w-4 text-green-500" />}
+      </div>
+    );
+  };
+
+  const renderNode = (node: SyllabusTreeNode, depth: number): React.ReactNode => (
+    <div key={node.id}>
+      <div
+        className="flex items-center justify-between py-2 pr-2"
+        style={{ paddingLeft: `${(depth - 1) * 1.5}rem` }}
+      >
+        <p className={depth === 1 ? 'font-medium text-gray-900' : 'text-sm text-gray-700'}>{node.name}</p>
+        {renderStats(node)}
+      </div>
+      {node.children.map(child => renderNode(child, depth + 1))}
+    </div>
+  );
+
+  const tree = buildSyllabusTree(nodes);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Syllabus Coverage</h1>
+          <p className="text-gray-600">
+            Your progress against the official UPSC syllabus: sections completed, and how well you've done on questions
+            from each topic. {STRONG_ACCURACY}% or more counts as tested well.
+          </p>
+        </div>
+
+        {tree.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <ListTree className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-4 text-sm font-medium text-gray-900">No syllabus yet</h3>
+            <p className="mt-1 text-sm text-gray-500">Coverage will appear once the syllabus has been set up.</p>
+          </div>
+        ) : (
+          tree.map((paper) => (
+            <div key={paper.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-start justify-between mb-2">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{paper.name}</h2>
+                  {paper.description && (
+                    <p className="text-sm text-gray-500">{paper.description}</p>
+                  )}
+                </div>
+                {renderStats(paper)}
+              </div>
+              <div className="divide-y divide-gray-100 border-t border-gray-100">
+                {paper.children.map(child => renderNode(child, 1))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState, useEffect, useRef } from 'react';
+import { loadTestSession, saveTestSession, clearTestSession } from '../../lib/testSession';
+import { formatCountdown } from '../../lib/format';
+import { QuestionImages } from '../../lib/questionImages';
+import { TypedQuestion } from '../../lib/questionTypes';
+import { QuestionStem } from '../ui/QuestionStem';
+import { QuestionOptions } from '../ui/QuestionOptions';
+import { Clock, Flag, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export interface PlayerQuestion extends QuestionImages, TypedQuestion {
+  id: string;
+  question_text: string;
+}
+
+interface TestPlayerProps {
+  title: string;
+  questions: PlayerQuestion[];
+  sessionKey: string;
+  timeLimitMinutes: number | null;
+  submitting: boolean;
+  // Resolves to true once the attempt is saved, so the local session can be discarded;
+  // questionTimes holds whole seconds spent on each question id, and the ids still
+  // marked for review are added to the student's revision deck
+  onSubmit: (
+    answers: Record<string, string>,
+    startedAt: Date,
+    questionTimes: Record<string, number>,
+    markedForReview: string[]
+  ) => Promise<boolean>;
+}
+
+export function TestPlayer({ title, questions, sessionKey, timeLimitMinutes, submitting, onSubmit }: TestPlayerProps) {
+  const [session] = useState(() => loadTestSession(sessionKey));
+  const [answers, setAnswers] = useState<Record<string, string>>(session?.answers || {});
+  const [currentQuestion, setCurrentQuestion] = useState(
+    Math.min(session?.currentQuestion || 0, Math.max(questions.length - 1, 0))
+  );
+  const [markedForReview, setMarkedForReview] = useState<string[]>(session?.markedForReview || []);
+  const [visited, setVisited] = useState<string[]>(session?.visited || []);
+  const [timeSpent, setTimeSpent] = useState<Record<string, number>>(session?.timeSpent || {});
+  const [showSubmitSummary, setShowSubmitSummary] = useState(false);
+  const [startedAt] = useState(() => session ? new Date(session.startedAt) : new Date());
+  const [now, setNow] = useState(() => Date.now());
+  const autoSubmitted = useRef(false);
+  const questionShownAt = useRef(Date.now());
+
+  const deadline = timeLimitMinutes ? startedAt.getTime() + timeLimitMinutes * 60 * 1000 : null;
+  const secondsRemaining = deadline ? Math.ceil((deadline - now) / 1000) : null;
+  const timeUp = secondsRemaining !== null && secondsRemaining <= 0;
+
+  useEffect(() => {
+    saveTestSession(sessionKey, {
+      answers,
+      currentQuestion,
+      startedAt: startedAt.toISOString(),
+      markedForReview,
+      visited,
+      timeSpent
+    });
+  }, [sessionKey, answers, currentQuestion, startedAt, markedForReview, visited, timeSpent]);
+
+  useEffect(() => {
+    const questionId = questions[currentQuestion]?.id;
+    if (!questionId) return;
+
+    setVisited(prev => prev.includes(questionId) ? prev : [...prev, questionId]);
+    questionShownAt.current = Date.now();
+
+    // Credit the time on screen to this question when moving away from it
+    return () => {
+      const elapsed = Date.now() - questionShownAt.current;
+      setTimeSpent(prev => ({ ...prev, [questionId]: (prev[questionId] || 0) + elapsed }));
+    };
+  }, [questions, currentQuestion]);
+
+  useEffect(() => {
+    if (!deadline) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const handleSubmit = async () => {
+    if (submitting) return;
+
+    setShowSubmitSummary(false);
+
+    // The question still on screen has not been credited yet
+    const totals = { ...timeSpent };
+    const currentId = questions[currentQuestion]?.id;
+    if (currentId) {
+      totals[currentId] = (totals[currentId] || 0) + Date.now() - questionShownAt.current;
+    }
+    const questionTimes: Record<string, number> = {};
+    Object.entries(totals).forEach(([questionId, ms]) => {
+      questionTimes[questionId] = Math.round(ms / 1000);
+    });
+
+    const saved = await onSubmit(answers, startedAt, questionTimes, markedForReview);
+    if (saved) {
+      clearTestSession(sessionKey);
+    }
+  };
+
+  // Once time is up there is nothing left to confirm, so a failed auto-submit is retried directly
+  const requestSubmit = () => {
+    if (timeUp) {
+      handleSubmit();
+    } else {
+      setShowSubmitSummary(true);
+    }
+  };
+
+  // Auto-submit once when time runs out (including when resuming an expired session)
+  useEffect(() => {
+    if (timeUp && !autoSubmitted.current) {
+      autoSubmitted.current = true;
+      toast("Time's up! Submitting your answers.");
+      handleSubmit();
+    }
+  });
+
+  const handleAnswerSelect = (questionId: string, answer: string) => {
+    if (timeUp) return;
+
+    setAnswers(prev => ({
+      ...prev,
+      [questionId]: answer
+    }));
+  };
+
+  const handleClearResponse = (questionId: string) => {
+    if (timeUp) return;
+
+    setAnswers(prev => {
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+  };
+
+  const toggleMarkForReview = (questionId: string) => {
+    setMarkedForReview(prev =>
+      prev.includes(questionId) ? prev.filter(id => id !== questionId) : [...prev, questionId]
+    );
+  };
+
+  const getPaletteColor = (questionId: string) => {
+    const answered = !!answers[questionId];
+    if (markedForReview.includes(questionId)) {
+      return answered ? 'bg-purple-600 text-white border-purple-600' : 'bg-purple-100 text-purple-800 border-purple-300';
+    }
+    if (answered) return 'bg-green-500 text-white border-green-500';
+    if (visited.includes(questionId)) return 'bg-red-100 text-red-800 border-red-300';
+    return 'bg-white text-gray-700 border-gray-300';
+  };
+
+  const question = questions[currentQuestion];
+  const answeredCount = questions.filter(q => answers[q.id]).length;
+  const unansweredCount = questions.length - answeredCount;
+  const reviewCount = questions.filter(q => markedForReview.includes(q.id)).length;
+
+  return (
+    <>
+      {/* Test Header */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-bold text-gray-900">{title}</h1>
+          <div className="flex items-center space-x-4">
+            {secondsRemaining !== null && (
+              <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-mono font-medium ${
+                secondsRemaining <= 60 ? 'bg-red-100 text-red-700' :
+                secondsRemaining <= 300 ? 'bg-yellow-100 text-yellow-800' :
+                'bg-gray-100 text-gray-700'
+              }`}>
+                <Clock className="h-4 w-4 mr-1" />
+                {formatCountdown(secondsRemaining)}
+              </span>
+            )}
+            <span className="text-sm text-gray-500">
+              Question {currentQuestion + 1} of {questions.length} · {answeredCount} answered
+            </span>
+          </div>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2 mt-4">
+          <div
+            className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${(answeredCount / questions.length) * 100}%` }}
+          ></div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Current Question */}
+        {question && (
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="text-lg font-medium text-gray-900 mb-6">
+              <QuestionStem question={question} imageAlt={`Question ${currentQuestion + 1}`} />
+            </div>
+
+            {question.question_type === 'descriptive' ? (
+              <textarea
+                value={answers[question.id] || ''}
+                onChange={(e) => handleAnswerSelect(question.id, e.target.value)}
+                disabled={timeUp}
+                rows={8}
+                className="block w-full border border-gray-300 rounded-lg shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                placeholder="Write your answer"
+              />
+            ) : (
+              <QuestionOptions
+                question={question}
+                answer={answers[question.id]}
+                onChange={(answer) => handleAnswerSelect(question.id, answer)}
+                disabled={timeUp}
+              />
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 mt-6">
+              <button
+                onClick={() => handleClearResponse(question.id)}
+                disabled={!answers[question.id] || timeUp}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Clear Response
+              </button>
+              <button
+                onClick={() => toggleMarkForReview(question.id)}
+                className={`inline-flex items-center px-3 py-1.5 text-sm border rounded-lg ${
+                  markedForReview.includes(question.id)
+                    ? 'border-purple-300 bg-purple-50 text-purple-700 hover:bg-purple-100'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Flag className="h-4 w-4 mr-1" />
+                {markedForReview.includes(question.id) ? 'Unmark Review' : 'Mark for Review'}
+              </button>
+            </div>
+
+            <div className="flex justify-between mt-6">
+              <button
+                onClick={() => setCurrentQuestion(Math.max(0, currentQuestion - 1))}
+                disabled={currentQuestion === 0}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+
+              {currentQuestion === questions.length - 1 ? (
+                <button
+                  onClick={requestSubmit}
+                  disabled={submitting}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? 'Submitting...' : 'Submit Test'}
+                </button>
+              ) : (
+                <button
+                  onClick={() => setCurrentQuestion(currentQuestion + 1)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Next
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Question Palette */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 h-fit">
+          <h3 className="text-sm font-semibold text-gray-900 mb-4">Question Palette</h3>
+          <div className="grid grid-cols-5 gap-2">
+            {questions.map((q, index) => (
+              <button
+                key={q.id}
+                onClick={() => setCurrentQuestion(index)}
+                className={`h-9 rounded-md border text-sm font-medium transition-colors ${getPaletteColor(q.id)} ${
+                  index === currentQuestion ? 'ring-2 ring-blue-500 ring-offset-1' : ''
+                }`}
+              >
+                {index + 1}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 mt-4 text-xs text-gray-600">
+            <div className="flex items-center"><span className="w-3 h-3 rounded-sm bg-green-500 mr-2"></span>Answered</div>
+            <div className="flex items-center"><span className="w-3 h-3 rounded-sm bg-red-100 border border-red-300 mr-2"></span>Not answered</div>
+            <div className="flex items-center"><span className="w-3 h-3 rounded-sm bg-white border border-gray-300 mr-2"></span>Not visited</div>
+            <div className="flex items-center"><span className="w-3 h-3 rounded-sm bg-purple-100 border border-purple-300 mr-2"></span>For review</div>
+            <div className="flex items-center col-span-2"><span className="w-3 h-3 rounded-sm bg-purple-600 mr-2"></span>Answered &amp; marked for review</div>
+          </div>
+
+          <button
+            onClick={requestSubmit}
+            disabled={submitting}
+            className="w-full mt-6 px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Submitting...' : 'Submit Test'}
+          </button>
+        </div>
+      </div>
+
+      {/* Pre-submit Summary */}
+      {showSubmitSummary && !timeUp && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Submit Test?</h3>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 rounded-lg bg-green-50">
+                  <p className="text-2xl font-bold text-green-900">{answeredCount}</p>
+                  <p className="text-xs text-green-700">Answered</p>
+                </div>
+                <div className="p-3 rounded-lg bg-red-50">
+                  <p className="text-2xl font-bold text-red-900">{unansweredCount}</p>
+                  <p className="text-xs text-red-700">Unanswered</p>
+                </div>
+                <div className="p-3 rounded-lg bg-purple-50">
+                  <p className="text-2xl font-bold text-purple-900">{reviewCount}</p>
+                  <p className="text-xs text-purple-700">For Review</p>
+                </div>
+              </div>
+              {unansweredCount > 0 && (
+                <div className="flex items-start p-3 rounded-lg bg-yellow-50 text-sm text-yellow-800">
+                  <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>
+                    You have {unansweredCount} unanswered question{unansweredCount === 1 ? '' : 's'}. You can't change your answers after submitting.
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowSubmitSummary(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Keep Answering
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={submitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Submitting...' : 'Submit'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
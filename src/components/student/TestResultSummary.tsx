@@ -0,0 +1,54 @@
+import { formatMarks } from '../../lib/scoring';
+import { CheckCircle, XCircle, MinusCircle, Award } from 'lucide-react';
+
+export interface ScoreBreakdown {
+  score: number;
+  correct_count: number;
+  wrong_count: number;
+  skipped_count: number;
+  total_questions: number;
+  net_marks: number;
+  max_marks: number;
+}
+
+interface TestResultSummaryProps {
+  result: ScoreBreakdown;
+}
+
+export function TestResultSummary({ result }: TestResultSummaryProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="p-4 rounded-lg bg-green-50 border border-green-100">
+        <div className="flex items-center space-x-2 text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          <span className="text-sm font-medium">Correct</span>
+        </div>
+        <p className="text-2xl font-bold text-green-900 mt-1">{result.correct_count}</p>
+      </div>
+      <div className="p-4 rounded-lg bg-red-50 border border-red-100">
+        <div className="flex items-center space-x-2 text-red-700">
+          <XCircle className="h-4 w-4" />
+          <span className="text-sm font-medium">Wrong</span>
+        </div>
+        <p className="text-2xl font-bold text-red-900 mt-1">{result.wrong_count}</p>
+      </div>
+      <div className="p-4 rounded-lg bg-gray-50 border border-gray-200">
+        <div className="flex items-center space-x-2 text-gray-600">
+          <MinusCircle className="h-4 w-4" />
+          <span className="text-sm font-medium">Skipped</span>
+        </div>
+        <p className="text-2xl font-bold text-gray-900 mt-1">{result.skipped_count}</p>
+      </div>
+      <div className="p-4 rounded-lg bg-blue-50 border border-blue-100">
+        <div className="flex items-center space-x-2 text-blue-700">
+          <Award className="h-4 w-4" />
+          <span className="text-sm font-medium">Net Marks</span>
+        </div>
+        <p className="text-2xl font-bold text-blue-900 mt-1">
+          {formatMarks(result.net_marks)}
+          <span className="text-sm font-medium text-blue-700"> / {formatMarks(result.max_marks)}</span>
+        </p>
+      </div>
+    </div>
+  );
+}
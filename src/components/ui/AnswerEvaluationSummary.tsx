@@ -0,0 +1,64 @@
+import { RubricScore } from '../../lib/answerSubmissions';
+import { formatMarks } from '../../lib/scoring';
+import { Award, MessageSquare } from 'lucide-react';
+
+interface AnswerEvaluationSummaryProps {
+  evaluation: {
+    rubric_scores: RubricScore[] | null;
+    score: number | null;
+    max_score: number | null;
+    feedback: string | null;
+  };
+}
+
+export function AnswerEvaluationSummary({ evaluation }: AnswerEvaluationSummaryProps) {
+  const rubricScores = evaluation.rubric_scores || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 rounded-lg bg-blue-50 border border-blue-100">
+        <div className="flex items-center space-x-2 text-blue-700">
+          <Award className="h-4 w-4" />
+          <span className="text-sm font-medium">Score</span>
+        </div>
+        <p className="text-2xl font-bold text-blue-900 mt-1">
+          {formatMarks(evaluation.score ?? 0)}
+          <span className="text-sm font-medium text-blue-700"> / {formatMarks(evaluation.max_score ?? 0)}</span>
+        </p>
+      </div>
+
+      {rubricScores.length > 0 && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Criterion</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Marks</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rubricScores.map((item, index) => (
+                <tr key={index}>
+                  <td className="px-4 py-2 text-gray-900">{item.criterion}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">
+                    {formatMarks(item.score)} / {formatMarks(item.max_marks)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {evaluation.feedback && (
+        <div className="p-4 rounded-lg bg-gray-50 border border-gray-200">
+          <div className="flex items-center space-x-2 text-gray-700 mb-2">
+            <MessageSquare className="h-4 w-4" />
+            <span className="text-sm font-medium">Mentor comments</span>
+          </div>
+          <p className="text-sm text-gray-800 whitespace-pre-wrap">{evaluation.feedback}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import { getAnswerFileUrl } from '../../lib/answerSubmissions';
+import { ExternalLink, FileText } from 'lucide-react';
+
+interface AnswerFileLinkProps {
+  path: string;
+  name: string | null;
+}
+
+// Uploaded answers live in a private bucket, so the link is signed on demand
+export function AnswerFileLink({ path, name }: AnswerFileLinkProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const isPdf = path.toLowerCase().endsWith('.pdf');
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+
+    getAnswerFileUrl(path)
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch((error) => {
+        console.error('Error loading answer file:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  if (failed) {
+    return <p className="text-sm text-red-600">Could not load the uploaded file.</p>;
+  }
+
+  if (!url) {
+    return <p className="text-sm text-gray-500">Loading uploaded file...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {!isPdf && (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <img
+            src={url}
+            alt={name || 'Uploaded answer'}
+            className="max-h-96 max-w-full rounded-lg border border-gray-200 bg-white object-contain"
+          />
+        </a>
+      )}
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-700"
+      >
+        {isPdf ? <FileText className="h-4 w-4" /> : <ExternalLink className="h-4 w-4" />}
+        <span>{name || 'Open uploaded answer'}</span>
+      </a>
+    </div>
+  );
+}
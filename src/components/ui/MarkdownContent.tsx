@@ -0,0 +1,37 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// GitHub-flavoured Markdown (tables, task lists, strikethrough) with KaTeX math; raw HTML is sanitized
+export function MarkdownContent({ content, className = '' }: MarkdownContentProps) {
+  return (
+    <div className={`prose prose-gray max-w-none prose-a:text-blue-600 prose-table:text-sm ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeSanitize, rehypeKatex]}
+        components={{
+          a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer">
+              {children}
+            </a>
+          ),
+          table: ({ children }) => (
+            <div className="overflow-x-auto">
+              <table>{children}</table>
+            </div>
+          )
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
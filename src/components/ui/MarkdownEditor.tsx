@@ -0,0 +1,31 @@
+import { MarkdownContent } from './MarkdownContent';
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  placeholder?: string;
+}
+
+export function MarkdownEditor({ id, value, onChange, rows = 10, placeholder }: MarkdownEditorProps) {
+  return (
+    <div className="mt-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+      <textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={rows}
+        className="block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        placeholder={placeholder}
+      />
+      <div className="border border-gray-200 rounded-md px-4 py-3 bg-gray-50 overflow-y-auto max-h-80">
+        {value.trim() ? (
+          <MarkdownContent content={value} className="prose-sm" />
+        ) : (
+          <p className="text-sm text-gray-400">Preview appears here</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize from 'rehype-sanitize';
+import 'katex/dist/katex.min.css';
+
+interface MathTextProps {
+  text: string;
+}
+
+// Question and option text with LaTeX between $...$ (inline) or $$...$$ (display)
+export function MathText({ text }: MathTextProps) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkMath]}
+      // Sanitize before KaTeX so its generated markup is kept
+      rehypePlugins={[rehypeSanitize, rehypeKatex]}
+      components={{
+        // Stays inline next to option labels; later paragraphs start on a new line
+        p: ({ children }) => <span className="block mt-2 first:inline first:mt-0">{children}</span>
+      }}
+    >
+      {text}
+    </ReactMarkdown>
+  );
+}
@@ -0,0 +1,74 @@
+import { MockLeaderboardEntry } from '../../lib/mockTests';
+import { formatMarks } from '../../lib/scoring';
+import { formatDuration } from '../../lib/format';
+import { Trophy } from 'lucide-react';
+
+interface MockLeaderboardProps {
+  entries: MockLeaderboardEntry[];
+  cutoffMarks: number | null;
+}
+
+// Ranked results of a mock test, shared by the student result page and the admin view
+export function MockLeaderboard({ entries, cutoffMarks }: MockLeaderboardProps) {
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+        <Trophy className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-4 text-sm font-medium text-gray-900">No submissions yet</h3>
+      </div>
+    );
+  }
+
+  const clearedCount = cutoffMarks !== null
+    ? entries.filter(entry => Number(entry.net_marks) >= Number(cutoffMarks)).length
+    : null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Leaderboard</h2>
+        <p className="text-sm text-gray-500">
+          {entries.length} {entries.length === 1 ? 'candidate' : 'candidates'}
+          {clearedCount !== null && <> · {clearedCount} cleared the cut-off</>}
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Rank</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Student</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-600">Marks</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-600">Percentile</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-600">Correct / Wrong</th>
+              <th className="px-4 py-3 text-right font-medium text-gray-600">Time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {entries.map((entry) => (
+              <tr key={entry.user_id} className={entry.is_self ? 'bg-blue-50' : ''}>
+                <td className="px-4 py-3 font-medium text-gray-900">{entry.rank}</td>
+                <td className="px-4 py-3 text-gray-900">
+                  {entry.full_name}
+                  {entry.is_self && <span className="ml-2 text-xs font-medium text-blue-700">(You)</span>}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <span className={
+                    cutoffMarks !== null && Number(entry.net_marks) >= Number(cutoffMarks)
+                      ? 'font-medium text-green-700'
+                      : 'text-gray-900'
+                  }>
+                    {formatMarks(entry.net_marks)}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right text-gray-900">{Number(entry.percentile).toFixed(2)}</td>
+                <td className="px-4 py-3 text-right text-gray-600">{entry.correct_count} / {entry.wrong_count}</td>
+                <td className="px-4 py-3 text-right text-gray-600">{formatDuration(entry.duration_seconds)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
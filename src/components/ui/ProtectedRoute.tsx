@@ -1,16 +1,19 @@
 import React, { ReactNode } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { Permission } from '../../lib/permissions';
 import { Navigate } from 'react-router-dom';
 import { AlertCircle, RefreshCw, Wifi } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: ReactNode;
-  requireAdmin?: boolean;
+  requireStaff?: boolean;
   requireStudent?: boolean;
+  // Staff route that also needs this permission, or any one of a list
+  requirePermission?: Permission | Permission[];
 }
 
-export function ProtectedRoute({ children, requireAdmin = false, requireStudent = false }: ProtectedRouteProps) {
-  const { user, profile, loading, error, retry } = useAuth();
+export function ProtectedRoute({ children, requireStaff = false, requireStudent = false, requirePermission }: ProtectedRouteProps) {
+  const { user, profile, loading, error, retry, isStaff, can } = useAuth();
 
   // Show error state with retry option
   if (error) {
@@ -96,11 +99,15 @@ export function ProtectedRoute({ children, requireAdmin = false, requireStudent
   }
 
   // Check role-based access
-  if (requireAdmin && profile.role !== 'admin') {
+  if ((requireStaff || requirePermission) && !isStaff) {
     return <Navigate to="/dashboard" replace />;
   }
 
-  if (requireStudent && profile.role !== 'student') {
+  if (requirePermission && !can(requirePermission)) {
+    return <Navigate to="/admin" replace />;
+  }
+
+  if (requireStudent && isStaff) {
     return <Navigate to="/admin" replace />;
   }
 
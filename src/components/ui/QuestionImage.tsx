@@ -0,0 +1,18 @@
+interface QuestionImageProps {
+  src: string | null;
+  alt: string;
+  className?: string;
+}
+
+export function QuestionImage({ src, alt, className = '' }: QuestionImageProps) {
+  if (!src) return null;
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      loading="lazy"
+      className={`max-h-72 max-w-full rounded-lg border border-gray-200 bg-white object-contain ${className}`}
+    />
+  );
+}
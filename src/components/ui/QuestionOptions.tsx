@@ -0,0 +1,58 @@
+import { QuestionImages, optionImageField } from '../../lib/questionImages';
+import { TypedQuestion, getAvailableOptions, optionTextField, toggleAnswerLetter, answerIncludes } from '../../lib/questionTypes';
+import { MathText } from './MathText';
+import { QuestionImage } from './QuestionImage';
+
+interface QuestionOptionsProps {
+  question: TypedQuestion & QuestionImages;
+  answer: string | undefined;
+  onChange: (answer: string) => void;
+  disabled?: boolean;
+  // Once known, options are coloured like the attempt review and can't be changed
+  correctAnswer?: string | null;
+}
+
+// Selectable answer options for the objective question types, shared by the test player and revision
+export function QuestionOptions({ question, answer, onChange, disabled = false, correctAnswer }: QuestionOptionsProps) {
+  const revealed = correctAnswer !== undefined;
+
+  const optionClassName = (option: 'A' | 'B' | 'C' | 'D') => {
+    const isSelected = answerIncludes(answer, option);
+    if (revealed) {
+      if (answerIncludes(correctAnswer, option)) return 'border-green-300 bg-green-50 text-green-900';
+      if (isSelected) return 'border-red-300 bg-red-50 text-red-900';
+      return 'border-gray-200 text-gray-700';
+    }
+    return isSelected
+      ? 'border-blue-500 bg-blue-50 text-blue-900'
+      : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50';
+  };
+
+  return (
+    <div className="space-y-3">
+      {question.question_type === 'multi_select' && !revealed && (
+        <p className="text-sm text-gray-500">Select all that apply.</p>
+      )}
+      {getAvailableOptions(question).map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(
+            question.question_type === 'multi_select' ? toggleAnswerLetter(answer, option) : option
+          )}
+          disabled={disabled || revealed}
+          className={`
+            w-full text-left p-4 rounded-lg border transition-all duration-200 disabled:cursor-default
+            ${optionClassName(option)}
+          `}
+        >
+          <span className="font-medium mr-3">{option}.</span>
+          <MathText text={question[optionTextField(option)] || ''} />
+          {revealed && answerIncludes(answer, option) && (
+            <span className="ml-2 text-xs font-medium">(Your answer)</span>
+          )}
+          <QuestionImage src={question[optionImageField(option)]} alt={`Option ${option}`} className="mt-2 max-h-48" />
+        </button>
+      ))}
+    </div>
+  );
+}
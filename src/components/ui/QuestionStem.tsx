@@ -0,0 +1,69 @@
+import { TypedQuestion } from '../../lib/questionTypes';
+import { MathText } from './MathText';
+import { QuestionImage } from './QuestionImage';
+
+interface QuestionStemProps {
+  question: TypedQuestion & { question_text: string; image_url: string | null };
+  imageAlt: string;
+}
+
+// Question text plus the structured parts of statement, match and assertion-reason questions
+export function QuestionStem({ question, imageAlt }: QuestionStemProps) {
+  const statements = question.statements || [];
+  const pairs = question.match_pairs || [];
+
+  return (
+    <div className="space-y-4">
+      {question.question_type === 'assertion_reason' ? (
+        <div className="space-y-2">
+          <p><span className="font-semibold">Assertion (A): </span><MathText text={statements[0] || ''} /></p>
+          <p><span className="font-semibold">Reason (R): </span><MathText text={statements[1] || ''} /></p>
+          {question.question_text && (
+            <p className="text-gray-700"><MathText text={question.question_text} /></p>
+          )}
+        </div>
+      ) : (
+        <>
+          <div><MathText text={question.question_text} /></div>
+
+          {question.question_type === 'statement' && statements.length > 0 && (
+            <ol className="list-decimal pl-6 space-y-1 font-normal text-gray-800">
+              {statements.map((statement, index) => (
+                <li key={index}><MathText text={statement} /></li>
+              ))}
+            </ol>
+          )}
+
+          {question.question_type === 'match' && pairs.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm font-normal border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700 border-b border-gray-200">List I</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700 border-b border-gray-200">List II</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {pairs.map((pair, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2 text-gray-800">
+                        <span className="font-medium mr-2">{String.fromCharCode(65 + index)}.</span>
+                        <MathText text={pair.left} />
+                      </td>
+                      <td className="px-3 py-2 text-gray-800">
+                        <span className="font-medium mr-2">{index + 1}.</span>
+                        <MathText text={pair.right} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <QuestionImage src={question.image_url} alt={imageAlt} />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
+import { Permission, ROLE_LABELS, STUDENT_VIEW_PERMISSIONS } from '../../lib/permissions';
 import { 
   BookOpen, 
   LayoutDashboard, 
@@ -10,7 +11,17 @@ import {
   Menu, 
   X, 
   Plus,
-  User
+  User,
+  ClipboardCheck,
+  Users,
+  Layers,
+  ShieldPlus,
+  UserCog,
+  RotateCcw,
+  Shuffle,
+  Trophy,
+  History,
+  ListTree
 } from 'lucide-react';
 
 interface Subject {
@@ -20,7 +31,7 @@ interface Subject {
 }
 
 export function Sidebar() {
-  const { profile, signOut, isAdmin } = useAuth();
+  const { profile, signOut, isStaff, can } = useAuth();
   const location = useLocation();
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [isOpen, setIsOpen] = useState(false);
@@ -43,21 +54,81 @@ export function Sidebar() {
     }
   };
 
+  const staffNavigation: { name: string; href: string; icon: typeof Plus; permission: Permission | Permission[] }[] = [
+    {
+      name: 'Manage Subjects',
+      href: '/admin/subjects',
+      icon: Plus,
+      permission: 'manage_content',
+    },
+    {
+      name: 'Syllabus',
+      href: '/admin/syllabus',
+      icon: ListTree,
+      permission: 'manage_content',
+    },
+    {
+      name: 'Mock Tests',
+      href: '/admin/mock-tests',
+      icon: Trophy,
+      permission: 'manage_content',
+    },
+    {
+      name: 'Students',
+      href: '/admin/students',
+      icon: Users,
+      permission: STUDENT_VIEW_PERMISSIONS,
+    },
+    {
+      name: 'Batches',
+      href: '/admin/batches',
+      icon: Layers,
+      permission: 'manage_batches',
+    },
+    {
+      name: 'Evaluations',
+      href: '/admin/evaluations',
+      icon: ClipboardCheck,
+      permission: 'evaluate_answers',
+    },
+    {
+      name: 'Staff',
+      href: '/admin/staff',
+      icon: UserCog,
+      permission: 'manage_staff',
+    },
+    {
+      name: 'Staff Invites',
+      href: '/admin/invites',
+      icon: ShieldPlus,
+      permission: 'manage_staff',
+    }
+  ];
+
   const navigation = [
     {
       name: 'Dashboard',
-      href: isAdmin ? '/admin' : '/dashboard',
+      href: isStaff ? '/admin' : '/dashboard',
       icon: LayoutDashboard,
     },
-    ...(isAdmin ? [
-      {
-        name: 'Manage Subjects',
-        href: '/admin/subjects',
-        icon: Plus,
-      }
-    ] : []),
+    ...(isStaff ? [] : [
+      { name: 'Revise', href: '/revise', icon: RotateCcw },
+      { name: 'Practice Tests', href: '/practice', icon: Shuffle },
+      { name: 'Mock Tests', href: '/mock-tests', icon: Trophy },
+      { name: 'PYQs', href: '/pyqs', icon: History },
+      { name: 'Syllabus Coverage', href: '/syllabus', icon: ListTree }
+    ]),
+    ...staffNavigation.filter(item => can(item.permission)),
+    {
+      name: 'Settings',
+      href: '/settings',
+      icon: Settings,
+    },
   ];
 
+  // Staff who cannot edit content have no subject pages to link to
+  const showSubjects = !isStaff || can('manage_content');
+
   const isActive = (path: string) => location.pathname === path;
 
   return (
@@ -94,16 +165,20 @@ export function Sidebar() {
           <div className="p-4 border-b border-gray-200">
             <div className="flex items-center space-x-3">
               <div className="flex-shrink-0">
-                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                  <User className="w-4 h-4 text-blue-600" />
-                </div>
+                {profile?.avatar_url ? (
+                  <img src={profile.avatar_url} alt="" className="w-8 h-8 rounded-full object-cover" />
+                ) : (
+                  <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                    <User className="w-4 h-4 text-blue-600" />
+                  </div>
+                )}
               </div>
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-gray-900 truncate">
                   {profile?.full_name || profile?.email}
                 </p>
-                <p className="text-xs text-gray-500 capitalize">
-                  {profile?.role}
+                <p className="text-xs text-gray-500">
+                  {profile && ROLE_LABELS[profile.role]}
                 </p>
               </div>
             </div>
@@ -130,7 +205,7 @@ export function Sidebar() {
             ))}
 
             {/* Subjects */}
-            {subjects.length > 0 && (
+            {showSubjects && subjects.length > 0 && (
               <div className="pt-4">
                 <p className="px-3 text-xs font-semibold text-gray-400 uppercase tracking-wider">
                   Subjects
@@ -139,7 +214,7 @@ export function Sidebar() {
                   {subjects.map((subject) => (
                     <Link
                       key={subject.id}
-                      to={isAdmin ? `/admin/subjects/${subject.id}` : `/subjects/${subject.id}`}
+                      to={isStaff ? `/admin/subjects/${subject.id}` : `/subjects/${subject.id}`}
                       className={`
                         group flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors
                         ${isActive(`/subjects/${subject.id}`) || isActive(`/admin/subjects/${subject.id}`)
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState, ReactNode } from
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/supabase';
+import { Permission, roleHasPermission, isStaffRole } from '../lib/permissions';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
@@ -12,10 +13,17 @@ interface AuthContextType {
   loading: boolean;
   error: string | null;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, fullName: string, role: 'admin' | 'student') => Promise<{ error: any }>;
+  signUp: (email: string, password: string, fullName: string, inviteToken?: string) => Promise<{ error: any; needsConfirmation?: boolean }>;
+  signInWithMagicLink: (email: string) => Promise<{ error: Error | null }>;
+  resendConfirmation: (email: string) => Promise<{ error: Error | null }>;
+  sendPasswordReset: (email: string) => Promise<{ error: Error | null }>;
+  updatePassword: (password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
-  isAdmin: boolean;
+  refreshProfile: () => Promise<void>;
+  isPasswordRecovery: boolean;
+  isStaff: boolean;
   isStudent: boolean;
+  can: (permission: Permission | Permission[]) => boolean;
   retry: () => void;
 }
 
@@ -40,6 +48,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
 
   const checkEnvironmentVariables = () => {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -62,6 +71,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return true;
   };
 
+  // Where links in confirmation, magic-link and recovery emails send the user back to
+  const redirectUrl = (path: string) => `${window.location.origin}${path}`;
+
   const fetchUserProfile = async (userId: string): Promise<Profile | null> => {
     try {
       console.log('🔄 Fetching profile for user:', userId);
@@ -89,6 +101,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Re-reads the profile after the user edits it in settings
+  const refreshProfile = async () => {
+    if (!user) return;
+    const userProfile = await fetchUserProfile(user.id);
+    if (userProfile) {
+      setProfile(userProfile);
+    }
+  };
+
   const retry = () => {
     setError(null);
     setRetryCount(prev => prev + 1);
@@ -182,6 +203,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
       setSession(newSession);
       setUser(newSession?.user ?? null);
       setError(null);
+
+      // The recovery link signs the user in; keep them on the reset form until they pick a new password
+      if (event === 'PASSWORD_RECOVERY') {
+        setIsPasswordRecovery(true);
+      } else if (event === 'SIGNED_OUT') {
+        setIsPasswordRecovery(false);
+      }
       
       if (newSession?.user) {
         try {
@@ -255,7 +283,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: 'admin' | 'student') => {
+  const signUp = async (email: string, password: string, fullName: string, inviteToken?: string) => {
     try {
       console.log('🔄 Starting sign up process...');
       setError(null);
@@ -265,9 +293,18 @@ export function AuthProvider({ children }: AuthProviderProps) {
         return { error: new Error('Configuration error: Missing environment variables') };
       }
       
+      // The profile is created by the on_auth_user_created trigger, which also
+      // grants the invited role when the invite matches this email
       const { data, error } = await supabase.auth.signUp({
         email: email.trim(),
         password,
+        options: {
+          data: {
+            full_name: fullName.trim(),
+            ...(inviteToken ? { invite_token: inviteToken } : {}),
+          },
+          emailRedirectTo: redirectUrl('/login'),
+        },
       });
 
       if (error) {
@@ -277,27 +314,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
         return { error };
       }
 
-      if (data.user) {
-        // Create profile
-        const profileData = {
-          id: data.user.id,
-          email: email.trim(),
-          full_name: fullName,
-          role,
-        };
-
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert(profileData);
-
-        if (profileError) {
-          console.error('❌ Error creating profile:', profileError);
-          return { error: profileError };
-        }
-        
-        console.log('✅ Sign up successful');
+      // No session means the project requires the email to be confirmed first
+      if (!data.session) {
+        console.log('✉️ Sign up pending email confirmation');
+        return { error: null, needsConfirmation: true };
       }
 
+      console.log('✅ Sign up successful');
       return { error: null };
     } catch (error) {
       console.error('❌ Sign up error:', error);
@@ -308,6 +331,87 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const signInWithMagicLink = async (email: string) => {
+    try {
+      if (!checkEnvironmentVariables()) {
+        return { error: new Error('Configuration error: Missing environment variables') };
+      }
+
+      const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: {
+          // Magic links only sign in existing accounts; registration still goes through /register
+          shouldCreateUser: false,
+          emailRedirectTo: redirectUrl('/login'),
+        },
+      });
+
+      if (error) {
+        console.error('❌ Magic link error:', error);
+      }
+      return { error };
+    } catch (error) {
+      console.error('❌ Magic link error:', error);
+      return { error: error instanceof Error ? error : new Error('Failed to send sign-in link') };
+    }
+  };
+
+  const resendConfirmation = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email: email.trim(),
+        options: { emailRedirectTo: redirectUrl('/login') },
+      });
+
+      if (error) {
+        console.error('❌ Resend confirmation error:', error);
+      }
+      return { error };
+    } catch (error) {
+      console.error('❌ Resend confirmation error:', error);
+      return { error: error instanceof Error ? error : new Error('Failed to resend confirmation email') };
+    }
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    try {
+      if (!checkEnvironmentVariables()) {
+        return { error: new Error('Configuration error: Missing environment variables') };
+      }
+
+      const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: redirectUrl('/reset-password'),
+      });
+
+      if (error) {
+        console.error('❌ Password reset error:', error);
+      }
+      return { error };
+    } catch (error) {
+      console.error('❌ Password reset error:', error);
+      return { error: error instanceof Error ? error : new Error('Failed to send reset email') };
+    }
+  };
+
+  const updatePassword = async (password: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        console.error('❌ Password update error:', error);
+        return { error };
+      }
+
+      setIsPasswordRecovery(false);
+      console.log('✅ Password updated');
+      return { error: null };
+    } catch (error) {
+      console.error('❌ Password update error:', error);
+      return { error: error instanceof Error ? error : new Error('Failed to update password') };
+    }
+  };
+
   const signOut = async () => {
     try {
       console.log('🔄 Starting sign out process...');
@@ -330,9 +434,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const isAdmin = profile?.role === 'admin';
+  const isStaff = isStaffRole(profile?.role);
   const isStudent = profile?.role === 'student';
 
+  // True when the role has the permission, or any of them when given a list
+  const can = (permission: Permission | Permission[]) =>
+    (Array.isArray(permission) ? permission : [permission]).some(p => roleHasPermission(profile?.role, p));
+
   const value = {
     user,
     profile,
@@ -341,9 +449,16 @@ export function AuthProvider({ children }: AuthProviderProps) {
     error,
     signIn,
     signUp,
+    signInWithMagicLink,
+    resendConfirmation,
+    sendPasswordReset,
+    updatePassword,
     signOut,
-    isAdmin,
+    refreshProfile,
+    isPasswordRecovery,
+    isStaff,
     isStudent,
+    can,
     retry,
   };
 
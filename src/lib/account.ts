@@ -0,0 +1,161 @@
+import { supabase } from './supabase';
+import { ANSWER_UPLOADS_BUCKET } from './answerSubmissions';
+
+export const AVATARS_BUCKET = 'avatars';
+export const MAX_AVATAR_BYTES = 1024 * 1024;
+
+export type PreferredLanguage = 'en' | 'hi';
+
+export const PREFERRED_LANGUAGES: { value: PreferredLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'हिन्दी (Hindi)' }
+];
+
+// Suggestions for the optional subject field; literature optionals are typed in
+export const OPTIONAL_SUBJECTS = [
+  'Agriculture',
+  'Animal Husbandry and Veterinary Science',
+  'Anthropology',
+  'Botany',
+  'Chemistry',
+  'Civil Engineering',
+  'Commerce and Accountancy',
+  'Economics',
+  'Electrical Engineering',
+  'Geography',
+  'Geology',
+  'History',
+  'Law',
+  'Management',
+  'Mathematics',
+  'Mechanical Engineering',
+  'Medical Science',
+  'Philosophy',
+  'Physics',
+  'Political Science and International Relations',
+  'Psychology',
+  'Public Administration',
+  'Sociology',
+  'Statistics',
+  'Zoology'
+];
+
+// Years a student can still be preparing for
+export function targetExamYears() {
+  const currentYear = new Date().getFullYear();
+  return Array.from({ length: 6 }, (_, i) => currentYear + i);
+}
+
+function avatarPath(url: string) {
+  const marker = `/${AVATARS_BUCKET}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : url.slice(index + marker.length);
+}
+
+export async function uploadAvatar(userId: string, file: File) {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Only image files can be used as a profile picture');
+  }
+  if (file.size > MAX_AVATAR_BYTES) {
+    throw new Error('Profile pictures must be 1 MB or smaller');
+  }
+
+  // A new name each time so browsers don't keep showing the cached picture
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(AVATARS_BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (error) throw error;
+
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export async function removeAvatar(url: string) {
+  const path = avatarPath(url);
+  if (!path) return;
+
+  const { error } = await supabase.storage.from(AVATARS_BUCKET).remove([path]);
+  if (error) throw error;
+}
+
+// Everything the student has stored, for the "Download my data" export
+export async function exportAccountData(userId: string) {
+  const [
+    profile, subjectProgress, sectionProgress, activity, attempts, submissions, batches,
+    practiceTests, revisionCards, mockAttempts
+  ] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', userId).single(),
+    supabase.from('user_progress').select('*').eq('user_id', userId),
+    supabase.from('user_section_progress').select('*').eq('user_id', userId),
+    supabase.from('study_activity').select('*').eq('user_id', userId).order('created_at'),
+    // Students can't read the question snapshots or per-question correctness kept with their answers
+    supabase
+      .from('test_attempts')
+      .select('*, attempt_answers(id, question_id, selected_answer, answer_text, time_spent_seconds, created_at)')
+      .eq('user_id', userId)
+      .order('submitted_at'),
+    supabase.from('answer_submissions').select('*').eq('user_id', userId).order('submitted_at'),
+    supabase.from('batch_members').select('joined_at, batches(name)').eq('user_id', userId),
+    supabase
+      .from('practice_tests')
+      .select('*, practice_test_answers(id, question_id, selected_answer, time_spent_seconds)')
+      .eq('user_id', userId)
+      .order('created_at'),
+    supabase.from('revision_cards').select('*').eq('user_id', userId).order('created_at'),
+    // Answers only come back once the mock test has closed
+    supabase.from('mock_attempts').select('*, mock_tests(title), mock_attempt_answers(*)').eq('user_id', userId).order('started_at')
+  ]);
+
+  const failed = [
+    profile, subjectProgress, sectionProgress, activity, attempts, submissions, batches,
+    practiceTests, revisionCards, mockAttempts
+  ].find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  return {
+    exported_at: new Date().toISOString(),
+    profile: profile.data,
+    batches: batches.data,
+    subject_progress: subjectProgress.data,
+    section_progress: sectionProgress.data,
+    study_activity: activity.data,
+    test_attempts: attempts.data,
+    practice_tests: practiceTests.data,
+    mock_attempts: mockAttempts.data,
+    revision_cards: revisionCards.data,
+    answer_submissions: submissions.data
+  };
+}
+
+export function downloadJson(data: unknown, fileName: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function removeFolder(bucket: string, userId: string) {
+  const { data, error } = await supabase.storage.from(bucket).list(userId, { limit: 1000 });
+  if (error) throw error;
+  if (!data || data.length === 0) return;
+
+  const { error: removeError } = await supabase.storage
+    .from(bucket)
+    .remove(data.map(file => `${userId}/${file.name}`));
+  if (removeError) throw removeError;
+}
+
+// Files are removed first since storage objects don't cascade with the user
+export async function deleteOwnAccount(userId: string) {
+  await removeFolder(AVATARS_BUCKET, userId);
+  await removeFolder(ANSWER_UPLOADS_BUCKET, userId);
+
+  const { error } = await supabase.rpc('delete_own_account');
+  if (error) throw error;
+}
@@ -0,0 +1,20 @@
+import { supabase } from './supabase';
+
+// Students are in India, so a "day" for streak purposes ends at IST midnight
+export const STUDY_TIMEZONE = 'Asia/Kolkata';
+
+// Computed from study_activity, which only the server functions that complete and submit work write to
+export interface StudyStreak {
+  current_streak: number;
+  longest_streak: number;
+  last_active_date: string | null;
+}
+
+export async function fetchStudyStreak(userId: string): Promise<StudyStreak> {
+  const { data, error } = await supabase
+    .rpc('get_study_streak', { p_user_id: userId, p_timezone: STUDY_TIMEZONE })
+    .single();
+
+  if (error) throw error;
+  return data as StudyStreak;
+}
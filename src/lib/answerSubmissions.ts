@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+
+export const ANSWER_UPLOADS_BUCKET = 'answer-uploads';
+export const MAX_ANSWER_FILE_BYTES = 10 * 1024 * 1024;
+
+export type AnswerStatus = 'submitted' | 'in_review' | 'returned';
+
+export interface RubricCriterion {
+  criterion: string;
+  max_marks: number;
+}
+
+export interface RubricScore extends RubricCriterion {
+  score: number;
+}
+
+// A row from get_answer_submissions, as shown in the admin evaluation queue
+export interface ReviewSubmission {
+  id: string;
+  user_id: string;
+  section_id: string;
+  answer_text: string | null;
+  word_count: number;
+  file_path: string | null;
+  file_name: string | null;
+  status: AnswerStatus;
+  rubric_scores: RubricScore[] | null;
+  score: number | null;
+  max_score: number | null;
+  feedback: string | null;
+  submitted_at: string;
+  evaluated_at: string | null;
+  student_name: string | null;
+  student_email: string;
+  evaluator_name: string | null;
+  section_name: string;
+  module_id: string;
+  module_name: string;
+  subject_id: string;
+  subject_name: string;
+}
+
+export const ANSWER_STATUS_LABELS: Record<AnswerStatus, string> = {
+  submitted: 'Awaiting evaluation',
+  in_review: 'Being evaluated',
+  returned: 'Evaluated'
+};
+
+export const ANSWER_STATUS_COLORS: Record<AnswerStatus, string> = {
+  submitted: 'bg-yellow-100 text-yellow-800',
+  in_review: 'bg-blue-100 text-blue-800',
+  returned: 'bg-green-100 text-green-800'
+};
+
+// A common split for a 10-mark GS answer, offered when a mains section is created
+export const DEFAULT_MAINS_RUBRIC: RubricCriterion[] = [
+  { criterion: 'Content and relevance', max_marks: 4 },
+  { criterion: 'Structure and flow', max_marks: 2 },
+  { criterion: 'Introduction and conclusion', max_marks: 2 },
+  { criterion: 'Examples, data and diagrams', max_marks: 2 }
+];
+
+// Matches the server-side count in submit_answer
+export function countWords(text: string) {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+export function getRubricTotal(rubric: RubricCriterion[]) {
+  return rubric.reduce((total, item) => total + Number(item.max_marks), 0);
+}
+
+export async function uploadAnswerFile(userId: string, file: File) {
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    throw new Error('Upload a photo or a PDF of your answer');
+  }
+  if (file.size > MAX_ANSWER_FILE_BYTES) {
+    throw new Error('Answer files must be 10 MB or smaller');
+  }
+
+  // Storage policies only allow uploads into the student's own folder
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'pdf';
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(ANSWER_UPLOADS_BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (error) throw error;
+  return path;
+}
+
+// The bucket is private, so files are opened through short-lived links
+export async function getAnswerFileUrl(path: string) {
+  const { data, error } = await supabase.storage
+    .from(ANSWER_UPLOADS_BUCKET)
+    .createSignedUrl(path, 60 * 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
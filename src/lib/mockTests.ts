@@ -0,0 +1,97 @@
+import { supabase, Database } from './supabase';
+import { testSessionKey } from './testSession';
+
+export type MockTest = Database['public']['Tables']['mock_tests']['Row'];
+export type MockAttempt = Database['public']['Tables']['mock_attempts']['Row'];
+
+export type MockTestStatus = 'upcoming' | 'open' | 'closed';
+
+// UPSC Prelims GS paper I: 100 questions in two hours
+export const MOCK_TEST_DEFAULTS = {
+  questionCount: 100,
+  durationMinutes: 120,
+  scoringPresetId: 'prelims-gs'
+};
+
+// Matches the grace submit_mock_test allows after the deadline
+export const MOCK_SUBMIT_GRACE_MS = 2 * 60 * 1000;
+
+export interface MockAttemptStart {
+  attempt_id: string;
+  started_at: string;
+  deadline: string;
+}
+
+export interface MockLeaderboardEntry {
+  user_id: string;
+  full_name: string;
+  rank: number;
+  percentile: number;
+  net_marks: number;
+  score: number;
+  correct_count: number;
+  wrong_count: number;
+  duration_seconds: number;
+  is_self: boolean;
+}
+
+export interface MockSubjectScore {
+  subject_id: string;
+  subject_name: string;
+  total_questions: number;
+  correct_count: number | null;
+  wrong_count: number | null;
+  net_marks: number | null;
+  max_marks: number;
+  average_net_marks: number;
+  top_net_marks: number;
+}
+
+export function getMockTestStatus(mockTest: Pick<MockTest, 'opens_at' | 'closes_at'>, now = Date.now()): MockTestStatus {
+  if (now < new Date(mockTest.opens_at).getTime()) return 'upcoming';
+  if (now < new Date(mockTest.closes_at).getTime()) return 'open';
+  return 'closed';
+}
+
+// Past the deadline and its grace, submit_mock_test closes the attempt without the answers sent
+export function isMockAttemptExpired(
+  mockTest: Pick<MockTest, 'closes_at' | 'duration_minutes'>,
+  attempt: Pick<MockAttempt, 'started_at' | 'submitted_at'>,
+  now = Date.now()
+) {
+  const deadline = Math.min(
+    new Date(attempt.started_at).getTime() + mockTest.duration_minutes * 60 * 1000,
+    new Date(mockTest.closes_at).getTime()
+  );
+  return !attempt.submitted_at && now > deadline + MOCK_SUBMIT_GRACE_MS;
+}
+
+export function mockSessionKey(userId: string, mockTestId: string) {
+  return testSessionKey(userId, `mock-${mockTestId}`);
+}
+
+// Creates the attempt on first call, so the server starts the clock
+export async function startMockTest(mockTestId: string): Promise<MockAttemptStart> {
+  const { data, error } = await supabase
+    .rpc('start_mock_test', { p_mock_test_id: mockTestId })
+    .single();
+
+  if (error) throw error;
+  return data as MockAttemptStart;
+}
+
+export async function fetchMockLeaderboard(mockTestId: string): Promise<MockLeaderboardEntry[]> {
+  const { data, error } = await supabase
+    .rpc('get_mock_leaderboard', { p_mock_test_id: mockTestId });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchMockSubjectScores(mockTestId: string): Promise<MockSubjectScore[]> {
+  const { data, error } = await supabase
+    .rpc('get_mock_subject_scores', { p_mock_test_id: mockTestId });
+
+  if (error) throw error;
+  return data || [];
+}
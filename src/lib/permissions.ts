@@ -0,0 +1,46 @@
+export type Role = 'student' | 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+
+export type StaffRole = Exclude<Role, 'student'>;
+
+export type Permission =
+  | 'manage_content'
+  | 'manage_batches'
+  | 'view_all_students'
+  | 'view_assigned_students'
+  | 'evaluate_answers'
+  | 'manage_staff';
+
+// Mirrors the role_permissions table that RLS policies check through has_permission()
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  student: [],
+  content_editor: ['manage_content'],
+  mentor: ['view_assigned_students', 'evaluate_answers'],
+  admin: ['manage_content', 'manage_batches', 'view_all_students', 'evaluate_answers'],
+  super_admin: ['manage_content', 'manage_batches', 'view_all_students', 'evaluate_answers', 'manage_staff']
+};
+
+export const STAFF_ROLES: { value: StaffRole; label: string; description: string }[] = [
+  { value: 'content_editor', label: 'Content Editor', description: 'Edits subjects, modules, sections and questions' },
+  { value: 'mentor', label: 'Mentor', description: 'Follows and evaluates students in assigned batches' },
+  { value: 'admin', label: 'Admin', description: 'Manages content, batches and all students' },
+  { value: 'super_admin', label: 'Super Admin', description: 'Everything an admin can do, plus managing staff' }
+];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  student: 'Student',
+  content_editor: 'Content Editor',
+  mentor: 'Mentor',
+  admin: 'Admin',
+  super_admin: 'Super Admin'
+};
+
+// Either is enough to open the student explorer; mentors only see their batches' students
+export const STUDENT_VIEW_PERMISSIONS: Permission[] = ['view_all_students', 'view_assigned_students'];
+
+export function roleHasPermission(role: Role | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function isStaffRole(role: Role | null | undefined) {
+  return !!role && role !== 'student';
+}
@@ -0,0 +1,69 @@
+import { supabase, Database } from './supabase';
+import { testSessionKey } from './testSession';
+import { TestStart } from './testRules';
+
+export type PracticeTest = Database['public']['Tables']['practice_tests']['Row'];
+export type PracticeHistoryFilter = PracticeTest['history'];
+
+// Matches the limit create_practice_test enforces
+export const MAX_PRACTICE_QUESTIONS = 200;
+
+export const PRACTICE_HISTORY_FILTERS: { value: PracticeHistoryFilter; label: string; description: string }[] = [
+  { value: 'all', label: 'All questions', description: 'Any question from the chosen modules' },
+  { value: 'unattempted', label: 'Only unattempted', description: "Questions you haven't answered in any test yet" },
+  { value: 'incorrect', label: 'Only previously wrong', description: 'Questions you have answered wrong before' }
+];
+
+export interface PracticeTestOptions {
+  title: string;
+  moduleIds: string[];
+  questionCount: number;
+  timeLimitMinutes: number | null;
+  marksPerCorrect: number;
+  negativeMarks: number;
+  onlyPyq: boolean;
+  history: PracticeHistoryFilter;
+}
+
+// Practice tests are resumed from their own local session, separate from the section tests
+export function practiceSessionKey(userId: string, practiceTestId: string) {
+  return testSessionKey(userId, `practice-${practiceTestId}`);
+}
+
+// Questions are picked server-side so filters on past answers can't be bypassed
+export async function createPracticeTest(options: PracticeTestOptions): Promise<string> {
+  const { data, error } = await supabase.rpc('create_practice_test', {
+    p_title: options.title,
+    p_module_ids: options.moduleIds,
+    p_question_count: options.questionCount,
+    p_time_limit_minutes: options.timeLimitMinutes,
+    p_marks_per_correct: options.marksPerCorrect,
+    p_negative_marks: options.negativeMarks,
+    p_only_pyq: options.onlyPyq,
+    p_history: options.history
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export async function fetchPracticeTests(userId: string): Promise<PracticeTest[]> {
+  const { data, error } = await supabase
+    .from('practice_tests')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The start is recorded server-side, which times the test when it's submitted
+export async function startPracticeTest(practiceTestId: string, resume: boolean): Promise<TestStart> {
+  const { data, error } = await supabase
+    .rpc('start_practice_test', { p_practice_test_id: practiceTestId, p_resume: resume })
+    .single();
+
+  if (error) throw error;
+  return data as TestStart;
+}
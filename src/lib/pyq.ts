@@ -0,0 +1,88 @@
+import { supabase, Database } from './supabase';
+
+export type PyqPaper = NonNullable<Database['public']['Tables']['questions']['Row']['pyq_paper']>;
+
+// Civil Services Examination in its current form started in 1979
+export const FIRST_PYQ_YEAR = 1979;
+
+export const PYQ_PAPERS: { value: PyqPaper; label: string }[] = [
+  { value: 'GS1', label: 'GS Paper I' },
+  { value: 'GS2', label: 'GS Paper II' },
+  { value: 'GS3', label: 'GS Paper III' },
+  { value: 'GS4', label: 'GS Paper IV' },
+  { value: 'CSAT', label: 'CSAT' },
+  { value: 'Essay', label: 'Essay' },
+  { value: 'Optional', label: 'Optional' }
+];
+
+export interface PyqMetadata {
+  is_pyq: boolean;
+  pyq_year: number | null;
+  pyq_paper: PyqPaper | null;
+  pyq_question_number: number | null;
+  pyq_source: string | null;
+}
+
+export interface PyqAnswer {
+  correct_answer: string | null;
+  explanation: string | null;
+}
+
+export interface PyqTrendRow {
+  topic: string;
+  counts: Record<number, number>;
+  total: number;
+}
+
+export function getPyqPaperLabel(paper: PyqPaper) {
+  return PYQ_PAPERS.find(p => p.value === paper)?.label || paper;
+}
+
+// e.g. "UPSC 2019 · GS Paper II · Q12"; parts that weren't recorded are left out
+export function formatPyqReference(question: PyqMetadata) {
+  const parts = [question.pyq_year ? `UPSC ${question.pyq_year}` : 'UPSC PYQ'];
+  if (question.pyq_paper) parts.push(getPyqPaperLabel(question.pyq_paper));
+  if (question.pyq_question_number) parts.push(`Q${question.pyq_question_number}`);
+  return parts.join(' · ');
+}
+
+export function pyqYearOptions(now = new Date()) {
+  const years: number[] = [];
+  for (let year = now.getFullYear(); year >= FIRST_PYQ_YEAR; year--) {
+    years.push(year);
+  }
+  return years;
+}
+
+// Counts questions per topic per year; questions without a year are left out of the trend
+export function buildPyqTrends<T extends Pick<PyqMetadata, 'pyq_year'>>(
+  questions: T[],
+  topicOf: (question: T) => string
+): { years: number[]; rows: PyqTrendRow[] } {
+  const rowsByTopic = new Map<string, PyqTrendRow>();
+  const years = new Set<number>();
+
+  questions.forEach(question => {
+    if (!question.pyq_year) return;
+    const topic = topicOf(question);
+    const row = rowsByTopic.get(topic) || { topic, counts: {}, total: 0 };
+    row.counts[question.pyq_year] = (row.counts[question.pyq_year] || 0) + 1;
+    row.total += 1;
+    rowsByTopic.set(topic, row);
+    years.add(question.pyq_year);
+  });
+
+  return {
+    years: [...years].sort((a, b) => a - b),
+    rows: [...rowsByTopic.values()].sort((a, b) => b.total - a.total || a.topic.localeCompare(b.topic))
+  };
+}
+
+export async function fetchPyqAnswer(questionId: string): Promise<PyqAnswer | null> {
+  const { data, error } = await supabase
+    .rpc('get_pyq_answer', { p_question_id: questionId })
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PyqAnswer | null;
+}
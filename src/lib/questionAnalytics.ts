@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import { OptionLetter } from './questionTypes';
+
+export interface QuestionStats {
+  question_id: string;
+  responses: number;
+  correct_count: number;
+  skipped_count: number;
+  option_a_count: number;
+  option_b_count: number;
+  option_c_count: number;
+  option_d_count: number;
+  avg_time_seconds: number | null;
+  // Share correct among the top 27% of students' first attempts minus the bottom 27%, from -1 to 1
+  discrimination_index: number | null;
+}
+
+export interface QuestionFlag {
+  label: string;
+  description: string;
+}
+
+// Too few responses make percentages noise, so flags wait for this many
+export const MIN_RESPONSES_FOR_FLAGS = 10;
+
+export async function fetchQuestionAnalytics(sectionId: string) {
+  const { data, error } = await supabase.rpc('get_question_analytics', { p_section_id: sectionId });
+
+  if (error) throw error;
+
+  const stats: Record<string, QuestionStats> = {};
+  (data || []).forEach((row: QuestionStats) => {
+    stats[row.question_id] = row;
+  });
+  return stats;
+}
+
+export function optionCount(stats: QuestionStats, option: OptionLetter) {
+  return stats[`option_${option.toLowerCase()}_count` as 'option_a_count' | 'option_b_count' | 'option_c_count' | 'option_d_count'];
+}
+
+export function percentCorrect(stats: QuestionStats) {
+  return stats.responses > 0 ? (stats.correct_count / stats.responses) * 100 : 0;
+}
+
+// Patterns that usually mean a wrong answer key or a misleading distractor
+export function getQuestionFlags(stats: QuestionStats, correctAnswer: string | null, options: OptionLetter[]) {
+  const flags: QuestionFlag[] = [];
+  if (!correctAnswer || stats.responses < MIN_RESPONSES_FOR_FLAGS) return flags;
+
+  const keyCount = Math.min(...correctAnswer.split('').map(letter => optionCount(stats, letter as OptionLetter)));
+  const popularDistractor = options
+    .filter(option => !correctAnswer.includes(option))
+    .find(option => optionCount(stats, option) > keyCount);
+
+  if (popularDistractor) {
+    flags.push({
+      label: 'Check answer key',
+      description: `More students chose ${popularDistractor} than the marked answer`
+    });
+  }
+
+  if (stats.discrimination_index !== null && Number(stats.discrimination_index) < 0) {
+    flags.push({
+      label: 'Negative discrimination',
+      description: 'Strong students get this wrong more often than weak students'
+    });
+  } else if (stats.discrimination_index !== null && Number(stats.discrimination_index) < 0.2) {
+    flags.push({
+      label: 'Weak discrimination',
+      description: 'Barely separates strong and weak students'
+    });
+  }
+
+  if (percentCorrect(stats) < 20) {
+    flags.push({
+      label: 'Very hard',
+      description: 'Fewer than 1 in 5 students answer correctly'
+    });
+  }
+
+  return flags;
+}
@@ -0,0 +1,252 @@
+import { supabase } from './supabase';
+import { ImportedQuestion } from './questionImport';
+import { OPTION_LETTERS, optionTextField } from './questionTypes';
+
+export type ExportScopeType = 'section' | 'module' | 'subject';
+
+export interface ExportScope {
+  type: ExportScopeType;
+  id: string;
+  name: string;
+}
+
+// Same columns as the import, plus the section name so multi-section exports stay readable
+export interface ExportedQuestion extends ImportedQuestion {
+  section: string;
+}
+
+const CSV_COLUMNS: (keyof ExportedQuestion)[] = [
+  'section',
+  'question_type',
+  'question_text',
+  'statements',
+  'match_pairs',
+  'option_a',
+  'option_b',
+  'option_c',
+  'option_d',
+  'correct_answer',
+  'explanation',
+  'is_pyq',
+  'pyq_year',
+  'pyq_paper',
+  'pyq_question_number',
+  'pyq_source'
+];
+
+// Matches the API's default row limit
+const EXPORT_PAGE_SIZE = 1000;
+
+interface SectionRef {
+  id: string;
+  name: string;
+}
+
+async function fetchScopeSections(scope: ExportScope): Promise<SectionRef[]> {
+  if (scope.type === 'section') {
+    return [{ id: scope.id, name: scope.name }];
+  }
+
+  if (scope.type === 'module') {
+    const { data, error } = await supabase
+      .from('sections')
+      .select('id, name')
+      .eq('module_id', scope.id)
+      .order('order_index');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  const { data, error } = await supabase
+    .from('modules')
+    .select('id, order_index, sections(id, name, order_index)')
+    .eq('subject_id', scope.id)
+    .order('order_index');
+
+  if (error) throw error;
+  return (data || []).flatMap((module: { sections: (SectionRef & { order_index: number })[] }) =>
+    [...module.sections]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(({ id, name }) => ({ id, name }))
+  );
+}
+
+export async function fetchQuestionsForExport(scope: ExportScope): Promise<ExportedQuestion[]> {
+  const sections = await fetchScopeSections(scope);
+  if (sections.length === 0) return [];
+
+  // The API caps each response, so a large subject is fetched a page at a time
+  const data = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('questions')
+      .select('id, section_id, question_type, question_text, statements, match_pairs, option_a, option_b, option_c, option_d, correct_answer, explanation, is_pyq, pyq_year, pyq_paper, pyq_question_number, pyq_source, order_index')
+      .in('section_id', sections.map(s => s.id))
+      .order('order_index')
+      .order('id')
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    data.push(...(page || []));
+    if (!page || page.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  // Keep the course order: sections first, then questions within each section
+  const sectionOrder = new Map(sections.map((s, index) => [s.id, index]));
+  const sectionNames = new Map(sections.map(s => [s.id, s.name]));
+
+  return data
+    .sort((a, b) =>
+      sectionOrder.get(a.section_id)! - sectionOrder.get(b.section_id)! || a.order_index - b.order_index
+    )
+    .map(question => ({
+      section: sectionNames.get(question.section_id) || '',
+      question_type: question.question_type,
+      question_text: question.question_text,
+      statements: question.statements,
+      match_pairs: question.match_pairs,
+      option_a: question.option_a,
+      option_b: question.option_b,
+      option_c: question.option_c,
+      option_d: question.option_d,
+      correct_answer: question.correct_answer,
+      explanation: question.explanation,
+      is_pyq: question.is_pyq,
+      pyq_year: question.pyq_year,
+      pyq_paper: question.pyq_paper,
+      pyq_question_number: question.pyq_question_number,
+      pyq_source: question.pyq_source
+    }));
+}
+
+// Lists go one item per line, matching what the CSV import expects
+function csvValue(question: ExportedQuestion, column: keyof ExportedQuestion) {
+  if (column === 'statements') return (question.statements || []).join('\n');
+  if (column === 'match_pairs') return (question.match_pairs || []).map(pair => `${pair.left} = ${pair.right}`).join('\n');
+  if (column === 'is_pyq') return question.is_pyq ? 'yes' : '';
+  return String(question[column] ?? '');
+}
+
+function escapeCsvField(text: string) {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function questionsToCsv(questions: ExportedQuestion[]) {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...questions.map(question => CSV_COLUMNS.map(column => escapeCsvField(csvValue(question, column))).join(','))
+  ];
+  return lines.join('\r\n');
+}
+
+export function questionsToJson(questions: ExportedQuestion[]) {
+  return JSON.stringify(questions, null, 2);
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Test sheet followed by the answer key on its own page, so the key can be held back when printing
+export function questionsToPrintableHtml(title: string, questions: ExportedQuestion[]) {
+  const questionItems = questions.map((question, index) => {
+    const statements = question.statements || [];
+    const pairs = question.match_pairs || [];
+
+    const stem = question.question_type === 'assertion_reason'
+      ? `<p><strong>Assertion (A):</strong> ${escapeHtml(statements[0] || '')}</p>
+      <p><strong>Reason (R):</strong> ${escapeHtml(statements[1] || '')}</p>
+      <p>${escapeHtml(question.question_text)}</p>`
+      : `<p>${escapeHtml(question.question_text)}</p>`;
+
+    const structure = question.question_type === 'statement'
+      ? `<ol class="statements">${statements.map(statement => `<li>${escapeHtml(statement)}</li>`).join('')}</ol>`
+      : question.question_type === 'match'
+        ? `<table class="match"><thead><tr><th>List I</th><th>List II</th></tr></thead><tbody>${pairs.map((pair, row) =>
+            `<tr><td>${String.fromCharCode(65 + row)}. ${escapeHtml(pair.left)}</td><td>${row + 1}. ${escapeHtml(pair.right)}</td></tr>`
+          ).join('')}</tbody></table>`
+        : '';
+
+    const options = OPTION_LETTERS
+      .filter(option => question[optionTextField(option)] !== null)
+      .map(option => `<li>${escapeHtml(question[optionTextField(option)] || '')}</li>`)
+      .join('');
+
+    const response = question.question_type === 'descriptive'
+      ? '<div class="answer-space"></div>'
+      : `<ol class="options" type="A">${options}</ol>`;
+
+    return `
+    <li class="question" value="${index + 1}">
+      ${stem}
+      ${structure}
+      ${response}
+    </li>`;
+  }).join('');
+
+  const answerRows = questions.map((question, index) => `
+    <tr>
+      <td>${index + 1}</td>
+      <td><strong>${question.correct_answer ? question.correct_answer.split('').join(', ') : 'Descriptive'}</strong></td>
+      <td>${question.explanation ? escapeHtml(question.explanation) : ''}</td>
+    </tr>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; margin: 2rem auto; max-width: 48rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #555; margin-bottom: 1.5rem; }
+  .question { margin-bottom: 1.25rem; break-inside: avoid; page-break-inside: avoid; }
+  .question p { margin: 0 0 0.5rem; white-space: pre-wrap; }
+  .options { margin: 0; padding-left: 1.5rem; }
+  .statements { margin: 0 0 0.5rem; padding-left: 1.5rem; }
+  .match { margin-bottom: 0.5rem; }
+  .answer-space { height: 12rem; border: 1px solid #ccc; border-radius: 4px; }
+  .answer-key { break-before: page; page-break-before: always; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">${questions.length} question${questions.length === 1 ? '' : 's'}</p>
+  <ol>${questionItems}
+  </ol>
+  <section class="answer-key">
+    <h1>Answer Key</h1>
+    <p class="meta">${escapeHtml(title)}</p>
+    <table>
+      <thead><tr><th>Q</th><th>Answer</th><th>Explanation</th></tr></thead>
+      <tbody>${answerRows}
+      </tbody>
+    </table>
+  </section>
+</body>
+</html>`;
+}
+
+export function exportFileName(name: string, extension: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'questions';
+  return `${slug}-questions.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
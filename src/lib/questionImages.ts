@@ -0,0 +1,43 @@
+import { supabase } from './supabase';
+
+export const QUESTION_IMAGES_BUCKET = 'question-images';
+export const MAX_QUESTION_IMAGE_BYTES = 2 * 1024 * 1024;
+
+export type QuestionImageField =
+  | 'image_url'
+  | 'option_a_image_url'
+  | 'option_b_image_url'
+  | 'option_c_image_url'
+  | 'option_d_image_url';
+
+export interface QuestionImages {
+  image_url: string | null;
+  option_a_image_url: string | null;
+  option_b_image_url: string | null;
+  option_c_image_url: string | null;
+  option_d_image_url: string | null;
+}
+
+export function optionImageField(option: 'A' | 'B' | 'C' | 'D') {
+  return `option_${option.toLowerCase()}_image_url` as QuestionImageField;
+}
+
+export async function uploadQuestionImage(file: File) {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Only image files can be attached');
+  }
+  if (file.size > MAX_QUESTION_IMAGE_BYTES) {
+    throw new Error('Images must be 2 MB or smaller');
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+  const path = `${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(QUESTION_IMAGES_BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (error) throw error;
+
+  return supabase.storage.from(QUESTION_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+}
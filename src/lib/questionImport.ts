@@ -0,0 +1,274 @@
+import { QuestionType, MatchPair, QUESTION_TYPES } from './questionTypes';
+import { PyqPaper, PYQ_PAPERS, FIRST_PYQ_YEAR } from './pyq';
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportedQuestion {
+  question_type: QuestionType;
+  question_text: string;
+  statements: string[] | null;
+  match_pairs: MatchPair[] | null;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  correct_answer: string | null;
+  explanation: string | null;
+  is_pyq: boolean;
+  pyq_year: number | null;
+  pyq_paper: PyqPaper | null;
+  pyq_question_number: number | null;
+  pyq_source: string | null;
+}
+
+// Raw values before validation; statements and match pairs may arrive as text or JSON arrays
+type RawQuestion = Partial<Record<keyof ImportedQuestion, unknown>>;
+
+export interface ImportRow {
+  row: number;
+  question: ImportedQuestion | null;
+  errors: string[];
+}
+
+// Spreadsheet exports use a variety of headers, so accept the common ones
+const FIELD_ALIASES: Record<string, keyof ImportedQuestion> = {
+  question_type: 'question_type',
+  type: 'question_type',
+  question_text: 'question_text',
+  question: 'question_text',
+  option_a: 'option_a',
+  a: 'option_a',
+  option_b: 'option_b',
+  b: 'option_b',
+  option_c: 'option_c',
+  c: 'option_c',
+  option_d: 'option_d',
+  d: 'option_d',
+  correct_answer: 'correct_answer',
+  answer: 'correct_answer',
+  correct: 'correct_answer',
+  explanation: 'explanation',
+  statements: 'statements',
+  match_pairs: 'match_pairs',
+  is_pyq: 'is_pyq',
+  pyq: 'is_pyq',
+  pyq_year: 'pyq_year',
+  pyq_paper: 'pyq_paper',
+  pyq_question_number: 'pyq_question_number',
+  pyq_source: 'pyq_source'
+};
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  if (fileName.toLowerCase().endsWith('.json')) return 'json';
+  if (fileName.toLowerCase().endsWith('.csv')) return 'csv';
+  return text.trim().startsWith('[') ? 'json' : 'csv';
+}
+
+// RFC 4180 style: quoted fields may contain commas, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function toText(value: unknown) {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+// CSV cells hold one statement per line; JSON may use an array
+function toStatements(value: unknown): string[] {
+  const items: unknown[] = Array.isArray(value) ? value : toText(value).split(/\r?\n/);
+  return items.map(toText).filter(Boolean);
+}
+
+// CSV cells hold one "left = right" row per line; JSON may use an array of objects
+function toMatchPairs(value: unknown): MatchPair[] {
+  if (Array.isArray(value)) {
+    return value.map(pair => ({ left: toText(pair?.left), right: toText(pair?.right) }));
+  }
+  return toText(value).split(/\r?\n/).filter(line => line.trim()).map(line => {
+    const [left, ...right] = line.split('=');
+    return { left: toText(left), right: toText(right.join('=')) };
+  });
+}
+
+function toFlag(value: unknown) {
+  return value === true || ['true', 'yes', 'y', '1'].includes(toText(value).toLowerCase());
+}
+
+// Papers may be written as "GS2", "gs 2" or "csat"
+function toPyqPaper(value: unknown): PyqPaper | undefined {
+  const text = toText(value).toLowerCase().replace(/[\s_-]+/g, '');
+  return PYQ_PAPERS.find(paper => paper.value.toLowerCase() === text)?.value;
+}
+
+function validateRecord(record: Record<string, unknown>, row: number): ImportRow {
+  const values: RawQuestion = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = FIELD_ALIASES[normalizeHeader(key)];
+    if (field && value !== null && value !== undefined) {
+      values[field] = value;
+    }
+  }
+
+  const errors: string[] = [];
+  const questionType = (toText(values.question_type).toLowerCase() || 'mcq') as QuestionType;
+  if (!QUESTION_TYPES.some(type => type.value === questionType)) {
+    errors.push(`Unknown question type "${toText(values.question_type)}"`);
+  }
+
+  if (!toText(values.question_text)) {
+    errors.push('Missing question_text');
+  }
+
+  const statements = toStatements(values.statements);
+  const matchPairs = toMatchPairs(values.match_pairs);
+  if (questionType === 'statement' && statements.length < 2) {
+    errors.push('Statement questions need at least two statements');
+  }
+  if (questionType === 'assertion_reason' && statements.length !== 2) {
+    errors.push('Assertion-reason questions need exactly two statements (assertion, then reason)');
+  }
+  if (questionType === 'match' && (matchPairs.length < 2 || matchPairs.some(pair => !pair.left || !pair.right))) {
+    errors.push('Match questions need at least two "left = right" rows');
+  }
+
+  const isDescriptive = questionType === 'descriptive';
+  // Accept "A, C" or "ca" and store sorted letters, e.g. 'AC'
+  const letters = [...new Set(toText(values.correct_answer).toUpperCase().replace(/[^A-D]/g, '').split(''))].sort().join('');
+  if (!isDescriptive) {
+    if (!toText(values.option_a)) errors.push('Missing option_a');
+    if (!toText(values.option_b)) errors.push('Missing option_b');
+
+    if (!toText(values.correct_answer)) {
+      errors.push('Missing correct_answer');
+    } else if (!/^[A-D]+$/.test(toText(values.correct_answer).toUpperCase().replace(/[\s,]/g, ''))) {
+      errors.push(`Correct answer must be A, B, C or D (got "${toText(values.correct_answer)}")`);
+    } else if (questionType !== 'multi_select' && letters.length > 1) {
+      errors.push('Only multi_select questions can have more than one correct answer');
+    } else if (letters.split('').some(letter => !toText(values[`option_${letter.toLowerCase()}` as keyof RawQuestion]))) {
+      errors.push('Correct answer refers to an empty option');
+    }
+  }
+
+  const pyqYear = toText(values.pyq_year);
+  const pyqQuestionNumber = toText(values.pyq_question_number);
+  const pyqPaper = toPyqPaper(values.pyq_paper);
+  if (pyqYear && !(/^\d{4}$/.test(pyqYear) && Number(pyqYear) >= FIRST_PYQ_YEAR && Number(pyqYear) <= new Date().getFullYear())) {
+    errors.push(`PYQ year must be between ${FIRST_PYQ_YEAR} and this year (got "${pyqYear}")`);
+  }
+  if (toText(values.pyq_paper) && !pyqPaper) {
+    errors.push(`Unknown PYQ paper "${toText(values.pyq_paper)}"`);
+  }
+  if (pyqQuestionNumber && !/^[1-9]\d*$/.test(pyqQuestionNumber)) {
+    errors.push(`PYQ question number must be a positive whole number (got "${pyqQuestionNumber}")`);
+  }
+
+  if (errors.length > 0) {
+    return { row, question: null, errors };
+  }
+
+  // Any PYQ metadata marks the question as a PYQ even without the flag column
+  const isPyq = toFlag(values.is_pyq) || Boolean(pyqYear || pyqPaper || pyqQuestionNumber || toText(values.pyq_source));
+
+  const option = (field: 'option_a' | 'option_b' | 'option_c' | 'option_d') =>
+    isDescriptive ? null : toText(values[field]) || null;
+
+  return {
+    row,
+    errors,
+    question: {
+      question_type: questionType,
+      question_text: toText(values.question_text),
+      statements: questionType === 'statement' || questionType === 'assertion_reason' ? statements : null,
+      match_pairs: questionType === 'match' ? matchPairs : null,
+      option_a: option('option_a'),
+      option_b: option('option_b'),
+      option_c: option('option_c'),
+      option_d: option('option_d'),
+      correct_answer: isDescriptive ? null : letters,
+      explanation: toText(values.explanation) || null,
+      is_pyq: isPyq,
+      pyq_year: isPyq && pyqYear ? Number(pyqYear) : null,
+      pyq_paper: isPyq ? pyqPaper || null : null,
+      pyq_question_number: isPyq && pyqQuestionNumber ? Number(pyqQuestionNumber) : null,
+      pyq_source: isPyq ? toText(values.pyq_source) || null : null
+    }
+  };
+}
+
+export function parseQuestionImport(text: string, format: ImportFormat): ImportRow[] {
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(records)) {
+      throw new Error('JSON must be an array of questions');
+    }
+
+    return records.map((record, index) =>
+      record && typeof record === 'object'
+        ? validateRecord(record as Record<string, unknown>, index + 1)
+        : { row: index + 1, question: null, errors: ['Not a question object'] }
+    );
+  }
+
+  const [headers, ...dataRows] = parseCsv(text);
+  if (!headers) {
+    throw new Error('CSV file is empty');
+  }
+
+  const unknownHeaders = headers.filter(header => !FIELD_ALIASES[normalizeHeader(header)]);
+  if (unknownHeaders.length === headers.length) {
+    throw new Error('CSV needs a header row with question_text, option_a–option_d and correct_answer');
+  }
+
+  // Row numbers match the spreadsheet, where the header is row 1
+  return dataRows.map((cells, index) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      record[header] = cells[column] ?? '';
+    });
+    return validateRecord(record, index + 2);
+  });
+}
@@ -0,0 +1,75 @@
+export type QuestionType = 'mcq' | 'multi_select' | 'statement' | 'match' | 'assertion_reason' | 'descriptive';
+
+export type OptionLetter = 'A' | 'B' | 'C' | 'D';
+
+export const OPTION_LETTERS: OptionLetter[] = ['A', 'B', 'C', 'D'];
+
+export interface MatchPair {
+  left: string;
+  right: string;
+}
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'mcq', label: 'Single answer MCQ' },
+  { value: 'multi_select', label: 'Multiple correct answers' },
+  { value: 'statement', label: 'Statement based' },
+  { value: 'match', label: 'Match the following' },
+  { value: 'assertion_reason', label: 'Assertion – Reason' },
+  { value: 'descriptive', label: 'Descriptive (not auto-graded)' }
+];
+
+// The standard UPSC wording, filled in when an assertion-reason question is created
+export const ASSERTION_REASON_OPTIONS: Record<OptionLetter, string> = {
+  A: 'Both A and R are true, and R is the correct explanation of A',
+  B: 'Both A and R are true, but R is not the correct explanation of A',
+  C: 'A is true, but R is false',
+  D: 'A is false, but R is true'
+};
+
+// Structured parts and options shared by the admin, player and review views
+export interface TypedQuestion {
+  question_type: QuestionType;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  statements: string[] | null;
+  match_pairs: MatchPair[] | null;
+}
+
+export function getQuestionTypeLabel(type: QuestionType) {
+  return QUESTION_TYPES.find(t => t.value === type)?.label || type;
+}
+
+export function optionTextField(option: OptionLetter) {
+  return `option_${option.toLowerCase()}` as 'option_a' | 'option_b' | 'option_c' | 'option_d';
+}
+
+export function isChoiceQuestion(type: QuestionType) {
+  return type !== 'descriptive';
+}
+
+// Options C and D are optional, so only the ones that were filled in are shown
+export function getAvailableOptions(question: TypedQuestion) {
+  if (!isChoiceQuestion(question.question_type)) return [];
+  return OPTION_LETTERS.filter(option => question[optionTextField(option)] !== null);
+}
+
+// Multi-select answers are stored as sorted letters, e.g. 'AC'
+export function toggleAnswerLetter(answer: string | undefined, option: OptionLetter) {
+  const letters = new Set((answer || '').split('').filter(Boolean));
+  if (letters.has(option)) {
+    letters.delete(option);
+  } else {
+    letters.add(option);
+  }
+  return OPTION_LETTERS.filter(letter => letters.has(letter)).join('');
+}
+
+export function answerIncludes(answer: string | null | undefined, option: OptionLetter) {
+  return !!answer && answer.includes(option);
+}
+
+export function formatAnswerLetters(answer: string | null) {
+  return answer ? answer.split('').join(', ') : '—';
+}
@@ -0,0 +1,79 @@
+import { supabase, Database } from './supabase';
+import { STUDY_TIMEZONE } from './activity';
+
+export type RevisionCard = Database['public']['Tables']['revision_cards']['Row'];
+
+// Daily sessions are capped so a long backlog doesn't become one unending sitting
+export const REVISION_SESSION_SIZE = 30;
+
+// SM-2 quality for each self-rating; a wrong answer is always "Again"
+export const REVISION_RATINGS: { quality: number; label: string; description: string; className: string }[] = [
+  { quality: 1, label: 'Again', description: 'Forgot it', className: 'border-red-300 text-red-700 hover:bg-red-50' },
+  { quality: 3, label: 'Hard', description: 'Recalled with effort', className: 'border-yellow-300 text-yellow-800 hover:bg-yellow-50' },
+  { quality: 4, label: 'Good', description: 'Recalled after a moment', className: 'border-blue-300 text-blue-700 hover:bg-blue-50' },
+  { quality: 5, label: 'Easy', description: 'Knew it instantly', className: 'border-green-300 text-green-700 hover:bg-green-50' }
+];
+
+export const FORGOTTEN_QUALITY = 1;
+
+// Everything is empty while the question's answer key is withheld, so the answer can't be checked yet
+export interface RevisionCheck {
+  is_correct: boolean | null;
+  correct_answer: string | null;
+  explanation: string | null;
+}
+
+// Due dates roll over at IST midnight, matching revision_today() in the database
+export function revisionToday() {
+  return new Date().toLocaleDateString('en-CA', { timeZone: STUDY_TIMEZONE });
+}
+
+export async function fetchDueCards(userId: string, limit = REVISION_SESSION_SIZE): Promise<RevisionCard[]> {
+  const { data, error } = await supabase
+    .from('revision_cards')
+    .select('*')
+    .eq('user_id', userId)
+    .lte('due_date', revisionToday())
+    .order('due_date')
+    .order('created_at')
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchDueCount(userId: string) {
+  const { count, error } = await supabase
+    .from('revision_cards')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .lte('due_date', revisionToday());
+
+  if (error) throw error;
+  return count || 0;
+}
+
+export async function checkRevisionAnswer(cardId: string, answer: string): Promise<RevisionCheck> {
+  const { data, error } = await supabase
+    .rpc('check_revision_answer', { p_card_id: cardId, p_answer: answer })
+    .single();
+
+  if (error) throw error;
+  return data as RevisionCheck;
+}
+
+export async function recordRevisionReview(cardId: string, quality: number) {
+  const { data, error } = await supabase
+    .rpc('record_revision_review', { p_card_id: cardId, p_quality: quality })
+    .single();
+
+  if (error) throw error;
+  return data as { due_date: string; interval_days: number };
+}
+
+export function formatInterval(days: number) {
+  if (days <= 1) return 'tomorrow';
+  if (days < 30) return `in ${days} days`;
+  const months = Math.round(days / 30);
+  return `in ${months} month${months === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,39 @@
+export interface ScoringScheme {
+  marks_per_correct: number;
+  negative_marks: number;
+  unanswered_marks: number;
+}
+
+export interface ScoringPreset extends ScoringScheme {
+  id: string;
+  label: string;
+}
+
+export const SCORING_PRESETS: ScoringPreset[] = [
+  { id: 'standard', label: 'Standard (+1, no negative marking)', marks_per_correct: 1, negative_marks: 0, unanswered_marks: 0 },
+  { id: 'prelims-gs', label: 'UPSC Prelims GS (+2 / −0.66)', marks_per_correct: 2, negative_marks: 0.66, unanswered_marks: 0 },
+  { id: 'csat', label: 'UPSC CSAT (+2.5 / −0.83)', marks_per_correct: 2.5, negative_marks: 0.83, unanswered_marks: 0 },
+];
+
+export function findScoringPreset(scheme: ScoringScheme) {
+  return SCORING_PRESETS.find(preset =>
+    preset.marks_per_correct === Number(scheme.marks_per_correct) &&
+    preset.negative_marks === Number(scheme.negative_marks) &&
+    preset.unanswered_marks === Number(scheme.unanswered_marks)
+  ) || null;
+}
+
+export function describeScoringScheme(scheme: ScoringScheme) {
+  const parts = [`+${Number(scheme.marks_per_correct)}`];
+  if (Number(scheme.negative_marks) > 0) {
+    parts.push(`−${Number(scheme.negative_marks)}`);
+  }
+  if (Number(scheme.unanswered_marks) !== 0) {
+    parts.push(`${Number(scheme.unanswered_marks)} unanswered`);
+  }
+  return parts.join(' / ');
+}
+
+export function formatMarks(marks: number) {
+  return Number(marks).toFixed(2).replace(/\.?0+$/, '');
+}
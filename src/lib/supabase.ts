@@ -13,7 +13,11 @@ export type Database = {
           id: string;
           email: string;
           full_name: string | null;
-          role: 'admin' | 'student';
+          role: 'student' | 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          target_exam_year: number | null;
+          optional_subject: string | null;
+          preferred_language: 'en' | 'hi';
+          avatar_url: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -21,7 +25,11 @@ export type Database = {
           id: string;
           email: string;
           full_name?: string | null;
-          role?: 'admin' | 'student';
+          role?: 'student' | 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          target_exam_year?: number | null;
+          optional_subject?: string | null;
+          preferred_language?: 'en' | 'hi';
+          avatar_url?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -29,7 +37,11 @@ export type Database = {
           id?: string;
           email?: string;
           full_name?: string | null;
-          role?: 'admin' | 'student';
+          role?: 'student' | 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          target_exam_year?: number | null;
+          optional_subject?: string | null;
+          preferred_language?: 'en' | 'hi';
+          avatar_url?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -103,11 +115,20 @@ export type Database = {
           id: string;
           module_id: string;
           name: string;
-          type: 'source' | 'test' | 'resource' | 'pyq';
+          type: 'source' | 'test' | 'resource' | 'pyq' | 'mains';
           content: string | null;
           link_url: string | null;
           order_index: number;
           is_required: boolean;
+          pass_percentage: number;
+          max_attempts: number | null;
+          cooldown_minutes: number | null;
+          time_limit_minutes: number | null;
+          marks_per_correct: number;
+          negative_marks: number;
+          unanswered_marks: number;
+          word_limit: number | null;
+          rubric: { criterion: string; max_marks: number }[];
           created_at: string;
           updated_at: string;
         };
@@ -115,11 +136,20 @@ export type Database = {
           id?: string;
           module_id: string;
           name: string;
-          type?: 'source' | 'test' | 'resource' | 'pyq';
+          type?: 'source' | 'test' | 'resource' | 'pyq' | 'mains';
           content?: string | null;
           link_url?: string | null;
           order_index?: number;
           is_required?: boolean;
+          pass_percentage?: number;
+          max_attempts?: number | null;
+          cooldown_minutes?: number | null;
+          time_limit_minutes?: number | null;
+          marks_per_correct?: number;
+          negative_marks?: number;
+          unanswered_marks?: number;
+          word_limit?: number | null;
+          rubric?: { criterion: string; max_marks: number }[];
           created_at?: string;
           updated_at?: string;
         };
@@ -127,11 +157,20 @@ export type Database = {
           id?: string;
           module_id?: string;
           name?: string;
-          type?: 'source' | 'test' | 'resource' | 'pyq';
+          type?: 'source' | 'test' | 'resource' | 'pyq' | 'mains';
           content?: string | null;
           link_url?: string | null;
           order_index?: number;
           is_required?: boolean;
+          pass_percentage?: number;
+          max_attempts?: number | null;
+          cooldown_minutes?: number | null;
+          time_limit_minutes?: number | null;
+          marks_per_correct?: number;
+          negative_marks?: number;
+          unanswered_marks?: number;
+          word_limit?: number | null;
+          rubric?: { criterion: string; max_marks: number }[];
           created_at?: string;
           updated_at?: string;
         };
@@ -141,12 +180,25 @@ export type Database = {
           id: string;
           section_id: string;
           question_text: string;
-          option_a: string;
-          option_b: string;
-          option_c: string;
-          option_d: string;
-          correct_answer: 'A' | 'B' | 'C' | 'D';
+          question_type: 'mcq' | 'multi_select' | 'statement' | 'match' | 'assertion_reason' | 'descriptive';
+          option_a: string | null;
+          option_b: string | null;
+          option_c: string | null;
+          option_d: string | null;
+          correct_answer: string | null;
+          statements: string[] | null;
+          match_pairs: { left: string; right: string }[] | null;
           explanation: string | null;
+          is_pyq: boolean;
+          pyq_year: number | null;
+          pyq_paper: 'GS1' | 'GS2' | 'GS3' | 'GS4' | 'CSAT' | 'Essay' | 'Optional' | null;
+          pyq_question_number: number | null;
+          pyq_source: string | null;
+          image_url: string | null;
+          option_a_image_url: string | null;
+          option_b_image_url: string | null;
+          option_c_image_url: string | null;
+          option_d_image_url: string | null;
           order_index: number;
           created_at: string;
         };
@@ -154,12 +206,25 @@ export type Database = {
           id?: string;
           section_id: string;
           question_text: string;
-          option_a: string;
-          option_b: string;
-          option_c: string;
-          option_d: string;
-          correct_answer: 'A' | 'B' | 'C' | 'D';
+          question_type?: 'mcq' | 'multi_select' | 'statement' | 'match' | 'assertion_reason' | 'descriptive';
+          option_a?: string | null;
+          option_b?: string | null;
+          option_c?: string | null;
+          option_d?: string | null;
+          correct_answer?: string | null;
+          statements?: string[] | null;
+          match_pairs?: { left: string; right: string }[] | null;
           explanation?: string | null;
+          is_pyq?: boolean;
+          pyq_year?: number | null;
+          pyq_paper?: 'GS1' | 'GS2' | 'GS3' | 'GS4' | 'CSAT' | 'Essay' | 'Optional' | null;
+          pyq_question_number?: number | null;
+          pyq_source?: string | null;
+          image_url?: string | null;
+          option_a_image_url?: string | null;
+          option_b_image_url?: string | null;
+          option_c_image_url?: string | null;
+          option_d_image_url?: string | null;
           order_index?: number;
           created_at?: string;
         };
@@ -167,12 +232,25 @@ export type Database = {
           id?: string;
           section_id?: string;
           question_text?: string;
-          option_a?: string;
-          option_b?: string;
-          option_c?: string;
-          option_d?: string;
-          correct_answer?: 'A' | 'B' | 'C' | 'D';
+          question_type?: 'mcq' | 'multi_select' | 'statement' | 'match' | 'assertion_reason' | 'descriptive';
+          option_a?: string | null;
+          option_b?: string | null;
+          option_c?: string | null;
+          option_d?: string | null;
+          correct_answer?: string | null;
+          statements?: string[] | null;
+          match_pairs?: { left: string; right: string }[] | null;
           explanation?: string | null;
+          is_pyq?: boolean;
+          pyq_year?: number | null;
+          pyq_paper?: 'GS1' | 'GS2' | 'GS3' | 'GS4' | 'CSAT' | 'Essay' | 'Optional' | null;
+          pyq_question_number?: number | null;
+          pyq_source?: string | null;
+          image_url?: string | null;
+          option_a_image_url?: string | null;
+          option_b_image_url?: string | null;
+          option_c_image_url?: string | null;
+          option_d_image_url?: string | null;
           order_index?: number;
           created_at?: string;
         };
@@ -215,6 +293,7 @@ export type Database = {
           score: number;
           attempts: number;
           completed_at: string | null;
+          review_status: 'submitted' | 'in_review' | 'returned' | null;
           created_at: string;
         };
         Insert: {
@@ -225,6 +304,7 @@ export type Database = {
           score?: number;
           attempts?: number;
           completed_at?: string | null;
+          review_status?: 'submitted' | 'in_review' | 'returned' | null;
           created_at?: string;
         };
         Update: {
@@ -235,9 +315,708 @@ export type Database = {
           score?: number;
           attempts?: number;
           completed_at?: string | null;
+          review_status?: 'submitted' | 'in_review' | 'returned' | null;
           created_at?: string;
         };
       };
+      study_activity: {
+        Row: {
+          id: string;
+          user_id: string;
+          section_id: string | null;
+          activity_type: 'section_completed' | 'test_submitted' | 'answer_submitted' | 'practice_submitted' | 'mock_submitted';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          section_id?: string | null;
+          activity_type: 'section_completed' | 'test_submitted' | 'answer_submitted' | 'practice_submitted' | 'mock_submitted';
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          section_id?: string | null;
+          activity_type?: 'section_completed' | 'test_submitted' | 'answer_submitted' | 'practice_submitted' | 'mock_submitted';
+          created_at?: string;
+        };
+      };
+      test_attempts: {
+        Row: {
+          id: string;
+          user_id: string;
+          section_id: string;
+          score: number;
+          correct_count: number;
+          wrong_count: number;
+          skipped_count: number;
+          total_questions: number;
+          net_marks: number;
+          max_marks: number;
+          duration_seconds: number;
+          started_at: string | null;
+          submitted_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          section_id: string;
+          score?: number;
+          correct_count?: number;
+          wrong_count?: number;
+          skipped_count?: number;
+          total_questions?: number;
+          net_marks?: number;
+          max_marks?: number;
+          duration_seconds?: number;
+          started_at?: string | null;
+          submitted_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          section_id?: string;
+          score?: number;
+          correct_count?: number;
+          wrong_count?: number;
+          skipped_count?: number;
+          total_questions?: number;
+          net_marks?: number;
+          max_marks?: number;
+          duration_seconds?: number;
+          started_at?: string | null;
+          submitted_at?: string;
+          created_at?: string;
+        };
+      };
+      attempt_answers: {
+        Row: {
+          id: string;
+          attempt_id: string;
+          question_id: string;
+          selected_answer: string | null;
+          answer_text: string | null;
+          is_correct: boolean;
+          time_spent_seconds: number | null;
+          question_snapshot: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          attempt_id: string;
+          question_id: string;
+          selected_answer?: string | null;
+          answer_text?: string | null;
+          is_correct?: boolean;
+          time_spent_seconds?: number | null;
+          question_snapshot: Record<string, unknown>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          attempt_id?: string;
+          question_id?: string;
+          selected_answer?: string | null;
+          answer_text?: string | null;
+          is_correct?: boolean;
+          time_spent_seconds?: number | null;
+          question_snapshot?: Record<string, unknown>;
+          created_at?: string;
+        };
+      };
+      test_starts: {
+        Row: {
+          user_id: string;
+          section_id: string;
+          started_at: string;
+        };
+        Insert: {
+          user_id: string;
+          section_id: string;
+          started_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          section_id?: string;
+          started_at?: string;
+        };
+      };
+      answer_submissions: {
+        Row: {
+          id: string;
+          user_id: string;
+          section_id: string;
+          answer_text: string | null;
+          word_count: number;
+          file_path: string | null;
+          file_name: string | null;
+          status: 'submitted' | 'in_review' | 'returned';
+          rubric_scores: { criterion: string; max_marks: number; score: number }[] | null;
+          score: number | null;
+          max_score: number | null;
+          feedback: string | null;
+          evaluated_by: string | null;
+          submitted_at: string;
+          evaluated_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          section_id: string;
+          answer_text?: string | null;
+          word_count?: number;
+          file_path?: string | null;
+          file_name?: string | null;
+          status?: 'submitted' | 'in_review' | 'returned';
+          rubric_scores?: { criterion: string; max_marks: number; score: number }[] | null;
+          score?: number | null;
+          max_score?: number | null;
+          feedback?: string | null;
+          evaluated_by?: string | null;
+          submitted_at?: string;
+          evaluated_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          section_id?: string;
+          answer_text?: string | null;
+          word_count?: number;
+          file_path?: string | null;
+          file_name?: string | null;
+          status?: 'submitted' | 'in_review' | 'returned';
+          rubric_scores?: { criterion: string; max_marks: number; score: number }[] | null;
+          score?: number | null;
+          max_score?: number | null;
+          feedback?: string | null;
+          evaluated_by?: string | null;
+          submitted_at?: string;
+          evaluated_at?: string | null;
+          created_at?: string;
+        };
+      };
+      batches: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      batch_members: {
+        Row: {
+          batch_id: string;
+          user_id: string;
+          joined_at: string;
+        };
+        Insert: {
+          batch_id: string;
+          user_id: string;
+          joined_at?: string;
+        };
+        Update: {
+          batch_id?: string;
+          user_id?: string;
+          joined_at?: string;
+        };
+      };
+      batch_subjects: {
+        Row: {
+          batch_id: string;
+          subject_id: string;
+          created_at: string;
+        };
+        Insert: {
+          batch_id: string;
+          subject_id: string;
+          created_at?: string;
+        };
+        Update: {
+          batch_id?: string;
+          subject_id?: string;
+          created_at?: string;
+        };
+      };
+      admin_invites: {
+        Row: {
+          id: string;
+          email: string;
+          role: 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          token: string;
+          invited_by: string | null;
+          expires_at: string;
+          accepted_by: string | null;
+          accepted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          email: string;
+          role?: 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          token?: string;
+          invited_by?: string | null;
+          expires_at?: string;
+          accepted_by?: string | null;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          role?: 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          token?: string;
+          invited_by?: string | null;
+          expires_at?: string;
+          accepted_by?: string | null;
+          accepted_at?: string | null;
+          created_at?: string;
+        };
+      };
+      role_permissions: {
+        Row: {
+          role: 'student' | 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          permission: string;
+        };
+        Insert: {
+          role: 'student' | 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          permission: string;
+        };
+        Update: {
+          role?: 'student' | 'content_editor' | 'mentor' | 'admin' | 'super_admin';
+          permission?: string;
+        };
+      };
+      batch_mentors: {
+        Row: {
+          batch_id: string;
+          mentor_id: string;
+          created_at: string;
+        };
+        Insert: {
+          batch_id: string;
+          mentor_id: string;
+          created_at?: string;
+        };
+        Update: {
+          batch_id?: string;
+          mentor_id?: string;
+          created_at?: string;
+        };
+      };
+      revision_cards: {
+        Row: {
+          id: string;
+          user_id: string;
+          question_id: string;
+          source: 'incorrect' | 'flagged';
+          ease_factor: number;
+          interval_days: number;
+          repetitions: number;
+          lapses: number;
+          due_date: string;
+          last_reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          question_id: string;
+          source: 'incorrect' | 'flagged';
+          ease_factor?: number;
+          interval_days?: number;
+          repetitions?: number;
+          lapses?: number;
+          due_date?: string;
+          last_reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          question_id?: string;
+          source?: 'incorrect' | 'flagged';
+          ease_factor?: number;
+          interval_days?: number;
+          repetitions?: number;
+          lapses?: number;
+          due_date?: string;
+          last_reviewed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      practice_tests: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string;
+          module_ids: string[];
+          question_ids: string[];
+          only_pyq: boolean;
+          history: 'all' | 'unattempted' | 'incorrect';
+          time_limit_minutes: number | null;
+          marks_per_correct: number;
+          negative_marks: number;
+          score: number | null;
+          correct_count: number | null;
+          wrong_count: number | null;
+          skipped_count: number | null;
+          total_questions: number;
+          net_marks: number | null;
+          max_marks: number | null;
+          duration_seconds: number | null;
+          started_at: string | null;
+          submitted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title: string;
+          module_ids: string[];
+          question_ids: string[];
+          only_pyq?: boolean;
+          history?: 'all' | 'unattempted' | 'incorrect';
+          time_limit_minutes?: number | null;
+          marks_per_correct?: number;
+          negative_marks?: number;
+          score?: number | null;
+          correct_count?: number | null;
+          wrong_count?: number | null;
+          skipped_count?: number | null;
+          total_questions: number;
+          net_marks?: number | null;
+          max_marks?: number | null;
+          duration_seconds?: number | null;
+          started_at?: string | null;
+          submitted_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          title?: string;
+          module_ids?: string[];
+          question_ids?: string[];
+          only_pyq?: boolean;
+          history?: 'all' | 'unattempted' | 'incorrect';
+          time_limit_minutes?: number | null;
+          marks_per_correct?: number;
+          negative_marks?: number;
+          score?: number | null;
+          correct_count?: number | null;
+          wrong_count?: number | null;
+          skipped_count?: number | null;
+          total_questions?: number;
+          net_marks?: number | null;
+          max_marks?: number | null;
+          duration_seconds?: number | null;
+          started_at?: string | null;
+          submitted_at?: string | null;
+          created_at?: string;
+        };
+      };
+      practice_test_answers: {
+        Row: {
+          id: string;
+          practice_test_id: string;
+          question_id: string;
+          selected_answer: string | null;
+          is_correct: boolean;
+          time_spent_seconds: number | null;
+        };
+        Insert: {
+          id?: string;
+          practice_test_id: string;
+          question_id: string;
+          selected_answer?: string | null;
+          is_correct: boolean;
+          time_spent_seconds?: number | null;
+        };
+        Update: {
+          id?: string;
+          practice_test_id?: string;
+          question_id?: string;
+          selected_answer?: string | null;
+          is_correct?: boolean;
+          time_spent_seconds?: number | null;
+        };
+      };
+      mock_tests: {
+        Row: {
+          id: string;
+          title: string;
+          description: string | null;
+          opens_at: string;
+          closes_at: string;
+          duration_minutes: number;
+          marks_per_correct: number;
+          negative_marks: number;
+          cutoff_marks: number | null;
+          is_published: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          description?: string | null;
+          opens_at: string;
+          closes_at: string;
+          duration_minutes?: number;
+          marks_per_correct?: number;
+          negative_marks?: number;
+          cutoff_marks?: number | null;
+          is_published?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          description?: string | null;
+          opens_at?: string;
+          closes_at?: string;
+          duration_minutes?: number;
+          marks_per_correct?: number;
+          negative_marks?: number;
+          cutoff_marks?: number | null;
+          is_published?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      mock_test_batches: {
+        Row: {
+          mock_test_id: string;
+          batch_id: string;
+        };
+        Insert: {
+          mock_test_id: string;
+          batch_id: string;
+        };
+        Update: {
+          mock_test_id?: string;
+          batch_id?: string;
+        };
+      };
+      mock_test_questions: {
+        Row: {
+          mock_test_id: string;
+          question_id: string;
+          order_index: number;
+        };
+        Insert: {
+          mock_test_id: string;
+          question_id: string;
+          order_index?: number;
+        };
+        Update: {
+          mock_test_id?: string;
+          question_id?: string;
+          order_index?: number;
+        };
+      };
+      mock_attempts: {
+        Row: {
+          id: string;
+          mock_test_id: string;
+          user_id: string;
+          started_at: string;
+          submitted_at: string | null;
+          score: number | null;
+          correct_count: number | null;
+          wrong_count: number | null;
+          skipped_count: number | null;
+          total_questions: number | null;
+          net_marks: number | null;
+          max_marks: number | null;
+          duration_seconds: number | null;
+        };
+        Insert: {
+          id?: string;
+          mock_test_id: string;
+          user_id: string;
+          started_at?: string;
+          submitted_at?: string | null;
+          score?: number | null;
+          correct_count?: number | null;
+          wrong_count?: number | null;
+          skipped_count?: number | null;
+          total_questions?: number | null;
+          net_marks?: number | null;
+          max_marks?: number | null;
+          duration_seconds?: number | null;
+        };
+        Update: {
+          id?: string;
+          mock_test_id?: string;
+          user_id?: string;
+          started_at?: string;
+          submitted_at?: string | null;
+          score?: number | null;
+          correct_count?: number | null;
+          wrong_count?: number | null;
+          skipped_count?: number | null;
+          total_questions?: number | null;
+          net_marks?: number | null;
+          max_marks?: number | null;
+          duration_seconds?: number | null;
+        };
+      };
+      mock_attempt_answers: {
+        Row: {
+          id: string;
+          attempt_id: string;
+          question_id: string;
+          selected_answer: string | null;
+          is_correct: boolean;
+          time_spent_seconds: number | null;
+        };
+        Insert: {
+          id?: string;
+          attempt_id: string;
+          question_id: string;
+          selected_answer?: string | null;
+          is_correct: boolean;
+          time_spent_seconds?: number | null;
+        };
+        Update: {
+          id?: string;
+          attempt_id?: string;
+          question_id?: string;
+          selected_answer?: string | null;
+          is_correct?: boolean;
+          time_spent_seconds?: number | null;
+        };
+      };
+      syllabus_nodes: {
+        Row: {
+          id: string;
+          parent_id: string | null;
+          name: string;
+          description: string | null;
+          order_index: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          parent_id?: string | null;
+          name: string;
+          description?: string | null;
+          order_index?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          parent_id?: string | null;
+          name?: string;
+          description?: string | null;
+          order_index?: number;
+          created_at?: string;
+        };
+      };
+      section_syllabus_nodes: {
+        Row: {
+          section_id: string;
+          node_id: string;
+        };
+        Insert: {
+          section_id: string;
+          node_id: string;
+        };
+        Update: {
+          section_id?: string;
+          node_id?: string;
+        };
+      };
+      question_syllabus_nodes: {
+        Row: {
+          question_id: string;
+          node_id: string;
+        };
+        Insert: {
+          question_id: string;
+          node_id: string;
+        };
+        Update: {
+          question_id?: string;
+          node_id?: string;
+        };
+      };
+      tags: {
+        Row: {
+          id: string;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_at?: string;
+        };
+      };
+      section_tags: {
+        Row: {
+          section_id: string;
+          tag_id: string;
+        };
+        Insert: {
+          section_id: string;
+          tag_id: string;
+        };
+        Update: {
+          section_id?: string;
+          tag_id?: string;
+        };
+      };
+      question_tags: {
+        Row: {
+          question_id: string;
+          tag_id: string;
+        };
+        Insert: {
+          question_id: string;
+          tag_id: string;
+        };
+        Update: {
+          question_id?: string;
+          tag_id?: string;
+        };
+      };
     };
   };
 };
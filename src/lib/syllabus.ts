@@ -0,0 +1,145 @@
+import { supabase } from './supabase';
+
+export interface SyllabusNode {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  description: string | null;
+  order_index: number;
+}
+
+export interface SyllabusTreeNode extends SyllabusNode {
+  children: SyllabusTreeNode[];
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+}
+
+// Syllabus topics and tag names of a section or question, as edited in the admin forms
+export interface ContentMapping {
+  nodeIds: string[];
+  tags: string[];
+}
+
+// Shape of the embedded mapping selected with SECTION_MAPPING_SELECT or QUESTION_MAPPING_SELECT
+export interface MappedContent {
+  syllabus: { node_id: string }[];
+  tags: { tag: { name: string } | null }[];
+}
+
+export const SECTION_MAPPING_SELECT = 'syllabus:section_syllabus_nodes(node_id), tags:section_tags(tag:tags(name))';
+export const QUESTION_MAPPING_SELECT = 'syllabus:question_syllabus_nodes(node_id), tags:question_tags(tag:tags(name))';
+
+// Counts include everything mapped to the node's descendants
+export interface SyllabusNodeCoverage {
+  node_id: string;
+  section_count: number;
+  completed_count: number;
+  answered_count: number;
+  correct_count: number;
+}
+
+// Accuracy at or above this counts as having tested well on a topic
+export const STRONG_ACCURACY = 60;
+
+export function buildSyllabusTree(nodes: SyllabusNode[]): SyllabusTreeNode[] {
+  const treeNodes = new Map<string, SyllabusTreeNode>(nodes.map(node => [node.id, { ...node, children: [] }]));
+  const roots: SyllabusTreeNode[] = [];
+
+  treeNodes.forEach(node => {
+    const parent = node.parent_id ? treeNodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const sortTree = (list: SyllabusTreeNode[]) => {
+    list.sort((a, b) => a.order_index - b.order_index || a.name.localeCompare(b.name));
+    list.forEach(node => sortTree(node.children));
+  };
+  sortTree(roots);
+  return roots;
+}
+
+// e.g. "GS Paper II › Polity › Fundamental Rights"
+export function syllabusPathLabels(nodes: SyllabusNode[]) {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const labels: Record<string, string> = {};
+
+  const labelOf = (node: SyllabusNode): string => {
+    if (labels[node.id]) return labels[node.id];
+    const parent = node.parent_id ? byId.get(node.parent_id) : undefined;
+    labels[node.id] = parent ? `${labelOf(parent)} › ${node.name}` : node.name;
+    return labels[node.id];
+  };
+
+  nodes.forEach(labelOf);
+  return labels;
+}
+
+// Comma separated, trimmed and de-duplicated ignoring case
+export function parseTagInput(text: string) {
+  const seen = new Set<string>();
+  return text.split(',').map(tag => tag.trim()).filter(tag => {
+    if (!tag || seen.has(tag.toLowerCase())) return false;
+    seen.add(tag.toLowerCase());
+    return true;
+  });
+}
+
+export function toContentMapping(content: MappedContent): ContentMapping {
+  return {
+    nodeIds: (content.syllabus || []).map(row => row.node_id),
+    tags: (content.tags || []).flatMap(row => row.tag ? [row.tag.name] : []).sort((a, b) => a.localeCompare(b))
+  };
+}
+
+export function getCoverageAccuracy(coverage: SyllabusNodeCoverage | undefined) {
+  if (!coverage || coverage.answered_count === 0) return null;
+  return Math.round((coverage.correct_count / coverage.answered_count) * 100);
+}
+
+export async function fetchSyllabusNodes(): Promise<SyllabusNode[]> {
+  const { data, error } = await supabase
+    .from('syllabus_nodes')
+    .select('id, parent_id, name, description, order_index')
+    .order('order_index');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchSyllabusCoverage(): Promise<Record<string, SyllabusNodeCoverage>> {
+  const { data, error } = await supabase.rpc('get_syllabus_coverage');
+
+  if (error) throw error;
+  const coverage: Record<string, SyllabusNodeCoverage> = {};
+  ((data || []) as SyllabusNodeCoverage[]).forEach(row => {
+    coverage[row.node_id] = row;
+  });
+  return coverage;
+}
+
+export async function saveSectionMapping(sectionId: string, mapping: ContentMapping) {
+  const { error } = await supabase.rpc('set_section_mapping', {
+    p_section_id: sectionId,
+    p_node_ids: mapping.nodeIds,
+    p_tags: mapping.tags
+  });
+
+  if (error) throw error;
+}
+
+export async function saveQuestionMapping(questionId: string, mapping: ContentMapping) {
+  const { error } = await supabase.rpc('set_question_mapping', {
+    p_question_id: questionId,
+    p_node_ids: mapping.nodeIds,
+    p_tags: mapping.tags
+  });
+
+  if (error) throw error;
+}
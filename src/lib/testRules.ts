@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import { formatDateTime } from './format';
+
+export interface TestRules {
+  pass_percentage: number;
+  max_attempts: number | null;
+  cooldown_minutes: number | null;
+}
+
+export interface AttemptAvailability {
+  allowed: boolean;
+  reason: string | null;
+  availableAt: Date | null;
+}
+
+// deadline is null for untimed tests; resumed is false when a new start was recorded
+export interface TestStart {
+  started_at: string;
+  deadline: string | null;
+  resumed: boolean;
+}
+
+export function hasPassed(score: number, rules: TestRules) {
+  return score >= rules.pass_percentage;
+}
+
+// Mirrors the enforce_attempt_limits trigger so students see why they can't start
+export function getAttemptAvailability(
+  rules: TestRules,
+  attemptCount: number,
+  lastSubmittedAt: string | null,
+  now: Date = new Date()
+): AttemptAvailability {
+  if (rules.max_attempts !== null && attemptCount >= rules.max_attempts) {
+    return {
+      allowed: false,
+      reason: `You have used all ${rules.max_attempts} attempts for this test.`,
+      availableAt: null
+    };
+  }
+
+  if (rules.cooldown_minutes && lastSubmittedAt) {
+    const availableAt = new Date(new Date(lastSubmittedAt).getTime() + rules.cooldown_minutes * 60 * 1000);
+    if (availableAt > now) {
+      return {
+        allowed: false,
+        reason: `You can attempt this test again at ${formatDateTime(availableAt.toISOString())}.`,
+        availableAt
+      };
+    }
+  }
+
+  return { allowed: true, reason: null, availableAt: null };
+}
+
+// The server times the attempt, so a timed test can't be given more time from the browser
+export async function startTestAttempt(sectionId: string, resume: boolean): Promise<TestStart> {
+  const { data, error } = await supabase
+    .rpc('start_test', { p_section_id: sectionId, p_resume: resume })
+    .single();
+
+  if (error) throw error;
+  return data as TestStart;
+}
@@ -0,0 +1,37 @@
+// In-progress test state kept in localStorage so a refresh doesn't lose answers
+export interface TestSession {
+  answers: Record<string, string>;
+  currentQuestion: number;
+  startedAt: string;
+  // Question ids; optional so sessions saved before the palette existed still load
+  markedForReview?: string[];
+  visited?: string[];
+  // Milliseconds spent on each question id, for question analytics
+  timeSpent?: Record<string, number>;
+}
+
+export function testSessionKey(userId: string, testId: string) {
+  return `upsc-tracker:test-session:${userId}:${testId}`;
+}
+
+export function loadTestSession(key: string): TestSession | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading test session:', error);
+    return null;
+  }
+}
+
+export function saveTestSession(key: string, session: TestSession) {
+  try {
+    localStorage.setItem(key, JSON.stringify(session));
+  } catch (error) {
+    console.error('Error saving test session:', error);
+  }
+}
+
+export function clearTestSession(key: string) {
+  localStorage.removeItem(key);
+}
@@ -0,0 +1,71 @@
+/*
+  # Study Activity and Streaks
+
+  1. New Tables
+    - `study_activity` - One row per learning event (section completed, test submitted)
+
+  2. Functions
+    - `get_study_streak` - Current and longest run of consecutive active days
+
+  3. Security
+    - Enable RLS on `study_activity`
+    - Students can read and record their own activity
+
+  4. Notes
+    - Day boundaries are computed in the requested time zone (IST by default),
+      so activity at 00:30 IST counts for that day and not the previous UTC day
+    - A streak stays alive until the end of the day after the last activity
+*/
+
+CREATE TABLE IF NOT EXISTS study_activity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  section_id uuid REFERENCES sections(id) ON DELETE SET NULL,
+  activity_type text NOT NULL CHECK (activity_type IN ('section_completed', 'test_submitted')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS study_activity_user_created_idx
+  ON study_activity (user_id, created_at);
+
+ALTER TABLE study_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own activity"
+  ON study_activity FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own activity"
+  ON study_activity FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Streak calculation (gaps-and-islands over distinct local days)
+CREATE OR REPLACE FUNCTION get_study_streak(p_user_id uuid, p_timezone text DEFAULT 'Asia/Kolkata')
+RETURNS TABLE (current_streak integer, longest_streak integer, last_active_date date)
+LANGUAGE sql STABLE
+AS $$
+  WITH days AS (
+    SELECT DISTINCT (created_at AT TIME ZONE p_timezone)::date AS day
+    FROM study_activity
+    WHERE user_id = p_user_id
+  ),
+  runs AS (
+    SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::integer AS grp
+    FROM days
+  ),
+  streaks AS (
+    SELECT MAX(day) AS end_day, COUNT(*)::integer AS length
+    FROM runs
+    GROUP BY grp
+  )
+  SELECT
+    COALESCE((
+      SELECT length FROM streaks
+      WHERE end_day >= (now() AT TIME ZONE p_timezone)::date - 1
+      ORDER BY end_day DESC
+      LIMIT 1
+    ), 0),
+    COALESCE((SELECT MAX(length) FROM streaks), 0),
+    (SELECT MAX(end_day) FROM streaks);
+$$;
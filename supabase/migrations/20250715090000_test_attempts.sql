@@ -0,0 +1,79 @@
+/*
+  # Test Attempt History
+
+  1. New Tables
+    - `test_attempts` - One row per test submission with score and timing
+    - `attempt_answers` - The option chosen for each question in an attempt
+
+  2. Security
+    - Enable RLS on both tables
+    - Students can read and record their own attempts and answers
+
+  3. Notes
+    - `selected_answer` is null when the question was left unanswered
+    - Answers are kept when a question is edited so old attempts can be replayed,
+      but are removed if the question itself is deleted
+*/
+
+CREATE TABLE IF NOT EXISTS test_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  section_id uuid REFERENCES sections(id) ON DELETE CASCADE,
+  score numeric(5,2) NOT NULL DEFAULT 0,
+  correct_count integer NOT NULL DEFAULT 0,
+  total_questions integer NOT NULL DEFAULT 0,
+  duration_seconds integer NOT NULL DEFAULT 0,
+  started_at timestamptz,
+  submitted_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS attempt_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid REFERENCES test_attempts(id) ON DELETE CASCADE,
+  question_id uuid REFERENCES questions(id) ON DELETE CASCADE,
+  selected_answer text CHECK (selected_answer IN ('A', 'B', 'C', 'D')),
+  is_correct boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(attempt_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS test_attempts_user_section_idx
+  ON test_attempts (user_id, section_id, submitted_at DESC);
+
+ALTER TABLE test_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attempt_answers ENABLE ROW LEVEL SECURITY;
+
+-- Test attempts policies
+CREATE POLICY "Users can read own attempts"
+  ON test_attempts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own attempts"
+  ON test_attempts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Attempt answers policies
+CREATE POLICY "Users can read own attempt answers"
+  ON attempt_answers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM test_attempts
+      WHERE test_attempts.id = attempt_answers.attempt_id
+      AND test_attempts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record own attempt answers"
+  ON attempt_answers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM test_attempts
+      WHERE test_attempts.id = attempt_answers.attempt_id
+      AND test_attempts.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,99 @@
+/*
+  # Configurable Test Pass Rules
+
+  1. Schema Changes
+    - `sections.pass_percentage` - Minimum score needed to complete a test (defaults to 100)
+    - `sections.max_attempts` - Optional cap on attempts per student
+    - `sections.cooldown_minutes` - Optional wait between attempts
+
+  2. Functions and Triggers
+    - `enforce_attempt_limits` - Rejects attempts beyond the cap or inside the cooldown
+    - `enforce_test_completion` - A test section can only be marked completed
+      when the student has an attempt at or above the pass percentage
+
+  3. Notes
+    - Existing tests keep the 100% rule until an admin lowers it
+*/
+
+ALTER TABLE sections
+  ADD COLUMN IF NOT EXISTS pass_percentage integer NOT NULL DEFAULT 100
+    CHECK (pass_percentage BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS max_attempts integer
+    CHECK (max_attempts IS NULL OR max_attempts > 0),
+  ADD COLUMN IF NOT EXISTS cooldown_minutes integer
+    CHECK (cooldown_minutes IS NULL OR cooldown_minutes >= 0);
+
+-- Attempt cap and cooldown
+CREATE OR REPLACE FUNCTION enforce_attempt_limits()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_attempts integer;
+  v_cooldown_minutes integer;
+BEGIN
+  SELECT max_attempts, cooldown_minutes
+  INTO v_max_attempts, v_cooldown_minutes
+  FROM sections
+  WHERE id = NEW.section_id;
+
+  IF v_max_attempts IS NOT NULL AND (
+    SELECT COUNT(*) FROM test_attempts
+    WHERE user_id = NEW.user_id AND section_id = NEW.section_id
+  ) >= v_max_attempts THEN
+    RAISE EXCEPTION 'Maximum attempts reached for this test';
+  END IF;
+
+  IF COALESCE(v_cooldown_minutes, 0) > 0 AND EXISTS (
+    SELECT 1 FROM test_attempts
+    WHERE user_id = NEW.user_id
+    AND section_id = NEW.section_id
+    AND submitted_at > now() - make_interval(mins => v_cooldown_minutes)
+  ) THEN
+    RAISE EXCEPTION 'Please wait before attempting this test again';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_attempt_limits
+  BEFORE INSERT ON test_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_attempt_limits();
+
+-- Test completion requires a passing attempt
+CREATE OR REPLACE FUNCTION enforce_test_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_type text;
+  v_pass_percentage integer;
+BEGIN
+  IF NEW.is_completed IS NOT TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_completed THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT type, pass_percentage
+  INTO v_type, v_pass_percentage
+  FROM sections
+  WHERE id = NEW.section_id;
+
+  IF v_type = 'test' AND NOT EXISTS (
+    SELECT 1 FROM test_attempts
+    WHERE user_id = NEW.user_id
+    AND section_id = NEW.section_id
+    AND score >= v_pass_percentage
+  ) THEN
+    RAISE EXCEPTION 'A passing attempt is required to complete this test';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_test_completion
+  BEFORE INSERT OR UPDATE ON user_section_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_test_completion();
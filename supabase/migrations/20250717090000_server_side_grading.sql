@@ -0,0 +1,157 @@
+/*
+  # Server-side Test Grading
+
+  1. Views
+    - `student_questions` - Questions without `correct_answer` or `explanation`
+
+  2. Functions
+    - `submit_test` - Grades submitted answers, records the attempt and answers,
+      updates `user_section_progress` and logs study activity in one transaction
+    - `get_attempt_review` - Questions with answers and explanations for one of
+      the caller's own submitted attempts
+
+  3. Security
+    - Students can no longer read `questions` directly; admins keep full access
+      through "Admins can manage questions"
+    - Attempts and answers can only be written through `submit_test`
+
+  4. Notes
+    - `p_answers` is a JSON object mapping question id to the chosen option
+*/
+
+-- Student-safe question view (runs with owner privileges, so RLS on questions does not apply)
+CREATE OR REPLACE VIEW student_questions AS
+  SELECT id, section_id, question_text, option_a, option_b, option_c, option_d, order_index
+  FROM questions;
+
+GRANT SELECT ON student_questions TO authenticated;
+
+DROP POLICY IF EXISTS "Everyone can read questions" ON questions;
+
+-- Attempts are written by submit_test only
+DROP POLICY IF EXISTS "Users can record own attempts" ON test_attempts;
+DROP POLICY IF EXISTS "Users can record own attempt answers" ON attempt_answers;
+
+CREATE OR REPLACE FUNCTION submit_test(p_section_id uuid, p_answers jsonb, p_started_at timestamptz DEFAULT NULL)
+RETURNS TABLE (attempt_id uuid, score numeric, correct_count integer, total_questions integer, passed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pass_percentage integer;
+  v_total integer;
+  v_correct integer;
+  v_score numeric(5,2);
+  v_passed boolean;
+  v_attempt_id uuid;
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT s.pass_percentage
+  INTO v_pass_percentage
+  FROM sections s
+  WHERE s.id = p_section_id AND s.type = 'test';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE q.correct_answer = p_answers ->> q.id::text)
+  INTO v_total, v_correct
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'This test has no questions';
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total, 2);
+  v_passed := v_score >= v_pass_percentage;
+
+  -- enforce_attempt_limits still applies to this insert
+  INSERT INTO test_attempts (user_id, section_id, score, correct_count, total_questions, duration_seconds, started_at, submitted_at)
+  VALUES (
+    v_user_id,
+    p_section_id,
+    v_score,
+    v_correct,
+    v_total,
+    COALESCE(GREATEST(EXTRACT(EPOCH FROM v_submitted_at - p_started_at), 0)::integer, 0),
+    p_started_at,
+    v_submitted_at
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO attempt_answers (attempt_id, question_id, selected_answer, is_correct)
+  SELECT
+    v_attempt_id,
+    q.id,
+    CASE WHEN p_answers ->> q.id::text IN ('A', 'B', 'C', 'D') THEN p_answers ->> q.id::text END,
+    q.correct_answer = COALESCE(p_answers ->> q.id::text, '')
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  -- A pass is never undone by a later, lower attempt
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, score, attempts, completed_at)
+  VALUES (v_user_id, p_section_id, v_passed, round(v_score)::integer, 1, CASE WHEN v_passed THEN v_submitted_at END)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + 1,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'test_submitted');
+
+  RETURN QUERY SELECT v_attempt_id, v_score, v_correct, v_total, v_passed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_attempt_review(p_attempt_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    q.correct_answer,
+    q.explanation,
+    q.order_index,
+    aa.selected_answer,
+    aa.is_correct
+  FROM attempt_answers aa
+  JOIN test_attempts ta ON ta.id = aa.attempt_id
+  JOIN questions q ON q.id = aa.question_id
+  WHERE aa.attempt_id = p_attempt_id
+  AND ta.user_id = auth.uid()
+  ORDER BY q.order_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_test(uuid, jsonb, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_attempt_review(uuid) TO authenticated;
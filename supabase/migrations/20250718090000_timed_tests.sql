@@ -0,0 +1,14 @@
+/*
+  # Timed Tests
+
+  1. Schema Changes
+    - `sections.time_limit_minutes` - Optional time limit for test sections (null means untimed)
+
+  2. Notes
+    - In-progress answers are kept in the browser and resumed after a refresh;
+      the attempt is only recorded when it is submitted through `submit_test`
+*/
+
+ALTER TABLE sections
+  ADD COLUMN IF NOT EXISTS time_limit_minutes integer
+    CHECK (time_limit_minutes IS NULL OR time_limit_minutes > 0);
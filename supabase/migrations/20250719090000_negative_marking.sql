@@ -0,0 +1,153 @@
+/*
+  # Negative Marking Scoring Schemes
+
+  1. Schema Changes
+    - `sections.marks_per_correct` - Marks awarded for a correct answer (default 1)
+    - `sections.negative_marks` - Marks deducted for a wrong answer (default 0)
+    - `sections.unanswered_marks` - Marks for a skipped question (default 0)
+    - `test_attempts.wrong_count`, `skipped_count`, `net_marks`, `max_marks`
+
+  2. Functions
+    - `submit_test` now applies the section's scoring scheme and returns the
+      correct / wrong / skipped breakdown with net marks
+
+  3. Notes
+    - `score` remains a percentage (net marks over maximum marks, never below 0)
+      so pass percentages keep working with any scheme
+    - UPSC Prelims GS is +2 / -0.66, CSAT is +2.5 / -0.83
+*/
+
+ALTER TABLE sections
+  ADD COLUMN IF NOT EXISTS marks_per_correct numeric(6,2) NOT NULL DEFAULT 1
+    CHECK (marks_per_correct > 0),
+  ADD COLUMN IF NOT EXISTS negative_marks numeric(6,2) NOT NULL DEFAULT 0
+    CHECK (negative_marks >= 0),
+  ADD COLUMN IF NOT EXISTS unanswered_marks numeric(6,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE test_attempts
+  ADD COLUMN IF NOT EXISTS wrong_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS skipped_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS net_marks numeric(8,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_marks numeric(8,2) NOT NULL DEFAULT 0;
+
+-- Existing attempts were scored one mark per question with no penalty
+UPDATE test_attempts
+SET
+  skipped_count = total_questions - correct_count,
+  net_marks = correct_count,
+  max_marks = total_questions
+WHERE max_marks = 0;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS submit_test(uuid, jsonb, timestamptz);
+
+CREATE FUNCTION submit_test(p_section_id uuid, p_answers jsonb, p_started_at timestamptz DEFAULT NULL)
+RETURNS TABLE (
+  attempt_id uuid,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric,
+  passed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_section sections%ROWTYPE;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_passed boolean;
+  v_attempt_id uuid;
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_section
+  FROM sections s
+  WHERE s.id = p_section_id AND s.type = 'test';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE q.correct_answer = p_answers ->> q.id::text),
+    COUNT(*) FILTER (WHERE p_answers ->> q.id::text IN ('A', 'B', 'C', 'D') AND q.correct_answer <> p_answers ->> q.id::text)
+  INTO v_total, v_correct, v_wrong
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'This test has no questions';
+  END IF;
+
+  v_skipped := v_total - v_correct - v_wrong;
+  v_net := v_correct * v_section.marks_per_correct
+    - v_wrong * v_section.negative_marks
+    + v_skipped * v_section.unanswered_marks;
+  v_max := v_total * v_section.marks_per_correct;
+  v_score := GREATEST(round(v_net * 100.0 / v_max, 2), 0);
+  v_passed := v_score >= v_section.pass_percentage;
+
+  -- enforce_attempt_limits still applies to this insert
+  INSERT INTO test_attempts (
+    user_id, section_id, score, correct_count, wrong_count, skipped_count, total_questions,
+    net_marks, max_marks, duration_seconds, started_at, submitted_at
+  )
+  VALUES (
+    v_user_id,
+    p_section_id,
+    v_score,
+    v_correct,
+    v_wrong,
+    v_skipped,
+    v_total,
+    v_net,
+    v_max,
+    COALESCE(GREATEST(EXTRACT(EPOCH FROM v_submitted_at - p_started_at), 0)::integer, 0),
+    p_started_at,
+    v_submitted_at
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO attempt_answers (attempt_id, question_id, selected_answer, is_correct)
+  SELECT
+    v_attempt_id,
+    q.id,
+    CASE WHEN p_answers ->> q.id::text IN ('A', 'B', 'C', 'D') THEN p_answers ->> q.id::text END,
+    q.correct_answer = COALESCE(p_answers ->> q.id::text, '')
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  -- A pass is never undone by a later, lower attempt
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, score, attempts, completed_at)
+  VALUES (v_user_id, p_section_id, v_passed, round(v_score)::integer, 1, CASE WHEN v_passed THEN v_submitted_at END)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + 1,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'test_submitted');
+
+  RETURN QUERY SELECT v_attempt_id, v_score, v_correct, v_wrong, v_skipped, v_total, v_net, v_max, v_passed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_test(uuid, jsonb, timestamptz) TO authenticated;
@@ -0,0 +1,128 @@
+/*
+  # Question Images and Math
+
+  1. Schema Changes
+    - `questions.image_url` - Optional image shown with the question
+    - `questions.option_a_image_url` … `option_d_image_url` - Optional image per option
+
+  2. Storage
+    - Public `question-images` bucket; only admins can upload, replace or delete
+
+  3. Views & Functions
+    - `student_questions` and `get_attempt_review` include the image columns
+
+  4. Notes
+    - Math is written inline in question and option text as LaTeX (`$x^2$`, `$$...$$`)
+      and rendered with KaTeX on the client, so no schema change is needed for it
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS image_url text,
+  ADD COLUMN IF NOT EXISTS option_a_image_url text,
+  ADD COLUMN IF NOT EXISTS option_b_image_url text,
+  ADD COLUMN IF NOT EXISTS option_c_image_url text,
+  ADD COLUMN IF NOT EXISTS option_d_image_url text;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('question-images', 'question-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view question images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'question-images');
+
+CREATE POLICY "Admins can upload question images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'question-images'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update question images"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'question-images'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete question images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'question-images'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- New columns are appended, so the view can be replaced in place
+CREATE OR REPLACE VIEW student_questions AS
+  SELECT
+    id, section_id, question_text, option_a, option_b, option_c, option_d, order_index,
+    image_url, option_a_image_url, option_b_image_url, option_c_image_url, option_d_image_url
+  FROM questions;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_attempt_review(uuid);
+
+CREATE FUNCTION get_attempt_review(p_attempt_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    q.correct_answer,
+    q.explanation,
+    q.order_index,
+    aa.selected_answer,
+    aa.is_correct,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url
+  FROM attempt_answers aa
+  JOIN test_attempts ta ON ta.id = aa.attempt_id
+  JOIN questions q ON q.id = aa.question_id
+  WHERE aa.attempt_id = p_attempt_id
+  AND ta.user_id = auth.uid()
+  ORDER BY q.order_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_attempt_review(uuid) TO authenticated;
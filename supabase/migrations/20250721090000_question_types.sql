@@ -0,0 +1,254 @@
+/*
+  # Question Types
+
+  1. Schema Changes
+    - `questions.question_type` - 'mcq', 'multi_select', 'statement', 'match',
+      'assertion_reason' or 'descriptive' (default 'mcq')
+    - `questions.statements` - Numbered statements for statement-based questions,
+      or [assertion, reason] for assertion-reason questions
+    - `questions.match_pairs` - List I / List II rows for match-the-following,
+      as a JSON array of `{ "left": ..., "right": ... }`
+    - `questions.option_a` … `option_d` are nullable: choice questions need at least
+      options A and B, descriptive questions have none
+    - `questions.correct_answer` holds one letter, several sorted letters for
+      multi-select (e.g. 'AC'), or null for descriptive questions
+    - `attempt_answers.selected_answer` accepts several letters
+    - `attempt_answers.answer_text` - Written answer for descriptive questions
+
+  2. Functions
+    - `normalize_choice_answer` - Sorts and de-duplicates submitted option letters
+    - `submit_test` grades multi-select answers as all-or-nothing and stores
+      descriptive answers without grading them
+    - `student_questions` and `get_attempt_review` include the new columns
+
+  3. Notes
+    - Descriptive questions are not counted in `total_questions` or marks; a test
+      made up only of descriptive questions counts as passed on submission
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS question_type text NOT NULL DEFAULT 'mcq'
+    CHECK (question_type IN ('mcq', 'multi_select', 'statement', 'match', 'assertion_reason', 'descriptive')),
+  ADD COLUMN IF NOT EXISTS statements text[],
+  ADD COLUMN IF NOT EXISTS match_pairs jsonb;
+
+ALTER TABLE questions
+  ALTER COLUMN option_a DROP NOT NULL,
+  ALTER COLUMN option_b DROP NOT NULL,
+  ALTER COLUMN option_c DROP NOT NULL,
+  ALTER COLUMN option_d DROP NOT NULL,
+  ALTER COLUMN correct_answer DROP NOT NULL;
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_correct_answer_check;
+
+ALTER TABLE questions
+  ADD CONSTRAINT questions_correct_answer_check CHECK (
+    CASE question_type
+      WHEN 'descriptive' THEN correct_answer IS NULL
+      WHEN 'multi_select' THEN correct_answer ~ '^A?B?C?D?$' AND correct_answer <> ''
+      ELSE correct_answer IN ('A', 'B', 'C', 'D')
+    END
+  ),
+  ADD CONSTRAINT questions_options_check CHECK (
+    question_type = 'descriptive' OR (option_a IS NOT NULL AND option_b IS NOT NULL)
+  );
+
+ALTER TABLE attempt_answers DROP CONSTRAINT IF EXISTS attempt_answers_selected_answer_check;
+
+ALTER TABLE attempt_answers
+  ADD CONSTRAINT attempt_answers_selected_answer_check CHECK (selected_answer ~ '^A?B?C?D?$' AND selected_answer <> ''),
+  ADD COLUMN IF NOT EXISTS answer_text text;
+
+CREATE OR REPLACE FUNCTION normalize_choice_answer(p_answer text)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_answer ~ '^[A-D]+$' THEN (
+      SELECT string_agg(DISTINCT letter, '' ORDER BY letter)
+      FROM regexp_split_to_table(p_answer, '') AS letter
+    )
+  END;
+$$;
+
+CREATE OR REPLACE VIEW student_questions AS
+  SELECT
+    id, section_id, question_text, option_a, option_b, option_c, option_d, order_index,
+    image_url, option_a_image_url, option_b_image_url, option_c_image_url, option_d_image_url,
+    question_type, statements, match_pairs
+  FROM questions;
+
+CREATE OR REPLACE FUNCTION submit_test(p_section_id uuid, p_answers jsonb, p_started_at timestamptz DEFAULT NULL)
+RETURNS TABLE (
+  attempt_id uuid,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric,
+  passed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_section sections%ROWTYPE;
+  v_question_count integer;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_passed boolean;
+  v_attempt_id uuid;
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_section
+  FROM sections s
+  WHERE s.id = p_section_id AND s.type = 'test';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  -- Only objective questions are graded; descriptive answers are stored as written
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive'),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer = normalize_choice_answer(p_answers ->> q.id::text)),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer <> normalize_choice_answer(p_answers ->> q.id::text))
+  INTO v_question_count, v_total, v_correct, v_wrong
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'This test has no questions';
+  END IF;
+
+  v_skipped := v_total - v_correct - v_wrong;
+  v_net := v_correct * v_section.marks_per_correct
+    - v_wrong * v_section.negative_marks
+    + v_skipped * v_section.unanswered_marks;
+  v_max := v_total * v_section.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+  v_passed := v_total = 0 OR v_score >= v_section.pass_percentage;
+
+  -- enforce_attempt_limits still applies to this insert
+  INSERT INTO test_attempts (
+    user_id, section_id, score, correct_count, wrong_count, skipped_count, total_questions,
+    net_marks, max_marks, duration_seconds, started_at, submitted_at
+  )
+  VALUES (
+    v_user_id,
+    p_section_id,
+    v_score,
+    v_correct,
+    v_wrong,
+    v_skipped,
+    v_total,
+    v_net,
+    v_max,
+    COALESCE(GREATEST(EXTRACT(EPOCH FROM v_submitted_at - p_started_at), 0)::integer, 0),
+    p_started_at,
+    v_submitted_at
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO attempt_answers (attempt_id, question_id, selected_answer, answer_text, is_correct)
+  SELECT
+    v_attempt_id,
+    q.id,
+    CASE WHEN q.question_type <> 'descriptive' THEN normalize_choice_answer(p_answers ->> q.id::text) END,
+    CASE WHEN q.question_type = 'descriptive' THEN NULLIF(btrim(p_answers ->> q.id::text), '') END,
+    q.question_type <> 'descriptive' AND q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), '')
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  -- A pass is never undone by a later, lower attempt
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, score, attempts, completed_at)
+  VALUES (v_user_id, p_section_id, v_passed, round(v_score)::integer, 1, CASE WHEN v_passed THEN v_submitted_at END)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + 1,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'test_submitted');
+
+  RETURN QUERY SELECT v_attempt_id, v_score, v_correct, v_wrong, v_skipped, v_total, v_net, v_max, v_passed;
+END;
+$$;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_attempt_review(uuid);
+
+CREATE FUNCTION get_attempt_review(p_attempt_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    q.correct_answer,
+    q.explanation,
+    q.order_index,
+    aa.selected_answer,
+    aa.is_correct,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url,
+    q.question_type,
+    q.statements,
+    q.match_pairs,
+    aa.answer_text
+  FROM attempt_answers aa
+  JOIN test_attempts ta ON ta.id = aa.attempt_id
+  JOIN questions q ON q.id = aa.question_id
+  WHERE aa.attempt_id = p_attempt_id
+  AND ta.user_id = auth.uid()
+  ORDER BY q.order_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_test(uuid, jsonb, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_attempt_review(uuid) TO authenticated;
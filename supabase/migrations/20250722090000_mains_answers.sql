@@ -0,0 +1,442 @@
+/*
+  # Mains Answer Writing
+
+  1. Schema Changes
+    - `sections.type` accepts 'mains' for written answer sections; the section
+      content holds the question
+    - `sections.word_limit` - Optional maximum number of words for typed answers
+    - `sections.rubric` - Marking criteria as a JSON array of
+      `{ "criterion": ..., "max_marks": ... }`
+    - `user_section_progress.review_status` - 'submitted', 'in_review' or 'returned'
+      for the latest answer to a mains section
+    - `study_activity.activity_type` accepts 'answer_submitted'
+
+  2. New Tables
+    - `answer_submissions` - A student's typed and/or uploaded answer, with the
+      mentor's per-criterion marks, total and comments once evaluated
+
+  3. Storage
+    - Private `answer-uploads` bucket; students upload into a folder named after
+      their user id and can read their own files, admins can read all of them
+
+  4. Functions
+    - `submit_answer` - Validates and records a submission and logs study activity
+    - `evaluate_answer` - Scores a submission against the section rubric and
+      returns it to the student
+    - `get_answer_submissions` - Submissions with student and section names for
+      the admin evaluation queue
+
+  5. Security
+    - Students read their own submissions; submissions are written through
+      `submit_answer` only
+    - Admins can read all submissions and claim them for review
+    - A mains section is completed only when an evaluated answer is returned
+*/
+
+ALTER TABLE sections DROP CONSTRAINT IF EXISTS sections_type_check;
+
+ALTER TABLE sections
+  ADD CONSTRAINT sections_type_check CHECK (type IN ('source', 'test', 'resource', 'pyq', 'mains')),
+  ADD COLUMN IF NOT EXISTS word_limit integer CHECK (word_limit IS NULL OR word_limit > 0),
+  ADD COLUMN IF NOT EXISTS rubric jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE user_section_progress
+  ADD COLUMN IF NOT EXISTS review_status text CHECK (review_status IN ('submitted', 'in_review', 'returned'));
+
+ALTER TABLE study_activity DROP CONSTRAINT IF EXISTS study_activity_activity_type_check;
+
+ALTER TABLE study_activity
+  ADD CONSTRAINT study_activity_activity_type_check
+    CHECK (activity_type IN ('section_completed', 'test_submitted', 'answer_submitted'));
+
+CREATE TABLE IF NOT EXISTS answer_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  section_id uuid NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+  answer_text text,
+  word_count integer NOT NULL DEFAULT 0,
+  file_path text,
+  file_name text,
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'in_review', 'returned')),
+  rubric_scores jsonb,
+  score numeric(6,2),
+  max_score numeric(6,2),
+  feedback text,
+  evaluated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+  evaluated_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (answer_text IS NOT NULL OR file_path IS NOT NULL),
+  CHECK (status <> 'returned' OR (score IS NOT NULL AND max_score IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS answer_submissions_user_section_idx
+  ON answer_submissions (user_id, section_id, submitted_at DESC);
+
+CREATE INDEX IF NOT EXISTS answer_submissions_status_idx
+  ON answer_submissions (status, submitted_at);
+
+ALTER TABLE answer_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own answer submissions"
+  ON answer_submissions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read answer submissions"
+  ON answer_submissions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update answer submissions"
+  ON answer_submissions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('answer-uploads', 'answer-uploads', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own answer files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'answer-uploads'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view own answer files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'answer-uploads'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Admins can view answer files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'answer-uploads'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Keep the section progress in step with the latest submission
+CREATE OR REPLACE FUNCTION sync_answer_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_returned boolean := NEW.status = 'returned';
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO user_section_progress (user_id, section_id, review_status, is_completed, score, attempts, completed_at)
+  VALUES (
+    NEW.user_id,
+    NEW.section_id,
+    NEW.status,
+    v_returned,
+    CASE WHEN v_returned AND NEW.max_score > 0 THEN round(NEW.score * 100 / NEW.max_score)::integer ELSE 0 END,
+    CASE WHEN TG_OP = 'INSERT' THEN 1 ELSE 0 END,
+    CASE WHEN v_returned THEN NEW.evaluated_at END
+  )
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    review_status = EXCLUDED.review_status,
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + EXCLUDED.attempts,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_sync_answer_progress
+  AFTER INSERT OR UPDATE OF status ON answer_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_answer_progress();
+
+-- Tests need a passing attempt and mains sections a returned answer
+CREATE OR REPLACE FUNCTION enforce_test_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_type text;
+  v_pass_percentage integer;
+BEGIN
+  IF NEW.is_completed IS NOT TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_completed THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT type, pass_percentage
+  INTO v_type, v_pass_percentage
+  FROM sections
+  WHERE id = NEW.section_id;
+
+  IF v_type = 'test' AND NOT EXISTS (
+    SELECT 1 FROM test_attempts
+    WHERE user_id = NEW.user_id
+    AND section_id = NEW.section_id
+    AND score >= v_pass_percentage
+  ) THEN
+    RAISE EXCEPTION 'A passing attempt is required to complete this test';
+  END IF;
+
+  IF v_type = 'mains' AND NOT EXISTS (
+    SELECT 1 FROM answer_submissions
+    WHERE user_id = NEW.user_id
+    AND section_id = NEW.section_id
+    AND status = 'returned'
+  ) THEN
+    RAISE EXCEPTION 'An evaluated answer is required to complete this section';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION submit_answer(
+  p_section_id uuid,
+  p_answer_text text,
+  p_file_path text DEFAULT NULL,
+  p_file_name text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_word_limit integer;
+  v_answer_text text := NULLIF(btrim(p_answer_text), '');
+  v_word_count integer := 0;
+  v_submission_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT s.word_limit
+  INTO v_word_limit
+  FROM sections s
+  WHERE s.id = p_section_id AND s.type = 'mains';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Answer writing section not found';
+  END IF;
+
+  IF v_answer_text IS NULL AND p_file_path IS NULL THEN
+    RAISE EXCEPTION 'Type an answer or upload a file';
+  END IF;
+
+  IF p_file_path IS NOT NULL AND split_part(p_file_path, '/', 1) <> v_user_id::text THEN
+    RAISE EXCEPTION 'Invalid answer file';
+  END IF;
+
+  IF v_answer_text IS NOT NULL THEN
+    v_word_count := array_length(regexp_split_to_array(v_answer_text, '\s+'), 1);
+  END IF;
+
+  IF v_word_limit IS NOT NULL AND v_word_count > v_word_limit THEN
+    RAISE EXCEPTION 'Answer is % words; the limit is %', v_word_count, v_word_limit;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM answer_submissions a
+    WHERE a.user_id = v_user_id
+    AND a.section_id = p_section_id
+    AND a.status <> 'returned'
+  ) THEN
+    RAISE EXCEPTION 'Your previous answer is still awaiting evaluation';
+  END IF;
+
+  INSERT INTO answer_submissions (user_id, section_id, answer_text, word_count, file_path, file_name)
+  VALUES (v_user_id, p_section_id, v_answer_text, v_word_count, p_file_path, p_file_name)
+  RETURNING id INTO v_submission_id;
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'answer_submitted');
+
+  RETURN v_submission_id;
+END;
+$$;
+
+-- p_rubric_scores is a JSON array of { "criterion": ..., "score": ... } in rubric order
+CREATE OR REPLACE FUNCTION evaluate_answer(p_submission_id uuid, p_rubric_scores jsonb, p_feedback text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rubric jsonb;
+  v_status text;
+  v_scores jsonb;
+  v_score numeric;
+  v_max_score numeric;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can evaluate answers';
+  END IF;
+
+  SELECT s.rubric, a.status
+  INTO v_rubric, v_status
+  FROM answer_submissions a
+  JOIN sections s ON s.id = a.section_id
+  WHERE a.id = p_submission_id
+  FOR UPDATE OF a;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF v_status = 'returned' THEN
+    RAISE EXCEPTION 'This answer has already been returned';
+  END IF;
+
+  IF jsonb_array_length(v_rubric) = 0 THEN
+    RAISE EXCEPTION 'This section has no rubric';
+  END IF;
+
+  IF jsonb_typeof(p_rubric_scores) <> 'array' OR jsonb_array_length(p_rubric_scores) <> jsonb_array_length(v_rubric) THEN
+    RAISE EXCEPTION 'Score every rubric criterion';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_rubric) WITH ORDINALITY AS r(item, position)
+    JOIN jsonb_array_elements(p_rubric_scores) WITH ORDINALITY AS p(item, position) USING (position)
+    WHERE (p.item ->> 'score') IS NULL
+    OR (p.item ->> 'score')::numeric < 0
+    OR (p.item ->> 'score')::numeric > (r.item ->> 'max_marks')::numeric
+  ) THEN
+    RAISE EXCEPTION 'Each score must be between 0 and the criterion maximum';
+  END IF;
+
+  -- Store the rubric as it was when marked, so later edits do not change past results
+  SELECT
+    jsonb_agg(jsonb_build_object(
+      'criterion', r.item ->> 'criterion',
+      'max_marks', (r.item ->> 'max_marks')::numeric,
+      'score', (p.item ->> 'score')::numeric
+    ) ORDER BY position),
+    sum((p.item ->> 'score')::numeric),
+    sum((r.item ->> 'max_marks')::numeric)
+  INTO v_scores, v_score, v_max_score
+  FROM jsonb_array_elements(v_rubric) WITH ORDINALITY AS r(item, position)
+  JOIN jsonb_array_elements(p_rubric_scores) WITH ORDINALITY AS p(item, position) USING (position);
+
+  UPDATE answer_submissions
+  SET
+    status = 'returned',
+    rubric_scores = v_scores,
+    score = v_score,
+    max_score = v_max_score,
+    feedback = NULLIF(btrim(p_feedback), ''),
+    evaluated_by = auth.uid(),
+    evaluated_at = now()
+  WHERE id = p_submission_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_answer_submissions(p_status text DEFAULT NULL, p_submission_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  section_id uuid,
+  answer_text text,
+  word_count integer,
+  file_path text,
+  file_name text,
+  status text,
+  rubric_scores jsonb,
+  score numeric,
+  max_score numeric,
+  feedback text,
+  submitted_at timestamptz,
+  evaluated_at timestamptz,
+  student_name text,
+  student_email text,
+  evaluator_name text,
+  section_name text,
+  module_id uuid,
+  module_name text,
+  subject_id uuid,
+  subject_name text
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.user_id,
+    a.section_id,
+    a.answer_text,
+    a.word_count,
+    a.file_path,
+    a.file_name,
+    a.status,
+    a.rubric_scores,
+    a.score,
+    a.max_score,
+    a.feedback,
+    a.submitted_at,
+    a.evaluated_at,
+    student.full_name,
+    student.email,
+    evaluator.full_name,
+    sec.name,
+    m.id,
+    m.name,
+    sub.id,
+    sub.name
+  FROM answer_submissions a
+  JOIN profiles student ON student.id = a.user_id
+  LEFT JOIN profiles evaluator ON evaluator.id = a.evaluated_by
+  JOIN sections sec ON sec.id = a.section_id
+  JOIN modules m ON m.id = sec.module_id
+  JOIN subjects sub ON sub.id = m.subject_id
+  WHERE EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+  AND (p_status IS NULL OR a.status = p_status)
+  AND (p_submission_id IS NULL OR a.id = p_submission_id)
+  -- Oldest first, so the queue is worked in the order answers arrived
+  ORDER BY a.submitted_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_answer(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION evaluate_answer(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_answer_submissions(text, uuid) TO authenticated;
@@ -0,0 +1,76 @@
+/*
+  # Admin Access to Student Progress
+
+  1. Functions
+    - `is_admin` - Whether the caller is an admin; runs with owner privileges so
+      it can be used in policies on `profiles` without recursing into them
+
+  2. Security
+    - Admins can read every profile, subject progress, section progress, test
+      attempt and study activity row, for the student progress explorer
+    - Students keep access to their own rows only
+*/
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+CREATE POLICY "Admins can read all profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read all progress"
+  ON user_progress FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can read all section progress"
+  ON user_section_progress FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can read all test attempts"
+  ON test_attempts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can read all study activity"
+  ON study_activity FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
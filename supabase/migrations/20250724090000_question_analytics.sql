@@ -0,0 +1,210 @@
+/*
+  # Question Analytics
+
+  1. Schema Changes
+    - `attempt_answers.time_spent_seconds` - Time the student spent on the question,
+      as measured by the test player
+
+  2. Functions
+    - `submit_test` accepts `p_question_times`, a JSON object mapping question id
+      to seconds spent
+    - `get_question_analytics` - Per-question response counts, option
+      distribution, average time and discrimination index for a test section
+
+  3. Notes
+    - The discrimination index compares the top and bottom 27% of attempts by
+      score (share correct in the top group minus share correct in the bottom
+      group); it is null until the section has 10 attempts
+    - Attempts made before this migration have no time recorded
+*/
+
+ALTER TABLE attempt_answers
+  ADD COLUMN IF NOT EXISTS time_spent_seconds integer CHECK (time_spent_seconds >= 0);
+
+-- Signature changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS submit_test(uuid, jsonb, timestamptz);
+
+CREATE FUNCTION submit_test(
+  p_section_id uuid,
+  p_answers jsonb,
+  p_started_at timestamptz DEFAULT NULL,
+  p_question_times jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  attempt_id uuid,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric,
+  passed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_section sections%ROWTYPE;
+  v_question_count integer;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_passed boolean;
+  v_attempt_id uuid;
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_section
+  FROM sections s
+  WHERE s.id = p_section_id AND s.type = 'test';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  -- Only objective questions are graded; descriptive answers are stored as written
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive'),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer = normalize_choice_answer(p_answers ->> q.id::text)),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer <> normalize_choice_answer(p_answers ->> q.id::text))
+  INTO v_question_count, v_total, v_correct, v_wrong
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'This test has no questions';
+  END IF;
+
+  v_skipped := v_total - v_correct - v_wrong;
+  v_net := v_correct * v_section.marks_per_correct
+    - v_wrong * v_section.negative_marks
+    + v_skipped * v_section.unanswered_marks;
+  v_max := v_total * v_section.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+  v_passed := v_total = 0 OR v_score >= v_section.pass_percentage;
+
+  -- enforce_attempt_limits still applies to this insert
+  INSERT INTO test_attempts (
+    user_id, section_id, score, correct_count, wrong_count, skipped_count, total_questions,
+    net_marks, max_marks, duration_seconds, started_at, submitted_at
+  )
+  VALUES (
+    v_user_id,
+    p_section_id,
+    v_score,
+    v_correct,
+    v_wrong,
+    v_skipped,
+    v_total,
+    v_net,
+    v_max,
+    COALESCE(GREATEST(EXTRACT(EPOCH FROM v_submitted_at - p_started_at), 0)::integer, 0),
+    p_started_at,
+    v_submitted_at
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO attempt_answers (attempt_id, question_id, selected_answer, answer_text, is_correct, time_spent_seconds)
+  SELECT
+    v_attempt_id,
+    q.id,
+    CASE WHEN q.question_type <> 'descriptive' THEN normalize_choice_answer(p_answers ->> q.id::text) END,
+    CASE WHEN q.question_type = 'descriptive' THEN NULLIF(btrim(p_answers ->> q.id::text), '') END,
+    q.question_type <> 'descriptive' AND q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  -- A pass is never undone by a later, lower attempt
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, score, attempts, completed_at)
+  VALUES (v_user_id, p_section_id, v_passed, round(v_score)::integer, 1, CASE WHEN v_passed THEN v_submitted_at END)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + 1,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'test_submitted');
+
+  RETURN QUERY SELECT v_attempt_id, v_score, v_correct, v_wrong, v_skipped, v_total, v_net, v_max, v_passed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_question_analytics(p_section_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  responses integer,
+  correct_count integer,
+  skipped_count integer,
+  option_a_count integer,
+  option_b_count integer,
+  option_c_count integer,
+  option_d_count integer,
+  avg_time_seconds numeric,
+  discrimination_index numeric
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT
+      ta.id,
+      ROW_NUMBER() OVER (ORDER BY ta.score DESC, ta.submitted_at) AS position,
+      COUNT(*) OVER () AS attempt_count
+    FROM test_attempts ta
+    WHERE ta.section_id = p_section_id
+  ),
+  groups AS (
+    SELECT
+      id,
+      attempt_count,
+      CASE
+        WHEN position <= ceil(attempt_count * 0.27) THEN 'upper'
+        WHEN position > attempt_count - ceil(attempt_count * 0.27) THEN 'lower'
+      END AS score_group
+    FROM ranked
+  )
+  SELECT
+    q.id,
+    COUNT(aa.id)::integer,
+    COUNT(*) FILTER (WHERE aa.is_correct)::integer,
+    COUNT(*) FILTER (WHERE aa.id IS NOT NULL AND aa.selected_answer IS NULL AND aa.answer_text IS NULL)::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%A%')::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%B%')::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%C%')::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%D%')::integer,
+    round(AVG(aa.time_spent_seconds), 1),
+    CASE WHEN q.question_type <> 'descriptive' AND MAX(g.attempt_count) >= 10 THEN
+      round(
+        AVG(aa.is_correct::integer) FILTER (WHERE g.score_group = 'upper')
+        - AVG(aa.is_correct::integer) FILTER (WHERE g.score_group = 'lower'),
+        2
+      )
+    END
+  FROM questions q
+  LEFT JOIN attempt_answers aa ON aa.question_id = q.id
+  LEFT JOIN groups g ON g.id = aa.attempt_id
+  WHERE q.section_id = p_section_id
+  AND is_admin()
+  GROUP BY q.id, q.question_type, q.order_index
+  ORDER BY q.order_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_test(uuid, jsonb, timestamptz, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_question_analytics(uuid) TO authenticated;
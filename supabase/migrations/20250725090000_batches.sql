@@ -0,0 +1,177 @@
+/*
+  # Batches
+
+  1. New Tables
+    - `batches` - A cohort of students such as "Prelims 2027"
+    - `batch_members` - Which students belong to which batches; a student can be
+      in more than one batch
+    - `batch_subjects` - Which subjects make up a batch's curriculum
+
+  2. Functions
+    - `can_access_subject` - Whether the caller is an admin or a member of an
+      active batch the subject is assigned to
+
+  3. Security
+    - Students can only read subjects, modules, sections and questions of the
+      batches they belong to; admins keep full access
+    - Students can read their own memberships and the batches they are in;
+      admins manage batches, memberships and subject assignments
+
+  4. Notes
+    - Existing students and subjects are placed in a "General" batch so nobody
+      loses access when this migration runs
+    - New students see no subjects until an admin adds them to a batch
+*/
+
+CREATE TABLE IF NOT EXISTS batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS batch_members (
+  batch_id uuid REFERENCES batches(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  joined_at timestamptz DEFAULT now(),
+  PRIMARY KEY (batch_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS batch_subjects (
+  batch_id uuid REFERENCES batches(id) ON DELETE CASCADE,
+  subject_id uuid REFERENCES subjects(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (batch_id, subject_id)
+);
+
+CREATE INDEX IF NOT EXISTS batch_members_user_idx
+  ON batch_members (user_id);
+
+CREATE INDEX IF NOT EXISTS batch_subjects_subject_idx
+  ON batch_subjects (subject_id);
+
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batch_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batch_subjects ENABLE ROW LEVEL SECURITY;
+
+-- Runs with owner privileges so policies can use it without recursing into batch tables
+CREATE OR REPLACE FUNCTION can_access_subject(p_subject_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_admin() OR EXISTS (
+    SELECT 1
+    FROM batch_subjects bs
+    JOIN batch_members bm ON bm.batch_id = bs.batch_id
+    JOIN batches b ON b.id = bs.batch_id
+    WHERE bs.subject_id = p_subject_id
+    AND bm.user_id = auth.uid()
+    AND b.is_active
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_access_subject(uuid) TO authenticated;
+
+-- Batch policies
+CREATE POLICY "Students can read own batches"
+  ON batches FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM batch_members
+      WHERE batch_members.batch_id = batches.id
+      AND batch_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage batches"
+  ON batches FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Students can read own batch memberships"
+  ON batch_members FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage batch members"
+  ON batch_members FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Students can read own batch subjects"
+  ON batch_subjects FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM batch_members
+      WHERE batch_members.batch_id = batch_subjects.batch_id
+      AND batch_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage batch subjects"
+  ON batch_subjects FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+-- Curriculum is scoped to the student's batches
+DROP POLICY IF EXISTS "Everyone can read subjects" ON subjects;
+DROP POLICY IF EXISTS "Everyone can read modules" ON modules;
+DROP POLICY IF EXISTS "Everyone can read sections" ON sections;
+
+CREATE POLICY "Students can read subjects in their batches"
+  ON subjects FOR SELECT
+  TO authenticated
+  USING (can_access_subject(id));
+
+CREATE POLICY "Students can read modules in their batches"
+  ON modules FOR SELECT
+  TO authenticated
+  USING (can_access_subject(subject_id));
+
+CREATE POLICY "Students can read sections in their batches"
+  ON sections FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM modules
+      WHERE modules.id = sections.module_id
+      AND can_access_subject(modules.subject_id)
+    )
+  );
+
+-- The view bypasses RLS on questions, so it filters by batch itself
+CREATE OR REPLACE VIEW student_questions AS
+  SELECT
+    q.id, q.section_id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.order_index,
+    q.image_url, q.option_a_image_url, q.option_b_image_url, q.option_c_image_url, q.option_d_image_url,
+    q.question_type, q.statements, q.match_pairs
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  JOIN modules m ON m.id = s.module_id
+  WHERE can_access_subject(m.subject_id);
+
+-- Keep current students on the curriculum they already had
+DO $$
+DECLARE
+  v_batch_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM batches) THEN
+    INSERT INTO batches (name, description)
+    VALUES ('General', 'Students and subjects that existed before batches were introduced')
+    RETURNING id INTO v_batch_id;
+
+    INSERT INTO batch_subjects (batch_id, subject_id)
+    SELECT v_batch_id, id FROM subjects;
+
+    INSERT INTO batch_members (batch_id, user_id)
+    SELECT v_batch_id, id FROM profiles WHERE role = 'student';
+  END IF;
+END;
+$$;
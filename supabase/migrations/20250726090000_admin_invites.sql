@@ -0,0 +1,122 @@
+/*
+  # Invite-only Admin Accounts
+
+  1. New Tables
+    - `admin_invites` - Single-use invite links an admin issues for a specific
+      email address; the token in the link is the secret
+
+  2. Functions
+    - `get_admin_invite` - Looks up an invite by token so the registration page
+      can show who it is for and whether it is still valid
+    - `accept_admin_invite` - Promotes the caller to admin if the token is valid,
+      unexpired, unused and issued for the caller's email
+
+  3. Security
+    - Admins can create, read and revoke (delete) invites
+    - A trigger on `profiles` rejects profiles created with any role other than
+      'student' and any role change made directly by a signed-in user, so the
+      "Users can update own profile" policy can no longer be used to become an
+      admin; roles change only through `accept_admin_invite`
+*/
+
+CREATE TABLE IF NOT EXISTS admin_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  token uuid UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE admin_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage admin invites"
+  ON admin_invites FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Writes from the app run as anon/authenticated; SECURITY DEFINER functions run as the owner
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' AND NEW.role IS DISTINCT FROM 'student' THEN
+      RAISE EXCEPTION 'New accounts are created as students';
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'Roles can only be changed through an admin invite';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_protect_profile_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+CREATE OR REPLACE FUNCTION get_admin_invite(p_token uuid)
+RETURNS TABLE (email text, expires_at timestamptz, is_valid boolean)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ai.email,
+    ai.expires_at,
+    ai.accepted_at IS NULL AND ai.expires_at > now()
+  FROM admin_invites ai
+  WHERE ai.token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_admin_invite(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invite admin_invites%ROWTYPE;
+  v_email text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM admin_invites
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invite.accepted_at IS NOT NULL OR v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite link is invalid or has expired';
+  END IF;
+
+  -- Use the sign-in email, since users can edit the email on their own profile
+  SELECT u.email INTO v_email FROM auth.users u WHERE u.id = v_user_id;
+
+  IF v_email IS NULL OR lower(v_email) <> lower(v_invite.email) THEN
+    RAISE EXCEPTION 'This invite was issued for a different email address';
+  END IF;
+
+  UPDATE profiles
+  SET role = 'admin', updated_at = now()
+  WHERE id = v_user_id;
+
+  UPDATE admin_invites
+  SET accepted_by = v_user_id, accepted_at = now()
+  WHERE id = v_invite.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_admin_invite(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_admin_invite(uuid) TO authenticated;
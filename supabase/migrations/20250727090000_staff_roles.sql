@@ -0,0 +1,540 @@
+/*
+  # Staff Roles and Permissions
+
+  1. Schema Changes
+    - `profiles.role` accepts 'content_editor', 'mentor' and 'super_admin'
+    - `admin_invites.role` - The staff role the invite grants (default 'admin')
+
+  2. New Tables
+    - `role_permissions` - Which permissions each role has; the app mirrors this
+      table in `src/lib/permissions.ts`
+    - `batch_mentors` - Mentors assigned to a batch; a mentor can see the
+      progress and answers of students in their batches
+
+  3. Functions
+    - `has_permission` - Whether the caller's role grants a permission
+    - `is_staff` - Whether the caller has any role other than 'student'
+    - `can_view_student` - Whether the caller may see a student's data: staff
+      with `view_all_students`, or a mentor assigned to one of the student's batches
+    - `set_staff_role` - Changes another user's role (super-admins only)
+    - `is_admin` now also covers super-admins
+    - `evaluate_answer` and `get_answer_submissions` check `evaluate_answers`
+      and only cover students the caller can see
+    - `get_admin_invite` returns the invited role and `accept_admin_invite`
+      grants it
+
+  4. Security
+    - Content (subjects, modules, sections, questions, question images) is
+      managed with `manage_content`
+    - Student data (profiles, progress, attempts, activity, answers and answer
+      files) is readable through `can_view_student`
+    - Batches are managed with `manage_batches`; invites with `manage_staff`
+    - Staff can read every subject so mentors can follow student progress
+*/
+
+-- Roles
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('student', 'content_editor', 'mentor', 'admin', 'super_admin'));
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL CHECK (role IN ('student', 'content_editor', 'mentor', 'admin', 'super_admin')),
+  permission text NOT NULL CHECK (permission IN (
+    'manage_content', 'manage_batches', 'view_all_students', 'view_assigned_students', 'evaluate_answers', 'manage_staff'
+  )),
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('content_editor', 'manage_content'),
+  ('mentor', 'view_assigned_students'),
+  ('mentor', 'evaluate_answers'),
+  ('admin', 'manage_content'),
+  ('admin', 'manage_batches'),
+  ('admin', 'view_all_students'),
+  ('admin', 'evaluate_answers'),
+  ('super_admin', 'manage_content'),
+  ('super_admin', 'manage_batches'),
+  ('super_admin', 'view_all_students'),
+  ('super_admin', 'evaluate_answers'),
+  ('super_admin', 'manage_staff')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can read role permissions"
+  ON role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TABLE IF NOT EXISTS batch_mentors (
+  batch_id uuid REFERENCES batches(id) ON DELETE CASCADE,
+  mentor_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (batch_id, mentor_id)
+);
+
+CREATE INDEX IF NOT EXISTS batch_mentors_mentor_idx
+  ON batch_mentors (mentor_id);
+
+ALTER TABLE batch_mentors ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE admin_invites
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'admin'
+    CHECK (role IN ('content_editor', 'mentor', 'admin', 'super_admin'));
+
+-- Permission checks; owner privileges keep policies on profiles from recursing
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles p
+    JOIN role_permissions rp ON rp.role = p.role
+    WHERE p.id = auth.uid()
+    AND rp.permission = p_permission
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_staff()
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role <> 'student'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'super_admin')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_student(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_permission('view_all_students') OR (
+    has_permission('view_assigned_students') AND EXISTS (
+      SELECT 1
+      FROM batch_mentors bmt
+      JOIN batch_members bm ON bm.batch_id = bmt.batch_id
+      WHERE bmt.mentor_id = auth.uid()
+      AND bm.user_id = p_user_id
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_subject(p_subject_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_staff() OR EXISTS (
+    SELECT 1
+    FROM batch_subjects bs
+    JOIN batch_members bm ON bm.batch_id = bs.batch_id
+    JOIN batches b ON b.id = bs.batch_id
+    WHERE bs.subject_id = p_subject_id
+    AND bm.user_id = auth.uid()
+    AND b.is_active
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_permission(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_staff() TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_student(uuid) TO authenticated;
+
+-- Content
+DROP POLICY IF EXISTS "Admins can manage subjects" ON subjects;
+DROP POLICY IF EXISTS "Admins can manage modules" ON modules;
+DROP POLICY IF EXISTS "Admins can manage sections" ON sections;
+DROP POLICY IF EXISTS "Admins can manage questions" ON questions;
+
+CREATE POLICY "Content editors can manage subjects"
+  ON subjects FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'));
+
+CREATE POLICY "Content editors can manage modules"
+  ON modules FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'));
+
+CREATE POLICY "Content editors can manage sections"
+  ON sections FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'));
+
+CREATE POLICY "Content editors can manage questions"
+  ON questions FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'));
+
+DROP POLICY IF EXISTS "Admins can upload question images" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can update question images" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can delete question images" ON storage.objects;
+
+CREATE POLICY "Content editors can upload question images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'question-images' AND has_permission('manage_content'));
+
+CREATE POLICY "Content editors can update question images"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'question-images' AND has_permission('manage_content'));
+
+CREATE POLICY "Content editors can delete question images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'question-images' AND has_permission('manage_content'));
+
+-- Student data
+DROP POLICY IF EXISTS "Admins can read all profiles" ON profiles;
+DROP POLICY IF EXISTS "Admins can read all progress" ON user_progress;
+DROP POLICY IF EXISTS "Admins can read all section progress" ON user_section_progress;
+DROP POLICY IF EXISTS "Admins can read all test attempts" ON test_attempts;
+DROP POLICY IF EXISTS "Admins can read all study activity" ON study_activity;
+DROP POLICY IF EXISTS "Admins can read answer submissions" ON answer_submissions;
+DROP POLICY IF EXISTS "Admins can update answer submissions" ON answer_submissions;
+DROP POLICY IF EXISTS "Admins can view answer files" ON storage.objects;
+
+CREATE POLICY "Staff can read visible profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (can_view_student(id) OR has_permission('manage_staff'));
+
+CREATE POLICY "Staff can read student progress"
+  ON user_progress FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id));
+
+CREATE POLICY "Staff can read student section progress"
+  ON user_section_progress FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id));
+
+CREATE POLICY "Staff can read student test attempts"
+  ON test_attempts FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id));
+
+CREATE POLICY "Staff can read student study activity"
+  ON study_activity FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id));
+
+CREATE POLICY "Staff can read student answer submissions"
+  ON answer_submissions FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id));
+
+CREATE POLICY "Evaluators can update answer submissions"
+  ON answer_submissions FOR UPDATE
+  TO authenticated
+  USING (has_permission('evaluate_answers') AND can_view_student(user_id));
+
+CREATE POLICY "Staff can view student answer files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'answer-uploads'
+    AND can_view_student(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Batches
+DROP POLICY IF EXISTS "Admins can manage batches" ON batches;
+DROP POLICY IF EXISTS "Admins can manage batch members" ON batch_members;
+DROP POLICY IF EXISTS "Admins can manage batch subjects" ON batch_subjects;
+
+CREATE POLICY "Batch managers can manage batches"
+  ON batches FOR ALL
+  TO authenticated
+  USING (has_permission('manage_batches'));
+
+CREATE POLICY "Batch managers can manage batch members"
+  ON batch_members FOR ALL
+  TO authenticated
+  USING (has_permission('manage_batches'));
+
+CREATE POLICY "Batch managers can manage batch subjects"
+  ON batch_subjects FOR ALL
+  TO authenticated
+  USING (has_permission('manage_batches'));
+
+CREATE POLICY "Mentors can read own batch assignments"
+  ON batch_mentors FOR SELECT
+  TO authenticated
+  USING (auth.uid() = mentor_id);
+
+CREATE POLICY "Batch managers can manage batch mentors"
+  ON batch_mentors FOR ALL
+  TO authenticated
+  USING (has_permission('manage_batches'));
+
+-- Staff
+DROP POLICY IF EXISTS "Admins can manage admin invites" ON admin_invites;
+
+CREATE POLICY "Super-admins can manage staff invites"
+  ON admin_invites FOR ALL
+  TO authenticated
+  USING (has_permission('manage_staff'))
+  WITH CHECK (has_permission('manage_staff'));
+
+CREATE OR REPLACE FUNCTION set_staff_role(p_user_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('manage_staff') THEN
+    RAISE EXCEPTION 'Only super-admins can change roles';
+  END IF;
+
+  -- Keeps a super-admin from locking everyone out by demoting themselves
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own role';
+  END IF;
+
+  UPDATE profiles
+  SET role = p_role, updated_at = now()
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+END;
+$$;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_admin_invite(uuid);
+
+CREATE FUNCTION get_admin_invite(p_token uuid)
+RETURNS TABLE (email text, role text, expires_at timestamptz, is_valid boolean)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ai.email,
+    ai.role,
+    ai.expires_at,
+    ai.accepted_at IS NULL AND ai.expires_at > now()
+  FROM admin_invites ai
+  WHERE ai.token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_admin_invite(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invite admin_invites%ROWTYPE;
+  v_email text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM admin_invites
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invite.accepted_at IS NOT NULL OR v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite link is invalid or has expired';
+  END IF;
+
+  -- Use the sign-in email, since users can edit the email on their own profile
+  SELECT u.email INTO v_email FROM auth.users u WHERE u.id = v_user_id;
+
+  IF v_email IS NULL OR lower(v_email) <> lower(v_invite.email) THEN
+    RAISE EXCEPTION 'This invite was issued for a different email address';
+  END IF;
+
+  UPDATE profiles
+  SET role = v_invite.role, updated_at = now()
+  WHERE id = v_user_id;
+
+  UPDATE admin_invites
+  SET accepted_by = v_user_id, accepted_at = now()
+  WHERE id = v_invite.id;
+END;
+$$;
+
+-- Evaluation
+CREATE OR REPLACE FUNCTION evaluate_answer(p_submission_id uuid, p_rubric_scores jsonb, p_feedback text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rubric jsonb;
+  v_status text;
+  v_user_id uuid;
+  v_scores jsonb;
+  v_score numeric;
+  v_max_score numeric;
+BEGIN
+  IF NOT has_permission('evaluate_answers') THEN
+    RAISE EXCEPTION 'You do not have permission to evaluate answers';
+  END IF;
+
+  SELECT s.rubric, a.status, a.user_id
+  INTO v_rubric, v_status, v_user_id
+  FROM answer_submissions a
+  JOIN sections s ON s.id = a.section_id
+  WHERE a.id = p_submission_id
+  FOR UPDATE OF a;
+
+  IF NOT FOUND OR NOT can_view_student(v_user_id) THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF v_status = 'returned' THEN
+    RAISE EXCEPTION 'This answer has already been returned';
+  END IF;
+
+  IF jsonb_array_length(v_rubric) = 0 THEN
+    RAISE EXCEPTION 'This section has no rubric';
+  END IF;
+
+  IF jsonb_typeof(p_rubric_scores) <> 'array' OR jsonb_array_length(p_rubric_scores) <> jsonb_array_length(v_rubric) THEN
+    RAISE EXCEPTION 'Score every rubric criterion';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_rubric) WITH ORDINALITY AS r(item, position)
+    JOIN jsonb_array_elements(p_rubric_scores) WITH ORDINALITY AS p(item, position) USING (position)
+    WHERE (p.item ->> 'score') IS NULL
+    OR (p.item ->> 'score')::numeric < 0
+    OR (p.item ->> 'score')::numeric > (r.item ->> 'max_marks')::numeric
+  ) THEN
+    RAISE EXCEPTION 'Each score must be between 0 and the criterion maximum';
+  END IF;
+
+  -- Store the rubric as it was when marked, so later edits do not change past results
+  SELECT
+    jsonb_agg(jsonb_build_object(
+      'criterion', r.item ->> 'criterion',
+      'max_marks', (r.item ->> 'max_marks')::numeric,
+      'score', (p.item ->> 'score')::numeric
+    ) ORDER BY position),
+    sum((p.item ->> 'score')::numeric),
+    sum((r.item ->> 'max_marks')::numeric)
+  INTO v_scores, v_score, v_max_score
+  FROM jsonb_array_elements(v_rubric) WITH ORDINALITY AS r(item, position)
+  JOIN jsonb_array_elements(p_rubric_scores) WITH ORDINALITY AS p(item, position) USING (position);
+
+  UPDATE answer_submissions
+  SET
+    status = 'returned',
+    rubric_scores = v_scores,
+    score = v_score,
+    max_score = v_max_score,
+    feedback = NULLIF(btrim(p_feedback), ''),
+    evaluated_by = auth.uid(),
+    evaluated_at = now()
+  WHERE id = p_submission_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_answer_submissions(p_status text DEFAULT NULL, p_submission_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  section_id uuid,
+  answer_text text,
+  word_count integer,
+  file_path text,
+  file_name text,
+  status text,
+  rubric_scores jsonb,
+  score numeric,
+  max_score numeric,
+  feedback text,
+  submitted_at timestamptz,
+  evaluated_at timestamptz,
+  student_name text,
+  student_email text,
+  evaluator_name text,
+  section_name text,
+  module_id uuid,
+  module_name text,
+  subject_id uuid,
+  subject_name text
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.user_id,
+    a.section_id,
+    a.answer_text,
+    a.word_count,
+    a.file_path,
+    a.file_name,
+    a.status,
+    a.rubric_scores,
+    a.score,
+    a.max_score,
+    a.feedback,
+    a.submitted_at,
+    a.evaluated_at,
+    student.full_name,
+    student.email,
+    evaluator.full_name,
+    sec.name,
+    m.id,
+    m.name,
+    sub.id,
+    sub.name
+  FROM answer_submissions a
+  JOIN profiles student ON student.id = a.user_id
+  LEFT JOIN profiles evaluator ON evaluator.id = a.evaluated_by
+  JOIN sections sec ON sec.id = a.section_id
+  JOIN modules m ON m.id = sec.module_id
+  JOIN subjects sub ON sub.id = m.subject_id
+  WHERE has_permission('evaluate_answers')
+  AND can_view_student(a.user_id)
+  AND (p_status IS NULL OR a.status = p_status)
+  AND (p_submission_id IS NULL OR a.id = p_submission_id)
+  -- Oldest first, so the queue is worked in the order answers arrived
+  ORDER BY a.submitted_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_staff_role(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_admin_invite(uuid) TO anon, authenticated;
+
+-- Existing admins keep staff management
+UPDATE profiles
+SET role = 'super_admin'
+WHERE role = 'admin';
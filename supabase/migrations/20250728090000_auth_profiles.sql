@@ -0,0 +1,63 @@
+/*
+  # Create Profiles on Sign Up
+
+  1. Functions
+    - `handle_new_user` - Creates the profile for every new auth user from the
+      `full_name` in their sign-up metadata. When the metadata carries an
+      `invite_token` for a valid invite issued to the same email, the invited
+      role is granted and the invite is marked accepted.
+
+  2. Triggers
+    - `on_auth_user_created` on `auth.users`
+
+  3. Notes
+    - With email confirmation enabled, `signUp` returns no session, so the app
+      can no longer insert the profile or accept the invite itself
+    - The account cannot sign in until the email is confirmed, so an invite
+      still only works for someone who controls the invited address
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite admin_invites%ROWTYPE;
+  v_role text := 'student';
+BEGIN
+  IF NEW.raw_user_meta_data ? 'invite_token' THEN
+    SELECT * INTO v_invite
+    FROM admin_invites
+    WHERE token::text = NEW.raw_user_meta_data ->> 'invite_token'
+      AND accepted_at IS NULL
+      AND expires_at > now()
+      AND lower(email) = lower(NEW.email)
+    FOR UPDATE;
+
+    IF FOUND THEN
+      v_role := v_invite.role;
+    END IF;
+  END IF;
+
+  INSERT INTO profiles (id, email, full_name, role)
+  VALUES (NEW.id, NEW.email, NULLIF(trim(NEW.raw_user_meta_data ->> 'full_name'), ''), v_role)
+  ON CONFLICT (id) DO NOTHING;
+
+  IF v_invite.id IS NOT NULL THEN
+    UPDATE admin_invites
+    SET accepted_by = NEW.id, accepted_at = now()
+    WHERE id = v_invite.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
@@ -0,0 +1,91 @@
+/*
+  # Profile Settings
+
+  1. Schema Changes
+    - `profiles.target_exam_year` - The UPSC CSE year the student is preparing for
+    - `profiles.optional_subject` - The student's Mains optional, free text
+    - `profiles.preferred_language` - 'en' or 'hi' (default 'en')
+    - `profiles.avatar_url` - Public URL of the profile picture
+
+  2. Storage
+    - Public `avatars` bucket; users upload, replace and delete files in a folder
+      named after their user id
+    - Students can delete their own answer files so closing an account leaves
+      nothing behind
+
+  3. Functions
+    - `delete_own_account` - Deletes the caller's auth user; the profile and all
+      progress, attempts, activity and answers are removed by cascade. Staff
+      own content, so a super admin has to remove their staff role first.
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS target_exam_year integer CHECK (target_exam_year BETWEEN 2000 AND 2100),
+  ADD COLUMN IF NOT EXISTS optional_subject text,
+  ADD COLUMN IF NOT EXISTS preferred_language text NOT NULL DEFAULT 'en' CHECK (preferred_language IN ('en', 'hi')),
+  ADD COLUMN IF NOT EXISTS avatar_url text;
+
+-- Avatars
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view avatars"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update own avatar"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own answer files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'answer-uploads'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Account deletion
+CREATE OR REPLACE FUNCTION delete_own_account()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF is_staff() THEN
+    RAISE EXCEPTION 'Staff accounts cannot be deleted';
+  END IF;
+
+  DELETE FROM auth.users WHERE id = v_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_own_account() TO authenticated;
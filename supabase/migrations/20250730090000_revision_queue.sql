@@ -0,0 +1,333 @@
+/*
+  # Spaced-Repetition Revision Queue
+
+  1. New Tables
+    - `revision_cards` - One card per student and question in their revision deck
+      - `source` - 'incorrect' (answered wrong in a test) or 'flagged' (marked
+        for review while taking a test)
+      - `ease_factor`, `interval_days`, `repetitions` - SM-2 scheduling state
+      - `due_date` - The day the card is next shown
+      - `lapses` - How many times the card was forgotten after being learned
+
+  2. Functions
+    - `revision_today` - Today's date in India, where the students are; due
+      dates roll over at IST midnight like study streaks
+    - `add_revision_cards` - Adds questions to a student's deck; a question
+      answered wrong again is rescheduled for today. Not SECURITY DEFINER, so
+      it only works from inside functions that are, like `submit_test`.
+    - `submit_test` accepts `p_flagged_question_ids`, a JSON array of the
+      questions marked for review, and adds flagged and wrongly answered
+      objective questions to the deck
+    - `check_revision_answer` - Grades an answer to a card and reveals the key
+      and explanation
+    - `record_revision_review` - Applies an SM-2 review with a quality of 0-5
+
+  3. Security
+    - Students read and delete their own cards; staff who can see the student
+      can read them too
+    - Cards are only created and scheduled through the functions above
+
+  4. Notes
+    - Wrong answers from earlier attempts are added to the deck, due today
+*/
+
+CREATE OR REPLACE FUNCTION revision_today()
+RETURNS date
+LANGUAGE sql STABLE
+AS $$
+  SELECT (now() AT TIME ZONE 'Asia/Kolkata')::date;
+$$;
+
+CREATE TABLE IF NOT EXISTS revision_cards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('incorrect', 'flagged')),
+  ease_factor numeric(4,2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days integer NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions integer NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  lapses integer NOT NULL DEFAULT 0 CHECK (lapses >= 0),
+  due_date date NOT NULL DEFAULT revision_today(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revision_cards_user_due ON revision_cards(user_id, due_date);
+
+ALTER TABLE revision_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own revision cards"
+  ON revision_cards FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can read visible revision cards"
+  ON revision_cards FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id));
+
+CREATE POLICY "Users can delete own revision cards"
+  ON revision_cards FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION add_revision_cards(p_user_id uuid, p_question_ids uuid[], p_source text)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO revision_cards (user_id, question_id, source)
+  SELECT p_user_id, q.id, p_source
+  FROM questions q
+  WHERE q.id = ANY(p_question_ids)
+  AND q.question_type <> 'descriptive'
+  ON CONFLICT (user_id, question_id) DO UPDATE SET
+    repetitions = CASE WHEN EXCLUDED.source = 'incorrect' THEN 0 ELSE revision_cards.repetitions END,
+    interval_days = CASE WHEN EXCLUDED.source = 'incorrect' THEN 0 ELSE revision_cards.interval_days END,
+    due_date = CASE WHEN EXCLUDED.source = 'incorrect' THEN LEAST(revision_cards.due_date, revision_today()) ELSE revision_cards.due_date END;
+$$;
+
+-- Signature changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS submit_test(uuid, jsonb, timestamptz, jsonb);
+
+CREATE FUNCTION submit_test(
+  p_section_id uuid,
+  p_answers jsonb,
+  p_started_at timestamptz DEFAULT NULL,
+  p_question_times jsonb DEFAULT NULL,
+  p_flagged_question_ids jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  attempt_id uuid,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric,
+  passed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_section sections%ROWTYPE;
+  v_question_count integer;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_passed boolean;
+  v_attempt_id uuid;
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_section
+  FROM sections s
+  WHERE s.id = p_section_id AND s.type = 'test';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  -- Only objective questions are graded; descriptive answers are stored as written
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive'),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer = normalize_choice_answer(p_answers ->> q.id::text)),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer <> normalize_choice_answer(p_answers ->> q.id::text))
+  INTO v_question_count, v_total, v_correct, v_wrong
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'This test has no questions';
+  END IF;
+
+  v_skipped := v_total - v_correct - v_wrong;
+  v_net := v_correct * v_section.marks_per_correct
+    - v_wrong * v_section.negative_marks
+    + v_skipped * v_section.unanswered_marks;
+  v_max := v_total * v_section.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+  v_passed := v_total = 0 OR v_score >= v_section.pass_percentage;
+
+  -- enforce_attempt_limits still applies to this insert
+  INSERT INTO test_attempts (
+    user_id, section_id, score, correct_count, wrong_count, skipped_count, total_questions,
+    net_marks, max_marks, duration_seconds, started_at, submitted_at
+  )
+  VALUES (
+    v_user_id,
+    p_section_id,
+    v_score,
+    v_correct,
+    v_wrong,
+    v_skipped,
+    v_total,
+    v_net,
+    v_max,
+    COALESCE(GREATEST(EXTRACT(EPOCH FROM v_submitted_at - p_started_at), 0)::integer, 0),
+    p_started_at,
+    v_submitted_at
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO attempt_answers (attempt_id, question_id, selected_answer, answer_text, is_correct, time_spent_seconds)
+  SELECT
+    v_attempt_id,
+    q.id,
+    CASE WHEN q.question_type <> 'descriptive' THEN normalize_choice_answer(p_answers ->> q.id::text) END,
+    CASE WHEN q.question_type = 'descriptive' THEN NULLIF(btrim(p_answers ->> q.id::text), '') END,
+    q.question_type <> 'descriptive' AND q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  -- Flagged first, so a question that was also answered wrong ends up due today
+  IF jsonb_typeof(p_flagged_question_ids) = 'array' THEN
+    PERFORM add_revision_cards(
+      v_user_id,
+      ARRAY(
+        SELECT q.id
+        FROM questions q
+        WHERE q.section_id = p_section_id
+        AND q.id::text IN (SELECT jsonb_array_elements_text(p_flagged_question_ids))
+      ),
+      'flagged'
+    );
+  END IF;
+
+  PERFORM add_revision_cards(
+    v_user_id,
+    ARRAY(
+      SELECT aa.question_id
+      FROM attempt_answers aa
+      WHERE aa.attempt_id = v_attempt_id
+      AND aa.selected_answer IS NOT NULL
+      AND NOT aa.is_correct
+    ),
+    'incorrect'
+  );
+
+  -- A pass is never undone by a later, lower attempt
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, score, attempts, completed_at)
+  VALUES (v_user_id, p_section_id, v_passed, round(v_score)::integer, 1, CASE WHEN v_passed THEN v_submitted_at END)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + 1,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'test_submitted');
+
+  RETURN QUERY SELECT v_attempt_id, v_score, v_correct, v_wrong, v_skipped, v_total, v_net, v_max, v_passed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_revision_answer(p_card_id uuid, p_answer text)
+RETURNS TABLE (is_correct boolean, correct_answer text, explanation text)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.correct_answer = COALESCE(normalize_choice_answer(p_answer), ''),
+    q.correct_answer,
+    q.explanation
+  FROM revision_cards rc
+  JOIN questions q ON q.id = rc.question_id
+  WHERE rc.id = p_card_id
+  AND rc.user_id = auth.uid();
+$$;
+
+-- SM-2: quality 0-2 means the answer was forgotten, 3-5 recalled with decreasing effort
+CREATE OR REPLACE FUNCTION record_revision_review(p_card_id uuid, p_quality integer)
+RETURNS TABLE (due_date date, interval_days integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_card revision_cards%ROWTYPE;
+  v_repetitions integer;
+  v_interval integer;
+  v_lapses integer;
+  v_ease numeric(4,2);
+BEGIN
+  IF p_quality IS NULL OR p_quality NOT BETWEEN 0 AND 5 THEN
+    RAISE EXCEPTION 'Quality must be between 0 and 5';
+  END IF;
+
+  SELECT * INTO v_card
+  FROM revision_cards rc
+  WHERE rc.id = p_card_id
+  AND rc.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision card not found';
+  END IF;
+
+  v_lapses := v_card.lapses;
+
+  IF p_quality < 3 THEN
+    IF v_card.repetitions > 0 THEN
+      v_lapses := v_lapses + 1;
+    END IF;
+    v_repetitions := 0;
+    v_interval := 1;
+  ELSE
+    v_repetitions := v_card.repetitions + 1;
+    v_interval := CASE
+      WHEN v_repetitions = 1 THEN 1
+      WHEN v_repetitions = 2 THEN 6
+      ELSE GREATEST(round(v_card.interval_days * v_card.ease_factor)::integer, 1)
+    END;
+  END IF;
+
+  v_ease := GREATEST(1.3, v_card.ease_factor + (0.1 - (5 - p_quality) * (0.08 + (5 - p_quality) * 0.02)));
+
+  UPDATE revision_cards
+  SET
+    ease_factor = v_ease,
+    interval_days = v_interval,
+    repetitions = v_repetitions,
+    lapses = v_lapses,
+    due_date = revision_today() + v_interval,
+    last_reviewed_at = now()
+  WHERE id = v_card.id;
+
+  RETURN QUERY SELECT revision_today() + v_interval, v_interval;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_test(uuid, jsonb, timestamptz, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_revision_answer(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_revision_review(uuid, integer) TO authenticated;
+
+-- Start every deck with the questions already answered wrong
+INSERT INTO revision_cards (user_id, question_id, source)
+SELECT DISTINCT ta.user_id, aa.question_id, 'incorrect'
+FROM attempt_answers aa
+JOIN test_attempts ta ON ta.id = aa.attempt_id
+JOIN questions q ON q.id = aa.question_id
+WHERE aa.selected_answer IS NOT NULL
+AND NOT aa.is_correct
+AND q.question_type <> 'descriptive'
+ON CONFLICT (user_id, question_id) DO NOTHING;
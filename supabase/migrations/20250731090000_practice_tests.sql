@@ -0,0 +1,378 @@
+/*
+  # Custom Practice Tests
+
+  1. Schema Changes
+    - `questions.is_pyq` - Whether the question appeared in a previous year's paper
+    - `study_activity.activity_type` accepts 'practice_submitted'
+
+  2. New Tables
+    - `practice_tests` - A random set of questions a student assembled from the
+      modules they chose, with its own time limit, marking scheme and result
+      - `question_ids` - The questions in the order they are shown
+      - `only_pyq`, `history` - The filters used ('all', 'unattempted' or
+        'incorrect'), kept for the history list
+    - `practice_test_answers` - The graded answer to each question
+
+  3. Functions
+    - `create_practice_test` - Picks random objective questions from modules
+      the student can access and creates the test
+    - `submit_practice_test` - Grades a practice test once, stores the answers
+      and adds wrong and flagged questions to the revision deck
+    - `get_practice_test_review` - Questions with answers and explanations for
+      one of the caller's submitted practice tests
+
+  4. Notes
+    - Practice tests never change `user_section_progress`; curriculum progress
+      still comes only from the section tests
+    - "Unattempted" means never answered in a section or practice test;
+      "incorrect" means answered wrong at least once
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS is_pyq boolean NOT NULL DEFAULT false;
+
+ALTER TABLE study_activity DROP CONSTRAINT IF EXISTS study_activity_activity_type_check;
+
+ALTER TABLE study_activity
+  ADD CONSTRAINT study_activity_activity_type_check
+    CHECK (activity_type IN ('section_completed', 'test_submitted', 'answer_submitted', 'practice_submitted'));
+
+CREATE TABLE IF NOT EXISTS practice_tests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  module_ids uuid[] NOT NULL,
+  question_ids uuid[] NOT NULL,
+  only_pyq boolean NOT NULL DEFAULT false,
+  history text NOT NULL DEFAULT 'all' CHECK (history IN ('all', 'unattempted', 'incorrect')),
+  time_limit_minutes integer CHECK (time_limit_minutes > 0),
+  marks_per_correct numeric(5,2) NOT NULL DEFAULT 1 CHECK (marks_per_correct > 0),
+  negative_marks numeric(5,2) NOT NULL DEFAULT 0 CHECK (negative_marks >= 0),
+  score numeric(5,2),
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer NOT NULL,
+  net_marks numeric(8,2),
+  max_marks numeric(8,2),
+  duration_seconds integer,
+  started_at timestamptz,
+  submitted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS practice_test_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  practice_test_id uuid NOT NULL REFERENCES practice_tests(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  selected_answer text CHECK (selected_answer ~ '^A?B?C?D?$' AND selected_answer <> ''),
+  is_correct boolean NOT NULL,
+  time_spent_seconds integer CHECK (time_spent_seconds >= 0),
+  UNIQUE (practice_test_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_tests_user ON practice_tests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_practice_test_answers_question ON practice_test_answers(question_id);
+
+ALTER TABLE practice_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practice_test_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own practice tests"
+  ON practice_tests FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can read visible practice tests"
+  ON practice_tests FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id));
+
+CREATE POLICY "Users can delete own unsubmitted practice tests"
+  ON practice_tests FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND submitted_at IS NULL);
+
+CREATE POLICY "Users can read own practice test answers"
+  ON practice_test_answers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM practice_tests pt
+      WHERE pt.id = practice_test_answers.practice_test_id
+      AND (pt.user_id = auth.uid() OR can_view_student(pt.user_id))
+    )
+  );
+
+CREATE OR REPLACE FUNCTION create_practice_test(
+  p_title text,
+  p_module_ids uuid[],
+  p_question_count integer,
+  p_time_limit_minutes integer DEFAULT NULL,
+  p_marks_per_correct numeric DEFAULT 1,
+  p_negative_marks numeric DEFAULT 0,
+  p_only_pyq boolean DEFAULT false,
+  p_history text DEFAULT 'all'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_question_ids uuid[];
+  v_practice_test_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_question_count IS NULL OR p_question_count NOT BETWEEN 1 AND 200 THEN
+    RAISE EXCEPTION 'Choose between 1 and 200 questions';
+  END IF;
+
+  IF p_history NOT IN ('all', 'unattempted', 'incorrect') THEN
+    RAISE EXCEPTION 'Unknown question filter';
+  END IF;
+
+  v_question_ids := ARRAY(
+    SELECT q.id
+    FROM questions q
+    JOIN sections s ON s.id = q.section_id
+    JOIN modules m ON m.id = s.module_id
+    WHERE m.id = ANY(p_module_ids)
+    AND m.is_active
+    AND can_access_subject(m.subject_id)
+    AND q.question_type <> 'descriptive'
+    AND (NOT p_only_pyq OR q.is_pyq)
+    AND (
+      p_history = 'all'
+      OR (p_history = 'unattempted' AND NOT EXISTS (
+        SELECT 1 FROM attempt_answers aa
+        JOIN test_attempts ta ON ta.id = aa.attempt_id
+        WHERE ta.user_id = v_user_id AND aa.question_id = q.id AND aa.selected_answer IS NOT NULL
+      ) AND NOT EXISTS (
+        SELECT 1 FROM practice_test_answers pa
+        JOIN practice_tests pt ON pt.id = pa.practice_test_id
+        WHERE pt.user_id = v_user_id AND pa.question_id = q.id AND pa.selected_answer IS NOT NULL
+      ))
+      OR (p_history = 'incorrect' AND (EXISTS (
+        SELECT 1 FROM attempt_answers aa
+        JOIN test_attempts ta ON ta.id = aa.attempt_id
+        WHERE ta.user_id = v_user_id AND aa.question_id = q.id AND aa.selected_answer IS NOT NULL AND NOT aa.is_correct
+      ) OR EXISTS (
+        SELECT 1 FROM practice_test_answers pa
+        JOIN practice_tests pt ON pt.id = pa.practice_test_id
+        WHERE pt.user_id = v_user_id AND pa.question_id = q.id AND pa.selected_answer IS NOT NULL AND NOT pa.is_correct
+      )))
+    )
+    ORDER BY random()
+    LIMIT p_question_count
+  );
+
+  IF cardinality(v_question_ids) = 0 THEN
+    RAISE EXCEPTION 'No questions match these filters';
+  END IF;
+
+  INSERT INTO practice_tests (
+    user_id, title, module_ids, question_ids, only_pyq, history,
+    time_limit_minutes, marks_per_correct, negative_marks, total_questions
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(btrim(p_title), ''), 'Practice Test'),
+    p_module_ids,
+    v_question_ids,
+    p_only_pyq,
+    p_history,
+    p_time_limit_minutes,
+    p_marks_per_correct,
+    p_negative_marks,
+    cardinality(v_question_ids)
+  )
+  RETURNING id INTO v_practice_test_id;
+
+  RETURN v_practice_test_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_practice_test(
+  p_practice_test_id uuid,
+  p_answers jsonb,
+  p_started_at timestamptz DEFAULT NULL,
+  p_question_times jsonb DEFAULT NULL,
+  p_flagged_question_ids jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_test practice_tests%ROWTYPE;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_test
+  FROM practice_tests pt
+  WHERE pt.id = p_practice_test_id AND pt.user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice test not found';
+  END IF;
+
+  IF v_test.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This practice test has already been submitted';
+  END IF;
+
+  INSERT INTO practice_test_answers (practice_test_id, question_id, selected_answer, is_correct, time_spent_seconds)
+  SELECT
+    v_test.id,
+    q.id,
+    normalize_choice_answer(p_answers ->> q.id::text),
+    q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM questions q
+  WHERE q.id = ANY(v_test.question_ids);
+
+  SELECT
+    COUNT(*) FILTER (WHERE pa.is_correct),
+    COUNT(*) FILTER (WHERE pa.selected_answer IS NOT NULL AND NOT pa.is_correct)
+  INTO v_correct, v_wrong
+  FROM practice_test_answers pa
+  WHERE pa.practice_test_id = v_test.id;
+
+  -- Questions deleted since the test was built count as skipped
+  v_skipped := v_test.total_questions - v_correct - v_wrong;
+  v_net := v_correct * v_test.marks_per_correct - v_wrong * v_test.negative_marks;
+  v_max := v_test.total_questions * v_test.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+
+  UPDATE practice_tests
+  SET
+    score = v_score,
+    correct_count = v_correct,
+    wrong_count = v_wrong,
+    skipped_count = v_skipped,
+    net_marks = v_net,
+    max_marks = v_max,
+    duration_seconds = COALESCE(GREATEST(EXTRACT(EPOCH FROM v_submitted_at - p_started_at), 0)::integer, 0),
+    started_at = p_started_at,
+    submitted_at = v_submitted_at
+  WHERE id = v_test.id;
+
+  IF jsonb_typeof(p_flagged_question_ids) = 'array' THEN
+    PERFORM add_revision_cards(
+      v_user_id,
+      ARRAY(
+        SELECT q.id
+        FROM questions q
+        WHERE q.id = ANY(v_test.question_ids)
+        AND q.id::text IN (SELECT jsonb_array_elements_text(p_flagged_question_ids))
+      ),
+      'flagged'
+    );
+  END IF;
+
+  PERFORM add_revision_cards(
+    v_user_id,
+    ARRAY(
+      SELECT pa.question_id
+      FROM practice_test_answers pa
+      WHERE pa.practice_test_id = v_test.id
+      AND pa.selected_answer IS NOT NULL
+      AND NOT pa.is_correct
+    ),
+    'incorrect'
+  );
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, NULL, 'practice_submitted');
+
+  RETURN QUERY SELECT v_score, v_correct, v_wrong, v_skipped, v_test.total_questions, v_net, v_max;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_practice_test_review(p_practice_test_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    q.correct_answer,
+    q.explanation,
+    position_in_test.n::integer,
+    pa.selected_answer,
+    pa.is_correct,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url,
+    q.question_type,
+    q.statements,
+    q.match_pairs,
+    NULL::text
+  FROM practice_tests pt
+  CROSS JOIN LATERAL unnest(pt.question_ids) WITH ORDINALITY AS position_in_test(question_id, n)
+  JOIN questions q ON q.id = position_in_test.question_id
+  JOIN practice_test_answers pa ON pa.practice_test_id = pt.id AND pa.question_id = q.id
+  WHERE pt.id = p_practice_test_id
+  AND pt.user_id = auth.uid()
+  AND pt.submitted_at IS NOT NULL
+  ORDER BY position_in_test.n;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_practice_test(text, uuid[], integer, integer, numeric, numeric, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_practice_test(uuid, jsonb, timestamptz, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_practice_test_review(uuid) TO authenticated;
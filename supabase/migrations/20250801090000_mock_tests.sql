@@ -0,0 +1,551 @@
+/*
+  # Mock Test Series
+
+  1. New Tables
+    - `mock_tests` - A full-length exam scheduled for one or more batches, with
+      an availability window, a duration and its own marking scheme
+      - `cutoff_marks` - Optional net marks students are compared against
+      - `is_published` - Drafts are only visible to content staff
+    - `mock_test_batches` - Which batches sit a mock test
+    - `mock_test_questions` - The questions in a mock test, in paper order
+    - `mock_attempts` - A student's single attempt; created when they start so
+      the deadline is timed by the server
+    - `mock_attempt_answers` - The graded answer to each question
+
+  2. Functions
+    - `can_take_mock_test` - Whether the caller is in an active batch the
+      published mock test is scheduled for
+    - `start_mock_test` - Starts (or resumes) the caller's attempt while the
+      window is open and returns its deadline
+    - `get_mock_test_questions` - The paper without its answer key, for an
+      attempt in progress
+    - `submit_mock_test` - Grades the attempt once
+    - `get_mock_leaderboard` - Rank and percentile of every submitted attempt
+    - `get_mock_subject_scores` - The caller's marks per subject next to the
+      average and top marks of all candidates
+    - `get_mock_review` - Questions with answers and explanations
+
+  3. Notes
+    - An attempt ends at `started_at + duration_minutes` or when the window
+      closes, whichever is first; two minutes of grace cover slow networks
+    - Results, the leaderboard and the answer key are only released to students
+      after the window closes, so the paper can't leak while others sit it
+    - Percentile is the share of candidates who scored the same or lower
+    - Mock tests don't change curriculum progress
+*/
+
+CREATE TABLE IF NOT EXISTS mock_tests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  opens_at timestamptz NOT NULL,
+  closes_at timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 120 CHECK (duration_minutes > 0),
+  marks_per_correct numeric(5,2) NOT NULL DEFAULT 2 CHECK (marks_per_correct > 0),
+  negative_marks numeric(5,2) NOT NULL DEFAULT 0.66 CHECK (negative_marks >= 0),
+  cutoff_marks numeric(8,2),
+  is_published boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (closes_at > opens_at)
+);
+
+CREATE TABLE IF NOT EXISTS mock_test_batches (
+  mock_test_id uuid REFERENCES mock_tests(id) ON DELETE CASCADE,
+  batch_id uuid REFERENCES batches(id) ON DELETE CASCADE,
+  PRIMARY KEY (mock_test_id, batch_id)
+);
+
+CREATE TABLE IF NOT EXISTS mock_test_questions (
+  mock_test_id uuid REFERENCES mock_tests(id) ON DELETE CASCADE,
+  question_id uuid REFERENCES questions(id) ON DELETE CASCADE,
+  order_index integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (mock_test_id, question_id)
+);
+
+CREATE TABLE IF NOT EXISTS mock_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mock_test_id uuid NOT NULL REFERENCES mock_tests(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz,
+  score numeric(5,2),
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric(8,2),
+  max_marks numeric(8,2),
+  duration_seconds integer,
+  UNIQUE (mock_test_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS mock_attempt_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES mock_attempts(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  selected_answer text CHECK (selected_answer ~ '^A?B?C?D?$' AND selected_answer <> ''),
+  is_correct boolean NOT NULL,
+  time_spent_seconds integer CHECK (time_spent_seconds >= 0),
+  UNIQUE (attempt_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mock_tests_window ON mock_tests(opens_at, closes_at);
+CREATE INDEX IF NOT EXISTS idx_mock_test_batches_batch ON mock_test_batches(batch_id);
+CREATE INDEX IF NOT EXISTS idx_mock_attempts_user ON mock_attempts(user_id);
+
+ALTER TABLE mock_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mock_test_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mock_test_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mock_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mock_attempt_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION can_take_mock_test(p_mock_test_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM mock_tests mt
+    JOIN mock_test_batches mtb ON mtb.mock_test_id = mt.id
+    JOIN batch_members bm ON bm.batch_id = mtb.batch_id
+    JOIN batches b ON b.id = mtb.batch_id
+    WHERE mt.id = p_mock_test_id
+    AND mt.is_published
+    AND bm.user_id = auth.uid()
+    AND b.is_active
+  );
+$$;
+
+CREATE POLICY "Students can read their mock tests"
+  ON mock_tests FOR SELECT
+  TO authenticated
+  USING (can_take_mock_test(id));
+
+CREATE POLICY "Content staff can manage mock tests"
+  ON mock_tests FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+CREATE POLICY "Students can read their mock test batches"
+  ON mock_test_batches FOR SELECT
+  TO authenticated
+  USING (can_take_mock_test(mock_test_id));
+
+CREATE POLICY "Content staff can manage mock test batches"
+  ON mock_test_batches FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+-- Students only see the paper through get_mock_test_questions
+CREATE POLICY "Content staff can manage mock test questions"
+  ON mock_test_questions FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+CREATE POLICY "Users can read own mock attempts"
+  ON mock_attempts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can read visible mock attempts"
+  ON mock_attempts FOR SELECT
+  TO authenticated
+  USING (can_view_student(user_id) OR has_permission('manage_content'));
+
+CREATE POLICY "Staff can read visible mock answers"
+  ON mock_attempt_answers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM mock_attempts ma
+      WHERE ma.id = mock_attempt_answers.attempt_id
+      AND can_view_student(ma.user_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION start_mock_test(p_mock_test_id uuid)
+RETURNS TABLE (attempt_id uuid, started_at timestamptz, deadline timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_mock mock_tests%ROWTYPE;
+  v_attempt mock_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT can_take_mock_test(p_mock_test_id) THEN
+    RAISE EXCEPTION 'This mock test is not scheduled for your batch';
+  END IF;
+
+  SELECT * INTO v_mock FROM mock_tests mt WHERE mt.id = p_mock_test_id;
+
+  SELECT * INTO v_attempt
+  FROM mock_attempts ma
+  WHERE ma.mock_test_id = p_mock_test_id AND ma.user_id = v_user_id;
+
+  IF FOUND AND v_attempt.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already taken this mock test';
+  END IF;
+
+  IF NOT FOUND THEN
+    IF now() < v_mock.opens_at THEN
+      RAISE EXCEPTION 'This mock test has not opened yet';
+    END IF;
+    IF now() >= v_mock.closes_at THEN
+      RAISE EXCEPTION 'This mock test has closed';
+    END IF;
+
+    INSERT INTO mock_attempts (mock_test_id, user_id)
+    VALUES (p_mock_test_id, v_user_id)
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN QUERY SELECT
+    v_attempt.id,
+    v_attempt.started_at,
+    LEAST(v_attempt.started_at + make_interval(mins => v_mock.duration_minutes), v_mock.closes_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_test_questions(p_mock_test_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  order_index integer,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    mtq.order_index,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url,
+    q.question_type,
+    q.statements,
+    q.match_pairs
+  FROM mock_test_questions mtq
+  JOIN questions q ON q.id = mtq.question_id
+  WHERE mtq.mock_test_id = p_mock_test_id
+  AND EXISTS (
+    SELECT 1 FROM mock_attempts ma
+    WHERE ma.mock_test_id = p_mock_test_id
+    AND ma.user_id = auth.uid()
+    AND ma.submitted_at IS NULL
+  )
+  ORDER BY mtq.order_index, q.id;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_mock_test(
+  p_mock_test_id uuid,
+  p_answers jsonb,
+  p_question_times jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_mock mock_tests%ROWTYPE;
+  v_attempt mock_attempts%ROWTYPE;
+  v_deadline timestamptz;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM mock_attempts ma
+  WHERE ma.mock_test_id = p_mock_test_id AND ma.user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Start the mock test before submitting it';
+  END IF;
+
+  IF v_attempt.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already submitted this mock test';
+  END IF;
+
+  SELECT * INTO v_mock FROM mock_tests mt WHERE mt.id = p_mock_test_id;
+
+  v_deadline := LEAST(v_attempt.started_at + make_interval(mins => v_mock.duration_minutes), v_mock.closes_at);
+  IF v_submitted_at > v_deadline + interval '2 minutes' THEN
+    RAISE EXCEPTION 'Time is up for this mock test';
+  END IF;
+
+  INSERT INTO mock_attempt_answers (attempt_id, question_id, selected_answer, is_correct, time_spent_seconds)
+  SELECT
+    v_attempt.id,
+    q.id,
+    normalize_choice_answer(p_answers ->> q.id::text),
+    q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM mock_test_questions mtq
+  JOIN questions q ON q.id = mtq.question_id
+  WHERE mtq.mock_test_id = p_mock_test_id;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE maa.is_correct),
+    COUNT(*) FILTER (WHERE maa.selected_answer IS NOT NULL AND NOT maa.is_correct)
+  INTO v_total, v_correct, v_wrong
+  FROM mock_attempt_answers maa
+  WHERE maa.attempt_id = v_attempt.id;
+
+  v_net := v_correct * v_mock.marks_per_correct - v_wrong * v_mock.negative_marks;
+  v_max := v_total * v_mock.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+
+  UPDATE mock_attempts
+  SET
+    score = v_score,
+    correct_count = v_correct,
+    wrong_count = v_wrong,
+    skipped_count = v_total - v_correct - v_wrong,
+    total_questions = v_total,
+    net_marks = v_net,
+    max_marks = v_max,
+    duration_seconds = GREATEST(EXTRACT(EPOCH FROM LEAST(v_submitted_at, v_deadline) - v_attempt.started_at), 0)::integer,
+    submitted_at = v_submitted_at
+  WHERE id = v_attempt.id;
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, NULL, 'mock_submitted');
+
+  RETURN QUERY SELECT v_score, v_correct, v_wrong, v_total - v_correct - v_wrong, v_total, v_net, v_max;
+END;
+$$;
+
+-- Students see results once the window closes; content staff and admins any time
+CREATE OR REPLACE FUNCTION can_view_mock_results(p_mock_test_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_permission('manage_content')
+    OR has_permission('view_all_students')
+    OR (
+      can_take_mock_test(p_mock_test_id)
+      AND EXISTS (SELECT 1 FROM mock_tests mt WHERE mt.id = p_mock_test_id AND mt.closes_at <= now())
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_leaderboard(p_mock_test_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  rank integer,
+  percentile numeric,
+  net_marks numeric,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  duration_seconds integer,
+  is_self boolean
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ma.user_id,
+    p.full_name,
+    (RANK() OVER (ORDER BY ma.net_marks DESC))::integer,
+    round((cume_dist() OVER (ORDER BY ma.net_marks) * 100)::numeric, 2),
+    ma.net_marks,
+    ma.score,
+    ma.correct_count,
+    ma.wrong_count,
+    ma.duration_seconds,
+    ma.user_id = auth.uid()
+  FROM mock_attempts ma
+  JOIN profiles p ON p.id = ma.user_id
+  WHERE ma.mock_test_id = p_mock_test_id
+  AND ma.submitted_at IS NOT NULL
+  AND can_view_mock_results(p_mock_test_id)
+  ORDER BY ma.net_marks DESC, ma.duration_seconds, p.full_name;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_subject_scores(p_mock_test_id uuid)
+RETURNS TABLE (
+  subject_id uuid,
+  subject_name text,
+  total_questions integer,
+  correct_count integer,
+  wrong_count integer,
+  net_marks numeric,
+  max_marks numeric,
+  average_net_marks numeric,
+  top_net_marks numeric
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH per_candidate AS (
+    SELECT
+      ma.user_id,
+      sub.id AS subject_id,
+      sub.name AS subject_name,
+      COUNT(*) AS total_questions,
+      COUNT(*) FILTER (WHERE maa.is_correct) AS correct_count,
+      COUNT(*) FILTER (WHERE maa.selected_answer IS NOT NULL AND NOT maa.is_correct) AS wrong_count,
+      COUNT(*) FILTER (WHERE maa.is_correct) * mt.marks_per_correct
+        - COUNT(*) FILTER (WHERE maa.selected_answer IS NOT NULL AND NOT maa.is_correct) * mt.negative_marks AS net_marks,
+      COUNT(*) * mt.marks_per_correct AS max_marks
+    FROM mock_attempts ma
+    JOIN mock_tests mt ON mt.id = ma.mock_test_id
+    JOIN mock_attempt_answers maa ON maa.attempt_id = ma.id
+    JOIN questions q ON q.id = maa.question_id
+    JOIN sections s ON s.id = q.section_id
+    JOIN modules m ON m.id = s.module_id
+    JOIN subjects sub ON sub.id = m.subject_id
+    WHERE ma.mock_test_id = p_mock_test_id
+    AND ma.submitted_at IS NOT NULL
+    AND can_view_mock_results(p_mock_test_id)
+    GROUP BY ma.user_id, sub.id, sub.name, mt.marks_per_correct, mt.negative_marks
+  )
+  SELECT
+    pc.subject_id,
+    pc.subject_name,
+    MAX(pc.total_questions)::integer,
+    (MAX(pc.correct_count) FILTER (WHERE pc.user_id = auth.uid()))::integer,
+    (MAX(pc.wrong_count) FILTER (WHERE pc.user_id = auth.uid()))::integer,
+    MAX(pc.net_marks) FILTER (WHERE pc.user_id = auth.uid()),
+    MAX(pc.max_marks),
+    round(AVG(pc.net_marks), 2),
+    MAX(pc.net_marks)
+  FROM per_candidate pc
+  GROUP BY pc.subject_id, pc.subject_name
+  ORDER BY pc.subject_name;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_review(p_mock_test_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    q.correct_answer,
+    q.explanation,
+    mtq.order_index,
+    maa.selected_answer,
+    maa.is_correct,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url,
+    q.question_type,
+    q.statements,
+    q.match_pairs,
+    NULL::text
+  FROM mock_attempts ma
+  JOIN mock_attempt_answers maa ON maa.attempt_id = ma.id
+  JOIN questions q ON q.id = maa.question_id
+  JOIN mock_test_questions mtq ON mtq.mock_test_id = ma.mock_test_id AND mtq.question_id = q.id
+  WHERE ma.mock_test_id = p_mock_test_id
+  AND ma.user_id = auth.uid()
+  AND ma.submitted_at IS NOT NULL
+  AND can_view_mock_results(p_mock_test_id)
+  ORDER BY mtq.order_index, q.id;
+$$;
+
+ALTER TABLE study_activity DROP CONSTRAINT IF EXISTS study_activity_activity_type_check;
+
+ALTER TABLE study_activity
+  ADD CONSTRAINT study_activity_activity_type_check
+    CHECK (activity_type IN ('section_completed', 'test_submitted', 'answer_submitted', 'practice_submitted', 'mock_submitted'));
+
+GRANT EXECUTE ON FUNCTION can_take_mock_test(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_mock_results(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_mock_test(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_test_questions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_mock_test(uuid, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_leaderboard(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_subject_scores(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_review(uuid) TO authenticated;
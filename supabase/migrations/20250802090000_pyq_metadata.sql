@@ -0,0 +1,71 @@
+/*
+  # PYQ Metadata
+
+  1. Schema Changes
+    - `questions.pyq_year` - Year of the exam the question appeared in
+    - `questions.pyq_paper` - 'GS1' to 'GS4', 'CSAT', 'Essay' or 'Optional'
+    - `questions.pyq_question_number` - Number of the question in that paper
+    - `questions.pyq_source` - Where the official question and key come from,
+      such as a link to the UPSC question paper
+    - `student_questions` exposes the flag and the metadata
+
+  2. Functions
+    - `get_pyq_answer` - Answer and explanation of a previous year question for
+      the PYQ browser
+
+  3. Notes
+    - Metadata is only allowed on questions flagged `is_pyq`
+    - Official answer keys are public, so students can reveal PYQ answers
+      outside tests; a PYQ placed in a test section stays hidden until the
+      student has submitted that test
+    - Questions can now be added to `pyq` sections as well as `test` sections
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS pyq_year integer CHECK (pyq_year BETWEEN 1979 AND 2100),
+  ADD COLUMN IF NOT EXISTS pyq_paper text CHECK (pyq_paper IN ('GS1', 'GS2', 'GS3', 'GS4', 'CSAT', 'Essay', 'Optional')),
+  ADD COLUMN IF NOT EXISTS pyq_question_number integer CHECK (pyq_question_number > 0),
+  ADD COLUMN IF NOT EXISTS pyq_source text;
+
+ALTER TABLE questions
+  ADD CONSTRAINT questions_pyq_metadata_check
+    CHECK (is_pyq OR (pyq_year IS NULL AND pyq_paper IS NULL AND pyq_question_number IS NULL AND pyq_source IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_questions_pyq_year ON questions(pyq_year) WHERE is_pyq;
+
+-- New columns go last so the view can be replaced in place
+CREATE OR REPLACE VIEW student_questions AS
+  SELECT
+    q.id, q.section_id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.order_index,
+    q.image_url, q.option_a_image_url, q.option_b_image_url, q.option_c_image_url, q.option_d_image_url,
+    q.question_type, q.statements, q.match_pairs,
+    q.is_pyq, q.pyq_year, q.pyq_paper, q.pyq_question_number, q.pyq_source
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  JOIN modules m ON m.id = s.module_id
+  WHERE can_access_subject(m.subject_id);
+
+CREATE OR REPLACE FUNCTION get_pyq_answer(p_question_id uuid)
+RETURNS TABLE (correct_answer text, explanation text)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.correct_answer, q.explanation
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  JOIN modules m ON m.id = s.module_id
+  WHERE q.id = p_question_id
+  AND q.is_pyq
+  AND can_access_subject(m.subject_id)
+  AND (
+    s.type <> 'test'
+    OR EXISTS (
+      SELECT 1 FROM test_attempts ta
+      WHERE ta.section_id = s.id AND ta.user_id = auth.uid()
+    )
+    OR has_permission('manage_content')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_pyq_answer(uuid) TO authenticated;
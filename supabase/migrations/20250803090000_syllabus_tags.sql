@@ -0,0 +1,391 @@
+/*
+  # Syllabus Mapping and Tags
+
+  1. New Tables
+    - `syllabus_nodes` - The official UPSC syllabus as a tree, e.g.
+      GS Paper II › Polity › Fundamental Rights
+    - `section_syllabus_nodes` / `question_syllabus_nodes` - Which syllabus
+      topics a section or question covers
+    - `tags` - Free-form labels such as "current affairs" or "static"
+    - `section_tags` / `question_tags` - Tags on sections and questions
+
+  2. Functions
+    - `set_section_mapping` / `set_question_mapping` - Replace the syllabus
+      topics and tags of a section or question in one go, creating new tags
+    - `get_syllabus_coverage` - The caller's progress against every syllabus
+      node, counting everything mapped to the node or its descendants
+
+  3. Notes
+    - Everyone can read the syllabus and tags; content staff manage them
+    - A section's questions count towards the section's syllabus topics, so
+      questions only need their own mapping when they are more specific
+    - Answers from tests, practice tests and closed mock tests count towards
+      accuracy; open mock tests are left out so results can't leak early
+    - The seed is the Mains General Studies syllabus, which also covers the
+      Prelims GS topics
+*/
+
+CREATE TABLE IF NOT EXISTS syllabus_nodes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid REFERENCES syllabus_nodes(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  order_index integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (parent_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS section_syllabus_nodes (
+  section_id uuid REFERENCES sections(id) ON DELETE CASCADE,
+  node_id uuid REFERENCES syllabus_nodes(id) ON DELETE CASCADE,
+  PRIMARY KEY (section_id, node_id)
+);
+
+CREATE TABLE IF NOT EXISTS question_syllabus_nodes (
+  question_id uuid REFERENCES questions(id) ON DELETE CASCADE,
+  node_id uuid REFERENCES syllabus_nodes(id) ON DELETE CASCADE,
+  PRIMARY KEY (question_id, node_id)
+);
+
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS section_tags (
+  section_id uuid REFERENCES sections(id) ON DELETE CASCADE,
+  tag_id uuid REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (section_id, tag_id)
+);
+
+CREATE TABLE IF NOT EXISTS question_tags (
+  question_id uuid REFERENCES questions(id) ON DELETE CASCADE,
+  tag_id uuid REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (question_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_syllabus_nodes_parent ON syllabus_nodes(parent_id, order_index);
+CREATE INDEX IF NOT EXISTS idx_section_syllabus_nodes_node ON section_syllabus_nodes(node_id);
+CREATE INDEX IF NOT EXISTS idx_question_syllabus_nodes_node ON question_syllabus_nodes(node_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name ON tags(lower(name));
+
+ALTER TABLE syllabus_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE section_syllabus_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE question_syllabus_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE section_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE question_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can read the syllabus"
+  ON syllabus_nodes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Content staff can manage the syllabus"
+  ON syllabus_nodes FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+CREATE POLICY "Everyone can read section syllabus mapping"
+  ON section_syllabus_nodes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Content staff can manage section syllabus mapping"
+  ON section_syllabus_nodes FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+CREATE POLICY "Everyone can read question syllabus mapping"
+  ON question_syllabus_nodes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Content staff can manage question syllabus mapping"
+  ON question_syllabus_nodes FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+CREATE POLICY "Everyone can read tags"
+  ON tags FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Content staff can manage tags"
+  ON tags FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+CREATE POLICY "Everyone can read section tags"
+  ON section_tags FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Content staff can manage section tags"
+  ON section_tags FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+CREATE POLICY "Everyone can read question tags"
+  ON question_tags FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Content staff can manage question tags"
+  ON question_tags FOR ALL
+  TO authenticated
+  USING (has_permission('manage_content'))
+  WITH CHECK (has_permission('manage_content'));
+
+-- Returns the ids of the given tag names, creating any that don't exist yet
+CREATE OR REPLACE FUNCTION ensure_tags(p_names text[])
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Not allowed to manage tags';
+  END IF;
+
+  INSERT INTO tags (name)
+  SELECT DISTINCT ON (lower(btrim(n))) btrim(n)
+  FROM unnest(p_names) AS n
+  WHERE btrim(n) <> ''
+  ON CONFLICT (lower(name)) DO NOTHING;
+
+  RETURN QUERY
+    SELECT t.id FROM tags t
+    WHERE lower(t.name) IN (SELECT lower(btrim(n)) FROM unnest(p_names) AS n);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_section_mapping(p_section_id uuid, p_node_ids uuid[], p_tags text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Not allowed to manage content';
+  END IF;
+
+  DELETE FROM section_syllabus_nodes WHERE section_id = p_section_id;
+  INSERT INTO section_syllabus_nodes (section_id, node_id)
+  SELECT DISTINCT p_section_id, unnest(p_node_ids);
+
+  DELETE FROM section_tags WHERE section_id = p_section_id;
+  INSERT INTO section_tags (section_id, tag_id)
+  SELECT p_section_id, tag_id FROM ensure_tags(p_tags) AS tag_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_question_mapping(p_question_id uuid, p_node_ids uuid[], p_tags text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Not allowed to manage content';
+  END IF;
+
+  DELETE FROM question_syllabus_nodes WHERE question_id = p_question_id;
+  INSERT INTO question_syllabus_nodes (question_id, node_id)
+  SELECT DISTINCT p_question_id, unnest(p_node_ids);
+
+  DELETE FROM question_tags WHERE question_id = p_question_id;
+  INSERT INTO question_tags (question_id, tag_id)
+  SELECT p_question_id, tag_id FROM ensure_tags(p_tags) AS tag_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_syllabus_coverage()
+RETURNS TABLE (
+  node_id uuid,
+  section_count integer,
+  completed_count integer,
+  answered_count integer,
+  correct_count integer
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT id AS node_id, id AS descendant_id FROM syllabus_nodes
+    UNION ALL
+    SELECT st.node_id, n.id
+    FROM subtree st
+    JOIN syllabus_nodes n ON n.parent_id = st.descendant_id
+  ),
+  node_sections AS (
+    SELECT DISTINCT st.node_id, ssn.section_id
+    FROM subtree st
+    JOIN section_syllabus_nodes ssn ON ssn.node_id = st.descendant_id
+    JOIN sections s ON s.id = ssn.section_id
+    JOIN modules m ON m.id = s.module_id
+    WHERE m.is_active AND can_access_subject(m.subject_id)
+  ),
+  node_questions AS (
+    SELECT ns.node_id, q.id AS question_id
+    FROM node_sections ns
+    JOIN questions q ON q.section_id = ns.section_id
+    UNION
+    SELECT st.node_id, qsn.question_id
+    FROM subtree st
+    JOIN question_syllabus_nodes qsn ON qsn.node_id = st.descendant_id
+  ),
+  my_answers AS (
+    SELECT aa.question_id, aa.is_correct
+    FROM attempt_answers aa
+    JOIN test_attempts ta ON ta.id = aa.attempt_id
+    WHERE ta.user_id = auth.uid() AND aa.selected_answer IS NOT NULL
+    UNION ALL
+    SELECT pa.question_id, pa.is_correct
+    FROM practice_test_answers pa
+    JOIN practice_tests pt ON pt.id = pa.practice_test_id
+    WHERE pt.user_id = auth.uid() AND pa.selected_answer IS NOT NULL
+    UNION ALL
+    SELECT ma.question_id, ma.is_correct
+    FROM mock_attempt_answers ma
+    JOIN mock_attempts mat ON mat.id = ma.attempt_id
+    JOIN mock_tests mt ON mt.id = mat.mock_test_id
+    WHERE mat.user_id = auth.uid() AND ma.selected_answer IS NOT NULL AND mt.closes_at <= now()
+  )
+  SELECT
+    n.id,
+    (SELECT COUNT(*) FROM node_sections ns WHERE ns.node_id = n.id)::integer,
+    (SELECT COUNT(*)
+      FROM node_sections ns
+      JOIN user_section_progress usp ON usp.section_id = ns.section_id
+      WHERE ns.node_id = n.id AND usp.user_id = auth.uid() AND usp.is_completed)::integer,
+    (SELECT COUNT(*)
+      FROM node_questions nq
+      JOIN my_answers a ON a.question_id = nq.question_id
+      WHERE nq.node_id = n.id)::integer,
+    (SELECT COUNT(*)
+      FROM node_questions nq
+      JOIN my_answers a ON a.question_id = nq.question_id
+      WHERE nq.node_id = n.id AND a.is_correct)::integer
+  FROM syllabus_nodes n;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_section_mapping(uuid, uuid[], text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_question_mapping(uuid, uuid[], text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_syllabus_coverage() TO authenticated;
+
+-- Official Mains General Studies syllabus: papers, then areas, then topics
+INSERT INTO syllabus_nodes (name, description, order_index) VALUES
+  ('GS Paper I', 'Indian Heritage and Culture, History and Geography of the World and Society', 0),
+  ('GS Paper II', 'Governance, Constitution, Polity, Social Justice and International Relations', 1),
+  ('GS Paper III', 'Technology, Economic Development, Bio-diversity, Environment, Security and Disaster Management', 2),
+  ('GS Paper IV', 'Ethics, Integrity and Aptitude', 3)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO syllabus_nodes (parent_id, name, order_index)
+SELECT p.id, area.name, area.order_index
+FROM (VALUES
+  ('GS Paper I', 'Indian Heritage and Culture', 0),
+  ('GS Paper I', 'Modern Indian History', 1),
+  ('GS Paper I', 'World History', 2),
+  ('GS Paper I', 'Indian Society', 3),
+  ('GS Paper I', 'Geography', 4),
+  ('GS Paper II', 'Polity', 0),
+  ('GS Paper II', 'Governance', 1),
+  ('GS Paper II', 'Social Justice', 2),
+  ('GS Paper II', 'International Relations', 3),
+  ('GS Paper III', 'Economy', 0),
+  ('GS Paper III', 'Agriculture', 1),
+  ('GS Paper III', 'Science and Technology', 2),
+  ('GS Paper III', 'Environment', 3),
+  ('GS Paper III', 'Disaster Management', 4),
+  ('GS Paper III', 'Internal Security', 5),
+  ('GS Paper IV', 'Ethics and Human Interface', 0),
+  ('GS Paper IV', 'Attitude and Aptitude', 1),
+  ('GS Paper IV', 'Emotional Intelligence', 2),
+  ('GS Paper IV', 'Moral Thinkers and Philosophers', 3),
+  ('GS Paper IV', 'Public Service Values and Ethics in Administration', 4),
+  ('GS Paper IV', 'Probity in Governance', 5),
+  ('GS Paper IV', 'Case Studies', 6)
+) AS area(paper, name, order_index)
+JOIN syllabus_nodes p ON p.name = area.paper AND p.parent_id IS NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO syllabus_nodes (parent_id, name, order_index)
+SELECT a.id, topic.name, topic.order_index
+FROM (VALUES
+  ('GS Paper I', 'Indian Heritage and Culture', 'Art Forms', 0),
+  ('GS Paper I', 'Indian Heritage and Culture', 'Literature', 1),
+  ('GS Paper I', 'Indian Heritage and Culture', 'Architecture', 2),
+  ('GS Paper I', 'Modern Indian History', 'Eighteenth Century to the Present', 0),
+  ('GS Paper I', 'Modern Indian History', 'The Freedom Struggle', 1),
+  ('GS Paper I', 'Modern Indian History', 'Post-independence Consolidation', 2),
+  ('GS Paper I', 'World History', 'Industrial Revolution and World Wars', 0),
+  ('GS Paper I', 'World History', 'Colonization and Decolonization', 1),
+  ('GS Paper I', 'World History', 'Political Philosophies', 2),
+  ('GS Paper I', 'Indian Society', 'Diversity of India', 0),
+  ('GS Paper I', 'Indian Society', 'Role of Women and Women''s Organization', 1),
+  ('GS Paper I', 'Indian Society', 'Population, Poverty and Urbanization', 2),
+  ('GS Paper I', 'Indian Society', 'Effects of Globalization', 3),
+  ('GS Paper I', 'Indian Society', 'Communalism, Regionalism and Secularism', 4),
+  ('GS Paper I', 'Geography', 'Physical Geography of the World', 0),
+  ('GS Paper I', 'Geography', 'Distribution of Natural Resources', 1),
+  ('GS Paper I', 'Geography', 'Location of Industries', 2),
+  ('GS Paper I', 'Geography', 'Geophysical Phenomena', 3),
+  ('GS Paper II', 'Polity', 'Historical Underpinnings and Evolution', 0),
+  ('GS Paper II', 'Polity', 'Fundamental Rights', 1),
+  ('GS Paper II', 'Polity', 'Directive Principles and Fundamental Duties', 2),
+  ('GS Paper II', 'Polity', 'Federal Structure and Local Government', 3),
+  ('GS Paper II', 'Polity', 'Separation of Powers and Dispute Redressal', 4),
+  ('GS Paper II', 'Polity', 'Parliament and State Legislatures', 5),
+  ('GS Paper II', 'Polity', 'Executive and Judiciary', 6),
+  ('GS Paper II', 'Polity', 'Representation of People''s Act', 7),
+  ('GS Paper II', 'Polity', 'Constitutional Bodies', 8),
+  ('GS Paper II', 'Polity', 'Statutory, Regulatory and Quasi-judicial Bodies', 9),
+  ('GS Paper II', 'Governance', 'Government Policies and Interventions', 0),
+  ('GS Paper II', 'Governance', 'Development Processes and NGOs', 1),
+  ('GS Paper II', 'Governance', 'Transparency, Accountability and e-Governance', 2),
+  ('GS Paper II', 'Governance', 'Role of Civil Services', 3),
+  ('GS Paper II', 'Social Justice', 'Welfare Schemes for Vulnerable Sections', 0),
+  ('GS Paper II', 'Social Justice', 'Health, Education and Human Resources', 1),
+  ('GS Paper II', 'Social Justice', 'Poverty and Hunger', 2),
+  ('GS Paper II', 'International Relations', 'India and its Neighbourhood', 0),
+  ('GS Paper II', 'International Relations', 'Bilateral, Regional and Global Groupings', 1),
+  ('GS Paper II', 'International Relations', 'Policies of Developed and Developing Countries', 2),
+  ('GS Paper II', 'International Relations', 'International Institutions', 3),
+  ('GS Paper III', 'Economy', 'Planning, Growth and Employment', 0),
+  ('GS Paper III', 'Economy', 'Inclusive Growth', 1),
+  ('GS Paper III', 'Economy', 'Government Budgeting', 2),
+  ('GS Paper III', 'Economy', 'Effects of Liberalization', 3),
+  ('GS Paper III', 'Economy', 'Infrastructure', 4),
+  ('GS Paper III', 'Economy', 'Investment Models', 5),
+  ('GS Paper III', 'Agriculture', 'Cropping Patterns and Irrigation', 0),
+  ('GS Paper III', 'Agriculture', 'Farm Subsidies and MSP', 1),
+  ('GS Paper III', 'Agriculture', 'Food Processing', 2),
+  ('GS Paper III', 'Agriculture', 'Land Reforms', 3),
+  ('GS Paper III', 'Science and Technology', 'Developments and their Applications', 0),
+  ('GS Paper III', 'Science and Technology', 'Achievements of Indians', 1),
+  ('GS Paper III', 'Science and Technology', 'IT, Space, Nano-technology and Bio-technology', 2),
+  ('GS Paper III', 'Science and Technology', 'Intellectual Property Rights', 3),
+  ('GS Paper III', 'Environment', 'Conservation', 0),
+  ('GS Paper III', 'Environment', 'Pollution and Degradation', 1),
+  ('GS Paper III', 'Environment', 'Environmental Impact Assessment', 2),
+  ('GS Paper III', 'Internal Security', 'Extremism and Development', 0),
+  ('GS Paper III', 'Internal Security', 'Challenges through Communication Networks', 1),
+  ('GS Paper III', 'Internal Security', 'Cyber Security and Money Laundering', 2),
+  ('GS Paper III', 'Internal Security', 'Border Management and Organized Crime', 3),
+  ('GS Paper III', 'Internal Security', 'Security Forces and their Mandate', 4)
+) AS topic(paper, area, name, order_index)
+JOIN syllabus_nodes p ON p.name = topic.paper AND p.parent_id IS NULL
+JOIN syllabus_nodes a ON a.name = topic.area AND a.parent_id = p.id
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,49 @@
+/*
+  # Section Completion Through a Function
+
+  1. Functions
+    - `complete_section` - Marks a source, resource or PYQ section as completed
+      for the caller
+
+  2. Security
+    - Students can no longer write their own `user_section_progress` rows, so
+      test scores, attempt counts and review status only change through
+      `submit_test`, `submit_answer` and evaluation
+*/
+
+DROP POLICY IF EXISTS "Users can manage own section progress" ON user_section_progress;
+
+CREATE OR REPLACE FUNCTION complete_section(p_section_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tests are completed by passing and mains sections by evaluation
+  IF NOT EXISTS (
+    SELECT 1
+    FROM sections s
+    JOIN modules m ON m.id = s.module_id
+    WHERE s.id = p_section_id
+    AND s.type IN ('source', 'resource', 'pyq')
+    AND can_access_subject(m.subject_id)
+  ) THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, completed_at)
+  VALUES (v_user_id, p_section_id, true, now())
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = true,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_section(uuid) TO authenticated;
@@ -0,0 +1,103 @@
+/*
+  # Withhold the Answer Key Until a Test Is Finished
+
+  1. Functions
+    - `can_view_test_key` - Whether the caller may see the answer key of a test
+      section: once they have passed it or used all of its attempts
+    - `get_attempt_review` returns `key_released`, and leaves `correct_answer`
+      and `explanation` empty while the key is withheld
+
+  2. Notes
+    - With more than one attempt allowed, the review of an early attempt used
+      to reveal the answers for the next one
+    - Whether each answer was right is still shown
+*/
+
+CREATE OR REPLACE FUNCTION can_view_test_key(p_section_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_permission('manage_content')
+  OR EXISTS (
+    SELECT 1 FROM user_section_progress usp
+    WHERE usp.section_id = p_section_id
+    AND usp.user_id = auth.uid()
+    AND usp.is_completed
+  )
+  OR EXISTS (
+    SELECT 1 FROM sections s
+    WHERE s.id = p_section_id
+    AND s.max_attempts IS NOT NULL
+    AND (
+      SELECT COUNT(*) FROM test_attempts ta
+      WHERE ta.section_id = s.id AND ta.user_id = auth.uid()
+    ) >= s.max_attempts
+  );
+$$;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_attempt_review(uuid);
+
+CREATE FUNCTION get_attempt_review(p_attempt_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text,
+  key_released boolean
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    CASE WHEN k.released THEN q.correct_answer END,
+    CASE WHEN k.released THEN q.explanation END,
+    q.order_index,
+    aa.selected_answer,
+    aa.is_correct,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url,
+    q.question_type,
+    q.statements,
+    q.match_pairs,
+    aa.answer_text,
+    k.released
+  FROM attempt_answers aa
+  JOIN test_attempts ta ON ta.id = aa.attempt_id
+  JOIN questions q ON q.id = aa.question_id
+  CROSS JOIN LATERAL (SELECT can_view_test_key(ta.section_id) AS released) k
+  WHERE aa.attempt_id = p_attempt_id
+  AND ta.user_id = auth.uid()
+  ORDER BY q.order_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_view_test_key(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_attempt_review(uuid) TO authenticated;
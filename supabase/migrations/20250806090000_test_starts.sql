@@ -0,0 +1,248 @@
+/*
+  # Server-Timed Tests
+
+  1. New Tables
+    - `test_starts` - When the caller started the test they are sitting now; one
+      per student and test section, removed when the attempt is submitted
+
+  2. Functions
+    - `start_test` - Starts (or resumes) the caller's attempt and returns its
+      deadline
+    - `submit_test` no longer takes the start time from the browser; it uses the
+      recorded start, and rejects timed attempts submitted after the deadline
+
+  3. Notes
+    - A timed start is kept until it expires, so starting over doesn't reset
+      the clock; an untimed one is replaced unless the student resumes it
+    - Two minutes of grace after the deadline cover slow networks, as for mock
+      tests
+*/
+
+CREATE TABLE IF NOT EXISTS test_starts (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  section_id uuid NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, section_id)
+);
+
+-- Only written through start_test and submit_test
+ALTER TABLE test_starts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION start_test(p_section_id uuid, p_resume boolean DEFAULT false)
+RETURNS TABLE (started_at timestamptz, deadline timestamptz, resumed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_section sections%ROWTYPE;
+  v_start test_starts%ROWTYPE;
+  v_limit interval;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT s.* INTO v_section
+  FROM sections s
+  JOIN modules m ON m.id = s.module_id
+  WHERE s.id = p_section_id
+  AND s.type = 'test'
+  AND can_access_subject(m.subject_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  v_limit := make_interval(mins => v_section.time_limit_minutes);
+
+  SELECT * INTO v_start
+  FROM test_starts ts
+  WHERE ts.user_id = v_user_id AND ts.section_id = p_section_id
+  FOR UPDATE;
+
+  IF FOUND AND (
+    (v_limit IS NULL AND p_resume)
+    OR now() <= v_start.started_at + v_limit + interval '2 minutes'
+  ) THEN
+    RETURN QUERY SELECT v_start.started_at, v_start.started_at + v_limit, true;
+    RETURN;
+  END IF;
+
+  INSERT INTO test_starts (user_id, section_id)
+  VALUES (v_user_id, p_section_id)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET started_at = EXCLUDED.started_at
+  RETURNING * INTO v_start;
+
+  RETURN QUERY SELECT v_start.started_at, v_start.started_at + v_limit, false;
+END;
+$$;
+
+-- The start time parameter is gone, so the function has to be recreated
+DROP FUNCTION IF EXISTS submit_test(uuid, jsonb, timestamptz, jsonb, jsonb);
+
+CREATE FUNCTION submit_test(
+  p_section_id uuid,
+  p_answers jsonb,
+  p_question_times jsonb DEFAULT NULL,
+  p_flagged_question_ids jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  attempt_id uuid,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric,
+  passed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_section sections%ROWTYPE;
+  v_started_at timestamptz;
+  v_question_count integer;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_passed boolean;
+  v_attempt_id uuid;
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_section
+  FROM sections s
+  WHERE s.id = p_section_id AND s.type = 'test';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  DELETE FROM test_starts ts
+  WHERE ts.user_id = v_user_id AND ts.section_id = p_section_id
+  RETURNING ts.started_at INTO v_started_at;
+
+  IF v_started_at IS NULL THEN
+    RAISE EXCEPTION 'Start the test before submitting it';
+  END IF;
+
+  -- Raising rolls back the delete, so start_test replaces the expired start
+  IF v_submitted_at > v_started_at + make_interval(mins => v_section.time_limit_minutes) + interval '2 minutes' THEN
+    RAISE EXCEPTION 'Time is up for this test';
+  END IF;
+
+  -- Only objective questions are graded; descriptive answers are stored as written
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive'),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer = normalize_choice_answer(p_answers ->> q.id::text)),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer <> normalize_choice_answer(p_answers ->> q.id::text))
+  INTO v_question_count, v_total, v_correct, v_wrong
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'This test has no questions';
+  END IF;
+
+  v_skipped := v_total - v_correct - v_wrong;
+  v_net := v_correct * v_section.marks_per_correct
+    - v_wrong * v_section.negative_marks
+    + v_skipped * v_section.unanswered_marks;
+  v_max := v_total * v_section.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+  v_passed := v_total = 0 OR v_score >= v_section.pass_percentage;
+
+  -- enforce_attempt_limits still applies to this insert
+  INSERT INTO test_attempts (
+    user_id, section_id, score, correct_count, wrong_count, skipped_count, total_questions,
+    net_marks, max_marks, duration_seconds, started_at, submitted_at
+  )
+  VALUES (
+    v_user_id,
+    p_section_id,
+    v_score,
+    v_correct,
+    v_wrong,
+    v_skipped,
+    v_total,
+    v_net,
+    v_max,
+    GREATEST(EXTRACT(EPOCH FROM v_submitted_at - v_started_at), 0)::integer,
+    v_started_at,
+    v_submitted_at
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO attempt_answers (attempt_id, question_id, selected_answer, answer_text, is_correct, time_spent_seconds)
+  SELECT
+    v_attempt_id,
+    q.id,
+    CASE WHEN q.question_type <> 'descriptive' THEN normalize_choice_answer(p_answers ->> q.id::text) END,
+    CASE WHEN q.question_type = 'descriptive' THEN NULLIF(btrim(p_answers ->> q.id::text), '') END,
+    q.question_type <> 'descriptive' AND q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM questions q
+  WHERE q.section_id = p_section_id;
+
+  -- Flagged first, so a question that was also answered wrong ends up due today
+  IF jsonb_typeof(p_flagged_question_ids) = 'array' THEN
+    PERFORM add_revision_cards(
+      v_user_id,
+      ARRAY(
+        SELECT q.id
+        FROM questions q
+        WHERE q.section_id = p_section_id
+        AND q.id::text IN (SELECT jsonb_array_elements_text(p_flagged_question_ids))
+      ),
+      'flagged'
+    );
+  END IF;
+
+  PERFORM add_revision_cards(
+    v_user_id,
+    ARRAY(
+      SELECT aa.question_id
+      FROM attempt_answers aa
+      WHERE aa.attempt_id = v_attempt_id
+      AND aa.selected_answer IS NOT NULL
+      AND NOT aa.is_correct
+    ),
+    'incorrect'
+  );
+
+  -- A pass is never undone by a later, lower attempt
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, score, attempts, completed_at)
+  VALUES (v_user_id, p_section_id, v_passed, round(v_score)::integer, 1, CASE WHEN v_passed THEN v_submitted_at END)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + 1,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'test_submitted');
+
+  RETURN QUERY SELECT v_attempt_id, v_score, v_correct, v_wrong, v_skipped, v_total, v_net, v_max, v_passed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_test(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_test(uuid, jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,79 @@
+/*
+  # Batch-Scoped Answer Writing
+
+  1. Functions
+    - `submit_answer` only accepts answer writing sections in a subject the
+      caller's batch can access, like tests and their reviews
+*/
+
+CREATE OR REPLACE FUNCTION submit_answer(
+  p_section_id uuid,
+  p_answer_text text,
+  p_file_path text DEFAULT NULL,
+  p_file_name text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_word_limit integer;
+  v_answer_text text := NULLIF(btrim(p_answer_text), '');
+  v_word_count integer := 0;
+  v_submission_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT s.word_limit
+  INTO v_word_limit
+  FROM sections s
+  JOIN modules m ON m.id = s.module_id
+  WHERE s.id = p_section_id
+  AND s.type = 'mains'
+  AND can_access_subject(m.subject_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Answer writing section not found';
+  END IF;
+
+  IF v_answer_text IS NULL AND p_file_path IS NULL THEN
+    RAISE EXCEPTION 'Type an answer or upload a file';
+  END IF;
+
+  IF p_file_path IS NOT NULL AND split_part(p_file_path, '/', 1) <> v_user_id::text THEN
+    RAISE EXCEPTION 'Invalid answer file';
+  END IF;
+
+  IF v_answer_text IS NOT NULL THEN
+    v_word_count := array_length(regexp_split_to_array(v_answer_text, '\s+'), 1);
+  END IF;
+
+  IF v_word_limit IS NOT NULL AND v_word_count > v_word_limit THEN
+    RAISE EXCEPTION 'Answer is % words; the limit is %', v_word_count, v_word_limit;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM answer_submissions a
+    WHERE a.user_id = v_user_id
+    AND a.section_id = p_section_id
+    AND a.status <> 'returned'
+  ) THEN
+    RAISE EXCEPTION 'Your previous answer is still awaiting evaluation';
+  END IF;
+
+  INSERT INTO answer_submissions (user_id, section_id, answer_text, word_count, file_path, file_name)
+  VALUES (v_user_id, p_section_id, v_answer_text, v_word_count, p_file_path, p_file_name)
+  RETURNING id INTO v_submission_id;
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'answer_submitted');
+
+  RETURN v_submission_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_answer(uuid, text, text, text) TO authenticated;
@@ -0,0 +1,300 @@
+/*
+  # Keep Mock Test Questions Secret Until the Window Closes
+
+  1. Views
+    - `student_questions` leaves out questions held for a mock test that hasn't
+      closed, so they don't show up in sections, practice tests, revision or
+      the PYQ browser
+
+  2. Functions
+    - `submit_test` grades a section test without the questions it hides
+    - `get_attempt_review`, `get_pyq_answer` and `check_revision_answer` only
+      return a question's answer key when `can_view_question_key` allows it
+
+  3. Notes
+    - Mock tests draw on the same questions as the rest of the app, so the
+      paper and its key used to be visible while other students sat it
+    - A PYQ in a test section is now revealed on the same terms as the test's
+      own review, rather than after any submission
+*/
+
+-- Same columns, so the view can be replaced in place
+CREATE OR REPLACE VIEW student_questions AS
+  SELECT
+    q.id, q.section_id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.order_index,
+    q.image_url, q.option_a_image_url, q.option_b_image_url, q.option_c_image_url, q.option_d_image_url,
+    q.question_type, q.statements, q.match_pairs,
+    q.is_pyq, q.pyq_year, q.pyq_paper, q.pyq_question_number, q.pyq_source
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  JOIN modules m ON m.id = s.module_id
+  WHERE can_access_subject(m.subject_id)
+  AND NOT held_for_mock_test(q.id);
+
+CREATE OR REPLACE FUNCTION get_pyq_answer(p_question_id uuid)
+RETURNS TABLE (correct_answer text, explanation text)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.correct_answer, q.explanation
+  FROM questions q
+  JOIN sections s ON s.id = q.section_id
+  JOIN modules m ON m.id = s.module_id
+  WHERE q.id = p_question_id
+  AND q.is_pyq
+  AND can_access_subject(m.subject_id)
+  AND can_view_question_key(q.id);
+$$;
+
+-- Whether the answer was right is still shown; the key waits for the question to be released
+CREATE OR REPLACE FUNCTION check_revision_answer(p_card_id uuid, p_answer text)
+RETURNS TABLE (is_correct boolean, correct_answer text, explanation text)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.correct_answer = COALESCE(normalize_choice_answer(p_answer), ''),
+    CASE WHEN can_view_question_key(q.id) THEN q.correct_answer END,
+    CASE WHEN can_view_question_key(q.id) THEN q.explanation END
+  FROM revision_cards rc
+  JOIN questions q ON q.id = rc.question_id
+  WHERE rc.id = p_card_id
+  AND rc.user_id = auth.uid();
+$$;
+
+
+CREATE OR REPLACE FUNCTION get_attempt_review(p_attempt_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text,
+  key_released boolean
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    CASE WHEN k.released THEN q.correct_answer END,
+    CASE WHEN k.released THEN q.explanation END,
+    q.order_index,
+    aa.selected_answer,
+    aa.is_correct,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url,
+    q.question_type,
+    q.statements,
+    q.match_pairs,
+    aa.answer_text,
+    k.released
+  FROM attempt_answers aa
+  JOIN test_attempts ta ON ta.id = aa.attempt_id
+  JOIN questions q ON q.id = aa.question_id
+  JOIN sections s ON s.id = ta.section_id
+  JOIN modules m ON m.id = s.module_id
+  CROSS JOIN LATERAL (SELECT can_view_question_key(q.id) AS released) k
+  WHERE aa.attempt_id = p_attempt_id
+  AND ta.user_id = auth.uid()
+  AND can_access_subject(m.subject_id)
+  ORDER BY q.order_index;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_test(
+  p_section_id uuid,
+  p_answers jsonb,
+  p_question_times jsonb DEFAULT NULL,
+  p_flagged_question_ids jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  attempt_id uuid,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric,
+  passed boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_section sections%ROWTYPE;
+  v_started_at timestamptz;
+  v_question_count integer;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_passed boolean;
+  v_attempt_id uuid;
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT s.* INTO v_section
+  FROM sections s
+  JOIN modules m ON m.id = s.module_id
+  WHERE s.id = p_section_id
+  AND s.type = 'test'
+  AND can_access_subject(m.subject_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test not found';
+  END IF;
+
+  DELETE FROM test_starts ts
+  WHERE ts.user_id = v_user_id AND ts.section_id = p_section_id
+  RETURNING ts.started_at INTO v_started_at;
+
+  IF v_started_at IS NULL THEN
+    RAISE EXCEPTION 'Start the test before submitting it';
+  END IF;
+
+  -- Raising rolls back the delete, so start_test replaces the expired start
+  IF v_submitted_at > v_started_at + make_interval(mins => v_section.time_limit_minutes) + interval '2 minutes' THEN
+    RAISE EXCEPTION 'Time is up for this test';
+  END IF;
+
+  -- Only objective questions are graded; descriptive answers are stored as written.
+  -- Questions held for a mock test aren't shown to students, so they aren't graded either
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive'),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer = normalize_choice_answer(p_answers ->> q.id::text)),
+    COUNT(*) FILTER (WHERE q.question_type <> 'descriptive' AND q.correct_answer <> normalize_choice_answer(p_answers ->> q.id::text))
+  INTO v_question_count, v_total, v_correct, v_wrong
+  FROM questions q
+  WHERE q.section_id = p_section_id
+  AND NOT held_for_mock_test(q.id);
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'This test has no questions';
+  END IF;
+
+  v_skipped := v_total - v_correct - v_wrong;
+  v_net := v_correct * v_section.marks_per_correct
+    - v_wrong * v_section.negative_marks
+    + v_skipped * v_section.unanswered_marks;
+  v_max := v_total * v_section.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+  v_passed := v_total = 0 OR v_score >= v_section.pass_percentage;
+
+  -- enforce_attempt_limits still applies to this insert
+  INSERT INTO test_attempts (
+    user_id, section_id, score, correct_count, wrong_count, skipped_count, total_questions,
+    net_marks, max_marks, duration_seconds, started_at, submitted_at
+  )
+  VALUES (
+    v_user_id,
+    p_section_id,
+    v_score,
+    v_correct,
+    v_wrong,
+    v_skipped,
+    v_total,
+    v_net,
+    v_max,
+    GREATEST(EXTRACT(EPOCH FROM v_submitted_at - v_started_at), 0)::integer,
+    v_started_at,
+    v_submitted_at
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO attempt_answers (attempt_id, question_id, selected_answer, answer_text, is_correct, time_spent_seconds)
+  SELECT
+    v_attempt_id,
+    q.id,
+    CASE WHEN q.question_type <> 'descriptive' THEN normalize_choice_answer(p_answers ->> q.id::text) END,
+    CASE WHEN q.question_type = 'descriptive' THEN NULLIF(btrim(p_answers ->> q.id::text), '') END,
+    q.question_type <> 'descriptive' AND q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM questions q
+  WHERE q.section_id = p_section_id
+  AND NOT held_for_mock_test(q.id);
+
+  -- Flagged first, so a question that was also answered wrong ends up due today
+  IF jsonb_typeof(p_flagged_question_ids) = 'array' THEN
+    PERFORM add_revision_cards(
+      v_user_id,
+      ARRAY(
+        SELECT q.id
+        FROM questions q
+        WHERE q.section_id = p_section_id
+        AND q.id::text IN (SELECT jsonb_array_elements_text(p_flagged_question_ids))
+      ),
+      'flagged'
+    );
+  END IF;
+
+  PERFORM add_revision_cards(
+    v_user_id,
+    ARRAY(
+      SELECT aa.question_id
+      FROM attempt_answers aa
+      WHERE aa.attempt_id = v_attempt_id
+      AND aa.selected_answer IS NOT NULL
+      AND NOT aa.is_correct
+    ),
+    'incorrect'
+  );
+
+  -- A pass is never undone by a later, lower attempt
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, score, attempts, completed_at)
+  VALUES (v_user_id, p_section_id, v_passed, round(v_score)::integer, 1, CASE WHEN v_passed THEN v_submitted_at END)
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = user_section_progress.is_completed OR EXCLUDED.is_completed,
+    score = GREATEST(user_section_progress.score, EXCLUDED.score),
+    attempts = user_section_progress.attempts + 1,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, p_section_id, 'test_submitted');
+
+  RETURN QUERY SELECT v_attempt_id, v_score, v_correct, v_wrong, v_skipped, v_total, v_net, v_max, v_passed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_pyq_answer(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_revision_answer(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_attempt_review(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_test(uuid, jsonb, jsonb, jsonb) TO authenticated;
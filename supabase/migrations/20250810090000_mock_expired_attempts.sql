@@ -0,0 +1,116 @@
+/*
+  # Close Mock Attempts That Ran Out
+
+  1. Functions
+    - `submit_mock_test` no longer rejects a submission after the deadline and
+      its grace; it closes the attempt with every question unanswered
+
+  2. Notes
+    - A late submission used to be refused, leaving the attempt open for good:
+      no result, no rank and no answer key
+    - Answers that arrive late are ignored, so a slow or blocked connection
+      can't buy extra time
+*/
+
+CREATE OR REPLACE FUNCTION submit_mock_test(
+  p_mock_test_id uuid,
+  p_answers jsonb,
+  p_question_times jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_mock mock_tests%ROWTYPE;
+  v_attempt mock_attempts%ROWTYPE;
+  v_deadline timestamptz;
+  v_total integer;
+  v_correct integer;
+  v_wrong integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM mock_attempts ma
+  WHERE ma.mock_test_id = p_mock_test_id AND ma.user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Start the mock test before submitting it';
+  END IF;
+
+  IF v_attempt.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already submitted this mock test';
+  END IF;
+
+  SELECT * INTO v_mock FROM mock_tests mt WHERE mt.id = p_mock_test_id;
+
+  v_deadline := LEAST(v_attempt.started_at + make_interval(mins => v_mock.duration_minutes), v_mock.closes_at);
+  IF v_submitted_at > v_deadline + interval '2 minutes' THEN
+    p_answers := '{}'::jsonb;
+  END IF;
+
+  INSERT INTO mock_attempt_answers (attempt_id, question_id, selected_answer, is_correct, time_spent_seconds)
+  SELECT
+    v_attempt.id,
+    q.id,
+    normalize_choice_answer(p_answers ->> q.id::text),
+    q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM mock_test_questions mtq
+  JOIN questions q ON q.id = mtq.question_id
+  WHERE mtq.mock_test_id = p_mock_test_id;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE maa.is_correct),
+    COUNT(*) FILTER (WHERE maa.selected_answer IS NOT NULL AND NOT maa.is_correct)
+  INTO v_total, v_correct, v_wrong
+  FROM mock_attempt_answers maa
+  WHERE maa.attempt_id = v_attempt.id;
+
+  v_net := v_correct * v_mock.marks_per_correct - v_wrong * v_mock.negative_marks;
+  v_max := v_total * v_mock.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+
+  UPDATE mock_attempts
+  SET
+    score = v_score,
+    correct_count = v_correct,
+    wrong_count = v_wrong,
+    skipped_count = v_total - v_correct - v_wrong,
+    total_questions = v_total,
+    net_marks = v_net,
+    max_marks = v_max,
+    duration_seconds = GREATEST(EXTRACT(EPOCH FROM LEAST(v_submitted_at, v_deadline) - v_attempt.started_at), 0)::integer,
+    submitted_at = v_submitted_at
+  WHERE id = v_attempt.id;
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, NULL, 'mock_submitted');
+
+  RETURN QUERY SELECT v_score, v_correct, v_wrong, v_total - v_correct - v_wrong, v_total, v_net, v_max;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_mock_test(uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,59 @@
+/*
+  # Study Activity Recorded Only by the Server
+
+  1. Functions
+    - `complete_section` records 'section_completed' activity the first time a
+      section is completed, as `submit_test` does for 'test_submitted'
+
+  2. Security
+    - Students can no longer insert `study_activity` rows, so streaks can't be
+      invented or backdated from the browser
+*/
+
+DROP POLICY IF EXISTS "Users can record own activity" ON study_activity;
+
+CREATE OR REPLACE FUNCTION complete_section(p_section_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_was_completed boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tests are completed by passing and mains sections by evaluation
+  IF NOT EXISTS (
+    SELECT 1
+    FROM sections s
+    JOIN modules m ON m.id = s.module_id
+    WHERE s.id = p_section_id
+    AND s.type IN ('source', 'resource', 'pyq')
+    AND can_access_subject(m.subject_id)
+  ) THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  SELECT usp.is_completed INTO v_was_completed
+  FROM user_section_progress usp
+  WHERE usp.user_id = v_user_id AND usp.section_id = p_section_id;
+
+  INSERT INTO user_section_progress (user_id, section_id, is_completed, completed_at)
+  VALUES (v_user_id, p_section_id, true, now())
+  ON CONFLICT (user_id, section_id) DO UPDATE SET
+    is_completed = true,
+    completed_at = COALESCE(user_section_progress.completed_at, EXCLUDED.completed_at);
+
+  -- Completing the same section again doesn't count as another day's study
+  IF NOT COALESCE(v_was_completed, false) THEN
+    INSERT INTO study_activity (user_id, section_id, activity_type)
+    VALUES (v_user_id, p_section_id, 'section_completed');
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_section(uuid) TO authenticated;
@@ -0,0 +1,243 @@
+/*
+  # Close Mock Attempts That Were Never Submitted
+
+  1. Functions
+    - `close_expired_mock_attempts` - Closes the attempts of a mock test whose
+      deadline and grace passed without a submission, with every question
+      unanswered, as if they had been submitted when time ran out
+    - `get_mock_leaderboard`, `get_mock_subject_scores` and `get_mock_review`
+      close expired attempts before reading results
+
+  2. Notes
+    - A student who closed the tab and never came back used to keep an open
+      attempt for good: no score, no rank, and left out of the percentiles
+    - Descriptive questions aren't graded, as in `submit_test`
+*/
+
+CREATE OR REPLACE FUNCTION close_expired_mock_attempts(p_mock_test_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mock mock_tests%ROWTYPE;
+  v_attempt mock_attempts%ROWTYPE;
+  v_deadline timestamptz;
+  v_total integer;
+BEGIN
+  SELECT * INTO v_mock FROM mock_tests mt WHERE mt.id = p_mock_test_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Same deadline and grace as submit_mock_test; attempts being submitted right now are skipped
+  FOR v_attempt IN
+    SELECT ma.*
+    FROM mock_attempts ma
+    WHERE ma.mock_test_id = p_mock_test_id
+    AND ma.submitted_at IS NULL
+    AND now() > LEAST(ma.started_at + make_interval(mins => v_mock.duration_minutes), v_mock.closes_at) + interval '2 minutes'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_deadline := LEAST(v_attempt.started_at + make_interval(mins => v_mock.duration_minutes), v_mock.closes_at);
+
+    INSERT INTO mock_attempt_answers (attempt_id, question_id, selected_answer, is_correct)
+    SELECT v_attempt.id, q.id, NULL, false
+    FROM mock_test_questions mtq
+    JOIN questions q ON q.id = mtq.question_id
+    WHERE mtq.mock_test_id = p_mock_test_id
+    AND q.question_type <> 'descriptive'
+    ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+    SELECT COUNT(*) INTO v_total
+    FROM mock_attempt_answers maa
+    WHERE maa.attempt_id = v_attempt.id;
+
+    UPDATE mock_attempts
+    SET
+      score = 0,
+      correct_count = 0,
+      wrong_count = 0,
+      skipped_count = v_total,
+      total_questions = v_total,
+      net_marks = 0,
+      max_marks = v_total * v_mock.marks_per_correct,
+      duration_seconds = GREATEST(EXTRACT(EPOCH FROM v_deadline - v_attempt.started_at), 0)::integer,
+      submitted_at = v_deadline
+    WHERE id = v_attempt.id;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_leaderboard(p_mock_test_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  rank integer,
+  percentile numeric,
+  net_marks numeric,
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  duration_seconds integer,
+  is_self boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM close_expired_mock_attempts(p_mock_test_id);
+
+  RETURN QUERY
+    SELECT
+      ma.user_id,
+      p.full_name,
+      (RANK() OVER (ORDER BY ma.net_marks DESC))::integer,
+      round((cume_dist() OVER (ORDER BY ma.net_marks) * 100)::numeric, 2),
+      ma.net_marks,
+      ma.score,
+      ma.correct_count,
+      ma.wrong_count,
+      ma.duration_seconds,
+      ma.user_id = auth.uid()
+    FROM mock_attempts ma
+    JOIN profiles p ON p.id = ma.user_id
+    WHERE ma.mock_test_id = p_mock_test_id
+    AND ma.submitted_at IS NOT NULL
+    AND can_view_mock_results(p_mock_test_id)
+    ORDER BY ma.net_marks DESC, ma.duration_seconds, p.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_subject_scores(p_mock_test_id uuid)
+RETURNS TABLE (
+  subject_id uuid,
+  subject_name text,
+  total_questions integer,
+  correct_count integer,
+  wrong_count integer,
+  net_marks numeric,
+  max_marks numeric,
+  average_net_marks numeric,
+  top_net_marks numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM close_expired_mock_attempts(p_mock_test_id);
+
+  RETURN QUERY
+    WITH per_candidate AS (
+      SELECT
+        ma.user_id,
+        sub.id AS subject_id,
+        sub.name AS subject_name,
+        COUNT(*) AS total_questions,
+        COUNT(*) FILTER (WHERE maa.is_correct) AS correct_count,
+        COUNT(*) FILTER (WHERE maa.selected_answer IS NOT NULL AND NOT maa.is_correct) AS wrong_count,
+        COUNT(*) FILTER (WHERE maa.is_correct) * mt.marks_per_correct
+          - COUNT(*) FILTER (WHERE maa.selected_answer IS NOT NULL AND NOT maa.is_correct) * mt.negative_marks AS net_marks,
+        COUNT(*) * mt.marks_per_correct AS max_marks
+      FROM mock_attempts ma
+      JOIN mock_tests mt ON mt.id = ma.mock_test_id
+      JOIN mock_attempt_answers maa ON maa.attempt_id = ma.id
+      JOIN questions q ON q.id = maa.question_id
+      JOIN sections s ON s.id = q.section_id
+      JOIN modules m ON m.id = s.module_id
+      JOIN subjects sub ON sub.id = m.subject_id
+      WHERE ma.mock_test_id = p_mock_test_id
+      AND ma.submitted_at IS NOT NULL
+      AND can_view_mock_results(p_mock_test_id)
+      GROUP BY ma.user_id, sub.id, sub.name, mt.marks_per_correct, mt.negative_marks
+    )
+    SELECT
+      pc.subject_id,
+      pc.subject_name,
+      MAX(pc.total_questions)::integer,
+      (MAX(pc.correct_count) FILTER (WHERE pc.user_id = auth.uid()))::integer,
+      (MAX(pc.wrong_count) FILTER (WHERE pc.user_id = auth.uid()))::integer,
+      MAX(pc.net_marks) FILTER (WHERE pc.user_id = auth.uid()),
+      MAX(pc.max_marks),
+      round(AVG(pc.net_marks), 2),
+      MAX(pc.net_marks)
+    FROM per_candidate pc
+    GROUP BY pc.subject_id, pc.subject_name
+    ORDER BY pc.subject_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_mock_review(p_mock_test_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM close_expired_mock_attempts(p_mock_test_id);
+
+  RETURN QUERY
+    SELECT
+      q.id,
+      q.question_text,
+      q.option_a,
+      q.option_b,
+      q.option_c,
+      q.option_d,
+      q.correct_answer,
+      q.explanation,
+      mtq.order_index,
+      maa.selected_answer,
+      maa.is_correct,
+      q.image_url,
+      q.option_a_image_url,
+      q.option_b_image_url,
+      q.option_c_image_url,
+      q.option_d_image_url,
+      q.question_type,
+      q.statements,
+      q.match_pairs,
+      NULL::text
+    FROM mock_attempts ma
+    JOIN mock_attempt_answers maa ON maa.attempt_id = ma.id
+    JOIN questions q ON q.id = maa.question_id
+    JOIN mock_test_questions mtq ON mtq.mock_test_id = ma.mock_test_id AND mtq.question_id = q.id
+    WHERE ma.mock_test_id = p_mock_test_id
+    AND ma.user_id = auth.uid()
+    AND ma.submitted_at IS NOT NULL
+    AND can_view_mock_results(p_mock_test_id)
+    ORDER BY mtq.order_index, q.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_mock_leaderboard(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_subject_scores(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mock_review(uuid) TO authenticated;
@@ -0,0 +1,38 @@
+/*
+  # No Answer Checking for Withheld Questions
+
+  1. Functions
+    - `check_revision_answer` leaves `is_correct` empty, as well as the key and
+      explanation, while `can_view_question_key` withholds the question's key
+
+  2. Security
+    - `held_for_mock_test` and `can_view_question_key` can no longer be called
+      directly; only the functions that use them can
+
+  3. Notes
+    - Checking A, B, C and D in turn used to give away a withheld key
+    - Calling `held_for_mock_test` with known question ids gave away which
+      questions were in an open mock test
+*/
+
+CREATE OR REPLACE FUNCTION check_revision_answer(p_card_id uuid, p_answer text)
+RETURNS TABLE (is_correct boolean, correct_answer text, explanation text)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN k.released THEN q.correct_answer = COALESCE(normalize_choice_answer(p_answer), '') END,
+    CASE WHEN k.released THEN q.correct_answer END,
+    CASE WHEN k.released THEN q.explanation END
+  FROM revision_cards rc
+  JOIN questions q ON q.id = rc.question_id
+  CROSS JOIN LATERAL (SELECT can_view_question_key(q.id) AS released) k
+  WHERE rc.id = p_card_id
+  AND rc.user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION held_for_mock_test(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION can_view_question_key(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION check_revision_answer(uuid, text) TO authenticated;
@@ -0,0 +1,174 @@
+/*
+  # Practice Tests Use Unfinished Tests' Questions Again
+
+  1. Functions
+    - `create_practice_test` picks questions from test sections the student
+      hasn't finished again, and only leaves out questions held for a mock test
+    - `get_practice_test_review` also leaves `is_correct` empty while a
+      question's key is withheld
+
+  2. Notes
+    - Leaving out unfinished tests' questions left practice tests with only
+      material the student had already covered; hiding their key in the
+      review is enough to keep it from leaking
+    - Whether a single-answer question was right gives its key away, so it
+      is withheld along with the key
+*/
+
+CREATE OR REPLACE FUNCTION create_practice_test(
+  p_title text,
+  p_module_ids uuid[],
+  p_question_count integer,
+  p_time_limit_minutes integer DEFAULT NULL,
+  p_marks_per_correct numeric DEFAULT 1,
+  p_negative_marks numeric DEFAULT 0,
+  p_only_pyq boolean DEFAULT false,
+  p_history text DEFAULT 'all'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_question_ids uuid[];
+  v_practice_test_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_question_count IS NULL OR p_question_count NOT BETWEEN 1 AND 200 THEN
+    RAISE EXCEPTION 'Choose between 1 and 200 questions';
+  END IF;
+
+  IF p_history NOT IN ('all', 'unattempted', 'incorrect') THEN
+    RAISE EXCEPTION 'Unknown question filter';
+  END IF;
+
+  v_question_ids := ARRAY(
+    SELECT q.id
+    FROM questions q
+    JOIN sections s ON s.id = q.section_id
+    JOIN modules m ON m.id = s.module_id
+    WHERE m.id = ANY(p_module_ids)
+    AND m.is_active
+    AND can_access_subject(m.subject_id)
+    AND q.question_type <> 'descriptive'
+    AND NOT held_for_mock_test(q.id)
+    AND (NOT p_only_pyq OR q.is_pyq)
+    AND (
+      p_history = 'all'
+      OR (p_history = 'unattempted' AND NOT EXISTS (
+        SELECT 1 FROM attempt_answers aa
+        JOIN test_attempts ta ON ta.id = aa.attempt_id
+        WHERE ta.user_id = v_user_id AND aa.question_id = q.id AND aa.selected_answer IS NOT NULL
+      ) AND NOT EXISTS (
+        SELECT 1 FROM practice_test_answers pa
+        JOIN practice_tests pt ON pt.id = pa.practice_test_id
+        WHERE pt.user_id = v_user_id AND pa.question_id = q.id AND pa.selected_answer IS NOT NULL
+      ))
+      OR (p_history = 'incorrect' AND (EXISTS (
+        SELECT 1 FROM attempt_answers aa
+        JOIN test_attempts ta ON ta.id = aa.attempt_id
+        WHERE ta.user_id = v_user_id AND aa.question_id = q.id AND aa.selected_answer IS NOT NULL AND NOT aa.is_correct
+      ) OR EXISTS (
+        SELECT 1 FROM practice_test_answers pa
+        JOIN practice_tests pt ON pt.id = pa.practice_test_id
+        WHERE pt.user_id = v_user_id AND pa.question_id = q.id AND pa.selected_answer IS NOT NULL AND NOT pa.is_correct
+      )))
+    )
+    ORDER BY random()
+    LIMIT p_question_count
+  );
+
+  IF cardinality(v_question_ids) = 0 THEN
+    RAISE EXCEPTION 'No questions match these filters';
+  END IF;
+
+  INSERT INTO practice_tests (
+    user_id, title, module_ids, question_ids, only_pyq, history,
+    time_limit_minutes, marks_per_correct, negative_marks, total_questions
+  )
+  VALUES (
+    v_user_id,
+    COALESCE(NULLIF(btrim(p_title), ''), 'Practice Test'),
+    p_module_ids,
+    v_question_ids,
+    p_only_pyq,
+    p_history,
+    p_time_limit_minutes,
+    p_marks_per_correct,
+    p_negative_marks,
+    cardinality(v_question_ids)
+  )
+  RETURNING id INTO v_practice_test_id;
+
+  RETURN v_practice_test_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_practice_test_review(p_practice_test_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text,
+  key_released boolean
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    CASE WHEN k.released THEN q.correct_answer END,
+    CASE WHEN k.released THEN q.explanation END,
+    position_in_test.n::integer,
+    pa.selected_answer,
+    CASE WHEN k.released THEN pa.is_correct END,
+    q.image_url,
+    q.option_a_image_url,
+    q.option_b_image_url,
+    q.option_c_image_url,
+    q.option_d_image_url,
+    q.question_type,
+    q.statements,
+    q.match_pairs,
+    NULL::text,
+    k.released
+  FROM practice_tests pt
+  CROSS JOIN LATERAL unnest(pt.question_ids) WITH ORDINALITY AS position_in_test(question_id, n)
+  JOIN questions q ON q.id = position_in_test.question_id
+  JOIN practice_test_answers pa ON pa.practice_test_id = pt.id AND pa.question_id = q.id
+  CROSS JOIN LATERAL (SELECT can_view_question_key(q.id) AS released) k
+  WHERE pt.id = p_practice_test_id
+  AND pt.user_id = auth.uid()
+  AND pt.submitted_at IS NOT NULL
+  ORDER BY position_in_test.n;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_practice_test(text, uuid[], integer, integer, numeric, numeric, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_practice_test_review(uuid) TO authenticated;
@@ -0,0 +1,86 @@
+/*
+  # Question Analytics by Permission and First Attempts
+
+  1. Functions
+    - `get_question_analytics` is open to staff with `view_all_students`, the
+      same permission the question editor checks before offering it, instead
+      of `is_admin()`
+    - The discrimination index ranks each student's first attempt at the
+      section only
+
+  2. Notes
+    - Retakes let a student who had already seen the answers land in the top
+      group, and let one student fill several places in either group
+    - Response counts, option counts and average time still cover every
+      attempt
+    - The index stays null until 10 students have attempted the section
+*/
+
+-- Same columns, so the function can be replaced in place
+CREATE OR REPLACE FUNCTION get_question_analytics(p_section_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  responses integer,
+  correct_count integer,
+  skipped_count integer,
+  option_a_count integer,
+  option_b_count integer,
+  option_c_count integer,
+  option_d_count integer,
+  avg_time_seconds numeric,
+  discrimination_index numeric
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH first_attempts AS (
+    SELECT DISTINCT ON (ta.user_id) ta.id, ta.score, ta.submitted_at
+    FROM test_attempts ta
+    WHERE ta.section_id = p_section_id
+    ORDER BY ta.user_id, ta.submitted_at
+  ),
+  ranked AS (
+    SELECT
+      fa.id,
+      ROW_NUMBER() OVER (ORDER BY fa.score DESC, fa.submitted_at) AS position,
+      COUNT(*) OVER () AS attempt_count
+    FROM first_attempts fa
+  ),
+  groups AS (
+    SELECT
+      id,
+      attempt_count,
+      CASE
+        WHEN position <= ceil(attempt_count * 0.27) THEN 'upper'
+        WHEN position > attempt_count - ceil(attempt_count * 0.27) THEN 'lower'
+      END AS score_group
+    FROM ranked
+  )
+  SELECT
+    q.id,
+    COUNT(aa.id)::integer,
+    COUNT(*) FILTER (WHERE aa.is_correct)::integer,
+    COUNT(*) FILTER (WHERE aa.id IS NOT NULL AND aa.selected_answer IS NULL AND aa.answer_text IS NULL)::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%A%')::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%B%')::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%C%')::integer,
+    COUNT(*) FILTER (WHERE aa.selected_answer LIKE '%D%')::integer,
+    round(AVG(aa.time_spent_seconds), 1),
+    CASE WHEN q.question_type <> 'descriptive' AND MAX(g.attempt_count) >= 10 THEN
+      round(
+        AVG(aa.is_correct::integer) FILTER (WHERE g.score_group = 'upper')
+        - AVG(aa.is_correct::integer) FILTER (WHERE g.score_group = 'lower'),
+        2
+      )
+    END
+  FROM questions q
+  LEFT JOIN attempt_answers aa ON aa.question_id = q.id
+  LEFT JOIN groups g ON g.id = aa.attempt_id
+  WHERE q.section_id = p_section_id
+  AND has_permission('view_all_students')
+  GROUP BY q.id, q.question_type, q.order_index
+  ORDER BY q.order_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_question_analytics(uuid) TO authenticated;
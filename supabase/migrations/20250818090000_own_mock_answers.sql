@@ -0,0 +1,25 @@
+/*
+  # Students Can Read Their Own Mock Answers
+
+  1. Security
+    - Students can read the answers of their own mock attempts once the mock
+      test has closed, so "Download my data" can include them
+
+  2. Notes
+    - Until the window closes `is_correct` would give the key away to anyone
+      still sitting the test, so the answers stay hidden until then, as the
+      review and leaderboard do
+*/
+
+CREATE POLICY "Users can read own mock answers after the test closes"
+  ON mock_attempt_answers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM mock_attempts ma
+      JOIN mock_tests mt ON mt.id = ma.mock_test_id
+      WHERE ma.id = mock_attempt_answers.attempt_id
+      AND ma.user_id = auth.uid()
+      AND mt.closes_at <= now()
+    )
+  );
@@ -0,0 +1,90 @@
+/*
+  # Withhold Correctness Along With the Key
+
+  1. Functions
+    - `get_attempt_review` leaves `is_correct` empty while a question's key is
+      withheld, as the practice test review does
+
+  2. Security
+    - Students no longer read `is_correct` straight from `attempt_answers` or
+      `practice_test_answers`; the reviews return it once the key is released
+
+  3. Notes
+    - For a single-answer question, knowing the chosen option was right or
+      wrong gives the key away before the student has passed the test
+*/
+
+REVOKE SELECT ON attempt_answers FROM anon, authenticated;
+GRANT SELECT (
+  id, attempt_id, question_id, selected_answer, answer_text, time_spent_seconds, created_at
+) ON attempt_answers TO authenticated;
+
+REVOKE SELECT ON practice_test_answers FROM anon, authenticated;
+GRANT SELECT (
+  id, practice_test_id, question_id, selected_answer, time_spent_seconds
+) ON practice_test_answers TO authenticated;
+
+-- Same columns, so the function can be replaced in place
+CREATE OR REPLACE FUNCTION get_attempt_review(p_attempt_id uuid)
+RETURNS TABLE (
+  question_id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  explanation text,
+  order_index integer,
+  selected_answer text,
+  is_correct boolean,
+  image_url text,
+  option_a_image_url text,
+  option_b_image_url text,
+  option_c_image_url text,
+  option_d_image_url text,
+  question_type text,
+  statements text[],
+  match_pairs jsonb,
+  answer_text text,
+  key_released boolean
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    aa.question_id,
+    sq.question_text,
+    sq.option_a,
+    sq.option_b,
+    sq.option_c,
+    sq.option_d,
+    CASE WHEN k.released THEN sq.correct_answer END,
+    CASE WHEN k.released THEN sq.explanation END,
+    sq.order_index,
+    aa.selected_answer,
+    CASE WHEN k.released THEN aa.is_correct END,
+    sq.image_url,
+    sq.option_a_image_url,
+    sq.option_b_image_url,
+    sq.option_c_image_url,
+    sq.option_d_image_url,
+    sq.question_type,
+    sq.statements,
+    sq.match_pairs,
+    aa.answer_text,
+    k.released
+  FROM attempt_answers aa
+  JOIN test_attempts ta ON ta.id = aa.attempt_id
+  JOIN sections s ON s.id = ta.section_id
+  JOIN modules m ON m.id = s.module_id
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::questions, aa.question_snapshot) sq
+  CROSS JOIN LATERAL (SELECT can_view_question_key(aa.question_id) AS released) k
+  WHERE aa.attempt_id = p_attempt_id
+  AND ta.user_id = auth.uid()
+  AND can_access_subject(m.subject_id)
+  ORDER BY sq.order_index;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_attempt_review(uuid) TO authenticated;
@@ -0,0 +1,27 @@
+/*
+  # Correct Answers Must Point at Existing Options
+
+  1. Schema Changes
+    - `questions_correct_option_check` - Every letter in `correct_answer` must
+      name an option the question has; A and B are already required, so C and
+      D are checked
+
+  2. Notes
+    - The question editor and the CSV import already reject this, but a
+      question saved another way could be keyed to an empty option no student
+      can pick
+    - An option with only an image is stored as empty text, so a null option
+      column means the option is missing
+    - Added NOT VALID so existing questions don't block the migration; new and
+      edited questions are checked from now on
+*/
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_correct_option_check;
+
+ALTER TABLE questions
+  ADD CONSTRAINT questions_correct_option_check CHECK (
+    question_type = 'descriptive' OR (
+      (position('C' IN correct_answer) = 0 OR option_c IS NOT NULL)
+      AND (position('D' IN correct_answer) = 0 OR option_d IS NOT NULL)
+    )
+  ) NOT VALID;
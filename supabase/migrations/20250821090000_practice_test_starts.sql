@@ -0,0 +1,195 @@
+/*
+  # Server-Timed Practice Tests
+
+  1. Functions
+    - `start_practice_test` - Starts (or resumes) the caller's practice test,
+      records the start in `practice_tests.started_at` and returns its deadline
+    - `submit_practice_test` no longer takes the start time from the browser;
+      it uses the recorded start, and rejects timed tests submitted after the
+      deadline
+
+  2. Notes
+    - The time taken and the time limit used to rest on a start time the
+      browser could set to anything
+    - Starts are kept and replaced on the same terms as section tests, with
+      the same two minutes of grace
+*/
+
+CREATE OR REPLACE FUNCTION start_practice_test(p_practice_test_id uuid, p_resume boolean DEFAULT false)
+RETURNS TABLE (started_at timestamptz, deadline timestamptz, resumed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_test practice_tests%ROWTYPE;
+  v_limit interval;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_test
+  FROM practice_tests pt
+  WHERE pt.id = p_practice_test_id AND pt.user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice test not found';
+  END IF;
+
+  IF v_test.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This practice test has already been submitted';
+  END IF;
+
+  v_limit := make_interval(mins => v_test.time_limit_minutes);
+
+  IF v_test.started_at IS NOT NULL AND (
+    (v_limit IS NULL AND p_resume)
+    OR now() <= v_test.started_at + v_limit + interval '2 minutes'
+  ) THEN
+    RETURN QUERY SELECT v_test.started_at, v_test.started_at + v_limit, true;
+    RETURN;
+  END IF;
+
+  UPDATE practice_tests pt
+  SET started_at = now()
+  WHERE pt.id = v_test.id
+  RETURNING pt.started_at INTO v_test.started_at;
+
+  RETURN QUERY SELECT v_test.started_at, v_test.started_at + v_limit, false;
+END;
+$$;
+
+-- The start time parameter is gone, so the function has to be recreated
+DROP FUNCTION IF EXISTS submit_practice_test(uuid, jsonb, timestamptz, jsonb, jsonb);
+
+CREATE FUNCTION submit_practice_test(
+  p_practice_test_id uuid,
+  p_answers jsonb,
+  p_question_times jsonb DEFAULT NULL,
+  p_flagged_question_ids jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  score numeric,
+  correct_count integer,
+  wrong_count integer,
+  skipped_count integer,
+  total_questions integer,
+  net_marks numeric,
+  max_marks numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_test practice_tests%ROWTYPE;
+  v_correct integer;
+  v_wrong integer;
+  v_skipped integer;
+  v_net numeric(8,2);
+  v_max numeric(8,2);
+  v_score numeric(5,2);
+  v_submitted_at timestamptz := now();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_test
+  FROM practice_tests pt
+  WHERE pt.id = p_practice_test_id AND pt.user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice test not found';
+  END IF;
+
+  IF v_test.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This practice test has already been submitted';
+  END IF;
+
+  IF v_test.started_at IS NULL THEN
+    RAISE EXCEPTION 'Start the practice test before submitting it';
+  END IF;
+
+  IF v_submitted_at > v_test.started_at + make_interval(mins => v_test.time_limit_minutes) + interval '2 minutes' THEN
+    RAISE EXCEPTION 'Time is up for this practice test';
+  END IF;
+
+  INSERT INTO practice_test_answers (practice_test_id, question_id, selected_answer, is_correct, time_spent_seconds)
+  SELECT
+    v_test.id,
+    q.id,
+    normalize_choice_answer(p_answers ->> q.id::text),
+    q.correct_answer = COALESCE(normalize_choice_answer(p_answers ->> q.id::text), ''),
+    CASE WHEN jsonb_typeof(p_question_times -> q.id::text) = 'number'
+      THEN GREATEST(round((p_question_times ->> q.id::text)::numeric), 0)::integer
+    END
+  FROM questions q
+  WHERE q.id = ANY(v_test.question_ids);
+
+  SELECT
+    COUNT(*) FILTER (WHERE pa.is_correct),
+    COUNT(*) FILTER (WHERE pa.selected_answer IS NOT NULL AND NOT pa.is_correct)
+  INTO v_correct, v_wrong
+  FROM practice_test_answers pa
+  WHERE pa.practice_test_id = v_test.id;
+
+  -- Questions deleted since the test was built count as skipped
+  v_skipped := v_test.total_questions - v_correct - v_wrong;
+  v_net := v_correct * v_test.marks_per_correct - v_wrong * v_test.negative_marks;
+  v_max := v_test.total_questions * v_test.marks_per_correct;
+  v_score := CASE WHEN v_max > 0 THEN GREATEST(round(v_net * 100.0 / v_max, 2), 0) ELSE 0 END;
+
+  UPDATE practice_tests
+  SET
+    score = v_score,
+    correct_count = v_correct,
+    wrong_count = v_wrong,
+    skipped_count = v_skipped,
+    net_marks = v_net,
+    max_marks = v_max,
+    duration_seconds = GREATEST(EXTRACT(EPOCH FROM v_submitted_at - v_test.started_at), 0)::integer,
+    submitted_at = v_submitted_at
+  WHERE id = v_test.id;
+
+  IF jsonb_typeof(p_flagged_question_ids) = 'array' THEN
+    PERFORM add_revision_cards(
+      v_user_id,
+      ARRAY(
+        SELECT q.id
+        FROM questions q
+        WHERE q.id = ANY(v_test.question_ids)
+        AND q.id::text IN (SELECT jsonb_array_elements_text(p_flagged_question_ids))
+      ),
+      'flagged'
+    );
+  END IF;
+
+  PERFORM add_revision_cards(
+    v_user_id,
+    ARRAY(
+      SELECT pa.question_id
+      FROM practice_test_answers pa
+      WHERE pa.practice_test_id = v_test.id
+      AND pa.selected_answer IS NOT NULL
+      AND NOT pa.is_correct
+    ),
+    'incorrect'
+  );
+
+  INSERT INTO study_activity (user_id, section_id, activity_type)
+  VALUES (v_user_id, NULL, 'practice_submitted');
+
+  RETURN QUERY SELECT v_score, v_correct, v_wrong, v_skipped, v_test.total_questions, v_net, v_max;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_practice_test(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_practice_test(uuid, jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,20 @@
+/*
+  # Skipped Questions Can't Earn Marks
+
+  1. Schema Changes
+    - `sections.unanswered_marks` must be zero or a penalty
+
+  2. Notes
+    - A positive value let a student score over 100% by leaving everything
+      blank
+    - Sections already set to reward skipped questions are reset to 0 first
+*/
+
+UPDATE sections
+SET unanswered_marks = 0
+WHERE unanswered_marks > 0;
+
+ALTER TABLE sections DROP CONSTRAINT IF EXISTS sections_unanswered_marks_check;
+
+ALTER TABLE sections
+  ADD CONSTRAINT sections_unanswered_marks_check CHECK (unanswered_marks <= 0);
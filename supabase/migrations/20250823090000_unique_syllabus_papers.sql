@@ -0,0 +1,28 @@
+/*
+  # Unique Top-Level Syllabus Papers
+
+  1. Schema Changes
+    - `idx_syllabus_nodes_root_name` - Top-level nodes (papers) must have
+      distinct names
+
+  2. Notes
+    - UNIQUE (parent_id, name) treats NULL parents as distinct, so two papers
+      could share a name and questions would be tagged against either
+    - Papers that already share a name get a number appended, so the index can
+      be built; tags and coverage stay on the node they were attached to
+*/
+
+WITH duplicates AS (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (PARTITION BY name ORDER BY created_at, id) AS n
+  FROM syllabus_nodes
+  WHERE parent_id IS NULL
+)
+UPDATE syllabus_nodes sn
+SET name = sn.name || ' (' || d.n || ')'
+FROM duplicates d
+WHERE d.id = sn.id
+AND d.n > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_syllabus_nodes_root_name ON syllabus_nodes(name) WHERE parent_id IS NULL;